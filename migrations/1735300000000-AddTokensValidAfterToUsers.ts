@@ -0,0 +1,19 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+export class AddTokensValidAfterToUsers1735300000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Tokens issued before this instant are rejected
+    await queryRunner.addColumn(
+      'users',
+      new TableColumn({
+        name: 'tokensValidAfter',
+        type: 'timestamp',
+        isNullable: true,
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('users', 'tokensValidAfter');
+  }
+}
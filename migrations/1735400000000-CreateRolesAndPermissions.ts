@@ -0,0 +1,164 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  Table,
+  TableForeignKey,
+} from 'typeorm';
+
+export class CreateRolesAndPermissions1735400000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'roles',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'name',
+            type: 'varchar',
+            length: '50',
+            isUnique: true,
+            isNullable: false,
+          },
+          {
+            name: 'description',
+            type: 'varchar',
+            length: '255',
+            isNullable: true,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'permissions',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'name',
+            type: 'varchar',
+            length: '100',
+            isUnique: true,
+            isNullable: false,
+          },
+          {
+            name: 'description',
+            type: 'varchar',
+            length: '255',
+            isNullable: true,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'role_permissions',
+        columns: [
+          { name: 'roleId', type: 'uuid', isPrimary: true },
+          { name: 'permissionId', type: 'uuid', isPrimary: true },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createForeignKeys('role_permissions', [
+      new TableForeignKey({
+        columnNames: ['roleId'],
+        referencedTableName: 'roles',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+      }),
+      new TableForeignKey({
+        columnNames: ['permissionId'],
+        referencedTableName: 'permissions',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+      }),
+    ]);
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'user_roles',
+        columns: [
+          { name: 'userId', type: 'uuid', isPrimary: true },
+          { name: 'roleId', type: 'uuid', isPrimary: true },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createForeignKeys('user_roles', [
+      new TableForeignKey({
+        columnNames: ['userId'],
+        referencedTableName: 'users',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+      }),
+      new TableForeignKey({
+        columnNames: ['roleId'],
+        referencedTableName: 'roles',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+      }),
+    ]);
+
+    // Seed default roles and permissions
+    await queryRunner.query(`
+      INSERT INTO roles (name, description) VALUES
+        ('admin', 'Full administrative access'),
+        ('user', 'Default role for registered users')
+    `);
+
+    await queryRunner.query(`
+      INSERT INTO permissions (name, description) VALUES
+        ('users:read', 'View any user account'),
+        ('users:write', 'Modify any user account'),
+        ('tokens:revoke', 'Revoke all tokens issued to a user')
+    `);
+
+    await queryRunner.query(`
+      INSERT INTO role_permissions ("roleId", "permissionId")
+      SELECT r.id, p.id FROM roles r CROSS JOIN permissions p
+      WHERE r.name = 'admin'
+    `);
+
+    // Existing accounts get the default role
+    await queryRunner.query(`
+      INSERT INTO user_roles ("userId", "roleId")
+      SELECT u.id, r.id FROM users u CROSS JOIN roles r
+      WHERE r.name = 'user'
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('user_roles');
+    await queryRunner.dropTable('role_permissions');
+    await queryRunner.dropTable('permissions');
+    await queryRunner.dropTable('roles');
+  }
+}
@@ -0,0 +1,95 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  Table,
+  TableForeignKey,
+  TableIndex,
+} from 'typeorm';
+
+export class CreateApiKeys1735500000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'api_keys',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'name',
+            type: 'varchar',
+            length: '100',
+            isNullable: false,
+          },
+          {
+            name: 'prefix',
+            type: 'varchar',
+            length: '32',
+            isNullable: false,
+          },
+          {
+            name: 'keyHash',
+            type: 'varchar',
+            length: '64',
+            isNullable: false,
+          },
+          {
+            name: 'userId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'scopes',
+            type: 'text',
+            isArray: true,
+            default: "'{}'",
+          },
+          {
+            name: 'expiresAt',
+            type: 'timestamp',
+            isNullable: true,
+          },
+          {
+            name: 'lastUsedAt',
+            type: 'timestamp',
+            isNullable: true,
+          },
+          {
+            name: 'revokedAt',
+            type: 'timestamp',
+            isNullable: true,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createIndices('api_keys', [
+      new TableIndex({ columnNames: ['prefix'], isUnique: true }),
+      new TableIndex({ columnNames: ['userId'] }),
+    ]);
+
+    await queryRunner.createForeignKey(
+      'api_keys',
+      new TableForeignKey({
+        columnNames: ['userId'],
+        referencedTableName: 'users',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('api_keys');
+  }
+}
@@ -0,0 +1,19 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+export class AddEmailVerifiedAtToUsers1735600000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // NULL until the user follows the link sent to their email address
+    await queryRunner.addColumn(
+      'users',
+      new TableColumn({
+        name: 'emailVerifiedAt',
+        type: 'timestamp',
+        isNullable: true,
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('users', 'emailVerifiedAt');
+  }
+}
@@ -0,0 +1,80 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  Table,
+  TableColumn,
+  TableForeignKey,
+} from 'typeorm';
+
+export class AddTwoFactorAuth1735700000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumns('users', [
+      new TableColumn({
+        name: 'twoFactorSecret',
+        type: 'varchar',
+        length: '64',
+        isNullable: true,
+      }),
+      // Set once enrollment is confirmed; a secret without it is pending
+      new TableColumn({
+        name: 'twoFactorEnabledAt',
+        type: 'timestamp',
+        isNullable: true,
+      }),
+    ]);
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'two_factor_recovery_codes',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'userId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'codeHash',
+            type: 'varchar',
+            length: '64',
+            isNullable: false,
+          },
+          {
+            name: 'usedAt',
+            type: 'timestamp',
+            isNullable: true,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+          },
+        ],
+        indices: [{ columnNames: ['userId'] }],
+      }),
+      true,
+    );
+
+    await queryRunner.createForeignKey(
+      'two_factor_recovery_codes',
+      new TableForeignKey({
+        columnNames: ['userId'],
+        referencedTableName: 'users',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('two_factor_recovery_codes');
+    await queryRunner.dropColumn('users', 'twoFactorEnabledAt');
+    await queryRunner.dropColumn('users', 'twoFactorSecret');
+  }
+}
@@ -0,0 +1,113 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  Table,
+  TableForeignKey,
+  TableIndex,
+} from 'typeorm';
+
+export class CreateOAuthClients1735900000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'oauth_clients',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'clientId',
+            type: 'varchar',
+            length: '64',
+            isNullable: false,
+          },
+          {
+            name: 'name',
+            type: 'varchar',
+            length: '100',
+            isNullable: false,
+          },
+          {
+            name: 'secretHash',
+            type: 'varchar',
+            length: '64',
+            isNullable: true,
+          },
+          {
+            name: 'redirectUris',
+            type: 'text',
+            isArray: true,
+            default: "'{}'",
+          },
+          {
+            name: 'grantTypes',
+            type: 'text',
+            isArray: true,
+            default: "'{}'",
+          },
+          {
+            name: 'scopes',
+            type: 'text',
+            isArray: true,
+            default: "'{}'",
+          },
+          {
+            name: 'createdById',
+            type: 'uuid',
+            isNullable: true,
+          },
+          {
+            name: 'revokedAt',
+            type: 'timestamp',
+            isNullable: true,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createIndex(
+      'oauth_clients',
+      new TableIndex({ columnNames: ['clientId'], isUnique: true }),
+    );
+
+    // Clients outlive the admin who registered them
+    await queryRunner.createForeignKey(
+      'oauth_clients',
+      new TableForeignKey({
+        columnNames: ['createdById'],
+        referencedTableName: 'users',
+        referencedColumnNames: ['id'],
+        onDelete: 'SET NULL',
+      }),
+    );
+
+    await queryRunner.query(`
+      INSERT INTO permissions (name, description) VALUES
+        ('oauth_clients:manage', 'Register and revoke OAuth client applications')
+    `);
+
+    await queryRunner.query(`
+      INSERT INTO role_permissions ("roleId", "permissionId")
+      SELECT r.id, p.id FROM roles r CROSS JOIN permissions p
+      WHERE r.name = 'admin' AND p.name = 'oauth_clients:manage'
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // role_permissions rows go with the permission (ON DELETE CASCADE)
+    await queryRunner.query(
+      `DELETE FROM permissions WHERE name = 'oauth_clients:manage'`,
+    );
+    await queryRunner.dropTable('oauth_clients');
+  }
+}
@@ -0,0 +1,100 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  Table,
+  TableForeignKey,
+  TableIndex,
+} from 'typeorm';
+
+export class CreateWebAuthnCredentials1736000000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'webauthn_credentials',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'credentialId',
+            type: 'varchar',
+            length: '1024',
+            isNullable: false,
+          },
+          {
+            name: 'publicKey',
+            type: 'bytea',
+            isNullable: false,
+          },
+          {
+            name: 'counter',
+            type: 'bigint',
+            default: 0,
+          },
+          {
+            name: 'transports',
+            type: 'text',
+            isArray: true,
+            default: "'{}'",
+          },
+          {
+            name: 'name',
+            type: 'varchar',
+            length: '100',
+            isNullable: false,
+          },
+          {
+            name: 'deviceType',
+            type: 'varchar',
+            length: '20',
+            isNullable: false,
+          },
+          {
+            name: 'backedUp',
+            type: 'boolean',
+            default: false,
+          },
+          {
+            name: 'userId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'lastUsedAt',
+            type: 'timestamp',
+            isNullable: true,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createIndices('webauthn_credentials', [
+      new TableIndex({ columnNames: ['credentialId'], isUnique: true }),
+      new TableIndex({ columnNames: ['userId'] }),
+    ]);
+
+    await queryRunner.createForeignKey(
+      'webauthn_credentials',
+      new TableForeignKey({
+        columnNames: ['userId'],
+        referencedTableName: 'users',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('webauthn_credentials');
+  }
+}
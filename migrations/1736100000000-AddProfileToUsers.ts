@@ -0,0 +1,43 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+export class AddProfileToUsers1736100000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumns('users', [
+      new TableColumn({
+        name: 'displayName',
+        type: 'varchar',
+        length: '100',
+        isNullable: true,
+      }),
+      // BCP 47 language tag, e.g. en-GB
+      new TableColumn({
+        name: 'locale',
+        type: 'varchar',
+        length: '35',
+        isNullable: true,
+      }),
+      // IANA time zone, e.g. Europe/Berlin
+      new TableColumn({
+        name: 'timezone',
+        type: 'varchar',
+        length: '64',
+        isNullable: true,
+      }),
+      // Requested new address, applied once the emailed link is followed
+      new TableColumn({
+        name: 'pendingEmail',
+        type: 'varchar',
+        isNullable: true,
+      }),
+    ]);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumns('users', [
+      'displayName',
+      'locale',
+      'timezone',
+      'pendingEmail',
+    ]);
+  }
+}
@@ -0,0 +1,24 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+export class AddSuspensionToUsers1736200000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Set while an admin has suspended the account; NULL means active
+    await queryRunner.addColumns('users', [
+      new TableColumn({
+        name: 'suspendedAt',
+        type: 'timestamp',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'suspensionReason',
+        type: 'varchar',
+        length: '500',
+        isNullable: true,
+      }),
+    ]);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumns('users', ['suspendedAt', 'suspensionReason']);
+  }
+}
@@ -0,0 +1,106 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  Table,
+  TableColumn,
+  TableForeignKey,
+  TableIndex,
+} from 'typeorm';
+
+export class AddAccountErasure1736300000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Set when the owner deletes the account; erased for good after a grace period
+    await queryRunner.addColumn(
+      'users',
+      new TableColumn({
+        name: 'deletedAt',
+        type: 'timestamp',
+        isNullable: true,
+      }),
+    );
+    await queryRunner.createIndex(
+      'users',
+      new TableIndex({ columnNames: ['deletedAt'] }),
+    );
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'audit_log',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'action',
+            type: 'varchar',
+            length: '100',
+            isNullable: false,
+          },
+          {
+            name: 'userId',
+            type: 'uuid',
+            isNullable: true,
+          },
+          {
+            name: 'actorId',
+            type: 'uuid',
+            isNullable: true,
+          },
+          {
+            name: 'userPseudonym',
+            type: 'varchar',
+            length: '64',
+            isNullable: true,
+          },
+          {
+            name: 'actorPseudonym',
+            type: 'varchar',
+            length: '64',
+            isNullable: true,
+          },
+          {
+            name: 'details',
+            type: 'jsonb',
+            default: "'{}'",
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createIndices('audit_log', [
+      new TableIndex({ columnNames: ['userId'] }),
+      new TableIndex({ columnNames: ['actorId'] }),
+    ]);
+
+    // Entries outlive the accounts they mention
+    await queryRunner.createForeignKeys('audit_log', [
+      new TableForeignKey({
+        columnNames: ['userId'],
+        referencedTableName: 'users',
+        referencedColumnNames: ['id'],
+        onDelete: 'SET NULL',
+      }),
+      new TableForeignKey({
+        columnNames: ['actorId'],
+        referencedTableName: 'users',
+        referencedColumnNames: ['id'],
+        onDelete: 'SET NULL',
+      }),
+    ]);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('audit_log');
+    await queryRunner.dropColumn('users', 'deletedAt');
+  }
+}
@@ -0,0 +1,184 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  Table,
+  TableForeignKey,
+  TableIndex,
+} from 'typeorm';
+
+export class CreateOrganizations1736400000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'organizations',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'name',
+            type: 'varchar',
+            length: '100',
+            isNullable: false,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'updatedAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'memberships',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'organizationId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'userId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'role',
+            type: 'varchar',
+            length: '20',
+            isNullable: false,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createIndices('memberships', [
+      new TableIndex({
+        columnNames: ['organizationId', 'userId'],
+        isUnique: true,
+      }),
+      new TableIndex({ columnNames: ['userId'] }),
+    ]);
+
+    await queryRunner.createForeignKeys('memberships', [
+      new TableForeignKey({
+        columnNames: ['organizationId'],
+        referencedTableName: 'organizations',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+      }),
+      new TableForeignKey({
+        columnNames: ['userId'],
+        referencedTableName: 'users',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+      }),
+    ]);
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'organization_invites',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'organizationId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'email',
+            type: 'varchar',
+            isNullable: false,
+          },
+          {
+            name: 'role',
+            type: 'varchar',
+            length: '20',
+            isNullable: false,
+          },
+          {
+            name: 'tokenHash',
+            type: 'varchar',
+            isNullable: false,
+          },
+          {
+            name: 'invitedById',
+            type: 'uuid',
+            isNullable: true,
+          },
+          {
+            name: 'expiresAt',
+            type: 'timestamp',
+            isNullable: false,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createIndices('organization_invites', [
+      new TableIndex({
+        columnNames: ['organizationId', 'email'],
+        isUnique: true,
+      }),
+      new TableIndex({ columnNames: ['tokenHash'], isUnique: true }),
+    ]);
+
+    await queryRunner.createForeignKeys('organization_invites', [
+      new TableForeignKey({
+        columnNames: ['organizationId'],
+        referencedTableName: 'organizations',
+        referencedColumnNames: ['id'],
+        onDelete: 'CASCADE',
+      }),
+      new TableForeignKey({
+        columnNames: ['invitedById'],
+        referencedTableName: 'users',
+        referencedColumnNames: ['id'],
+        onDelete: 'SET NULL',
+      }),
+    ]);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('organization_invites');
+    await queryRunner.dropTable('memberships');
+    await queryRunner.dropTable('organizations');
+  }
+}
@@ -0,0 +1,197 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  Table,
+  TableForeignKey,
+  TableIndex,
+} from 'typeorm';
+
+// Starting tiers for the `api` route group; edit them through /v1/admin/plans
+const SEED_PLANS = [
+  {
+    name: 'free',
+    isDefault: true,
+    limits: {
+      api: [
+        { capacity: 60, windowSeconds: 60, strategy: 'gcra' },
+        {
+          capacity: 1000,
+          windowSeconds: 86400,
+          strategy: 'sliding_window_counter',
+        },
+      ],
+    },
+  },
+  {
+    name: 'pro',
+    isDefault: false,
+    limits: {
+      api: [
+        { capacity: 600, windowSeconds: 60, strategy: 'gcra' },
+        {
+          capacity: 100000,
+          windowSeconds: 86400,
+          strategy: 'sliding_window_counter',
+        },
+      ],
+    },
+  },
+  {
+    name: 'enterprise',
+    isDefault: false,
+    limits: {
+      api: [{ capacity: 6000, windowSeconds: 60, strategy: 'gcra' }],
+    },
+  },
+];
+
+export class CreatePlans1736500000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'plans',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'name',
+            type: 'varchar',
+            length: '50',
+            isUnique: true,
+            isNullable: false,
+          },
+          {
+            name: 'limits',
+            type: 'jsonb',
+            default: `'{}'`,
+            isNullable: false,
+          },
+          {
+            name: 'isDefault',
+            type: 'boolean',
+            default: false,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'updatedAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+          },
+        ],
+      }),
+      true,
+    );
+
+    // At most one default plan
+    await queryRunner.createIndex(
+      'plans',
+      new TableIndex({
+        columnNames: ['isDefault'],
+        isUnique: true,
+        where: '"isDefault" = true',
+      }),
+    );
+
+    // The subject is a user, API key or organization, so it has no foreign key
+    await queryRunner.createTable(
+      new Table({
+        name: 'plan_assignments',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'subjectType',
+            type: 'varchar',
+            length: '20',
+            isNullable: false,
+          },
+          {
+            name: 'subjectId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'planId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'overrides',
+            type: 'jsonb',
+            isNullable: true,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'updatedAt',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createIndices('plan_assignments', [
+      new TableIndex({
+        columnNames: ['subjectType', 'subjectId'],
+        isUnique: true,
+      }),
+      new TableIndex({ columnNames: ['planId'] }),
+    ]);
+
+    await queryRunner.createForeignKey(
+      'plan_assignments',
+      new TableForeignKey({
+        columnNames: ['planId'],
+        referencedTableName: 'plans',
+        referencedColumnNames: ['id'],
+        onDelete: 'RESTRICT',
+      }),
+    );
+
+    for (const plan of SEED_PLANS) {
+      await queryRunner.query(
+        `INSERT INTO plans (name, "isDefault", limits) VALUES ($1, $2, $3)`,
+        [plan.name, plan.isDefault, JSON.stringify(plan.limits)],
+      );
+    }
+
+    await queryRunner.query(`
+      INSERT INTO permissions (name, description) VALUES
+        ('plans:manage', 'Manage rate limit plans and their assignments')
+    `);
+
+    await queryRunner.query(`
+      INSERT INTO role_permissions ("roleId", "permissionId")
+      SELECT r.id, p.id FROM roles r CROSS JOIN permissions p
+      WHERE r.name = 'admin' AND p.name = 'plans:manage'
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // role_permissions rows go with the permission (ON DELETE CASCADE)
+    await queryRunner.query(
+      `DELETE FROM permissions WHERE name = 'plans:manage'`,
+    );
+    await queryRunner.dropTable('plan_assignments');
+    await queryRunner.dropTable('plans');
+  }
+}
@@ -0,0 +1,127 @@
+import Redis from 'ioredis';
+import { config } from 'dotenv';
+import { ConfigService } from '@nestjs/config';
+import { RateLimitService } from '../src/rate-limit/rate-limit.service';
+import { RedisService } from '../src/redis/redis.service';
+import { MetricsService } from '../src/observability/metrics.service';
+
+/**
+ * Compares the Redis footprint and latency of the token bucket and GCRA
+ * limiters: one check for each of IDENTIFIERS identifiers per strategy, then
+ * the memory of every key they left behind.
+ *
+ * Usage: pnpm run benchmark:rate-limit [identifiers]
+ *
+ * Writes to the Redis configured in .env (REDIS_HOST, REDIS_PORT,
+ * REDIS_PASSWORD, REDIS_BENCHMARK_DB, default 15) and deletes its keys when done.
+ */
+
+// Load environment variables
+config();
+
+const IDENTIFIERS = parseInt(process.argv[2] || '10000', 10);
+const CAPACITY = 100;
+const WINDOW_SECONDS = 60;
+
+interface Strategy {
+  name: string;
+  keyPattern: string;
+  check: (identifier: string) => Promise<unknown>;
+}
+
+async function measure(redis: Redis, strategy: Strategy) {
+  const latencies: number[] = [];
+  for (let i = 0; i < IDENTIFIERS; i++) {
+    const start = process.hrtime.bigint();
+    await strategy.check(`benchmark:${i}`);
+    latencies.push(Number(process.hrtime.bigint() - start) / 1e6);
+  }
+  latencies.sort((a, b) => a - b);
+
+  let bytes = 0;
+  let keys = 0;
+  for await (const batch of redis.scanStream({
+    match: strategy.keyPattern,
+    count: 1000,
+  })) {
+    for (const key of batch as string[]) {
+      bytes += (await redis.memory('USAGE', key)) ?? 0;
+      keys++;
+    }
+    if ((batch as string[]).length > 0) {
+      await redis.del(...(batch as string[]));
+    }
+  }
+
+  const percentile = (p: number) =>
+    latencies[Math.min(latencies.length - 1, Math.floor(latencies.length * p))];
+
+  return {
+    strategy: strategy.name,
+    keys,
+    'bytes/key': keys ? Math.round(bytes / keys) : 0,
+    'total KiB': Math.round(bytes / 1024),
+    'p50 ms': percentile(0.5).toFixed(3),
+    'p99 ms': percentile(0.99).toFixed(3),
+  };
+}
+
+async function runBenchmark() {
+  const redis = new Redis({
+    host: process.env.REDIS_HOST || 'localhost',
+    port: parseInt(process.env.REDIS_PORT || '6379', 10),
+    password: process.env.REDIS_PASSWORD || undefined,
+    db: parseInt(process.env.REDIS_BENCHMARK_DB || '15', 10),
+  });
+
+  try {
+    const redisService = new RedisService(redis);
+    await redisService.onModuleInit();
+    await redis.ping();
+
+    const rateLimitService = new RateLimitService(
+      redisService,
+      new MetricsService(),
+      // Fail closed so an unreachable Redis cannot pass for a fast one
+      new ConfigService({ RATE_LIMIT_SKIP_IF_REDIS_DOWN: false }),
+    );
+
+    const strategies: Strategy[] = [
+      {
+        name: 'token_bucket',
+        keyPattern: 'rate_limit:token_bucket:benchmark:*',
+        check: (identifier) =>
+          rateLimitService.checkTokenBucket(
+            identifier,
+            CAPACITY,
+            CAPACITY / WINDOW_SECONDS,
+            WINDOW_SECONDS,
+          ),
+      },
+      {
+        name: 'gcra',
+        keyPattern: 'rate_limit:gcra:benchmark:*',
+        check: (identifier) =>
+          rateLimitService.checkGcra(identifier, CAPACITY, WINDOW_SECONDS),
+      },
+    ];
+
+    console.log(
+      `Checking ${IDENTIFIERS} identifiers per strategy (capacity ${CAPACITY}/${WINDOW_SECONDS}s)...`,
+    );
+    const results: Record<string, unknown>[] = [];
+    for (const strategy of strategies) {
+      results.push(await measure(redis, strategy));
+    }
+    console.table(results);
+
+    await redis.quit();
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Benchmark failed:', error);
+    redis.disconnect();
+    process.exit(1);
+  }
+}
+
+runBenchmark();
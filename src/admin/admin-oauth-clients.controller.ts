@@ -0,0 +1,143 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  ParseUUIDPipe,
+  Request,
+  Version,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBody,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { OAuthClientsService } from '../auth/authorization-server/oauth-clients.service';
+import {
+  GRANT_TYPES,
+  GrantType,
+} from '../auth/authorization-server/authorization-server.constants';
+import { Roles } from '../common/decorators/roles.decorator';
+import { Permissions } from '../common/decorators/permissions.decorator';
+import { ROLES, PERMISSIONS } from '../auth/roles/roles.constants';
+
+export class CreateOAuthClientDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  redirectUris?: string[];
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsIn(Object.values(GRANT_TYPES), { each: true })
+  grantTypes: GrantType[];
+
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  scopes: string[];
+
+  // Server-side apps that can keep a secret; SPAs and mobile apps cannot
+  @IsBoolean()
+  confidential: boolean;
+}
+
+const clientSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', format: 'uuid' },
+    clientId: { type: 'string', example: 'oc_3f9a1c07b2d4e5f6a7b8c9d0' },
+    name: { type: 'string' },
+    confidential: { type: 'boolean' },
+    redirectUris: { type: 'array', items: { type: 'string' } },
+    grantTypes: { type: 'array', items: { type: 'string' } },
+    scopes: { type: 'array', items: { type: 'string' } },
+    createdById: { type: 'string', format: 'uuid', nullable: true },
+    revokedAt: { type: 'string', format: 'date-time', nullable: true },
+    createdAt: { type: 'string', format: 'date-time' },
+  },
+};
+
+@ApiTags('admin')
+@ApiBearerAuth('JWT-auth')
+@Roles(ROLES.ADMIN)
+@Permissions(PERMISSIONS.OAUTH_CLIENTS_MANAGE)
+@Controller('admin/oauth-clients')
+export class AdminOAuthClientsController {
+  constructor(private readonly oauthClientsService: OAuthClientsService) {}
+
+  @Post()
+  @Version('1')
+  @ApiOperation({ summary: 'Register an OAuth client application' })
+  @ApiBody({ type: CreateOAuthClientDto })
+  @ApiResponse({
+    status: 201,
+    description:
+      'Client registered. The secret of confidential clients is only shown once.',
+    schema: {
+      type: 'object',
+      properties: {
+        client: clientSchema,
+        clientSecret: { type: 'string', example: 'ocs_...' },
+      },
+    },
+  })
+  @ApiResponse({ status: 400, description: 'Invalid scopes or redirect URIs' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Missing role or permission' })
+  async create(@Request() req, @Body() dto: CreateOAuthClientDto) {
+    return this.oauthClientsService.create(dto, req.user.id);
+  }
+
+  @Get()
+  @Version('1')
+  @ApiOperation({ summary: 'List registered OAuth clients' })
+  @ApiResponse({
+    status: 200,
+    description: 'Registered clients, newest first',
+    schema: { type: 'array', items: clientSchema },
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Missing role or permission' })
+  async list() {
+    return this.oauthClientsService.list();
+  }
+
+  @Delete(':id')
+  @Version('1')
+  @ApiOperation({ summary: 'Revoke an OAuth client' })
+  @ApiParam({ name: 'id', description: 'Client record ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Client revoked; tokens issued to it stop working',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Missing role or permission' })
+  @ApiResponse({ status: 404, description: 'OAuth client not found' })
+  async revoke(@Param('id', new ParseUUIDPipe()) id: string) {
+    await this.oauthClientsService.revoke(id);
+    return { message: 'OAuth client revoked successfully' };
+  }
+}
@@ -0,0 +1,290 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Put,
+  Delete,
+  Body,
+  Param,
+  ParseUUIDPipe,
+  ParseEnumPipe,
+  Version,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBody,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+import { PlansService } from '../plans/plans.service';
+import type { PlanLimits } from '../plans/plan.entity';
+import { PLAN_SUBJECT_TYPES } from '../plans/plans.constants';
+import type { PlanSubjectType } from '../plans/plans.constants';
+import { Roles } from '../common/decorators/roles.decorator';
+import { Permissions } from '../common/decorators/permissions.decorator';
+import { ROLES, PERMISSIONS } from '../auth/roles/roles.constants';
+
+export class CreatePlanDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  @Matches(/^[a-z0-9_-]+$/, {
+    message: 'name may only contain a-z, 0-9, _ and -',
+  })
+  name: string;
+
+  // Route group => limits; checked in depth by PlansService
+  @IsObject()
+  limits: PlanLimits;
+
+  @IsOptional()
+  @IsBoolean()
+  isDefault?: boolean;
+}
+
+export class UpdatePlanDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  @Matches(/^[a-z0-9_-]+$/, {
+    message: 'name may only contain a-z, 0-9, _ and -',
+  })
+  name?: string;
+
+  @IsOptional()
+  @IsObject()
+  limits?: PlanLimits;
+
+  // Only true is meaningful: make another plan the default to replace it
+  @IsOptional()
+  @IsBoolean()
+  isDefault?: boolean;
+}
+
+export class AssignPlanDto {
+  @IsUUID()
+  planId: string;
+
+  // Per-customer limits replacing the plan's for the groups listed
+  @IsOptional()
+  @IsObject()
+  overrides?: PlanLimits;
+}
+
+const limitsSchema = {
+  type: 'object',
+  additionalProperties: {
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: {
+        capacity: { type: 'number', example: 600 },
+        windowSeconds: { type: 'number', example: 60 },
+        strategy: { type: 'string', example: 'gcra' },
+        refillRate: { type: 'number' },
+        leakRate: { type: 'number' },
+        burst: { type: 'number' },
+        keyBy: { example: 'caller' },
+      },
+    },
+  },
+  example: {
+    api: [
+      { capacity: 600, windowSeconds: 60, strategy: 'gcra' },
+      {
+        capacity: 100000,
+        windowSeconds: 86400,
+        strategy: 'sliding_window_counter',
+      },
+    ],
+  },
+};
+
+const planSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', format: 'uuid' },
+    name: { type: 'string', example: 'pro' },
+    limits: limitsSchema,
+    isDefault: { type: 'boolean' },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' },
+  },
+};
+
+const assignmentSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', format: 'uuid' },
+    subjectType: {
+      type: 'string',
+      enum: Object.values(PLAN_SUBJECT_TYPES),
+    },
+    subjectId: { type: 'string', format: 'uuid' },
+    planId: { type: 'string', format: 'uuid' },
+    plan: planSchema,
+    overrides: { ...limitsSchema, nullable: true },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' },
+  },
+};
+
+@ApiTags('admin')
+@ApiBearerAuth('JWT-auth')
+@Roles(ROLES.ADMIN)
+@Permissions(PERMISSIONS.PLANS_MANAGE)
+@Controller('admin/plans')
+export class AdminPlansController {
+  constructor(private readonly plansService: PlansService) {}
+
+  @Post()
+  @Version('1')
+  @ApiOperation({ summary: 'Create a rate limit plan' })
+  @ApiBody({ type: CreatePlanDto })
+  @ApiResponse({ status: 201, description: 'Plan created', schema: planSchema })
+  @ApiResponse({ status: 400, description: 'Invalid limits' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Missing role or permission' })
+  @ApiResponse({ status: 409, description: 'Plan name already taken' })
+  async create(@Body() dto: CreatePlanDto) {
+    return this.plansService.create(dto);
+  }
+
+  @Get()
+  @Version('1')
+  @ApiOperation({ summary: 'List rate limit plans' })
+  @ApiResponse({
+    status: 200,
+    description: 'Plans, oldest first',
+    schema: { type: 'array', items: planSchema },
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Missing role or permission' })
+  async list() {
+    return this.plansService.list();
+  }
+
+  @Patch(':id')
+  @Version('1')
+  @ApiOperation({
+    summary: 'Update a plan',
+    description: 'Applies to every subject on the plan from the next request',
+  })
+  @ApiParam({ name: 'id', description: 'Plan ID' })
+  @ApiBody({ type: UpdatePlanDto })
+  @ApiResponse({ status: 200, description: 'Plan updated', schema: planSchema })
+  @ApiResponse({ status: 400, description: 'Invalid limits' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Missing role or permission' })
+  @ApiResponse({ status: 404, description: 'Plan not found' })
+  @ApiResponse({ status: 409, description: 'Plan name already taken' })
+  async update(
+    @Param('id', new ParseUUIDPipe()) id: string,
+    @Body() dto: UpdatePlanDto,
+  ) {
+    return this.plansService.update(id, dto);
+  }
+
+  @Delete(':id')
+  @Version('1')
+  @ApiOperation({ summary: 'Delete a plan nobody is assigned to' })
+  @ApiParam({ name: 'id', description: 'Plan ID' })
+  @ApiResponse({ status: 200, description: 'Plan deleted' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Missing role or permission' })
+  @ApiResponse({ status: 404, description: 'Plan not found' })
+  @ApiResponse({ status: 409, description: 'Plan is still assigned' })
+  async delete(@Param('id', new ParseUUIDPipe()) id: string) {
+    await this.plansService.delete(id);
+    return { message: 'Plan deleted successfully' };
+  }
+
+  @Get('assignments/:subjectType/:subjectId')
+  @Version('1')
+  @ApiOperation({ summary: 'Show the plan of a user, API key or organization' })
+  @ApiParam({ name: 'subjectType', enum: Object.values(PLAN_SUBJECT_TYPES) })
+  @ApiParam({ name: 'subjectId', description: 'User, API key or org ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'The assignment with its plan',
+    schema: assignmentSchema,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Missing role or permission' })
+  @ApiResponse({
+    status: 404,
+    description: 'Not assigned; the default plan applies',
+  })
+  async getAssignment(
+    @Param('subjectType', new ParseEnumPipe(PLAN_SUBJECT_TYPES))
+    subjectType: PlanSubjectType,
+    @Param('subjectId', new ParseUUIDPipe()) subjectId: string,
+  ) {
+    return this.plansService.getAssignment(subjectType, subjectId);
+  }
+
+  @Put('assignments/:subjectType/:subjectId')
+  @Version('1')
+  @ApiOperation({
+    summary: 'Put a user, API key or organization on a plan',
+    description:
+      'Replaces any current assignment and overrides. API key plans win over organization plans, which win over user plans.',
+  })
+  @ApiParam({ name: 'subjectType', enum: Object.values(PLAN_SUBJECT_TYPES) })
+  @ApiParam({ name: 'subjectId', description: 'User, API key or org ID' })
+  @ApiBody({ type: AssignPlanDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Assigned',
+    schema: assignmentSchema,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid overrides' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Missing role or permission' })
+  @ApiResponse({ status: 404, description: 'Plan not found' })
+  async assign(
+    @Param('subjectType', new ParseEnumPipe(PLAN_SUBJECT_TYPES))
+    subjectType: PlanSubjectType,
+    @Param('subjectId', new ParseUUIDPipe()) subjectId: string,
+    @Body() dto: AssignPlanDto,
+  ) {
+    return this.plansService.assign(
+      subjectType,
+      subjectId,
+      dto.planId,
+      dto.overrides,
+    );
+  }
+
+  @Delete('assignments/:subjectType/:subjectId')
+  @Version('1')
+  @ApiOperation({ summary: 'Move a subject back to the default plan' })
+  @ApiParam({ name: 'subjectType', enum: Object.values(PLAN_SUBJECT_TYPES) })
+  @ApiParam({ name: 'subjectId', description: 'User, API key or org ID' })
+  @ApiResponse({ status: 200, description: 'Assignment removed' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Missing role or permission' })
+  @ApiResponse({ status: 404, description: 'Plan assignment not found' })
+  async unassign(
+    @Param('subjectType', new ParseEnumPipe(PLAN_SUBJECT_TYPES))
+    subjectType: PlanSubjectType,
+    @Param('subjectId', new ParseUUIDPipe()) subjectId: string,
+  ) {
+    await this.plansService.unassign(subjectType, subjectId);
+    return { message: 'Plan assignment removed successfully' };
+  }
+}
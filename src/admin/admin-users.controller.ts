@@ -0,0 +1,417 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Query,
+  Param,
+  ParseUUIDPipe,
+  HttpCode,
+  HttpStatus,
+  NotFoundException,
+  Request,
+  Version,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBody,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import {
+  IsIn,
+  IsInt,
+  IsISO8601,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { AuthService } from '../auth/auth.service';
+import { UsersService } from '../auth/users/users.service';
+import { User } from '../auth/users/user.entity';
+import { Roles } from '../common/decorators/roles.decorator';
+import { Permissions } from '../common/decorators/permissions.decorator';
+import { ROLES, PERMISSIONS } from '../auth/roles/roles.constants';
+
+export class ListUsersQueryDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  emailPrefix?: string;
+
+  @IsOptional()
+  @IsISO8601()
+  createdAfter?: string;
+
+  @IsOptional()
+  @IsISO8601()
+  createdBefore?: string;
+
+  @IsOptional()
+  @IsIn(['active', 'suspended', 'deleted'])
+  status?: 'active' | 'suspended' | 'deleted';
+
+  @IsOptional()
+  @IsIn(['createdAt', 'email'])
+  sort?: 'createdAt' | 'email';
+
+  @IsOptional()
+  @IsIn(['asc', 'desc'])
+  order?: 'asc' | 'desc';
+
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+}
+
+export class SuspendUserDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
+
+const adminUserSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', format: 'uuid' },
+    email: { type: 'string', example: 'user@example.com' },
+    displayName: { type: 'string', nullable: true },
+    emailVerified: { type: 'boolean' },
+    twoFactorEnabled: { type: 'boolean' },
+    status: { type: 'string', enum: ['active', 'suspended', 'deleted'] },
+    suspendedAt: { type: 'string', format: 'date-time', nullable: true },
+    suspensionReason: { type: 'string', nullable: true },
+    deletedAt: {
+      type: 'string',
+      format: 'date-time',
+      nullable: true,
+      description: 'Set while the account awaits erasure',
+    },
+    createdAt: { type: 'string', format: 'date-time' },
+  },
+};
+
+/**
+ * What admins see about a user; never the password hash or 2FA secret
+ */
+function toAdminUserView(user: User) {
+  return {
+    id: user.id,
+    email: user.email,
+    displayName: user.displayName,
+    emailVerified: user.emailVerifiedAt !== null,
+    twoFactorEnabled: user.twoFactorEnabledAt !== null,
+    status: user.deletedAt
+      ? 'deleted'
+      : user.suspendedAt
+        ? 'suspended'
+        : 'active',
+    suspendedAt: user.suspendedAt,
+    suspensionReason: user.suspensionReason,
+    deletedAt: user.deletedAt,
+    createdAt: user.createdAt,
+  };
+}
+
+@ApiTags('admin')
+@ApiBearerAuth('JWT-auth')
+@Roles(ROLES.ADMIN)
+@Controller('admin/users')
+export class AdminUsersController {
+  constructor(
+    private readonly authService: AuthService,
+    private readonly usersService: UsersService,
+  ) {}
+
+  @Get()
+  @Version('1')
+  @Permissions(PERMISSIONS.USERS_READ)
+  @ApiOperation({
+    summary: 'List users',
+    description:
+      'Cursor-paginated; pass nextCursor back as cursor, with the same filters and sort, for the next page',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'One page of users',
+    schema: {
+      type: 'object',
+      properties: {
+        items: { type: 'array', items: adminUserSchema },
+        nextCursor: {
+          type: 'string',
+          nullable: true,
+          description: 'null on the last page',
+        },
+      },
+    },
+  })
+  @ApiResponse({ status: 400, description: 'Invalid filter or cursor' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Missing role or permission' })
+  async list(@Query() query: ListUsersQueryDto) {
+    const page = await this.usersService.search({
+      ...query,
+      createdAfter: query.createdAfter
+        ? new Date(query.createdAfter)
+        : undefined,
+      createdBefore: query.createdBefore
+        ? new Date(query.createdBefore)
+        : undefined,
+    });
+    return {
+      items: page.items.map(toAdminUserView),
+      nextCursor: page.nextCursor,
+    };
+  }
+
+  @Get(':id')
+  @Version('1')
+  @Permissions(PERMISSIONS.USERS_READ)
+  @ApiOperation({ summary: 'View a user' })
+  @ApiParam({ name: 'id', description: 'User ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'The user with their roles',
+    schema: {
+      ...adminUserSchema,
+      properties: {
+        ...adminUserSchema.properties,
+        roles: { type: 'array', items: { type: 'string' } },
+      },
+    },
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Missing role or permission' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  async view(@Param('id', new ParseUUIDPipe()) userId: string) {
+    const user = await this.usersService.findById(userId);
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    const { roles } = await this.usersService.getAccess(user.id);
+    return { ...toAdminUserView(user), roles };
+  }
+
+  @Post(':id/suspend')
+  @Version('1')
+  @HttpCode(HttpStatus.OK)
+  @Permissions(PERMISSIONS.USERS_WRITE)
+  @ApiOperation({
+    summary: 'Suspend a user',
+    description:
+      'Revokes every token at once and refuses new sign-ins until unsuspended',
+  })
+  @ApiParam({ name: 'id', description: 'User ID' })
+  @ApiBody({ type: SuspendUserDto })
+  @ApiResponse({
+    status: 200,
+    description: 'User suspended',
+    schema: {
+      type: 'object',
+      properties: {
+        message: { type: 'string', example: 'User suspended' },
+      },
+    },
+  })
+  @ApiResponse({ status: 400, description: 'Cannot suspend yourself' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Missing role or permission' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  async suspend(
+    @Request() req,
+    @Param('id', new ParseUUIDPipe()) userId: string,
+    @Body() dto: SuspendUserDto,
+  ) {
+    await this.authService.suspendUser(userId, dto.reason ?? null, req.user.id);
+    return { message: 'User suspended' };
+  }
+
+  @Post(':id/unsuspend')
+  @Version('1')
+  @HttpCode(HttpStatus.OK)
+  @Permissions(PERMISSIONS.USERS_WRITE)
+  @ApiOperation({ summary: 'Lift the suspension of a user' })
+  @ApiParam({ name: 'id', description: 'User ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'User can sign in again',
+    schema: {
+      type: 'object',
+      properties: {
+        message: { type: 'string', example: 'User unsuspended' },
+      },
+    },
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Missing role or permission' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  async unsuspend(
+    @Request() req,
+    @Param('id', new ParseUUIDPipe()) userId: string,
+  ) {
+    await this.authService.unsuspendUser(userId, req.user.id);
+    return { message: 'User unsuspended' };
+  }
+
+  @Post(':id/force-password-reset')
+  @Version('1')
+  @HttpCode(HttpStatus.OK)
+  @Permissions(PERMISSIONS.USERS_WRITE)
+  @ApiOperation({
+    summary: 'Force a password reset',
+    description:
+      'Invalidates the current password, signs the user out everywhere and emails a reset link',
+  })
+  @ApiParam({ name: 'id', description: 'User ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Reset link sent',
+    schema: {
+      type: 'object',
+      properties: {
+        message: { type: 'string', example: 'Password reset link sent' },
+      },
+    },
+  })
+  @ApiResponse({ status: 400, description: 'Cannot reset yourself' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Missing role or permission' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  async forcePasswordReset(
+    @Request() req,
+    @Param('id', new ParseUUIDPipe()) userId: string,
+  ) {
+    await this.authService.forcePasswordReset(userId, req.user.id);
+    return { message: 'Password reset link sent' };
+  }
+
+  @Post(':id/restore')
+  @Version('1')
+  @HttpCode(HttpStatus.OK)
+  @Permissions(PERMISSIONS.USERS_WRITE)
+  @ApiOperation({
+    summary: 'Restore a deleted user',
+    description:
+      'Cancels the scheduled erasure of an account its owner deleted',
+  })
+  @ApiParam({ name: 'id', description: 'User ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'User can sign in again',
+    schema: {
+      type: 'object',
+      properties: {
+        message: { type: 'string', example: 'User restored' },
+      },
+    },
+  })
+  @ApiResponse({ status: 400, description: 'Account is not deleted' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Missing role or permission' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  async restore(
+    @Request() req,
+    @Param('id', new ParseUUIDPipe()) userId: string,
+  ) {
+    await this.authService.restoreUser(userId, req.user.id);
+    return { message: 'User restored' };
+  }
+
+  @Delete(':id')
+  @Version('1')
+  @HttpCode(HttpStatus.OK)
+  @Permissions(PERMISSIONS.USERS_WRITE)
+  @ApiOperation({
+    summary: 'Permanently delete a user',
+    description:
+      'Erases the account at once; its audit entries are kept under a pseudonym',
+  })
+  @ApiParam({ name: 'id', description: 'User ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'User and everything they own deleted',
+    schema: {
+      type: 'object',
+      properties: {
+        message: { type: 'string', example: 'User deleted' },
+      },
+    },
+  })
+  @ApiResponse({ status: 400, description: 'Cannot delete yourself' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Missing role or permission' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  async delete(
+    @Request() req,
+    @Param('id', new ParseUUIDPipe()) userId: string,
+  ) {
+    await this.authService.deleteUser(userId, req.user.id);
+    return { message: 'User deleted' };
+  }
+
+  @Post(':id/revoke-tokens')
+  @Version('1')
+  @HttpCode(HttpStatus.OK)
+  @Permissions(PERMISSIONS.TOKENS_REVOKE)
+  @ApiOperation({ summary: 'Revoke every token issued to a user' })
+  @ApiParam({ name: 'id', description: 'User ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'All access and refresh tokens revoked',
+    schema: {
+      type: 'object',
+      properties: {
+        message: { type: 'string', example: 'All tokens revoked' },
+      },
+    },
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Missing role or permission' })
+  async revokeTokens(@Param('id', new ParseUUIDPipe()) userId: string) {
+    await this.authService.revokeAllTokensForUser(userId);
+    return { message: 'All tokens revoked' };
+  }
+
+  @Post(':id/unlock')
+  @Version('1')
+  @HttpCode(HttpStatus.OK)
+  @Permissions(PERMISSIONS.USERS_WRITE)
+  @ApiOperation({ summary: 'Lift a login lockout on a user account' })
+  @ApiParam({ name: 'id', description: 'User ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Account can sign in again',
+    schema: {
+      type: 'object',
+      properties: {
+        unlocked: {
+          type: 'boolean',
+          description: 'false if the account was not locked',
+        },
+      },
+    },
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Missing role or permission' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  async unlock(
+    @Request() req,
+    @Param('id', new ParseUUIDPipe()) userId: string,
+  ) {
+    const unlocked = await this.authService.unlockAccount(userId, req.user.id);
+    return { unlocked };
+  }
+}
@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
+import { UsersModule } from '../auth/users/users.module';
+import { PlansModule } from '../plans/plans.module';
+import { AdminUsersController } from './admin-users.controller';
+import { AdminOAuthClientsController } from './admin-oauth-clients.controller';
+import { AdminPlansController } from './admin-plans.controller';
+
+@Module({
+  imports: [AuthModule, UsersModule, PlansModule],
+  controllers: [
+    AdminUsersController,
+    AdminOAuthClientsController,
+    AdminPlansController,
+  ],
+})
+export class AdminModule {}
@@ -1,4 +1,4 @@
-import { Controller, Get, UseGuards, Version } from '@nestjs/common';
+import { Controller, Get, Version } from '@nestjs/common';
 import {
   ApiTags,
   ApiOperation,
@@ -6,11 +6,15 @@ import {
   ApiBearerAuth,
 } from '@nestjs/swagger';
 import { AppService } from './app.service';
-import { JwtAuthGuard } from './auth/guards/jwt-auth.guard';
 import { Public } from './common/decorators/public.decorator';
-import { RateLimit } from './rate-limit/decorators/rate-limit.decorator';
+import {
+  RateLimit,
+  RateLimitGroup,
+} from './rate-limit/decorators/rate-limit.decorator';
 
 @ApiTags('api')
+// Plans set the limits of the group; the ones below apply without a plan
+@RateLimitGroup('api')
 @Controller()
 export class AppController {
   constructor(private readonly appService: AppService) {}
@@ -39,7 +43,6 @@ export class AppController {
 
   @Get('protected')
   @Version(['1', '2'])
-  @UseGuards(JwtAuthGuard)
   @ApiBearerAuth('JWT-auth')
   @ApiOperation({ summary: 'Get protected resource' })
   @ApiResponse({
@@ -4,12 +4,16 @@ import { ScheduleModule } from '@nestjs/schedule';
 import { ConfigModule } from './config/config.module';
 import { DatabaseModule } from './database/database.module';
 import { RedisModule } from './redis/redis.module';
+import { ClockModule } from './common/clock/clock.module';
+import { TenantContextModule } from './common/tenancy/tenant-context.module';
 import { ObservabilityModule } from './observability/observability.module';
 import { RateLimitModule } from './rate-limit/rate-limit.module';
 import { CacheModule } from './cache/cache.module';
 import { AuthModule } from './auth/auth.module';
 import { VersioningModule } from './versioning/versioning.module';
 import { IdempotencyModule } from './idempotency/idempotency.module';
+import { AdminModule } from './admin/admin.module';
+import { OrganizationsModule } from './organizations/organizations.module';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 
@@ -19,14 +23,19 @@ import { AppService } from './app.service';
     ConfigModule,
     DatabaseModule,
     RedisModule,
+    ClockModule,
+    TenantContextModule,
 
     // Feature modules
+    // Global guards run in this order: authentication, tenant, rate limit
     ObservabilityModule,
+    AuthModule,
+    OrganizationsModule,
     RateLimitModule,
     CacheModule,
-    AuthModule,
     VersioningModule,
     IdempotencyModule,
+    AdminModule,
 
     // Infrastructure
     EventEmitterModule.forRoot(),
@@ -0,0 +1,56 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../auth/users/user.entity';
+
+/**
+ * Something that happened to an account, kept after the account is erased.
+ *
+ * Erasure replaces userId / actorId with a pseudonym instead of deleting the
+ * row, so the trail stays complete without pointing at a person.
+ */
+@Entity('audit_log')
+export class AuditEntry {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  // e.g. security.user_suspended
+  @Column({ type: 'varchar', length: 100 })
+  action: string;
+
+  // Account the entry is about
+  @Index()
+  @Column({ type: 'uuid', nullable: true })
+  userId: string | null;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'userId' })
+  user?: User | null;
+
+  // Who acted on the account when it was not its owner (an admin)
+  @Index()
+  @Column({ type: 'uuid', nullable: true })
+  actorId: string | null;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'actorId' })
+  actor?: User | null;
+
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  userPseudonym: string | null;
+
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  actorPseudonym: string | null;
+
+  @Column({ type: 'jsonb', default: {} })
+  details: Record<string, unknown>;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
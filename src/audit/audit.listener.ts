@@ -0,0 +1,89 @@
+import { Injectable } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { AuditService } from './audit.service';
+import {
+  RefreshTokenReusedEvent,
+  SecurityEvents,
+  UserSuspendedEvent,
+  UserUnsuspendedEvent,
+} from '../auth/events/security.events';
+import {
+  AccountDeletionScheduledEvent,
+  AccountErasedEvent,
+  AccountRestoredEvent,
+  DataExportRequestedEvent,
+  PrivacyEvents,
+} from '../auth/events/privacy.events';
+
+/**
+ * Writes account-level events to the audit log. Lockout events are keyed by
+ * hashed email or IP rather than by account, so they stay in logs and metrics.
+ */
+@Injectable()
+export class AuditListener {
+  constructor(private readonly auditService: AuditService) {}
+
+  @OnEvent(SecurityEvents.REFRESH_TOKEN_REUSED)
+  async handleRefreshTokenReused(event: RefreshTokenReusedEvent) {
+    await this.auditService.record({
+      action: SecurityEvents.REFRESH_TOKEN_REUSED,
+      userId: event.userId,
+      details: { sessionId: event.sessionId },
+    });
+  }
+
+  @OnEvent(SecurityEvents.USER_SUSPENDED)
+  async handleUserSuspended(event: UserSuspendedEvent) {
+    await this.auditService.record({
+      action: SecurityEvents.USER_SUSPENDED,
+      userId: event.userId,
+      actorId: event.suspendedBy,
+      details: { reason: event.reason },
+    });
+  }
+
+  @OnEvent(SecurityEvents.USER_UNSUSPENDED)
+  async handleUserUnsuspended(event: UserUnsuspendedEvent) {
+    await this.auditService.record({
+      action: SecurityEvents.USER_UNSUSPENDED,
+      userId: event.userId,
+      actorId: event.unsuspendedBy,
+    });
+  }
+
+  @OnEvent(PrivacyEvents.DATA_EXPORT_REQUESTED)
+  async handleDataExportRequested(event: DataExportRequestedEvent) {
+    await this.auditService.record({
+      action: PrivacyEvents.DATA_EXPORT_REQUESTED,
+      userId: event.userId,
+      details: { jobId: event.jobId },
+    });
+  }
+
+  @OnEvent(PrivacyEvents.ACCOUNT_DELETION_SCHEDULED)
+  async handleAccountDeletionScheduled(event: AccountDeletionScheduledEvent) {
+    await this.auditService.record({
+      action: PrivacyEvents.ACCOUNT_DELETION_SCHEDULED,
+      userId: event.userId,
+      details: { eraseAfter: event.eraseAfter.toISOString() },
+    });
+  }
+
+  @OnEvent(PrivacyEvents.ACCOUNT_RESTORED)
+  async handleAccountRestored(event: AccountRestoredEvent) {
+    await this.auditService.record({
+      action: PrivacyEvents.ACCOUNT_RESTORED,
+      userId: event.userId,
+      actorId: event.restoredBy,
+    });
+  }
+
+  @OnEvent(PrivacyEvents.ACCOUNT_ERASED)
+  async handleAccountErased(event: AccountErasedEvent) {
+    await this.auditService.record({
+      action: PrivacyEvents.ACCOUNT_ERASED,
+      userPseudonym: event.pseudonym,
+      actorId: event.erasedBy,
+    });
+  }
+}
@@ -0,0 +1,82 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { randomUUID } from 'crypto';
+import { AuditEntry } from './audit-entry.entity';
+
+export interface AuditRecord {
+  action: string;
+  userId?: string | null;
+  actorId?: string | null;
+  userPseudonym?: string | null;
+  details?: Record<string, unknown>;
+}
+
+@Injectable()
+export class AuditService {
+  private readonly logger = new Logger(AuditService.name);
+
+  constructor(
+    @InjectRepository(AuditEntry)
+    private readonly auditRepository: Repository<AuditEntry>,
+  ) {}
+
+  /**
+   * Append an entry. Never throws: losing an audit entry must not fail the
+   * action it describes.
+   */
+  async record(record: AuditRecord): Promise<void> {
+    try {
+      await this.auditRepository.save(
+        this.auditRepository.create({
+          action: record.action,
+          userId: record.userId ?? null,
+          actorId: record.actorId ?? null,
+          userPseudonym: record.userPseudonym ?? null,
+          details: record.details ?? {},
+        }),
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to record audit entry ${record.action}: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Entries about the user or made by them, oldest first
+   */
+  async listForUser(userId: string): Promise<AuditEntry[]> {
+    return this.auditRepository.find({
+      where: [{ userId }, { actorId: userId }],
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  /**
+   * Detach every entry from the user before the account is erased. The rows
+   * stay, pointing at a random pseudonym instead, so the trail keeps its
+   * shape without identifying anyone. Details of entries about the user may
+   * hold personal data and are dropped.
+   *
+   * Returns the pseudonym, which is shared by all of the user's entries.
+   */
+  async pseudonymizeUser(userId: string): Promise<string> {
+    const pseudonym = `erased-${randomUUID()}`;
+
+    await this.auditRepository.manager.transaction(async (manager) => {
+      await manager.update(
+        AuditEntry,
+        { userId },
+        { userId: null, userPseudonym: pseudonym, details: {} },
+      );
+      await manager.update(
+        AuditEntry,
+        { actorId: userId },
+        { actorId: null, actorPseudonym: pseudonym },
+      );
+    });
+
+    return pseudonym;
+  }
+}
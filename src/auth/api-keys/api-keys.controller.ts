@@ -0,0 +1,157 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  ParseUUIDPipe,
+  HttpCode,
+  HttpStatus,
+  Request,
+  Version,
+  ForbiddenException,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBody,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsDateString,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ApiKeysService } from './api-keys.service';
+import { RequireVerifiedEmail } from '../../common/decorators/require-verified-email.decorator';
+
+export class CreateApiKeyDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  scopes?: string[];
+
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+}
+
+const apiKeySchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', format: 'uuid' },
+    name: { type: 'string' },
+    prefix: { type: 'string' },
+    scopes: { type: 'array', items: { type: 'string' } },
+    expiresAt: { type: 'string', format: 'date-time', nullable: true },
+    lastUsedAt: { type: 'string', format: 'date-time', nullable: true },
+    revokedAt: { type: 'string', format: 'date-time', nullable: true },
+    createdAt: { type: 'string', format: 'date-time' },
+  },
+};
+
+@ApiTags('api-keys')
+@ApiBearerAuth('JWT-auth')
+@Controller('api-keys')
+export class ApiKeysController {
+  constructor(private readonly apiKeysService: ApiKeysService) {}
+
+  @Post()
+  @Version('1')
+  @HttpCode(HttpStatus.CREATED)
+  @RequireVerifiedEmail()
+  @ApiOperation({ summary: 'Create an API key for the current user' })
+  @ApiBody({ type: CreateApiKeyDto })
+  @ApiResponse({
+    status: 201,
+    description: 'API key created. The key is only returned once.',
+    schema: {
+      type: 'object',
+      properties: {
+        apiKey: apiKeySchema,
+        key: { type: 'string', example: 'hsk_1a2b3c4d5e6f_...' },
+      },
+    },
+  })
+  @ApiResponse({ status: 400, description: 'Invalid scopes or expiry' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({
+    status: 403,
+    description: 'Called with an API key or email not verified',
+  })
+  async create(@Request() req, @Body() createApiKeyDto: CreateApiKeyDto) {
+    this.assertNotApiKey(req);
+    return this.apiKeysService.create(req.user.id, {
+      name: createApiKeyDto.name,
+      scopes: createApiKeyDto.scopes,
+      expiresAt: createApiKeyDto.expiresAt
+        ? new Date(createApiKeyDto.expiresAt)
+        : undefined,
+    });
+  }
+
+  @Get()
+  @Version('1')
+  @ApiOperation({ summary: 'List API keys of the current user' })
+  @ApiResponse({
+    status: 200,
+    description: 'API keys, newest first',
+    schema: { type: 'array', items: apiKeySchema },
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Called with an API key' })
+  async list(@Request() req) {
+    this.assertNotApiKey(req);
+    return this.apiKeysService.listForUser(req.user.id);
+  }
+
+  @Delete(':id')
+  @Version('1')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Revoke an API key of the current user' })
+  @ApiParam({ name: 'id', description: 'API key ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'API key revoked',
+    schema: {
+      type: 'object',
+      properties: {
+        message: { type: 'string', example: 'API key revoked successfully' },
+      },
+    },
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Called with an API key' })
+  @ApiResponse({ status: 404, description: 'API key not found' })
+  async revoke(
+    @Request() req,
+    @Param('id', new ParseUUIDPipe()) apiKeyId: string,
+  ) {
+    this.assertNotApiKey(req);
+    await this.apiKeysService.revoke(req.user.id, apiKeyId);
+    return { message: 'API key revoked successfully' };
+  }
+
+  // A leaked key or a delegated client token must not be able to mint or
+  // revoke keys, which would outlive its own access
+  private assertNotApiKey(req: any): void {
+    if (req.user.apiKeyId || req.user.clientId) {
+      throw new ForbiddenException(
+        'API keys and OAuth clients cannot manage API keys',
+      );
+    }
+  }
+}
@@ -0,0 +1,168 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { ApiKeysService } from './api-keys.service';
+import { ApiKey } from './api-key.entity';
+import { UsersService } from '../users/users.service';
+
+describe('ApiKeysService', () => {
+  let service: ApiKeysService;
+  let repository: {
+    create: jest.Mock;
+    save: jest.Mock;
+    find: jest.Mock;
+    findOne: jest.Mock;
+    update: jest.Mock;
+  };
+  let usersService: { getAccess: jest.Mock };
+
+  beforeEach(async () => {
+    repository = {
+      create: jest.fn((data) => ({ ...data })),
+      save: jest.fn((data) =>
+        Promise.resolve({
+          id: 'key-1',
+          lastUsedAt: null,
+          revokedAt: null,
+          createdAt: new Date(),
+          ...data,
+        }),
+      ),
+      find: jest.fn(),
+      findOne: jest.fn(),
+      update: jest.fn().mockResolvedValue(undefined),
+    };
+    usersService = {
+      getAccess: jest.fn().mockResolvedValue({
+        roles: ['admin'],
+        permissions: ['users:read'],
+      }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ApiKeysService,
+        { provide: getRepositoryToken(ApiKey), useValue: repository },
+        { provide: UsersService, useValue: usersService },
+      ],
+    }).compile();
+
+    service = module.get<ApiKeysService>(ApiKeysService);
+  });
+
+  const createKey = async () => {
+    const created = await service.create('user-1', {
+      name: 'CI',
+      scopes: ['users:read'],
+    });
+    const stored = repository.save.mock.calls[0][0];
+    return { created, stored: { ...stored, id: 'key-1', revokedAt: null } };
+  };
+
+  describe('create', () => {
+    it('should return the plaintext key once and store only its hash', async () => {
+      const { created, stored } = await createKey();
+
+      expect(created.key).toMatch(/^hsk_[0-9a-f]{12}_[\w-]+$/);
+      expect(created.key.split('_')[1]).toBe(stored.prefix);
+      expect(stored.keyHash).toHaveLength(64);
+      expect(stored.keyHash).not.toContain(created.key);
+      expect(created.apiKey).not.toHaveProperty('keyHash');
+    });
+
+    it('should reject scopes the user does not hold', async () => {
+      await expect(
+        service.create('user-1', { name: 'CI', scopes: ['users:write'] }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject an expiry in the past', async () => {
+      await expect(
+        service.create('user-1', {
+          name: 'CI',
+          expiresAt: new Date(Date.now() - 1000),
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('validateKey', () => {
+    it('should resolve a valid key and record its usage', async () => {
+      const { created, stored } = await createKey();
+      repository.findOne.mockResolvedValue(stored);
+
+      const apiKey = await service.validateKey(created.key);
+
+      expect(apiKey?.id).toBe('key-1');
+      expect(repository.findOne).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { prefix: stored.prefix } }),
+      );
+      expect(repository.update).toHaveBeenCalledWith('key-1', {
+        lastUsedAt: expect.any(Date),
+      });
+    });
+
+    it('should accept secrets containing underscores', async () => {
+      // base64url secrets may start with or contain the separator
+      const key = 'hsk_0a1b2c3d4e5f__x9_Yz-Q';
+      repository.findOne.mockResolvedValue({
+        id: 'key-1',
+        prefix: '0a1b2c3d4e5f',
+        keyHash: createHash('sha256').update(key).digest('hex'),
+        revokedAt: null,
+        expiresAt: null,
+        lastUsedAt: new Date(),
+      });
+
+      await expect(service.validateKey(key)).resolves.toMatchObject({
+        id: 'key-1',
+      });
+      expect(repository.findOne).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { prefix: '0a1b2c3d4e5f' } }),
+      );
+    });
+
+    it('should reject a key with the right prefix but wrong secret', async () => {
+      const { created, stored } = await createKey();
+      repository.findOne.mockResolvedValue(stored);
+
+      await expect(
+        service.validateKey(`${created.key.slice(0, -1)}x`),
+      ).resolves.toBeNull();
+    });
+
+    it('should reject revoked and expired keys', async () => {
+      const { created, stored } = await createKey();
+
+      repository.findOne.mockResolvedValue({
+        ...stored,
+        revokedAt: new Date(),
+      });
+      await expect(service.validateKey(created.key)).resolves.toBeNull();
+
+      repository.findOne.mockResolvedValue({
+        ...stored,
+        expiresAt: new Date(Date.now() - 1000),
+      });
+      await expect(service.validateKey(created.key)).resolves.toBeNull();
+    });
+
+    it('should reject malformed keys without a lookup', async () => {
+      await expect(service.validateKey('not-a-key')).resolves.toBeNull();
+      await expect(service.validateKey('hsk_0a1b2c3d4e5f')).resolves.toBeNull();
+      await expect(service.validateKey('hsk__secret')).resolves.toBeNull();
+      expect(repository.findOne).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revoke', () => {
+    it('should throw NotFoundException for a key of another user', async () => {
+      repository.findOne.mockResolvedValue(null);
+
+      await expect(service.revoke('user-2', 'key-1')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+});
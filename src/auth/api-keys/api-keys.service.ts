@@ -0,0 +1,176 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { ApiKey } from './api-key.entity';
+import { UsersService } from '../users/users.service';
+
+export interface CreateApiKeyOptions {
+  name: string;
+  scopes?: string[];
+  expiresAt?: Date;
+}
+
+export type ApiKeyView = Omit<ApiKey, 'keyHash' | 'user' | 'userId'>;
+
+export interface CreatedApiKey {
+  apiKey: ApiKeyView;
+  key: string; // plaintext, returned once and never stored
+}
+
+const KEY_PREFIX = 'hsk';
+// Only refresh lastUsedAt once per interval to avoid a write on every request
+const LAST_USED_RESOLUTION_MS = 60_000;
+
+/**
+ * Issues and validates API keys.
+ *
+ * Keys look like `hsk_<prefix>_<secret>`. The prefix is stored in clear so the
+ * key can be found with an indexed lookup, the whole key is only stored as a
+ * sha256 hash. Scopes are permission names and can never exceed what the
+ * owning user holds.
+ */
+@Injectable()
+export class ApiKeysService {
+  private readonly logger = new Logger(ApiKeysService.name);
+
+  constructor(
+    @InjectRepository(ApiKey)
+    private readonly apiKeyRepository: Repository<ApiKey>,
+    private readonly usersService: UsersService,
+  ) {}
+
+  async create(
+    userId: string,
+    options: CreateApiKeyOptions,
+  ): Promise<CreatedApiKey> {
+    const scopes = [...new Set(options.scopes ?? [])];
+    const { permissions } = await this.usersService.getAccess(userId);
+    const ungranted = scopes.filter((scope) => !permissions.includes(scope));
+    if (ungranted.length > 0) {
+      throw new BadRequestException(
+        `Cannot grant scopes you do not hold: ${ungranted.join(', ')}`,
+      );
+    }
+
+    if (options.expiresAt && options.expiresAt.getTime() <= Date.now()) {
+      throw new BadRequestException('expiresAt must be in the future');
+    }
+
+    const prefix = randomBytes(6).toString('hex');
+    const key = `${KEY_PREFIX}_${prefix}_${randomBytes(32).toString('base64url')}`;
+
+    const apiKey = await this.apiKeyRepository.save(
+      this.apiKeyRepository.create({
+        name: options.name,
+        prefix,
+        keyHash: this.hashKey(key),
+        userId,
+        scopes,
+        expiresAt: options.expiresAt ?? null,
+      }),
+    );
+
+    this.logger.log(`API key ${apiKey.id} created for user ${userId}`);
+    return { apiKey: this.toView(apiKey), key };
+  }
+
+  async listForUser(userId: string): Promise<ApiKeyView[]> {
+    const apiKeys = await this.apiKeyRepository.find({
+      where: { userId },
+      order: { createdAt: 'DESC' },
+    });
+    return apiKeys.map((apiKey) => this.toView(apiKey));
+  }
+
+  async revoke(userId: string, apiKeyId: string): Promise<void> {
+    const apiKey = await this.apiKeyRepository.findOne({
+      where: { id: apiKeyId, userId },
+    });
+    if (!apiKey) {
+      throw new NotFoundException('API key not found');
+    }
+
+    if (!apiKey.revokedAt) {
+      await this.apiKeyRepository.update(apiKey.id, { revokedAt: new Date() });
+      this.logger.log(`API key ${apiKey.id} revoked for user ${userId}`);
+    }
+  }
+
+  /**
+   * Resolve a presented key to an active API key (with its owner), or null
+   * when it is malformed, unknown, revoked or expired.
+   */
+  async validateKey(key: string): Promise<ApiKey | null> {
+    // Only the first two separators count: the base64url secret may contain _
+    const prefixStart = key.indexOf('_') + 1;
+    const secretStart = key.indexOf('_', prefixStart) + 1;
+    const type = key.slice(0, prefixStart - 1);
+    const prefix = key.slice(prefixStart, secretStart - 1);
+    const secret = key.slice(secretStart);
+    if (
+      !prefixStart ||
+      !secretStart ||
+      type !== KEY_PREFIX ||
+      !prefix ||
+      !secret
+    ) {
+      return null;
+    }
+
+    const apiKey = await this.apiKeyRepository.findOne({
+      where: { prefix },
+      relations: { user: true },
+    });
+    if (!apiKey || !this.matchesHash(key, apiKey.keyHash)) {
+      return null;
+    }
+
+    const now = Date.now();
+    if (
+      apiKey.revokedAt ||
+      (apiKey.expiresAt && apiKey.expiresAt.getTime() <= now)
+    ) {
+      return null;
+    }
+
+    if (
+      !apiKey.lastUsedAt ||
+      now - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS
+    ) {
+      apiKey.lastUsedAt = new Date(now);
+      this.apiKeyRepository
+        .update(apiKey.id, { lastUsedAt: apiKey.lastUsedAt })
+        .catch((error) =>
+          this.logger.warn(
+            `Failed to record usage of API key ${apiKey.id}: ${error.message}`,
+          ),
+        );
+    }
+
+    return apiKey;
+  }
+
+  toView(apiKey: ApiKey): ApiKeyView {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { keyHash, user, userId, ...view } = apiKey;
+    return view;
+  }
+
+  private matchesHash(key: string, expectedHash: string): boolean {
+    const actual = Buffer.from(this.hashKey(key), 'hex');
+    const expected = Buffer.from(expectedHash, 'hex');
+    return (
+      actual.length === expected.length && timingSafeEqual(actual, expected)
+    );
+  }
+
+  private hashKey(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+  }
+}
@@ -1,7 +1,12 @@
 import {
   Controller,
+  Get,
   Post,
+  Delete,
   Body,
+  ForbiddenException,
+  Param,
+  ParseUUIDPipe,
   HttpCode,
   HttpStatus,
   UseGuards,
@@ -14,29 +19,50 @@ import {
   ApiResponse,
   ApiBody,
   ApiBearerAuth,
+  ApiParam,
 } from '@nestjs/swagger';
-import { IsEmail, IsNotEmpty, IsString, MinLength } from 'class-validator';
+import {
+  IsEmail,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  ValidateIf,
+} from 'class-validator';
 import { AuthService } from './auth.service';
+import { SessionContext } from './sessions/session.service';
 import { LocalAuthGuard } from './guards/local-auth.guard';
-import { JwtAuthGuard } from './guards/jwt-auth.guard';
 import { Public } from '../common/decorators/public.decorator';
+import { RateLimit } from '../rate-limit/decorators/rate-limit.decorator';
 
 export class LoginDto {
   @IsEmail()
   email: string;
 
   @IsString()
-  @MinLength(6)
+  @IsNotEmpty()
   password: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  deviceLabel?: string;
 }
 
 export class RegisterDto {
   @IsEmail()
   email: string;
 
+  // Checked against PasswordPolicyService, not here, so it is configurable
   @IsString()
-  @MinLength(8)
+  @IsNotEmpty()
   password: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  deviceLabel?: string;
 }
 
 export class RefreshTokenDto {
@@ -45,6 +71,79 @@ export class RefreshTokenDto {
   refreshToken: string;
 }
 
+export class VerifyEmailDto {
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+}
+
+export class ForgotPasswordDto {
+  @IsEmail()
+  email: string;
+}
+
+export class ResetPasswordDto {
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+
+  @IsString()
+  @IsNotEmpty()
+  password: string;
+}
+
+export class MagicLinkDto {
+  @IsEmail()
+  email: string;
+}
+
+/**
+ * Either the token from the emailed link, or the email and the 6-digit code
+ */
+export class ConsumeMagicLinkDto {
+  @ValidateIf((dto: ConsumeMagicLinkDto) => dto.code === undefined)
+  @IsString()
+  @IsNotEmpty()
+  token?: string;
+
+  @ValidateIf((dto: ConsumeMagicLinkDto) => dto.token === undefined)
+  @IsEmail()
+  email?: string;
+
+  @ValidateIf((dto: ConsumeMagicLinkDto) => dto.token === undefined)
+  @Matches(/^\d{6}$/, { message: 'code must be 6 digits' })
+  code?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  deviceLabel?: string;
+}
+
+const passwordPolicyErrorSchema = {
+  type: 'object',
+  properties: {
+    statusCode: { type: 'number', example: 400 },
+    message: {
+      type: 'string',
+      example: 'Password does not meet the password policy',
+    },
+    violations: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          rule: { type: 'string', example: 'min_length' },
+          message: {
+            type: 'string',
+            example: 'Must be at least 8 characters long',
+          },
+        },
+      },
+    },
+  },
+};
+
 @ApiTags('auth')
 @Controller('auth')
 export class AuthController {
@@ -68,9 +167,18 @@ export class AuthController {
       },
     },
   })
+  @ApiResponse({
+    status: 400,
+    description: 'Password rejected by the password policy',
+    schema: passwordPolicyErrorSchema,
+  })
   @ApiResponse({ status: 401, description: 'User already exists' })
-  async register(@Body() registerDto: RegisterDto) {
-    return this.authService.register(registerDto.email, registerDto.password);
+  async register(@Body() registerDto: RegisterDto, @Request() req) {
+    return this.authService.register(
+      registerDto.email,
+      registerDto.password,
+      this.getSessionContext(req, registerDto.deviceLabel),
+    );
   }
 
   @Public()
@@ -81,19 +189,35 @@ export class AuthController {
   @ApiBody({ type: LoginDto })
   @ApiResponse({
     status: 200,
-    description: 'Login successful',
+    description:
+      'Login successful. Accounts with 2FA get a challenge to redeem at /v1/auth/2fa/verify instead of tokens.',
     schema: {
-      type: 'object',
-      properties: {
-        accessToken: { type: 'string' },
-        refreshToken: { type: 'string' },
-        expiresIn: { type: 'number' },
-      },
+      oneOf: [
+        {
+          type: 'object',
+          properties: {
+            accessToken: { type: 'string' },
+            refreshToken: { type: 'string' },
+            expiresIn: { type: 'number' },
+          },
+        },
+        {
+          type: 'object',
+          properties: {
+            twoFactorRequired: { type: 'boolean', example: true },
+            challengeToken: { type: 'string' },
+            expiresIn: { type: 'number' },
+          },
+        },
+      ],
     },
   })
   @ApiResponse({ status: 401, description: 'Invalid credentials' })
   async login(@Request() req) {
-    return this.authService.login(req.user);
+    return this.authService.login(
+      req.user,
+      this.getSessionContext(req, req.body?.deviceLabel),
+    );
   }
 
   @Public()
@@ -119,12 +243,258 @@ export class AuthController {
     return this.authService.refreshToken(refreshTokenDto.refreshToken);
   }
 
-  @UseGuards(JwtAuthGuard)
+  @Public()
+  @Post('verify-email')
+  @Version('1')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Verify an email address with the emailed token' })
+  @ApiBody({ type: VerifyEmailDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Email address verified',
+    schema: {
+      type: 'object',
+      properties: {
+        message: { type: 'string', example: 'Email verified successfully' },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid or expired verification token',
+  })
+  async verifyEmail(@Body() verifyEmailDto: VerifyEmailDto) {
+    await this.authService.verifyEmail(verifyEmailDto.token);
+    return { message: 'Email verified successfully' };
+  }
+
+  @Post('verify-email/resend')
+  @Version('1')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiBearerAuth('JWT-auth')
+  @RateLimit({
+    capacity: 3,
+    windowSeconds: 3600,
+    strategy: 'token_bucket',
+    scope: 'verify_email_resend',
+  })
+  @ApiOperation({ summary: 'Send a new verification email' })
+  @ApiResponse({
+    status: 202,
+    description: 'Verification email sent',
+    schema: {
+      type: 'object',
+      properties: {
+        message: { type: 'string', example: 'Verification email sent' },
+      },
+    },
+  })
+  @ApiResponse({ status: 400, description: 'Email address already verified' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 429, description: 'Too many resend requests' })
+  async resendVerificationEmail(@Request() req) {
+    await this.authService.resendVerificationEmail(req.user.id);
+    return { message: 'Verification email sent' };
+  }
+
+  @Public()
+  @Get('password/policy')
+  @Version('1')
+  @ApiOperation({ summary: 'Rules new passwords must follow' })
+  @ApiResponse({
+    status: 200,
+    description: 'Current password policy',
+    schema: {
+      type: 'object',
+      properties: {
+        minLength: { type: 'number', example: 8 },
+        maxLength: { type: 'number', example: 128 },
+        requireUppercase: { type: 'boolean' },
+        requireLowercase: { type: 'boolean' },
+        requireDigit: { type: 'boolean' },
+        requireSymbol: { type: 'boolean' },
+        breachCheck: { type: 'boolean' },
+      },
+    },
+  })
+  getPasswordPolicy() {
+    return this.authService.getPasswordPolicy();
+  }
+
+  @Public()
+  @Post('password/forgot')
+  @Version('1')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @RateLimit([
+    {
+      capacity: 5,
+      windowSeconds: 900,
+      strategy: 'token_bucket',
+      scope: 'password_forgot',
+    },
+    // Per address as well, so rotating IPs cannot flood one inbox
+    {
+      capacity: 3,
+      windowSeconds: 3600,
+      strategy: 'sliding_window_log',
+      scope: 'password_forgot_email',
+      keyBy: { body: 'email' },
+    },
+  ])
+  @ApiOperation({ summary: 'Email a password reset link' })
+  @ApiBody({ type: ForgotPasswordDto })
+  @ApiResponse({
+    status: 202,
+    description:
+      'Reset link sent if the account exists. The response is the same either way.',
+    schema: {
+      type: 'object',
+      properties: {
+        message: {
+          type: 'string',
+          example:
+            'If an account exists for this email, a reset link has been sent',
+        },
+      },
+    },
+  })
+  @ApiResponse({ status: 429, description: 'Too many reset requests' })
+  async forgotPassword(@Body() forgotPasswordDto: ForgotPasswordDto) {
+    await this.authService.requestPasswordReset(forgotPasswordDto.email);
+    return {
+      message:
+        'If an account exists for this email, a reset link has been sent',
+    };
+  }
+
+  @Public()
+  @Post('password/reset')
+  @Version('1')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Set a new password with a reset token' })
+  @ApiBody({ type: ResetPasswordDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Password changed and all sessions signed out',
+    schema: {
+      type: 'object',
+      properties: {
+        message: { type: 'string', example: 'Password reset successfully' },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Invalid or expired reset token, or password rejected by the password policy',
+    schema: passwordPolicyErrorSchema,
+  })
+  async resetPassword(@Body() resetPasswordDto: ResetPasswordDto) {
+    await this.authService.resetPassword(
+      resetPasswordDto.token,
+      resetPasswordDto.password,
+    );
+    return { message: 'Password reset successfully' };
+  }
+
+  @Public()
+  @Post('magic-link')
+  @Version('1')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @RateLimit([
+    {
+      capacity: 5,
+      windowSeconds: 900,
+      strategy: 'token_bucket',
+      scope: 'magic_link',
+    },
+    // Per address as well, so rotating IPs cannot flood one inbox
+    {
+      capacity: 3,
+      windowSeconds: 3600,
+      strategy: 'sliding_window_log',
+      scope: 'magic_link_email',
+      keyBy: { body: 'email' },
+    },
+  ])
+  @ApiOperation({ summary: 'Email a passwordless sign-in link and code' })
+  @ApiBody({ type: MagicLinkDto })
+  @ApiResponse({
+    status: 202,
+    description:
+      'Link and code sent if the account exists. The response is the same either way.',
+    schema: {
+      type: 'object',
+      properties: {
+        message: {
+          type: 'string',
+          example:
+            'If an account exists for this email, a sign-in link has been sent',
+        },
+      },
+    },
+  })
+  async requestMagicLink(@Body() magicLinkDto: MagicLinkDto) {
+    await this.authService.requestMagicLink(magicLinkDto.email);
+    return {
+      message:
+        'If an account exists for this email, a sign-in link has been sent',
+    };
+  }
+
+  @Public()
+  @Post('magic-link/consume')
+  @Version('1')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Sign in with the token from a magic link or the emailed code',
+  })
+  @ApiBody({ type: ConsumeMagicLinkDto })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Signed in. Accounts with 2FA get a challenge to redeem at /v1/auth/2fa/verify instead of tokens.',
+    schema: {
+      type: 'object',
+      properties: {
+        accessToken: { type: 'string' },
+        refreshToken: { type: 'string' },
+        expiresIn: { type: 'number' },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Invalid, expired or already used link or code',
+  })
+  @ApiResponse({ status: 429, description: 'Too many failed attempts' })
+  async consumeMagicLink(
+    @Body() consumeMagicLinkDto: ConsumeMagicLinkDto,
+    @Request() req,
+  ) {
+    const context = this.getSessionContext(
+      req,
+      consumeMagicLinkDto.deviceLabel,
+    );
+
+    if (consumeMagicLinkDto.token !== undefined) {
+      return this.authService.loginWithMagicLink(
+        consumeMagicLinkDto.token,
+        context,
+      );
+    }
+    return this.authService.loginWithMagicCode(
+      consumeMagicLinkDto.email as string,
+      consumeMagicLinkDto.code as string,
+      context,
+    );
+  }
+
   @Post('logout')
   @Version('1')
   @HttpCode(HttpStatus.OK)
   @ApiBearerAuth('JWT-auth')
-  @ApiOperation({ summary: 'Logout user' })
+  @ApiOperation({ summary: 'Logout user from the current session' })
   @ApiResponse({
     status: 200,
     description: 'Logout successful',
@@ -137,7 +507,95 @@ export class AuthController {
   })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   async logout(@Request() req) {
-    await this.authService.logout(req.user.sub);
+    await this.authService.logout(req.user.sub, req.user.sessionId, {
+      jti: req.user.jti,
+      exp: req.user.exp,
+    });
     return { message: 'Logged out successfully' };
   }
+
+  @Get('sessions')
+  @Version('1')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'List active sessions for the current user' })
+  @ApiResponse({
+    status: 200,
+    description: 'Active sessions, most recently used first',
+    schema: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          deviceLabel: { type: 'string' },
+          ip: { type: 'string', nullable: true },
+          userAgent: { type: 'string', nullable: true },
+          createdAt: { type: 'string', format: 'date-time' },
+          lastUsedAt: { type: 'string', format: 'date-time' },
+          current: { type: 'boolean' },
+        },
+      },
+    },
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({
+    status: 403,
+    description: 'API keys and OAuth clients cannot manage sessions',
+  })
+  async listSessions(@Request() req) {
+    this.assertUserSession(req);
+    const sessions = await this.authService.listSessions(req.user.sub);
+    return sessions.map((session) => ({
+      ...session,
+      current: session.id === req.user.sessionId,
+    }));
+  }
+
+  @Delete('sessions/:id')
+  @Version('1')
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Revoke a session of the current user' })
+  @ApiParam({ name: 'id', description: 'Session ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Session revoked',
+    schema: {
+      type: 'object',
+      properties: {
+        message: { type: 'string', example: 'Session revoked successfully' },
+      },
+    },
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({
+    status: 403,
+    description: 'API keys and OAuth clients cannot manage sessions',
+  })
+  @ApiResponse({ status: 404, description: 'Session not found' })
+  async revokeSession(
+    @Request() req,
+    @Param('id', new ParseUUIDPipe()) sessionId: string,
+  ) {
+    this.assertUserSession(req);
+    await this.authService.revokeSession(req.user.sub, sessionId);
+    return { message: 'Session revoked successfully' };
+  }
+
+  // Login sessions are only managed by the user in person
+  private assertUserSession(req: any): void {
+    if (req.user.apiKeyId || req.user.clientId) {
+      throw new ForbiddenException(
+        'API keys and OAuth clients cannot manage sessions',
+      );
+    }
+  }
+
+  private getSessionContext(req: any, deviceLabel?: string): SessionContext {
+    return {
+      ip: req.ip,
+      userAgent: req.headers['user-agent'],
+      deviceLabel,
+    };
+  }
 }
@@ -1,29 +1,119 @@
 import { Module } from '@nestjs/common';
+import { APP_GUARD } from '@nestjs/core';
 import { JwtModule } from '@nestjs/jwt';
+import { TypeOrmModule } from '@nestjs/typeorm';
 import { PassportModule } from '@nestjs/passport';
 import { ConfigService } from '@nestjs/config';
 import { AuthService } from './auth.service';
 import { AuthController } from './auth.controller';
 import { JwtStrategy } from './strategies/jwt.strategy';
 import { LocalStrategy } from './strategies/local.strategy';
+import { ApiKeyStrategy } from './strategies/api-key.strategy';
 import { UsersModule } from './users/users.module';
+import { ApiKeysModule } from './api-keys/api-keys.module';
+import { SessionService } from './sessions/session.service';
+import { TokenRevocationService } from './tokens/token-revocation.service';
+import { OneTimeTokenService } from './tokens/one-time-token.service';
+import { JwtKeyService } from './keys/jwt-key.service';
+import { JwksController } from './keys/jwks.controller';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { RolesGuard } from './guards/roles.guard';
+import { EmailVerifiedGuard } from './guards/email-verified.guard';
+import { SecurityEventsListener } from './listeners/security-events.listener';
+import { MailModule } from '../mail/mail.module';
+import { TwoFactorService } from './two-factor/two-factor.service';
+import { TotpService } from './two-factor/totp.service';
+import { TwoFactorController } from './two-factor/two-factor.controller';
+import { RecoveryCode } from './two-factor/recovery-code.entity';
+import { LoginLockoutService } from './lockout/login-lockout.service';
+import { MagicLinkService } from './magic-link/magic-link.service';
+import { PasswordPolicyService } from './password/password-policy.service';
+import { PasswordHasherService } from './password/password-hasher.service';
+import { OAuthService } from './oauth/oauth.service';
+import { OAuthController } from './oauth/oauth.controller';
+import { OAuthIdentity } from './oauth/oauth-identity.entity';
+import { OAuthClient } from './authorization-server/oauth-client.entity';
+import { OAuthClientsService } from './authorization-server/oauth-clients.service';
+import { AuthorizationServerService } from './authorization-server/authorization-server.service';
+import { AuthorizationServerController } from './authorization-server/authorization-server.controller';
+import { OpenIdConfigurationController } from './authorization-server/openid-configuration.controller';
+import { WebAuthnCredential } from './webauthn/webauthn-credential.entity';
+import { WebAuthnService } from './webauthn/webauthn.service';
+import { WebAuthnController } from './webauthn/webauthn.controller';
+import { UsersController } from './users/users.controller';
+import { DataExportService } from './privacy/data-export.service';
+import { AccountErasureService } from './privacy/account-erasure.service';
+import { AuditModule } from '../audit/audit.module';
 
 @Module({
   imports: [
+    TypeOrmModule.forFeature([
+      RecoveryCode,
+      OAuthIdentity,
+      OAuthClient,
+      WebAuthnCredential,
+    ]),
     UsersModule,
+    ApiKeysModule,
+    MailModule,
+    AuditModule,
     PassportModule,
     JwtModule.registerAsync({
       inject: [ConfigService],
+      // Keys are supplied per call by JwtKeyService so several can coexist
       useFactory: (configService: ConfigService) => ({
-        secret: configService.get<string>('JWT_SECRET'),
         signOptions: {
           expiresIn: configService.get<string>('JWT_EXPIRES_IN', '15m'),
         },
       }),
     }),
   ],
-  providers: [AuthService, JwtStrategy, LocalStrategy],
-  controllers: [AuthController],
-  exports: [AuthService],
+  providers: [
+    AuthService,
+    SessionService,
+    TokenRevocationService,
+    OneTimeTokenService,
+    JwtKeyService,
+    TotpService,
+    TwoFactorService,
+    LoginLockoutService,
+    MagicLinkService,
+    PasswordPolicyService,
+    PasswordHasherService,
+    OAuthService,
+    OAuthClientsService,
+    AuthorizationServerService,
+    WebAuthnService,
+    DataExportService,
+    AccountErasureService,
+    SecurityEventsListener,
+    JwtStrategy,
+    LocalStrategy,
+    ApiKeyStrategy,
+    // Authenticate first, then authorize; both honour @Public()
+    {
+      provide: APP_GUARD,
+      useClass: JwtAuthGuard,
+    },
+    {
+      provide: APP_GUARD,
+      useClass: RolesGuard,
+    },
+    {
+      provide: APP_GUARD,
+      useClass: EmailVerifiedGuard,
+    },
+  ],
+  controllers: [
+    AuthController,
+    TwoFactorController,
+    OAuthController,
+    WebAuthnController,
+    UsersController,
+    AuthorizationServerController,
+    JwksController,
+    OpenIdConfigurationController,
+  ],
+  exports: [AuthService, OAuthClientsService],
 })
 export class AuthModule {}
@@ -1,28 +1,78 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { JwtService } from '@nestjs/jwt';
 import { ConfigService } from '@nestjs/config';
-import { UnauthorizedException } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  HttpException,
+  HttpStatus,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
 import { AuthService } from './auth.service';
 import { UsersService } from './users/users.service';
-import { RedisService } from '../redis/redis.service';
-import * as bcrypt from 'bcrypt';
-
-jest.mock('bcrypt');
+import { SessionService } from './sessions/session.service';
+import { SecurityEvents } from './events/security.events';
+import { TokenRevocationService } from './tokens/token-revocation.service';
+import { JwtKeyService } from './keys/jwt-key.service';
+import { OneTimeTokenService } from './tokens/one-time-token.service';
+import { MailService } from '../mail/mail.service';
+import { TwoFactorService } from './two-factor/two-factor.service';
+import { LoginLockoutService } from './lockout/login-lockout.service';
+import { MagicLinkService } from './magic-link/magic-link.service';
+import { PasswordPolicyService } from './password/password-policy.service';
+import { PasswordHasherService } from './password/password-hasher.service';
+import { PasswordPolicyException } from './password/password-policy.exception';
+import { AccountErasureService } from './privacy/account-erasure.service';
 
 describe('AuthService', () => {
   let service: AuthService;
   let usersService: jest.Mocked<UsersService>;
   let jwtService: jest.Mocked<JwtService>;
-  let redisService: jest.Mocked<RedisService>;
+  let sessionService: jest.Mocked<SessionService>;
+  let eventEmitter: jest.Mocked<EventEmitter2>;
+  let tokenRevocationService: jest.Mocked<TokenRevocationService>;
+  let oneTimeTokenService: jest.Mocked<OneTimeTokenService>;
+  let mailService: jest.Mocked<MailService>;
+  let twoFactorService: jest.Mocked<TwoFactorService>;
+  let loginLockoutService: jest.Mocked<LoginLockoutService>;
+  let magicLinkService: jest.Mocked<MagicLinkService>;
+  let passwordPolicyService: jest.Mocked<PasswordPolicyService>;
+  let passwordHasherService: jest.Mocked<PasswordHasherService>;
+  let accountErasureService: jest.Mocked<AccountErasureService>;
 
   const mockUser = {
     id: '1',
     email: 'test@example.com',
     password: 'hashedPassword',
+    emailVerifiedAt: null,
+    pendingEmail: null,
+    displayName: null,
+    locale: null,
+    timezone: null,
+    tokensValidAfter: null,
+    twoFactorEnabledAt: null,
+    suspendedAt: null,
+    suspensionReason: null,
+    deletedAt: null,
+    roles: [],
     createdAt: new Date(),
     updatedAt: new Date(),
   };
 
+  const mockSession = {
+    id: 'session-1',
+    userId: '1',
+    deviceLabel: 'Test device',
+    ip: '127.0.0.1',
+    userAgent: 'jest',
+    createdAt: new Date().toISOString(),
+    lastUsedAt: new Date().toISOString(),
+    refreshTokenHash: 'hash',
+  };
+
   beforeEach(async () => {
     // Create mock config service BEFORE creating the module
     const mockConfigService = {
@@ -46,6 +96,18 @@ describe('AuthService', () => {
             findByEmail: jest.fn(),
             findById: jest.fn(),
             create: jest.fn(),
+            setTokensValidAfter: jest.fn(),
+            updatePassword: jest.fn(),
+            markEmailVerified: jest.fn(),
+            setPendingEmail: jest.fn(),
+            changeEmail: jest.fn(),
+            delete: jest.fn(),
+            suspend: jest.fn(),
+            unsuspend: jest.fn(),
+            getAccess: jest.fn().mockResolvedValue({
+              roles: ['user'],
+              permissions: [],
+            }),
           },
         },
         {
@@ -60,11 +122,108 @@ describe('AuthService', () => {
           useValue: mockConfigService,
         },
         {
-          provide: RedisService,
+          provide: SessionService,
+          useValue: {
+            create: jest.fn(),
+            findById: jest.fn(),
+            attachRefreshToken: jest.fn(),
+            rotateRefreshToken: jest.fn(),
+            listForUser: jest.fn(),
+            revoke: jest.fn(),
+            revokeAll: jest.fn(),
+            toView: jest.fn(),
+          },
+        },
+        {
+          provide: EventEmitter2,
+          useValue: {
+            emit: jest.fn(),
+          },
+        },
+        {
+          provide: JwtKeyService,
+          useValue: {
+            getSignOptions: jest.fn(() => ({
+              secret: 'test-secret',
+              algorithm: 'HS256',
+            })),
+            getVerifyOptions: jest.fn(() => ({ secret: 'test-secret' })),
+            getKeyId: jest.fn(),
+          },
+        },
+        {
+          provide: TokenRevocationService,
+          useValue: {
+            revokeAccessToken: jest.fn(),
+            isAccessTokenRevoked: jest.fn(),
+          },
+        },
+        {
+          provide: OneTimeTokenService,
           useValue: {
-            get: jest.fn(),
-            set: jest.fn(),
-            del: jest.fn(),
+            issue: jest.fn().mockResolvedValue('reset-token'),
+            peek: jest.fn(),
+            consume: jest.fn(),
+          },
+        },
+        {
+          provide: MailService,
+          useValue: {
+            send: jest.fn().mockResolvedValue(undefined),
+          },
+        },
+        {
+          provide: TwoFactorService,
+          useValue: {
+            verifyCode: jest.fn(),
+            recordFailedChallengeAttempt: jest.fn(),
+            clearFailedChallengeAttempts: jest.fn(),
+          },
+        },
+        {
+          provide: LoginLockoutService,
+          useValue: {
+            assertNotLocked: jest.fn(),
+            recordFailure: jest.fn(),
+            recordSuccess: jest.fn(),
+            unlockAccount: jest.fn(),
+          },
+        },
+        {
+          provide: MagicLinkService,
+          useValue: {
+            issue: jest.fn().mockResolvedValue({
+              token: 'magic-token',
+              code: '123456',
+              expiresIn: 900,
+            }),
+            consumeToken: jest.fn(),
+            consumeCode: jest.fn(),
+          },
+        },
+        {
+          provide: PasswordPolicyService,
+          useValue: {
+            assertAcceptable: jest.fn(),
+            getPolicy: jest.fn(),
+          },
+        },
+        {
+          provide: PasswordHasherService,
+          useValue: {
+            hash: jest.fn(),
+            verify: jest.fn(),
+            needsRehash: jest.fn().mockReturnValue(false),
+          },
+        },
+        {
+          provide: AccountErasureService,
+          useValue: {
+            scheduleErasure: jest
+              .fn()
+              .mockResolvedValue(new Date('2026-02-01T00:00:00Z')),
+            cancelErasure: jest.fn(),
+            erase: jest.fn(),
           },
         },
       ],
@@ -73,7 +232,17 @@ describe('AuthService', () => {
     service = module.get<AuthService>(AuthService);
     usersService = module.get(UsersService);
     jwtService = module.get(JwtService);
-    redisService = module.get(RedisService);
+    sessionService = module.get(SessionService);
+    eventEmitter = module.get(EventEmitter2);
+    tokenRevocationService = module.get(TokenRevocationService);
+    oneTimeTokenService = module.get(OneTimeTokenService);
+    mailService = module.get(MailService);
+    twoFactorService = module.get(TwoFactorService);
+    loginLockoutService = module.get(LoginLockoutService);
+    magicLinkService = module.get(MagicLinkService);
+    passwordPolicyService = module.get(PasswordPolicyService);
+    passwordHasherService = module.get(PasswordHasherService);
+    accountErasureService = module.get(AccountErasureService);
   });
 
   afterEach(() => {
@@ -83,20 +252,42 @@ describe('AuthService', () => {
   describe('register', () => {
     it('should register a new user successfully', async () => {
       usersService.findByEmail.mockResolvedValue(null);
-      (bcrypt.hash as jest.Mock).mockResolvedValue('hashedPassword');
+      passwordHasherService.hash.mockResolvedValue('hashedPassword');
       usersService.create.mockResolvedValue(mockUser);
       jwtService.sign.mockReturnValue('access-token');
-      redisService.set.mockResolvedValue(true);
+      sessionService.create.mockResolvedValue(mockSession);
 
       const result = await service.register('test@example.com', 'password123');
 
       expect(usersService.findByEmail).toHaveBeenCalledWith('test@example.com');
-      expect(bcrypt.hash).toHaveBeenCalledWith('password123', 10);
+      expect(passwordHasherService.hash).toHaveBeenCalledWith('password123');
       expect(usersService.create).toHaveBeenCalled();
       expect(result).toHaveProperty('accessToken');
       expect(result).toHaveProperty('refreshToken');
     });
 
+    it('should email a verification link to the new user', async () => {
+      usersService.findByEmail.mockResolvedValue(null);
+      usersService.create.mockResolvedValue(mockUser);
+      jwtService.sign.mockReturnValue('access-token');
+      sessionService.create.mockResolvedValue(mockSession);
+
+      await service.register('test@example.com', 'password123');
+      await new Promise(process.nextTick);
+
+      expect(oneTimeTokenService.issue).toHaveBeenCalledWith(
+        'email_verification',
+        '1',
+        86400,
+      );
+      expect(mailService.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          to: 'test@example.com',
+          subject: 'Verify your email address',
+        }),
+      );
+    });
+
     it('should throw UnauthorizedException if user already exists', async () => {
       usersService.findByEmail.mockResolvedValue(mockUser);
 
@@ -106,12 +297,30 @@ describe('AuthService', () => {
 
       expect(usersService.create).not.toHaveBeenCalled();
     });
+
+    it('should refuse a password the policy rejects', async () => {
+      usersService.findByEmail.mockResolvedValue(null);
+      passwordPolicyService.assertAcceptable.mockRejectedValue(
+        new PasswordPolicyException([
+          { rule: 'min_length', message: 'Must be at least 8 characters long' },
+        ]),
+      );
+
+      await expect(
+        service.register('test@example.com', 'short'),
+      ).rejects.toThrow(PasswordPolicyException);
+      expect(passwordPolicyService.assertAcceptable).toHaveBeenCalledWith(
+        'short',
+        { email: 'test@example.com' },
+      );
+      expect(usersService.create).not.toHaveBeenCalled();
+    });
   });
 
   describe('validateUser', () => {
     it('should return user without password for valid credentials', async () => {
       usersService.findByEmail.mockResolvedValue(mockUser);
-      (bcrypt.compare as jest.Mock).mockResolvedValue(true);
+      passwordHasherService.verify.mockResolvedValue(true);
 
       const result = await service.validateUser(
         'test@example.com',
@@ -121,59 +330,278 @@ describe('AuthService', () => {
       expect(result).not.toHaveProperty('password');
       expect(result).toHaveProperty('id');
       expect(result).toHaveProperty('email');
+      expect(loginLockoutService.recordSuccess).toHaveBeenCalledWith(
+        'test@example.com',
+      );
     });
 
     it('should throw UnauthorizedException for invalid email', async () => {
       usersService.findByEmail.mockResolvedValue(null);
+      passwordHasherService.verify.mockResolvedValue(false);
 
       await expect(
-        service.validateUser('invalid@example.com', 'password123'),
+        service.validateUser('invalid@example.com', 'password123', '10.0.0.1'),
       ).rejects.toThrow(UnauthorizedException);
+
+      // Unknown emails are checked and counted exactly like known ones
+      expect(passwordHasherService.verify).toHaveBeenCalledWith(
+        'password123',
+        undefined,
+      );
+      expect(loginLockoutService.recordFailure).toHaveBeenCalledWith(
+        'invalid@example.com',
+        '10.0.0.1',
+      );
     });
 
     it('should throw UnauthorizedException for invalid password', async () => {
       usersService.findByEmail.mockResolvedValue(mockUser);
-      (bcrypt.compare as jest.Mock).mockResolvedValue(false);
+      passwordHasherService.verify.mockResolvedValue(false);
 
       await expect(
-        service.validateUser('test@example.com', 'wrongpassword'),
+        service.validateUser('test@example.com', 'wrongpassword', '10.0.0.1'),
       ).rejects.toThrow(UnauthorizedException);
+      expect(loginLockoutService.recordFailure).toHaveBeenCalledWith(
+        'test@example.com',
+        '10.0.0.1',
+      );
+    });
+
+    it('should not check the password while locked out', async () => {
+      loginLockoutService.assertNotLocked.mockRejectedValue(
+        new HttpException('Locked', HttpStatus.TOO_MANY_REQUESTS),
+      );
+
+      await expect(
+        service.validateUser('test@example.com', 'password123'),
+      ).rejects.toThrow(HttpException);
+      expect(usersService.findByEmail).not.toHaveBeenCalled();
+      expect(passwordHasherService.verify).not.toHaveBeenCalled();
+    });
+
+    it('should upgrade an outdated password hash after a successful login', async () => {
+      usersService.findByEmail.mockResolvedValue(mockUser);
+      passwordHasherService.verify.mockResolvedValue(true);
+      passwordHasherService.needsRehash.mockReturnValueOnce(true);
+      passwordHasherService.hash.mockResolvedValue('upgradedHash');
+
+      await service.validateUser('test@example.com', 'password123');
+
+      expect(passwordHasherService.needsRehash).toHaveBeenCalledWith(
+        'hashedPassword',
+      );
+      expect(usersService.updatePassword).toHaveBeenCalledWith(
+        '1',
+        'upgradedHash',
+      );
+    });
+
+    it('should leave a current password hash alone', async () => {
+      usersService.findByEmail.mockResolvedValue(mockUser);
+      passwordHasherService.verify.mockResolvedValue(true);
+
+      await service.validateUser('test@example.com', 'password123');
+
+      expect(passwordHasherService.hash).not.toHaveBeenCalled();
+      expect(usersService.updatePassword).not.toHaveBeenCalled();
+    });
+
+    it('should still log in when the hash upgrade fails', async () => {
+      usersService.findByEmail.mockResolvedValue(mockUser);
+      passwordHasherService.verify.mockResolvedValue(true);
+      passwordHasherService.needsRehash.mockReturnValueOnce(true);
+      passwordHasherService.hash.mockResolvedValue('upgradedHash');
+      usersService.updatePassword.mockRejectedValueOnce(new Error('db down'));
+
+      await expect(
+        service.validateUser('test@example.com', 'password123'),
+      ).resolves.toHaveProperty('id', '1');
     });
   });
 
   describe('login', () => {
-    it('should generate tokens and store refresh token', async () => {
+    it('should create a session and bind the refresh token to it', async () => {
       jwtService.sign.mockReturnValue('access-token');
-      redisService.set.mockResolvedValue(true);
+      sessionService.create.mockResolvedValue(mockSession);
 
-      const result = await service.login({
-        id: '1',
-        email: 'test@example.com',
-      });
+      const context = { ip: '127.0.0.1', deviceLabel: 'Laptop' };
+      const result = await service.login(
+        {
+          id: '1',
+          email: 'test@example.com',
+        },
+        context,
+      );
 
-      expect(jwtService.sign).toHaveBeenCalled();
-      expect(redisService.set).toHaveBeenCalled();
+      expect(sessionService.create).toHaveBeenCalledWith('1', context);
+      expect(jwtService.sign).toHaveBeenCalledWith(
+        expect.objectContaining({
+          sub: '1',
+          sid: 'session-1',
+          roles: ['user'],
+          permissions: [],
+        }),
+        expect.objectContaining({ algorithm: 'HS256' }),
+      );
+      expect(sessionService.attachRefreshToken).toHaveBeenCalledWith(
+        mockSession,
+        'access-token',
+      );
       expect(result).toHaveProperty('accessToken');
       expect(result).toHaveProperty('refreshToken');
       expect(result).toHaveProperty('expiresIn');
     });
+
+    it('should return a challenge instead of tokens when 2FA is on', async () => {
+      oneTimeTokenService.issue.mockResolvedValue('challenge-token');
+
+      const result = await service.login({
+        ...mockUser,
+        twoFactorEnabledAt: new Date(),
+      });
+
+      expect(result).toEqual({
+        twoFactorRequired: true,
+        challengeToken: 'challenge-token',
+        expiresIn: 300,
+      });
+      expect(oneTimeTokenService.issue).toHaveBeenCalledWith(
+        'two_factor_challenge',
+        '1',
+        300,
+      );
+      // Wrong codes of earlier challenges still count
+      expect(
+        twoFactorService.clearFailedChallengeAttempts,
+      ).not.toHaveBeenCalled();
+      expect(sessionService.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a suspended user', async () => {
+      await expect(
+        service.login({ ...mockUser, suspendedAt: new Date() }),
+      ).rejects.toThrow(ForbiddenException);
+      expect(sessionService.create).not.toHaveBeenCalled();
+      expect(oneTimeTokenService.issue).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a deleted user', async () => {
+      await expect(
+        service.login({ ...mockUser, deletedAt: new Date() }),
+      ).rejects.toThrow('Account deleted');
+      expect(sessionService.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('loginWithPasskey', () => {
+    const twoFactorUser = { ...mockUser, twoFactorEnabledAt: new Date() };
+
+    it('should skip the TOTP step when the authenticator verified the user', async () => {
+      jwtService.sign.mockReturnValue('access-token');
+      sessionService.create.mockResolvedValue(mockSession);
+
+      const result = await service.loginWithPasskey(twoFactorUser, true);
+
+      expect(result).toHaveProperty('accessToken');
+      expect(oneTimeTokenService.issue).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to the 2FA challenge without user verification', async () => {
+      oneTimeTokenService.issue.mockResolvedValue('challenge-token');
+
+      const result = await service.loginWithPasskey(twoFactorUser, false);
+
+      expect(result).toHaveProperty('twoFactorRequired', true);
+      expect(sessionService.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verifyTwoFactorLogin', () => {
+    it('should issue tokens for a valid code and spend the challenge', async () => {
+      oneTimeTokenService.peek.mockResolvedValue('1');
+      oneTimeTokenService.consume.mockResolvedValue('1');
+      twoFactorService.verifyCode.mockResolvedValue(true);
+      usersService.findById.mockResolvedValue(mockUser);
+      jwtService.sign.mockReturnValue('access-token');
+      sessionService.create.mockResolvedValue(mockSession);
+
+      const result = await service.verifyTwoFactorLogin(
+        'challenge-token',
+        '123456',
+      );
+
+      expect(twoFactorService.verifyCode).toHaveBeenCalledWith('1', '123456');
+      expect(oneTimeTokenService.consume).toHaveBeenCalledWith(
+        'two_factor_challenge',
+        'challenge-token',
+      );
+      expect(result).toHaveProperty('accessToken');
+    });
+
+    it('should keep the challenge after a wrong code until attempts run out', async () => {
+      oneTimeTokenService.peek.mockResolvedValue('1');
+      usersService.findById.mockResolvedValue(mockUser);
+      twoFactorService.verifyCode.mockResolvedValue(false);
+      twoFactorService.recordFailedChallengeAttempt.mockResolvedValueOnce(
+        false,
+      );
+
+      await expect(
+        service.verifyTwoFactorLogin('challenge-token', '000000'),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(oneTimeTokenService.consume).not.toHaveBeenCalled();
+
+      twoFactorService.recordFailedChallengeAttempt.mockResolvedValueOnce(true);
+
+      await expect(
+        service.verifyTwoFactorLogin('challenge-token', '000000'),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(oneTimeTokenService.consume).toHaveBeenCalledWith(
+        'two_factor_challenge',
+        'challenge-token',
+      );
+      expect(
+        twoFactorService.clearFailedChallengeAttempts,
+      ).not.toHaveBeenCalled();
+      expect(loginLockoutService.recordFailure).toHaveBeenCalledTimes(1);
+      expect(loginLockoutService.recordFailure).toHaveBeenCalledWith(
+        'test@example.com',
+        undefined,
+      );
+      expect(sessionService.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject an unknown or expired challenge', async () => {
+      oneTimeTokenService.peek.mockResolvedValue(null);
+
+      await expect(
+        service.verifyTwoFactorLogin('expired', '123456'),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(twoFactorService.verifyCode).not.toHaveBeenCalled();
+    });
   });
 
   describe('refreshToken', () => {
     it('should refresh tokens successfully', async () => {
       const refreshTokenValue = 'valid-refresh-token';
-      const payload = { sub: '1', email: 'test@example.com' };
+      const payload = { sub: '1', email: '', sid: 'session-1' };
 
       jwtService.verify.mockReturnValue(payload);
-      redisService.get.mockResolvedValue(refreshTokenValue);
+      sessionService.findById.mockResolvedValue(mockSession);
+      sessionService.rotateRefreshToken.mockResolvedValue('rotated');
       usersService.findById.mockResolvedValue(mockUser);
       jwtService.sign.mockReturnValue('new-access-token');
-      redisService.set.mockResolvedValue(true);
 
       const result = await service.refreshToken(refreshTokenValue);
 
       expect(jwtService.verify).toHaveBeenCalled();
-      expect(redisService.get).toHaveBeenCalled();
+      expect(sessionService.findById).toHaveBeenCalledWith('session-1');
+      expect(sessionService.rotateRefreshToken).toHaveBeenCalledWith(
+        'session-1',
+        refreshTokenValue,
+        'new-access-token',
+      );
+      expect(sessionService.create).not.toHaveBeenCalled();
       expect(result).toHaveProperty('accessToken');
     });
 
@@ -187,24 +615,685 @@ describe('AuthService', () => {
       );
     });
 
-    it('should throw UnauthorizedException if refresh token not in Redis', async () => {
-      const payload = { sub: '1', email: 'test@example.com' };
+    it('should throw UnauthorizedException if session not in Redis', async () => {
+      const payload = { sub: '1', email: '', sid: 'session-1' };
       jwtService.verify.mockReturnValue(payload);
-      redisService.get.mockResolvedValue(null);
+      sessionService.findById.mockResolvedValue(null);
 
       await expect(service.refreshToken('token')).rejects.toThrow(
         UnauthorizedException,
       );
     });
+
+    it('should revoke the token family when a rotated token is reused', async () => {
+      const payload = { sub: '1', email: '', sid: 'session-1' };
+      jwtService.verify.mockReturnValue(payload);
+      sessionService.findById.mockResolvedValue(mockSession);
+      usersService.findById.mockResolvedValue(mockUser);
+      jwtService.sign.mockReturnValue('new-token');
+      sessionService.rotateRefreshToken.mockResolvedValue('reused');
+
+      await expect(service.refreshToken('stale-token')).rejects.toThrow(
+        UnauthorizedException,
+      );
+
+      expect(sessionService.revoke).toHaveBeenCalledWith('1', 'session-1');
+      expect(eventEmitter.emit).toHaveBeenCalledWith(
+        SecurityEvents.REFRESH_TOKEN_REUSED,
+        expect.objectContaining({ userId: '1', sessionId: 'session-1' }),
+      );
+    });
+
+    it('should not revoke anything when the session is already gone', async () => {
+      const payload = { sub: '1', email: '', sid: 'session-1' };
+      jwtService.verify.mockReturnValue(payload);
+      sessionService.findById.mockResolvedValue(mockSession);
+      usersService.findById.mockResolvedValue(mockUser);
+      jwtService.sign.mockReturnValue('new-token');
+      sessionService.rotateRefreshToken.mockResolvedValue('missing');
+
+      await expect(service.refreshToken('token')).rejects.toThrow(
+        UnauthorizedException,
+      );
+
+      expect(sessionService.revoke).not.toHaveBeenCalled();
+      expect(eventEmitter.emit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('switchOrganization', () => {
+    it('should reissue the session tokens with the org_id claim', async () => {
+      sessionService.findById.mockResolvedValue(mockSession);
+      usersService.findById.mockResolvedValue(mockUser);
+      jwtService.sign.mockReturnValue('org-token');
+
+      const result = await service.switchOrganization(
+        '1',
+        'session-1',
+        'org-1',
+      );
+
+      expect(jwtService.sign.mock.calls[0][0]).toMatchObject({
+        sid: 'session-1',
+        org_id: 'org-1',
+      });
+      expect(sessionService.attachRefreshToken).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'session-1', orgId: 'org-1' }),
+        'org-token',
+      );
+      expect(result).toHaveProperty('accessToken', 'org-token');
+    });
+
+    it("should refuse another user's session", async () => {
+      sessionService.findById.mockResolvedValue({
+        ...mockSession,
+        userId: '2',
+      });
+      usersService.findById.mockResolvedValue(mockUser);
+
+      await expect(
+        service.switchOrganization('1', 'session-1', 'org-1'),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(sessionService.attachRefreshToken).not.toHaveBeenCalled();
+    });
   });
 
   describe('logout', () => {
-    it('should remove refresh token from Redis', async () => {
-      redisService.del.mockResolvedValue(true);
+    it('should only revoke the current session', async () => {
+      sessionService.revoke.mockResolvedValue(true);
+
+      await service.logout('1', 'session-1');
+
+      expect(sessionService.revoke).toHaveBeenCalledWith('1', 'session-1');
+      expect(sessionService.revokeAll).not.toHaveBeenCalled();
+    });
+
+    it('should deny the access token used to log out', async () => {
+      sessionService.revoke.mockResolvedValue(true);
+      const exp = Math.floor(Date.now() / 1000) + 900;
+
+      await service.logout('1', 'session-1', { jti: 'jti-1', exp });
+
+      expect(tokenRevocationService.revokeAccessToken).toHaveBeenCalledWith(
+        'jti-1',
+        exp,
+      );
+    });
+  });
+
+  describe('revokeAllTokensForUser', () => {
+    it('should move tokensValidAfter forward and end every session', async () => {
+      await service.revokeAllTokensForUser('1');
+
+      expect(usersService.setTokensValidAfter).toHaveBeenCalledWith(
+        '1',
+        expect.any(Date),
+      );
+      expect(sessionService.revokeAll).toHaveBeenCalledWith('1');
+    });
+  });
+
+  describe('changePassword', () => {
+    it('should check the current password, store the new one and revoke every token', async () => {
+      usersService.findById.mockResolvedValueOnce(mockUser);
+      passwordHasherService.verify.mockResolvedValueOnce(true);
+      passwordHasherService.hash.mockResolvedValueOnce('newHash');
+
+      await service.changePassword('1', 'password123', 'new-password');
+
+      expect(passwordHasherService.verify).toHaveBeenCalledWith(
+        'password123',
+        'hashedPassword',
+      );
+      expect(passwordPolicyService.assertAcceptable).toHaveBeenCalledWith(
+        'new-password',
+        { email: 'test@example.com' },
+      );
+      expect(usersService.updatePassword).toHaveBeenCalledWith('1', 'newHash');
+      expect(usersService.setTokensValidAfter).toHaveBeenCalled();
+      expect(sessionService.revokeAll).toHaveBeenCalledWith('1');
+      expect(mailService.send).toHaveBeenCalledWith(
+        expect.objectContaining({ subject: 'Your password was changed' }),
+      );
+    });
 
-      await service.logout('1');
+    it('should count a wrong current password towards the lockout', async () => {
+      usersService.findById.mockResolvedValueOnce(mockUser);
+      passwordHasherService.verify.mockResolvedValueOnce(false);
 
-      expect(redisService.del).toHaveBeenCalledWith('refresh_token:1');
+      await expect(
+        service.changePassword('1', 'wrong', 'new-password'),
+      ).rejects.toThrow(BadRequestException);
+      expect(loginLockoutService.recordFailure).toHaveBeenCalledWith(
+        'test@example.com',
+      );
+      expect(usersService.updatePassword).not.toHaveBeenCalled();
+    });
+
+    it('should keep the old password when the new one breaks the policy', async () => {
+      usersService.findById.mockResolvedValueOnce(mockUser);
+      passwordHasherService.verify.mockResolvedValueOnce(true);
+      passwordPolicyService.assertAcceptable.mockRejectedValueOnce(
+        new PasswordPolicyException([
+          { rule: 'min_length', message: 'Must be at least 8 characters long' },
+        ]),
+      );
+
+      await expect(
+        service.changePassword('1', 'password123', 'short'),
+      ).rejects.toThrow(PasswordPolicyException);
+      expect(usersService.updatePassword).not.toHaveBeenCalled();
+      expect(sessionService.revokeAll).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('requestEmailChange', () => {
+    it('should store the pending address and email a link to it', async () => {
+      usersService.findById.mockResolvedValueOnce(mockUser);
+      usersService.findByEmail.mockResolvedValueOnce(null);
+      passwordHasherService.verify.mockResolvedValueOnce(true);
+      oneTimeTokenService.issue.mockResolvedValueOnce('change-token');
+
+      await service.requestEmailChange('1', 'new@example.com', 'password123');
+
+      expect(usersService.setPendingEmail).toHaveBeenCalledWith(
+        '1',
+        'new@example.com',
+      );
+      expect(oneTimeTokenService.issue).toHaveBeenCalledWith(
+        'email_change',
+        '1',
+        86400,
+      );
+      expect(mailService.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          to: 'new@example.com',
+          text: expect.stringContaining('token=change-token'),
+        }),
+      );
+      // The current address hears about it too
+      expect(mailService.send).toHaveBeenCalledWith(
+        expect.objectContaining({ to: 'test@example.com' }),
+      );
+    });
+
+    it('should refuse an address that belongs to another account', async () => {
+      usersService.findById.mockResolvedValueOnce(mockUser);
+      usersService.findByEmail.mockResolvedValueOnce({
+        ...mockUser,
+        id: '2',
+        email: 'taken@example.com',
+      });
+      passwordHasherService.verify.mockResolvedValueOnce(true);
+
+      await expect(
+        service.requestEmailChange('1', 'taken@example.com', 'password123'),
+      ).rejects.toThrow(ConflictException);
+      expect(usersService.setPendingEmail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('confirmEmailChange', () => {
+    it('should switch to the pending address', async () => {
+      oneTimeTokenService.consume.mockResolvedValueOnce('1');
+      usersService.findById.mockResolvedValueOnce({
+        ...mockUser,
+        pendingEmail: 'new@example.com',
+      });
+      usersService.findByEmail.mockResolvedValueOnce(null);
+
+      await service.confirmEmailChange('change-token');
+
+      expect(oneTimeTokenService.consume).toHaveBeenCalledWith(
+        'email_change',
+        'change-token',
+      );
+      expect(usersService.changeEmail).toHaveBeenCalledWith(
+        '1',
+        'new@example.com',
+      );
+    });
+
+    it('should reject an invalid token', async () => {
+      oneTimeTokenService.consume.mockResolvedValueOnce(null);
+
+      await expect(service.confirmEmailChange('bad-token')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(usersService.changeEmail).not.toHaveBeenCalled();
+    });
+
+    it('should drop the change if the address was taken meanwhile', async () => {
+      oneTimeTokenService.consume.mockResolvedValueOnce('1');
+      usersService.findById.mockResolvedValueOnce({
+        ...mockUser,
+        pendingEmail: 'new@example.com',
+      });
+      usersService.findByEmail.mockResolvedValueOnce({
+        ...mockUser,
+        id: '2',
+        email: 'new@example.com',
+      });
+
+      await expect(service.confirmEmailChange('change-token')).rejects.toThrow(
+        ConflictException,
+      );
+      expect(usersService.setPendingEmail).toHaveBeenCalledWith('1', null);
+      expect(usersService.changeEmail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteAccount', () => {
+    it('should revoke every token and schedule the erasure', async () => {
+      usersService.findById.mockResolvedValueOnce(mockUser);
+      passwordHasherService.verify.mockResolvedValueOnce(true);
+
+      const eraseAfter = await service.deleteAccount('1', 'password123');
+
+      expect(sessionService.revokeAll).toHaveBeenCalledWith('1');
+      expect(accountErasureService.scheduleErasure).toHaveBeenCalledWith('1');
+      expect(eraseAfter).toEqual(new Date('2026-02-01T00:00:00Z'));
+      expect(usersService.delete).not.toHaveBeenCalled();
+      expect(mailService.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          to: 'test@example.com',
+          subject: 'Your account was deleted',
+        }),
+      );
+    });
+
+    it('should keep the account on a wrong password', async () => {
+      usersService.findById.mockResolvedValueOnce(mockUser);
+      passwordHasherService.verify.mockResolvedValueOnce(false);
+
+      await expect(service.deleteAccount('1', 'wrong')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(accountErasureService.scheduleErasure).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('suspendUser', () => {
+    it('should suspend the user and revoke every token', async () => {
+      usersService.findById.mockResolvedValueOnce(mockUser);
+
+      await service.suspendUser('1', 'Chargeback', 'admin-1');
+
+      expect(usersService.suspend).toHaveBeenCalledWith('1', 'Chargeback');
+      expect(usersService.setTokensValidAfter).toHaveBeenCalled();
+      expect(sessionService.revokeAll).toHaveBeenCalledWith('1');
+      expect(eventEmitter.emit).toHaveBeenCalledWith(
+        SecurityEvents.USER_SUSPENDED,
+        expect.objectContaining({
+          userId: '1',
+          suspendedBy: 'admin-1',
+          reason: 'Chargeback',
+        }),
+      );
+    });
+
+    it('should not let admins suspend themselves', async () => {
+      await expect(service.suspendUser('1', null, '1')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(usersService.suspend).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for unknown users', async () => {
+      usersService.findById.mockResolvedValueOnce(null);
+
+      await expect(
+        service.suspendUser('missing', null, 'admin-1'),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('unsuspendUser', () => {
+    it('should lift the suspension', async () => {
+      usersService.findById.mockResolvedValueOnce({
+        ...mockUser,
+        suspendedAt: new Date(),
+      });
+
+      await service.unsuspendUser('1', 'admin-1');
+
+      expect(usersService.unsuspend).toHaveBeenCalledWith('1');
+      expect(eventEmitter.emit).toHaveBeenCalledWith(
+        SecurityEvents.USER_UNSUSPENDED,
+        expect.objectContaining({ userId: '1', unsuspendedBy: 'admin-1' }),
+      );
+    });
+  });
+
+  describe('forcePasswordReset', () => {
+    it('should replace the password, sign out everywhere and send a reset link', async () => {
+      usersService.findById.mockResolvedValueOnce(mockUser);
+      passwordHasherService.hash.mockResolvedValueOnce('unusableHash');
+
+      await service.forcePasswordReset('1', 'admin-1');
+
+      expect(usersService.updatePassword).toHaveBeenCalledWith(
+        '1',
+        'unusableHash',
+      );
+      expect(sessionService.revokeAll).toHaveBeenCalledWith('1');
+      expect(oneTimeTokenService.issue).toHaveBeenCalledWith(
+        'password_reset',
+        '1',
+        3600,
+      );
+      expect(mailService.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          to: 'test@example.com',
+          subject: 'Reset your password',
+        }),
+      );
+    });
+  });
+
+  describe('deleteUser', () => {
+    it('should revoke every token and erase the user', async () => {
+      usersService.findById.mockResolvedValueOnce(mockUser);
+
+      await service.deleteUser('1', 'admin-1');
+
+      expect(sessionService.revokeAll).toHaveBeenCalledWith('1');
+      expect(accountErasureService.erase).toHaveBeenCalledWith('1', 'admin-1');
+    });
+
+    it('should not let admins delete themselves', async () => {
+      await expect(service.deleteUser('1', '1')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(accountErasureService.erase).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('restoreUser', () => {
+    it('should cancel the erasure of a deleted user', async () => {
+      usersService.findById.mockResolvedValueOnce({
+        ...mockUser,
+        deletedAt: new Date(),
+      });
+
+      await service.restoreUser('1', 'admin-1');
+
+      expect(accountErasureService.cancelErasure).toHaveBeenCalledWith(
+        '1',
+        'admin-1',
+      );
+    });
+
+    it('should refuse a user that is not deleted', async () => {
+      usersService.findById.mockResolvedValueOnce(mockUser);
+
+      await expect(service.restoreUser('1', 'admin-1')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(accountErasureService.cancelErasure).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verifyEmail', () => {
+    it('should mark the email verified', async () => {
+      oneTimeTokenService.consume.mockResolvedValue('1');
+      usersService.findById.mockResolvedValue(mockUser);
+
+      await service.verifyEmail('verify-token');
+
+      expect(oneTimeTokenService.consume).toHaveBeenCalledWith(
+        'email_verification',
+        'verify-token',
+      );
+      expect(usersService.markEmailVerified).toHaveBeenCalledWith('1');
+    });
+
+    it('should reject an invalid or used token', async () => {
+      oneTimeTokenService.consume.mockResolvedValue(null);
+
+      await expect(service.verifyEmail('used-token')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(usersService.markEmailVerified).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resendVerificationEmail', () => {
+    it('should refuse when the email is already verified', async () => {
+      usersService.findById.mockResolvedValue({
+        ...mockUser,
+        emailVerifiedAt: new Date(),
+      });
+
+      await expect(service.resendVerificationEmail('1')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mailService.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('requestPasswordReset', () => {
+    it('should email a single-use reset link to an existing user', async () => {
+      usersService.findByEmail.mockResolvedValue(mockUser);
+
+      await service.requestPasswordReset('test@example.com');
+      await new Promise(process.nextTick);
+
+      expect(oneTimeTokenService.issue).toHaveBeenCalledWith(
+        'password_reset',
+        '1',
+        3600,
+      );
+      expect(mailService.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          to: 'test@example.com',
+          text: expect.stringContaining('token=reset-token'),
+        }),
+      );
+    });
+
+    it('should resolve silently for an unknown email', async () => {
+      usersService.findByEmail.mockResolvedValue(null);
+
+      await expect(
+        service.requestPasswordReset('missing@example.com'),
+      ).resolves.toBeUndefined();
+      expect(oneTimeTokenService.issue).not.toHaveBeenCalled();
+      expect(mailService.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resetPassword', () => {
+    it('should set the new password and revoke every token', async () => {
+      oneTimeTokenService.peek.mockResolvedValue('1');
+      oneTimeTokenService.consume.mockResolvedValue('1');
+      usersService.findById.mockResolvedValue(mockUser);
+      passwordHasherService.hash.mockResolvedValue('newHash');
+
+      await service.resetPassword('reset-token', 'new-password');
+
+      expect(passwordPolicyService.assertAcceptable).toHaveBeenCalledWith(
+        'new-password',
+        { email: 'test@example.com' },
+      );
+      expect(oneTimeTokenService.consume).toHaveBeenCalledWith(
+        'password_reset',
+        'reset-token',
+      );
+      expect(usersService.updatePassword).toHaveBeenCalledWith('1', 'newHash');
+      expect(usersService.setTokensValidAfter).toHaveBeenCalled();
+      expect(sessionService.revokeAll).toHaveBeenCalledWith('1');
+    });
+
+    it('should reject an invalid, expired or used token', async () => {
+      oneTimeTokenService.peek.mockResolvedValue(null);
+
+      await expect(
+        service.resetPassword('used-token', 'new-password'),
+      ).rejects.toThrow(BadRequestException);
+      expect(usersService.updatePassword).not.toHaveBeenCalled();
+    });
+
+    it('should keep the token when the policy rejects the password', async () => {
+      oneTimeTokenService.peek.mockResolvedValue('1');
+      usersService.findById.mockResolvedValue(mockUser);
+      passwordPolicyService.assertAcceptable.mockRejectedValue(
+        new PasswordPolicyException([
+          { rule: 'breached', message: 'Has appeared in a data breach' },
+        ]),
+      );
+
+      await expect(
+        service.resetPassword('reset-token', 'password123'),
+      ).rejects.toThrow(PasswordPolicyException);
+      expect(oneTimeTokenService.consume).not.toHaveBeenCalled();
+    });
+
+    it('should fail if the token was spent by a concurrent reset', async () => {
+      oneTimeTokenService.peek.mockResolvedValue('1');
+      oneTimeTokenService.consume.mockResolvedValue(null);
+      usersService.findById.mockResolvedValue(mockUser);
+
+      await expect(
+        service.resetPassword('reset-token', 'new-password'),
+      ).rejects.toThrow(BadRequestException);
+      expect(usersService.updatePassword).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('requestMagicLink', () => {
+    it('should email a sign-in link and code to an existing user', async () => {
+      usersService.findByEmail.mockResolvedValue(mockUser);
+
+      await service.requestMagicLink('test@example.com');
+      await new Promise(process.nextTick);
+
+      expect(magicLinkService.issue).toHaveBeenCalledWith('1');
+      expect(mailService.send).toHaveBeenCalledWith(
+        expect.objectContaining({ to: 'test@example.com' }),
+      );
+      const { text } = mailService.send.mock.calls[0][0];
+      expect(text).toContain('token=magic-token');
+      expect(text).toContain('123456');
+    });
+
+    it('should resolve silently for an unknown email', async () => {
+      usersService.findByEmail.mockResolvedValue(null);
+
+      await expect(
+        service.requestMagicLink('missing@example.com'),
+      ).resolves.toBeUndefined();
+      expect(magicLinkService.issue).not.toHaveBeenCalled();
+      expect(mailService.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('loginWithMagicLink', () => {
+    it('should sign in and verify the email address', async () => {
+      magicLinkService.consumeToken.mockResolvedValue('1');
+      usersService.findById.mockResolvedValue(mockUser);
+      jwtService.sign.mockReturnValue('access-token');
+      sessionService.create.mockResolvedValue(mockSession);
+
+      const result = await service.loginWithMagicLink('magic-token');
+
+      expect(usersService.markEmailVerified).toHaveBeenCalledWith('1');
+      expect(result).toHaveProperty('accessToken');
+    });
+
+    it('should still require the second factor when 2FA is on', async () => {
+      magicLinkService.consumeToken.mockResolvedValue('1');
+      usersService.findById.mockResolvedValue({
+        ...mockUser,
+        twoFactorEnabledAt: new Date(),
+      });
+      oneTimeTokenService.issue.mockResolvedValue('challenge-token');
+
+      const result = await service.loginWithMagicLink('magic-token');
+
+      expect(result).toHaveProperty('twoFactorRequired', true);
+      expect(sessionService.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject an invalid, expired or used link', async () => {
+      magicLinkService.consumeToken.mockResolvedValue(null);
+
+      await expect(service.loginWithMagicLink('used-token')).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(sessionService.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('loginWithMagicCode', () => {
+    it('should sign in with a valid code and reset the failure counter', async () => {
+      usersService.findByEmail.mockResolvedValue(mockUser);
+      magicLinkService.consumeCode.mockResolvedValue('valid');
+      jwtService.sign.mockReturnValue('access-token');
+      sessionService.create.mockResolvedValue(mockSession);
+
+      const result = await service.loginWithMagicCode(
+        'test@example.com',
+        '123456',
+        { ip: '10.0.0.1' },
+      );
+
+      expect(loginLockoutService.assertNotLocked).toHaveBeenCalledWith(
+        'test@example.com',
+        '10.0.0.1',
+      );
+      expect(magicLinkService.consumeCode).toHaveBeenCalledWith('1', '123456');
+      expect(loginLockoutService.recordSuccess).toHaveBeenCalledWith(
+        'test@example.com',
+      );
+      expect(result).toHaveProperty('accessToken');
+    });
+
+    it('should count a wrong code as a failed login', async () => {
+      usersService.findByEmail.mockResolvedValue(mockUser);
+      magicLinkService.consumeCode.mockResolvedValue('invalid');
+
+      await expect(
+        service.loginWithMagicCode('test@example.com', '000000', {
+          ip: '10.0.0.1',
+        }),
+      ).rejects.toThrow('Invalid or expired code');
+      expect(loginLockoutService.recordFailure).toHaveBeenCalledWith(
+        'test@example.com',
+        '10.0.0.1',
+      );
+    });
+
+    it('should tell the user to request a new code once attempts run out', async () => {
+      usersService.findByEmail.mockResolvedValue(mockUser);
+      magicLinkService.consumeCode.mockResolvedValue('exhausted');
+
+      await expect(
+        service.loginWithMagicCode('test@example.com', '000000'),
+      ).rejects.toThrow('Too many wrong codes, request a new one');
+    });
+
+    it('should fail the same way for an unknown email', async () => {
+      usersService.findByEmail.mockResolvedValue(null);
+
+      await expect(
+        service.loginWithMagicCode('missing@example.com', '123456'),
+      ).rejects.toThrow('Invalid or expired code');
+      expect(magicLinkService.consumeCode).not.toHaveBeenCalled();
+      expect(loginLockoutService.recordFailure).toHaveBeenCalledWith(
+        'missing@example.com',
+        undefined,
+      );
+    });
+  });
+
+  describe('revokeSession', () => {
+    it('should throw NotFoundException for a session the user does not own', async () => {
+      sessionService.revoke.mockResolvedValue(false);
+
+      await expect(service.revokeSession('1', 'other')).rejects.toThrow(
+        NotFoundException,
+      );
     });
   });
 
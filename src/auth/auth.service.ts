@@ -1,43 +1,109 @@
-import { Injectable, UnauthorizedException, Logger } from '@nestjs/common';
+import {
+  Injectable,
+  UnauthorizedException,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Logger,
+} from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 import { ConfigService } from '@nestjs/config';
-import * as bcrypt from 'bcrypt';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { randomBytes, randomUUID } from 'crypto';
 import { UsersService } from './users/users.service';
-import { RedisService } from '../redis/redis.service';
+import { User } from './users/user.entity';
+import {
+  SessionService,
+  SessionContext,
+  SessionView,
+} from './sessions/session.service';
+import { TokenRevocationService } from './tokens/token-revocation.service';
+import { JwtKeyService } from './keys/jwt-key.service';
+import { OneTimeTokenService } from './tokens/one-time-token.service';
+import { TwoFactorService } from './two-factor/two-factor.service';
+import { LoginLockoutService } from './lockout/login-lockout.service';
+import { MagicLinkService } from './magic-link/magic-link.service';
+import {
+  PasswordPolicy,
+  PasswordPolicyService,
+} from './password/password-policy.service';
+import { PasswordHasherService } from './password/password-hasher.service';
+import { AccountErasureService } from './privacy/account-erasure.service';
+import { MailService } from '../mail/mail.service';
+import { parseExpiryToSeconds } from '../common/utils/expiry.util';
+import {
+  RefreshTokenReusedEvent,
+  SecurityEvents,
+  UserSuspendedEvent,
+  UserUnsuspendedEvent,
+} from './events/security.events';
 
 export interface JwtPayload {
   sub: string; // user ID
   email: string;
+  sid?: string; // session ID
+  jti?: string; // token ID
+  roles?: string[];
+  permissions?: string[];
+  client_id?: string; // OAuth client the token was issued to
+  scope?: string; // space-separated OAuth scopes granted to that client
+  org_id?: string; // organization the session acts for
+  iss?: string;
+  aud?: string | string[]; // only set on OIDC ID tokens
   iat?: number;
   exp?: number;
 }
 
+const PASSWORD_RESET_TOKEN = 'password_reset';
+const EMAIL_VERIFICATION_TOKEN = 'email_verification';
+const TWO_FACTOR_CHALLENGE_TOKEN = 'two_factor_challenge';
+const EMAIL_CHANGE_TOKEN = 'email_change';
+
 export interface AuthResponse {
   accessToken: string;
   refreshToken: string;
   expiresIn: number;
 }
 
+/**
+ * Returned by login instead of tokens when the account has 2FA enabled
+ */
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+  expiresIn: number;
+}
+
 @Injectable()
 export class AuthService {
   private readonly logger = new Logger(AuthService.name);
-  private readonly refreshTokenTtl: number;
 
   constructor(
     private readonly usersService: UsersService,
     private readonly jwtService: JwtService,
     private readonly configService: ConfigService,
-    private readonly redisService: RedisService,
-  ) {
-    // Parse refresh token expiry (e.g., "7d" = 7 days in seconds)
-    const refreshExpiresIn = this.configService.get<string>(
-      'JWT_REFRESH_EXPIRES_IN',
-      '7d',
-    );
-    this.refreshTokenTtl = this.parseExpiryToSeconds(refreshExpiresIn);
-  }
+    private readonly sessionService: SessionService,
+    private readonly eventEmitter: EventEmitter2,
+    private readonly tokenRevocationService: TokenRevocationService,
+    private readonly jwtKeyService: JwtKeyService,
+    private readonly oneTimeTokenService: OneTimeTokenService,
+    private readonly mailService: MailService,
+    private readonly twoFactorService: TwoFactorService,
+    private readonly loginLockoutService: LoginLockoutService,
+    private readonly magicLinkService: MagicLinkService,
+    private readonly passwordPolicyService: PasswordPolicyService,
+    private readonly passwordHasherService: PasswordHasherService,
+    private readonly accountErasureService: AccountErasureService,
+  ) {}
+
+  async register(
+    email: string,
+    password: string,
+    context?: SessionContext,
+  ): Promise<AuthResponse> {
+    await this.passwordPolicyService.assertAcceptable(password, { email });
 
-  async register(email: string, password: string): Promise<AuthResponse> {
     // Check if user already exists
     const existingUser = await this.usersService.findByEmail(email);
     if (existingUser) {
@@ -45,71 +111,143 @@ export class AuthService {
     }
 
     // Hash password
-    const hashedPassword = await bcrypt.hash(password, 10);
+    const hashedPassword = await this.passwordHasherService.hash(password);
 
     // Create user
     const user = await this.usersService.create(email, hashedPassword);
 
+    // Registration succeeds even if the mail cannot be sent; it can be resent
+    this.sendVerificationEmail(user.id, user.email).catch((error) =>
+      this.logger.error(
+        `Failed to send verification email to user ${user.id}: ${error.message}`,
+      ),
+    );
+
     // Automatically log in the new user
-    return this.login({ id: user.id, email: user.email });
+    return this.createSession({ id: user.id, email: user.email }, context);
   }
 
-  async validateUser(email: string, password: string): Promise<any> {
-    const user = await this.usersService.findByEmail(email);
+  async validateUser(
+    email: string,
+    password: string,
+    ip?: string,
+  ): Promise<any> {
+    // Locked accounts are refused before the password is even checked
+    await this.loginLockoutService.assertNotLocked(email, ip);
 
-    if (!user) {
-      throw new UnauthorizedException('Invalid credentials');
-    }
+    const user = await this.usersService.findByEmail(email);
 
-    const isPasswordValid = await bcrypt.compare(password, user.password);
+    // Unknown emails are checked against a dummy hash so timing matches
+    const isPasswordValid = await this.passwordHasherService.verify(
+      password,
+      user?.password,
+    );
 
-    if (!isPasswordValid) {
+    if (!user || !isPasswordValid) {
+      await this.loginLockoutService.recordFailure(email, ip);
       throw new UnauthorizedException('Invalid credentials');
     }
 
+    await this.loginLockoutService.recordSuccess(email);
+    await this.upgradePasswordHash(user.id, password, user.password);
+
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
     const { password: _password, ...result } = user;
     return result;
   }
 
-  async login(user: any): Promise<AuthResponse> {
-    const payload: JwtPayload = {
-      sub: user.id,
-      email: user.email,
-    };
+  /**
+   * Complete a password login. Accounts with 2FA get a challenge to redeem
+   * at verifyTwoFactorLogin() instead of tokens.
+   */
+  async login(
+    user: any,
+    context?: SessionContext,
+  ): Promise<AuthResponse | TwoFactorChallenge> {
+    this.assertAccountActive(user);
+    if (user.twoFactorEnabledAt) {
+      return this.createTwoFactorChallenge(user.id);
+    }
+    return this.createSession(user, context);
+  }
 
-    const accessToken = this.jwtService.sign(payload);
-    const refreshToken = await this.generateRefreshToken(user.id);
+  /**
+   * Complete a passkey login. A passkey unlocked with a PIN or biometric is
+   * already two factors, so only assertions without user verification get
+   * the TOTP challenge of accounts with 2FA.
+   */
+  async loginWithPasskey(
+    user: any,
+    userVerified: boolean,
+    context?: SessionContext,
+  ): Promise<AuthResponse | TwoFactorChallenge> {
+    if (userVerified) {
+      return this.createSession(user, context);
+    }
+    return this.login(user, context);
+  }
 
-    // Store refresh token in Redis
-    await this.storeRefreshToken(user.id, refreshToken);
+  async verifyTwoFactorLogin(
+    challengeToken: string,
+    code: string,
+    context?: SessionContext,
+  ): Promise<AuthResponse> {
+    const userId = await this.oneTimeTokenService.peek(
+      TWO_FACTOR_CHALLENGE_TOKEN,
+      challengeToken,
+    );
+    if (!userId) {
+      throw new UnauthorizedException('Invalid or expired challenge token');
+    }
 
-    // Parse access token expiry
-    const accessExpiresIn = this.configService.get<string>(
-      'JWT_EXPIRES_IN',
-      '15m',
+    if (!(await this.twoFactorService.verifyCode(userId, code))) {
+      const exhausted =
+        await this.twoFactorService.recordFailedChallengeAttempt(
+          userId,
+          this.getTwoFactorChallengeTtl(),
+        );
+      if (exhausted) {
+        // Too many guesses: the password has to be entered again. The count
+        // carries over to the next challenge until it expires, and each spent
+        // challenge counts towards locking the account.
+        await this.oneTimeTokenService.consume(
+          TWO_FACTOR_CHALLENGE_TOKEN,
+          challengeToken,
+        );
+        const user = await this.usersService.findById(userId);
+        if (user) {
+          await this.loginLockoutService.recordFailure(user.email, context?.ip);
+        }
+      }
+      throw new UnauthorizedException('Invalid two-factor code');
+    }
+
+    const consumed = await this.oneTimeTokenService.consume(
+      TWO_FACTOR_CHALLENGE_TOKEN,
+      challengeToken,
     );
-    const expiresIn = this.parseExpiryToSeconds(accessExpiresIn);
+    const user = consumed ? await this.usersService.findById(consumed) : null;
+    if (!user) {
+      throw new UnauthorizedException('Invalid or expired challenge token');
+    }
 
-    return {
-      accessToken,
-      refreshToken,
-      expiresIn,
-    };
+    await this.twoFactorService.clearFailedChallengeAttempts(user.id);
+    return this.createSession(user, context);
   }
 
   async refreshToken(refreshToken: string): Promise<AuthResponse> {
     try {
       // Verify refresh token
       const secret = this.configService.get<string>('JWT_REFRESH_SECRET');
-      const payload = this.jwtService.verify(refreshToken, { secret });
+      const payload = this.jwtService.verify<JwtPayload>(refreshToken, {
+        secret,
+      });
 
-      // Check if refresh token exists in Redis
-      const storedToken = await this.redisService.get(
-        `refresh_token:${payload.sub}`,
-      );
+      const session = payload.sid
+        ? await this.sessionService.findById(payload.sid)
+        : null;
 
-      if (!storedToken || storedToken !== refreshToken) {
+      if (!session || session.userId !== payload.sub) {
         throw new UnauthorizedException('Invalid refresh token');
       }
 
@@ -118,30 +256,776 @@ export class AuthService {
       if (!user) {
         throw new UnauthorizedException('User not found');
       }
+      this.assertAccountActive(user);
+
+      // Rotate: the presented token is spent once the new one is bound
+      const tokens = await this.generateTokens(user, session.id, session.orgId);
+      const rotation = await this.sessionService.rotateRefreshToken(
+        session.id,
+        refreshToken,
+        tokens.refreshToken,
+      );
+
+      if (rotation === 'reused') {
+        await this.revokeTokenFamily(session.userId, session.id);
+        throw new UnauthorizedException('Refresh token reuse detected');
+      }
+
+      if (rotation !== 'rotated') {
+        throw new UnauthorizedException('Invalid refresh token');
+      }
 
-      // Generate new tokens
-      return this.login(user);
+      return tokens;
     } catch (error) {
       this.logger.error(`Token refresh failed: ${error.message}`);
       throw new UnauthorizedException('Invalid refresh token');
     }
   }
 
-  async logout(userId: string): Promise<void> {
-    // Remove refresh token from Redis
-    await this.redisService.del(`refresh_token:${userId}`);
-    this.logger.debug(`User ${userId} logged out`);
+  /**
+   * Reissue the session's tokens for another organization (or none), so it
+   * no longer needs an X-Org-Id header. The caller has checked the user's
+   * membership. The session's previous refresh token stops working.
+   */
+  async switchOrganization(
+    userId: string,
+    sessionId: string,
+    orgId: string | null,
+  ): Promise<AuthResponse> {
+    const session = await this.sessionService.findById(sessionId);
+    const user = await this.usersService.findById(userId);
+    if (!session || session.userId !== userId || !user) {
+      throw new UnauthorizedException('Session not found');
+    }
+    this.assertAccountActive(user);
+
+    const tokens = await this.generateTokens(user, session.id, orgId);
+    await this.sessionService.attachRefreshToken(
+      { ...session, orgId },
+      tokens.refreshToken,
+    );
+    return tokens;
+  }
+
+  async logout(
+    userId: string,
+    sessionId?: string,
+    accessToken?: Pick<JwtPayload, 'jti' | 'exp'>,
+  ): Promise<void> {
+    // Only end the session the request was made from
+    if (sessionId) {
+      await this.sessionService.revoke(userId, sessionId);
+    }
+
+    // The access token would otherwise stay valid until it expires
+    if (accessToken?.jti && accessToken.exp) {
+      await this.tokenRevocationService.revokeAccessToken(
+        accessToken.jti,
+        accessToken.exp,
+      );
+    }
+
+    this.logger.debug(`User ${userId} logged out of session ${sessionId}`);
+  }
+
+  /**
+   * Invalidate every access and refresh token issued to a user so far
+   */
+  async revokeAllTokensForUser(userId: string): Promise<void> {
+    await this.usersService.setTokensValidAfter(userId, new Date());
+    await this.sessionService.revokeAll(userId);
+    this.logger.log(`Revoked all tokens for user ${userId}`);
+  }
+
+  getPasswordPolicy(): PasswordPolicy {
+    return this.passwordPolicyService.getPolicy();
+  }
+
+  /**
+   * Email a password reset link if the account exists. Always resolves the
+   * same way so callers cannot tell whether the email is registered.
+   */
+  async requestPasswordReset(email: string): Promise<void> {
+    const user = await this.usersService.findByEmail(email);
+    if (!user) {
+      this.logger.debug('Password reset requested for unknown email');
+      return;
+    }
+
+    // Not awaited so the response time does not reveal that the user exists
+    this.sendPasswordResetEmail(user.id, user.email).catch((error) =>
+      this.logger.error(
+        `Failed to send password reset to user ${user.id}: ${error.message}`,
+      ),
+    );
+  }
+
+  /**
+   * Email a sign-in link and code if the account exists. Always resolves the
+   * same way so callers cannot tell whether the email is registered.
+   */
+  async requestMagicLink(email: string): Promise<void> {
+    const user = await this.usersService.findByEmail(email);
+    if (!user || user.suspendedAt || user.deletedAt) {
+      this.logger.debug(
+        'Magic link requested for unknown, suspended or deleted email',
+      );
+      return;
+    }
+
+    // Not awaited so the response time does not reveal that the user exists
+    this.sendMagicLinkEmail(user.id, user.email).catch((error) =>
+      this.logger.error(
+        `Failed to send magic link to user ${user.id}: ${error.message}`,
+      ),
+    );
+  }
+
+  async loginWithMagicLink(
+    token: string,
+    context?: SessionContext,
+  ): Promise<AuthResponse | TwoFactorChallenge> {
+    const userId = await this.magicLinkService.consumeToken(token);
+    const user = userId ? await this.usersService.findById(userId) : null;
+    if (!user) {
+      throw new UnauthorizedException('Invalid or expired sign-in link');
+    }
+
+    return this.completeMagicLinkLogin(user, context);
+  }
+
+  /**
+   * Sign in with the emailed code. Wrong codes count towards the same
+   * lockout as wrong passwords, on top of the per-code attempt limit.
+   */
+  async loginWithMagicCode(
+    email: string,
+    code: string,
+    context?: SessionContext,
+  ): Promise<AuthResponse | TwoFactorChallenge> {
+    await this.loginLockoutService.assertNotLocked(email, context?.ip);
+
+    const user = await this.usersService.findByEmail(email);
+    const result = user
+      ? await this.magicLinkService.consumeCode(user.id, code)
+      : 'invalid';
+
+    if (!user || result !== 'valid') {
+      await this.loginLockoutService.recordFailure(email, context?.ip);
+      throw new UnauthorizedException(
+        result === 'exhausted'
+          ? 'Too many wrong codes, request a new one'
+          : 'Invalid or expired code',
+      );
+    }
+
+    await this.loginLockoutService.recordSuccess(email);
+    return this.completeMagicLinkLogin(user, context);
+  }
+
+  /**
+   * Set a new password using a reset token. The password is checked against
+   * the policy before the token is spent, so a rejected password can be
+   * retried with the same link. Every token issued to the user is revoked.
+   */
+  async resetPassword(token: string, newPassword: string): Promise<void> {
+    const pendingUserId = await this.oneTimeTokenService.peek(
+      PASSWORD_RESET_TOKEN,
+      token,
+    );
+    const user = pendingUserId
+      ? await this.usersService.findById(pendingUserId)
+      : null;
+    if (!user) {
+      throw new BadRequestException('Invalid or expired reset token');
+    }
+
+    await this.passwordPolicyService.assertAcceptable(newPassword, {
+      email: user.email,
+    });
+
+    // Redeemed only now; a concurrent reset may have spent it meanwhile
+    const userId = await this.oneTimeTokenService.consume(
+      PASSWORD_RESET_TOKEN,
+      token,
+    );
+    if (userId !== user.id) {
+      throw new BadRequestException('Invalid or expired reset token');
+    }
+
+    const hashedPassword = await this.passwordHasherService.hash(newPassword);
+    await this.usersService.updatePassword(user.id, hashedPassword);
+    await this.revokeAllTokensForUser(user.id);
+
+    this.logger.log(`Password reset for user ${user.id}`);
+  }
+
+  async verifyEmail(token: string): Promise<void> {
+    const userId = await this.oneTimeTokenService.consume(
+      EMAIL_VERIFICATION_TOKEN,
+      token,
+    );
+    const user = userId ? await this.usersService.findById(userId) : null;
+    if (!user) {
+      throw new BadRequestException('Invalid or expired verification token');
+    }
+
+    if (!user.emailVerifiedAt) {
+      await this.usersService.markEmailVerified(user.id);
+      this.logger.log(`Email verified for user ${user.id}`);
+    }
+  }
+
+  /**
+   * Send a fresh verification link, invalidating any earlier one
+   */
+  async resendVerificationEmail(userId: string): Promise<void> {
+    const user = await this.usersService.findById(userId);
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    if (user.emailVerifiedAt) {
+      throw new BadRequestException('Email address is already verified');
+    }
+
+    await this.sendVerificationEmail(user.id, user.email);
+  }
+
+  /**
+   * Replace the password of a signed-in user. Every session ends, including
+   * the current one, so the user signs in again with the new password.
+   */
+  async changePassword(
+    userId: string,
+    currentPassword: string,
+    newPassword: string,
+  ): Promise<void> {
+    const user = await this.verifyCurrentPassword(userId, currentPassword);
+    await this.passwordPolicyService.assertAcceptable(newPassword, {
+      email: user.email,
+    });
+
+    const hashedPassword = await this.passwordHasherService.hash(newPassword);
+    await this.usersService.updatePassword(user.id, hashedPassword);
+    await this.revokeAllTokensForUser(user.id);
+
+    this.logger.log(`Password changed for user ${user.id}`);
+    this.mailService
+      .send({
+        to: user.email,
+        subject: 'Your password was changed',
+        text:
+          'The password of your account was just changed and every device was signed out.\n\n' +
+          'If this was not you, reset your password right away.',
+      })
+      .catch((error) =>
+        this.logger.error(
+          `Failed to send password change notice to user ${user.id}: ${error.message}`,
+        ),
+      );
+  }
+
+  /**
+   * Start moving the account to a new address. The current one stays in use
+   * until a link sent to the new one is followed.
+   */
+  async requestEmailChange(
+    userId: string,
+    newEmail: string,
+    currentPassword: string,
+  ): Promise<void> {
+    const user = await this.verifyCurrentPassword(userId, currentPassword);
+    if (newEmail.toLowerCase() === user.email.toLowerCase()) {
+      throw new BadRequestException('This is already your email address');
+    }
+    if (await this.usersService.findByEmail(newEmail)) {
+      throw new ConflictException('Email address is already in use');
+    }
+
+    await this.usersService.setPendingEmail(user.id, newEmail);
+    await this.sendEmailChangeEmail(user.id, newEmail);
+
+    this.mailService
+      .send({
+        to: user.email,
+        subject: 'Email address change requested',
+        text:
+          `A change of your account's email address to ${newEmail} was requested. ` +
+          'It only takes effect once confirmed from the new address.\n\n' +
+          'If this was not you, change your password right away.',
+      })
+      .catch((error) =>
+        this.logger.error(
+          `Failed to send email change notice to user ${user.id}: ${error.message}`,
+        ),
+      );
+  }
+
+  async confirmEmailChange(token: string): Promise<void> {
+    const userId = await this.oneTimeTokenService.consume(
+      EMAIL_CHANGE_TOKEN,
+      token,
+    );
+    const user = userId ? await this.usersService.findById(userId) : null;
+    if (!user?.pendingEmail) {
+      throw new BadRequestException('Invalid or expired email change token');
+    }
+
+    // Someone may have registered the address since the change was requested
+    if (await this.usersService.findByEmail(user.pendingEmail)) {
+      await this.usersService.setPendingEmail(user.id, null);
+      throw new ConflictException('Email address is already in use');
+    }
+
+    await this.usersService.changeEmail(user.id, user.pendingEmail);
+    this.logger.log(`Email address changed for user ${user.id}`);
+  }
+
+  /**
+   * Delete the signed-in user's account after checking their password. The
+   * account is locked out at once and erased after the grace period; returns
+   * when.
+   */
+  async deleteAccount(userId: string, currentPassword: string): Promise<Date> {
+    const user = await this.verifyCurrentPassword(userId, currentPassword);
+
+    await this.revokeAllTokensForUser(user.id);
+    const eraseAfter = await this.accountErasureService.scheduleErasure(
+      user.id,
+    );
+
+    this.mailService
+      .send({
+        to: user.email,
+        subject: 'Your account was deleted',
+        text:
+          'Your account was deleted and can no longer be used. ' +
+          `It will be erased for good on ${eraseAfter.toUTCString()}.\n\n` +
+          'If this was not you, contact support before then to restore it.',
+      })
+      .catch((error) =>
+        this.logger.error(
+          `Failed to send deletion notice to user ${user.id}: ${error.message}`,
+        ),
+      );
+
+    return eraseAfter;
+  }
+
+  /**
+   * Lift a login lockout on a user's account ahead of time
+   * @returns whether the account was locked
+   */
+  async unlockAccount(userId: string, unlockedBy: string): Promise<boolean> {
+    const user = await this.usersService.findById(userId);
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    return this.loginLockoutService.unlockAccount(user.email, unlockedBy);
+  }
+
+  /**
+   * Block an account: every token stops working at once and no new session
+   * can be started until it is unsuspended
+   */
+  async suspendUser(
+    userId: string,
+    reason: string | null,
+    suspendedBy: string,
+  ): Promise<void> {
+    const user = await this.findManagedUser(userId, suspendedBy);
+
+    await this.usersService.suspend(user.id, reason);
+    await this.revokeAllTokensForUser(user.id);
+    this.eventEmitter.emit(
+      SecurityEvents.USER_SUSPENDED,
+      new UserSuspendedEvent(user.id, suspendedBy, reason),
+    );
+  }
+
+  async unsuspendUser(userId: string, unsuspendedBy: string): Promise<void> {
+    const user = await this.findManagedUser(userId, unsuspendedBy);
+
+    await this.usersService.unsuspend(user.id);
+    this.eventEmitter.emit(
+      SecurityEvents.USER_UNSUSPENDED,
+      new UserUnsuspendedEvent(user.id, unsuspendedBy),
+    );
+  }
+
+  /**
+   * Make the current password unusable, sign the user out everywhere and
+   * email them a reset link
+   */
+  async forcePasswordReset(userId: string, requestedBy: string): Promise<void> {
+    const user = await this.findManagedUser(userId, requestedBy);
+
+    const unusablePassword = await this.passwordHasherService.hash(
+      randomBytes(32).toString('hex'),
+    );
+    await this.usersService.updatePassword(user.id, unusablePassword);
+    await this.revokeAllTokensForUser(user.id);
+    await this.sendPasswordResetEmail(user.id, user.email);
+
+    this.logger.log(
+      `Password reset forced for user ${user.id} by ${requestedBy}`,
+    );
+  }
+
+  /**
+   * Erase an account right away, without the grace period
+   */
+  async deleteUser(userId: string, deletedBy: string): Promise<void> {
+    const user = await this.findManagedUser(userId, deletedBy);
+
+    await this.revokeAllTokensForUser(user.id);
+    await this.accountErasureService.erase(user.id, deletedBy);
+
+    this.logger.log(`User ${user.id} deleted by ${deletedBy}`);
+  }
+
+  /**
+   * Undo a user's own deletion during the grace period. The user signs in
+   * again with their existing credentials.
+   */
+  async restoreUser(userId: string, restoredBy: string): Promise<void> {
+    const user = await this.findManagedUser(userId, restoredBy);
+    if (!user.deletedAt) {
+      throw new BadRequestException('Account is not deleted');
+    }
+
+    await this.accountErasureService.cancelErasure(user.id, restoredBy);
+  }
+
+  async listSessions(userId: string): Promise<SessionView[]> {
+    const sessions = await this.sessionService.listForUser(userId);
+    return sessions.map((session) => this.sessionService.toView(session));
+  }
+
+  async revokeSession(userId: string, sessionId: string): Promise<void> {
+    const revoked = await this.sessionService.revoke(userId, sessionId);
+    if (!revoked) {
+      throw new NotFoundException('Session not found');
+    }
   }
 
   async validateToken(token: string): Promise<JwtPayload> {
     try {
-      return this.jwtService.verify<JwtPayload>(token);
+      return this.jwtService.verify<JwtPayload>(
+        token,
+        this.jwtKeyService.getVerifyOptions(this.jwtKeyService.getKeyId(token)),
+      );
     } catch {
       throw new UnauthorizedException('Invalid token');
     }
   }
 
-  private async generateRefreshToken(userId: string): Promise<string> {
+  /**
+   * A rotated refresh token was presented again, so either the client or an
+   * attacker holds a stale copy. End the whole family to cut off both.
+   */
+  private async revokeTokenFamily(
+    userId: string,
+    sessionId: string,
+  ): Promise<void> {
+    await this.sessionService.revoke(userId, sessionId);
+    this.eventEmitter.emit(
+      SecurityEvents.REFRESH_TOKEN_REUSED,
+      new RefreshTokenReusedEvent(userId, sessionId),
+    );
+  }
+
+  /**
+   * Target of an admin action; admins cannot lock themselves out this way
+   */
+  private async findManagedUser(
+    userId: string,
+    adminId: string,
+  ): Promise<User> {
+    if (userId === adminId) {
+      throw new BadRequestException(
+        'Admins cannot manage their own account here',
+      );
+    }
+    const user = await this.usersService.findById(userId);
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    return user;
+  }
+
+  private assertAccountActive(user: {
+    suspendedAt?: Date | null;
+    deletedAt?: Date | null;
+  }): void {
+    if (user.deletedAt) {
+      throw new ForbiddenException('Account deleted');
+    }
+    if (user.suspendedAt) {
+      throw new ForbiddenException('Account suspended');
+    }
+  }
+
+  /**
+   * Re-authenticate a signed-in user before a sensitive change. Wrong
+   * passwords count towards the login lockout so a stolen session cannot be
+   * used to guess the password.
+   */
+  private async verifyCurrentPassword(
+    userId: string,
+    password: string,
+  ): Promise<User> {
+    const user = await this.usersService.findById(userId);
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    await this.loginLockoutService.assertNotLocked(user.email);
+    if (!(await this.passwordHasherService.verify(password, user.password))) {
+      await this.loginLockoutService.recordFailure(user.email);
+      throw new BadRequestException('Current password is incorrect');
+    }
+    return user;
+  }
+
+  /**
+   * Re-hash a just-verified password whose hash uses outdated settings, so
+   * raising the cost needs no password resets. A failure only delays the
+   * upgrade to the next login.
+   */
+  private async upgradePasswordHash(
+    userId: string,
+    password: string,
+    currentHash: string,
+  ): Promise<void> {
+    if (!this.passwordHasherService.needsRehash(currentHash)) return;
+
+    try {
+      const hashedPassword = await this.passwordHasherService.hash(password);
+      await this.usersService.updatePassword(userId, hashedPassword);
+      this.logger.log(`Upgraded password hash for user ${userId}`);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to upgrade password hash for user ${userId}: ${error.message}`,
+      );
+    }
+  }
+
+  private async createSession(
+    user: any,
+    context?: SessionContext,
+  ): Promise<AuthResponse> {
+    this.assertAccountActive(user);
+
+    // Every login gets its own session so other devices stay signed in
+    const session = await this.sessionService.create(user.id, context);
+    const tokens = await this.generateTokens(user, session.id);
+
+    // Bind the first refresh token of the family to the session
+    await this.sessionService.attachRefreshToken(session, tokens.refreshToken);
+
+    return tokens;
+  }
+
+  private async createTwoFactorChallenge(
+    userId: string,
+  ): Promise<TwoFactorChallenge> {
+    const expiresIn = this.getTwoFactorChallengeTtl();
+    const challengeToken = await this.oneTimeTokenService.issue(
+      TWO_FACTOR_CHALLENGE_TOKEN,
+      userId,
+      expiresIn,
+    );
+
+    return { twoFactorRequired: true, challengeToken, expiresIn };
+  }
+
+  private getTwoFactorChallengeTtl(): number {
+    return parseExpiryToSeconds(
+      this.configService.get<string>('TWO_FACTOR_CHALLENGE_EXPIRES_IN', '5m'),
+    );
+  }
+
+  private async completeMagicLinkLogin(
+    user: any,
+    context?: SessionContext,
+  ): Promise<AuthResponse | TwoFactorChallenge> {
+    // Redeeming a grant proves control of the mailbox
+    if (!user.emailVerifiedAt) {
+      await this.usersService.markEmailVerified(user.id);
+    }
+
+    this.logger.log(`Passwordless sign-in for user ${user.id}`);
+    return this.login(user, context);
+  }
+
+  private async sendMagicLinkEmail(
+    userId: string,
+    email: string,
+  ): Promise<void> {
+    const expiresIn = this.configService.get<string>(
+      'MAGIC_LINK_EXPIRES_IN',
+      '15m',
+    );
+    const { token, code } = await this.magicLinkService.issue(userId);
+
+    const signInUrl = this.buildTokenLink(
+      'MAGIC_LINK_URL',
+      'http://localhost:3000/magic-link',
+      token,
+    );
+
+    await this.mailService.send({
+      to: email,
+      subject: 'Your sign-in link',
+      text:
+        `Open the link below to sign in, or enter the code ${code}. Both expire in ${expiresIn} and only one of them can be used.\n\n` +
+        `${signInUrl}\n\n` +
+        'If you did not try to sign in you can ignore this email.',
+    });
+  }
+
+  private async sendPasswordResetEmail(
+    userId: string,
+    email: string,
+  ): Promise<void> {
+    const expiresIn = this.configService.get<string>(
+      'PASSWORD_RESET_EXPIRES_IN',
+      '1h',
+    );
+    const token = await this.oneTimeTokenService.issue(
+      PASSWORD_RESET_TOKEN,
+      userId,
+      parseExpiryToSeconds(expiresIn),
+    );
+
+    const resetUrl = this.buildTokenLink(
+      'PASSWORD_RESET_URL',
+      'http://localhost:3000/reset-password',
+      token,
+    );
+
+    await this.mailService.send({
+      to: email,
+      subject: 'Reset your password',
+      text:
+        `Use the link below to choose a new password. It expires in ${expiresIn} and can only be used once.\n\n` +
+        `${resetUrl}\n\n` +
+        'If you did not ask to reset your password you can ignore this email.',
+    });
+  }
+
+  private async sendVerificationEmail(
+    userId: string,
+    email: string,
+  ): Promise<void> {
+    const expiresIn = this.configService.get<string>(
+      'EMAIL_VERIFICATION_EXPIRES_IN',
+      '24h',
+    );
+    const token = await this.oneTimeTokenService.issue(
+      EMAIL_VERIFICATION_TOKEN,
+      userId,
+      parseExpiryToSeconds(expiresIn),
+    );
+
+    const verifyUrl = this.buildTokenLink(
+      'EMAIL_VERIFICATION_URL',
+      'http://localhost:3000/verify-email',
+      token,
+    );
+
+    await this.mailService.send({
+      to: email,
+      subject: 'Verify your email address',
+      text:
+        `Confirm that this is your email address by opening the link below. It expires in ${expiresIn}.\n\n` +
+        `${verifyUrl}\n\n` +
+        'If you did not create an account you can ignore this email.',
+    });
+  }
+
+  private async sendEmailChangeEmail(
+    userId: string,
+    newEmail: string,
+  ): Promise<void> {
+    const expiresIn = this.configService.get<string>(
+      'EMAIL_VERIFICATION_EXPIRES_IN',
+      '24h',
+    );
+    const token = await this.oneTimeTokenService.issue(
+      EMAIL_CHANGE_TOKEN,
+      userId,
+      parseExpiryToSeconds(expiresIn),
+    );
+
+    const confirmUrl = this.buildTokenLink(
+      'EMAIL_CHANGE_URL',
+      'http://localhost:3000/confirm-email-change',
+      token,
+    );
+
+    await this.mailService.send({
+      to: newEmail,
+      subject: 'Confirm your new email address',
+      text:
+        `Open the link below to use this address for your account. It expires in ${expiresIn}.\n\n` +
+        `${confirmUrl}\n\n` +
+        'If you did not ask for this change you can ignore this email.',
+    });
+  }
+
+  private buildTokenLink(
+    urlConfigKey: string,
+    defaultUrl: string,
+    token: string,
+  ): string {
+    const url = new URL(
+      this.configService.get<string>(urlConfigKey, defaultUrl),
+    );
+    url.searchParams.set('token', token);
+    return url.toString();
+  }
+
+  private async generateTokens(
+    user: any,
+    sessionId: string,
+    orgId?: string | null,
+  ): Promise<AuthResponse> {
+    // Looked up on every issue so role changes apply from the next refresh
+    const { roles, permissions } = await this.usersService.getAccess(user.id);
+
+    const payload: JwtPayload = {
+      sub: user.id,
+      email: user.email,
+      sid: sessionId,
+      jti: randomUUID(),
+      roles,
+      permissions,
+      ...(orgId ? { org_id: orgId } : {}),
+    };
+
+    const accessToken = this.jwtService.sign(
+      payload,
+      this.jwtKeyService.getSignOptions(),
+    );
+    const refreshToken = this.generateRefreshToken(user.id, sessionId);
+
+    // Parse access token expiry
+    const accessExpiresIn = this.configService.get<string>(
+      'JWT_EXPIRES_IN',
+      '15m',
+    );
+    const expiresIn = parseExpiryToSeconds(accessExpiresIn);
+
+    return {
+      accessToken,
+      refreshToken,
+      expiresIn,
+    };
+  }
+
+  private generateRefreshToken(userId: string, sessionId: string): string {
     const secret = this.configService.get<string>('JWT_REFRESH_SECRET');
     const expiresIn = this.configService.get<string>(
       'JWT_REFRESH_EXPIRES_IN',
@@ -151,6 +1035,8 @@ export class AuthService {
     const payload: JwtPayload = {
       sub: userId,
       email: '', // Not needed for refresh token
+      sid: sessionId,
+      jti: randomUUID(), // Keeps every rotated token distinct
     };
 
     return this.jwtService.sign(payload, {
@@ -158,33 +1044,4 @@ export class AuthService {
       expiresIn,
     });
   }
-
-  private async storeRefreshToken(
-    userId: string,
-    refreshToken: string,
-  ): Promise<void> {
-    const key = `refresh_token:${userId}`;
-    await this.redisService.set(key, refreshToken, this.refreshTokenTtl);
-  }
-
-  private parseExpiryToSeconds(expiry: string): number {
-    const match = expiry.match(/^(\d+)([smhd])$/);
-    if (!match) return 900; // default 15 minutes
-
-    const [, value, unit] = match;
-    const num = parseInt(value, 10);
-
-    switch (unit) {
-      case 's':
-        return num;
-      case 'm':
-        return num * 60;
-      case 'h':
-        return num * 3600;
-      case 'd':
-        return num * 86400;
-      default:
-        return 900;
-    }
-  }
 }
@@ -0,0 +1,21 @@
+import { PERMISSIONS } from '../roles/roles.constants';
+
+export const OIDC_SCOPES = {
+  OPENID: 'openid',
+  // No profile claims exist beyond `sub` yet; accepted so standard clients work
+  PROFILE: 'profile',
+  EMAIL: 'email',
+} as const;
+
+// Permission names double as scopes: a token gets the ones it was granted
+export const SUPPORTED_SCOPES: string[] = [
+  ...Object.values(OIDC_SCOPES),
+  ...Object.values(PERMISSIONS),
+];
+
+export const GRANT_TYPES = {
+  AUTHORIZATION_CODE: 'authorization_code',
+  CLIENT_CREDENTIALS: 'client_credentials',
+} as const;
+
+export type GrantType = (typeof GRANT_TYPES)[keyof typeof GRANT_TYPES];
@@ -0,0 +1,421 @@
+import {
+  Body,
+  Controller,
+  ForbiddenException,
+  Get,
+  Header,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Query,
+  Redirect,
+  Request,
+  UseFilters,
+  Version,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBody,
+  ApiBearerAuth,
+  ApiConsumes,
+} from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { AuthorizationServerService } from './authorization-server.service';
+import type { AuthorizationRequest } from './authorization-server.service';
+import { OAuthClientsService } from './oauth-clients.service';
+import { OAuthException } from './oauth.exception';
+import { OAuthExceptionFilter } from './oauth-exception.filter';
+import { GRANT_TYPES, OIDC_SCOPES } from './authorization-server.constants';
+import { Public } from '../../common/decorators/public.decorator';
+import { ClientScopes } from '../../common/decorators/client-scopes.decorator';
+
+export class AuthorizeDto implements AuthorizationRequest {
+  @IsString()
+  @IsNotEmpty()
+  client_id: string;
+
+  @IsString()
+  @IsNotEmpty()
+  redirect_uri: string;
+
+  @IsIn(['code'])
+  response_type: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  scope?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  state?: string;
+
+  @IsString()
+  @IsNotEmpty()
+  code_challenge: string;
+
+  @IsIn(['S256'])
+  code_challenge_method: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  nonce?: string;
+
+  // false when the user declined; the client then receives access_denied
+  @IsBoolean()
+  approve: boolean;
+}
+
+const tokenSchema = {
+  type: 'object',
+  properties: {
+    access_token: { type: 'string' },
+    token_type: { type: 'string', example: 'Bearer' },
+    expires_in: { type: 'number', example: 900 },
+    scope: { type: 'string', example: 'openid email users:read' },
+    id_token: { type: 'string', description: 'With the openid scope' },
+  },
+};
+
+const oauthErrorSchema = {
+  type: 'object',
+  properties: {
+    error: { type: 'string', example: 'invalid_grant' },
+    error_description: { type: 'string' },
+  },
+};
+
+@ApiTags('oauth')
+@Controller('oauth')
+export class AuthorizationServerController {
+  constructor(
+    private readonly authorizationServerService: AuthorizationServerService,
+    private readonly oauthClientsService: OAuthClientsService,
+  ) {}
+
+  @Public()
+  @Get('authorize')
+  @Version('1')
+  @Redirect()
+  @ApiOperation({ summary: 'Start an authorization code flow (RFC 6749)' })
+  @ApiResponse({
+    status: 302,
+    description:
+      'Redirect to the login/consent page, or back to the client with an error',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Unknown client or unregistered redirect URI',
+    schema: oauthErrorSchema,
+  })
+  @UseFilters(OAuthExceptionFilter)
+  async authorize(@Query() query: AuthorizationRequest) {
+    const client = await this.authorizationServerService.findClientForRedirect(
+      query.client_id,
+      query.redirect_uri,
+    );
+
+    try {
+      this.authorizationServerService.validateAuthorizationRequest(
+        client,
+        query,
+      );
+    } catch (error) {
+      if (error instanceof OAuthException) {
+        return {
+          url: this.authorizationServerService.buildErrorRedirect(
+            query.redirect_uri,
+            error,
+            query.state,
+          ),
+        };
+      }
+      throw error;
+    }
+
+    return {
+      url: this.authorizationServerService.buildConsentRedirect(client, query),
+    };
+  }
+
+  @Post('authorize')
+  @Version('1')
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: "Record the signed-in user's decision on an authorization request",
+  })
+  @ApiBody({ type: AuthorizeDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Where to send the browser next',
+    schema: {
+      type: 'object',
+      properties: {
+        redirectTo: {
+          type: 'string',
+          example: 'https://client.example.com/callback?code=...&state=...',
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid authorization request',
+    schema: oauthErrorSchema,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Not a user session' })
+  @UseFilters(OAuthExceptionFilter)
+  async approve(@Request() req, @Body() dto: AuthorizeDto) {
+    // Only a user signed in to this platform may hand out access
+    if (!req.user.id || req.user.apiKeyId || req.user.clientId) {
+      throw new ForbiddenException(
+        'Authorization requests must be approved from a user session',
+      );
+    }
+
+    const client = await this.authorizationServerService.findClientForRedirect(
+      dto.client_id,
+      dto.redirect_uri,
+    );
+
+    if (!dto.approve) {
+      return {
+        redirectTo: this.authorizationServerService.buildErrorRedirect(
+          dto.redirect_uri,
+          new OAuthException('access_denied', 'The user denied the request'),
+          dto.state,
+        ),
+      };
+    }
+
+    return {
+      redirectTo: await this.authorizationServerService.approveAuthorization(
+        req.user.id,
+        client,
+        dto,
+      ),
+    };
+  }
+
+  @Public()
+  @Post('token')
+  @Version('1')
+  @HttpCode(HttpStatus.OK)
+  @Header('Cache-Control', 'no-store')
+  @ApiConsumes('application/x-www-form-urlencoded', 'application/json')
+  @ApiOperation({
+    summary: 'Exchange an authorization code or client credentials for tokens',
+  })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['grant_type'],
+      properties: {
+        grant_type: {
+          type: 'string',
+          enum: Object.values(GRANT_TYPES),
+        },
+        code: { type: 'string' },
+        redirect_uri: { type: 'string' },
+        code_verifier: { type: 'string' },
+        scope: { type: 'string' },
+        client_id: { type: 'string' },
+        client_secret: {
+          type: 'string',
+          description: 'Or HTTP Basic authentication',
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Tokens issued',
+    schema: tokenSchema,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid request or grant',
+    schema: oauthErrorSchema,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Client authentication failed',
+    schema: oauthErrorSchema,
+  })
+  @UseFilters(OAuthExceptionFilter)
+  async token(
+    @Headers('authorization') authorization: string | undefined,
+    @Body() body: Record<string, string | undefined>,
+  ) {
+    const params = body ?? {};
+    const client = await this.authenticateClient(authorization, params);
+
+    switch (params.grant_type) {
+      case GRANT_TYPES.AUTHORIZATION_CODE:
+        return this.authorizationServerService.exchangeAuthorizationCode(
+          client,
+          params,
+        );
+      case GRANT_TYPES.CLIENT_CREDENTIALS:
+        return this.authorizationServerService.issueClientCredentialsToken(
+          client,
+          params.scope,
+        );
+      default:
+        throw new OAuthException(
+          'unsupported_grant_type',
+          `Supported grant types: ${Object.values(GRANT_TYPES).join(', ')}`,
+        );
+    }
+  }
+
+  @Public()
+  @Post('introspect')
+  @Version('1')
+  @HttpCode(HttpStatus.OK)
+  @Header('Cache-Control', 'no-store')
+  @ApiConsumes('application/x-www-form-urlencoded', 'application/json')
+  @ApiOperation({ summary: 'Token introspection (RFC 7662)' })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['token'],
+      properties: {
+        token: { type: 'string' },
+        token_type_hint: { type: 'string', example: 'access_token' },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Token state; only `active` is set for inactive tokens',
+    schema: {
+      type: 'object',
+      properties: {
+        active: { type: 'boolean' },
+        scope: { type: 'string' },
+        client_id: { type: 'string' },
+        username: { type: 'string' },
+        token_type: { type: 'string' },
+        exp: { type: 'number' },
+        iat: { type: 'number' },
+        sub: { type: 'string' },
+        iss: { type: 'string' },
+        jti: { type: 'string' },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Client authentication failed',
+    schema: oauthErrorSchema,
+  })
+  @UseFilters(OAuthExceptionFilter)
+  async introspect(
+    @Headers('authorization') authorization: string | undefined,
+    @Body() body: Record<string, string | undefined>,
+  ) {
+    const params = body ?? {};
+    const client = await this.authenticateClient(authorization, params);
+    // Public clients could otherwise probe tokens without any secret
+    if (!client.secretHash) {
+      throw new OAuthException(
+        'invalid_client',
+        'Only confidential clients may introspect tokens',
+        HttpStatus.UNAUTHORIZED,
+      );
+    }
+
+    return this.authorizationServerService.introspect(params.token);
+  }
+
+  @Get('userinfo')
+  @Version('1')
+  @ApiBearerAuth('JWT-auth')
+  @ClientScopes(OIDC_SCOPES.OPENID)
+  @ApiOperation({ summary: 'OpenID Connect UserInfo' })
+  @ApiResponse({
+    status: 200,
+    description: 'Claims about the user the token was issued for',
+    schema: {
+      type: 'object',
+      properties: {
+        sub: { type: 'string' },
+        email: { type: 'string' },
+        email_verified: { type: 'boolean' },
+      },
+    },
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Token lacks the openid scope' })
+  userinfo(@Request() req) {
+    const scopes: string[] = req.user.scopes ?? [];
+    if (!req.user.id || !scopes.includes(OIDC_SCOPES.OPENID)) {
+      throw new ForbiddenException(
+        'Token was not issued with the openid scope',
+      );
+    }
+
+    return {
+      sub: req.user.id,
+      ...(scopes.includes(OIDC_SCOPES.EMAIL) && {
+        email: req.user.email,
+        email_verified: req.user.emailVerified,
+      }),
+    };
+  }
+
+  /**
+   * Client credentials from HTTP Basic (preferred) or the request body
+   */
+  private authenticateClient(
+    authorization: string | undefined,
+    params: Record<string, string | undefined>,
+  ) {
+    if (!authorization?.startsWith('Basic ')) {
+      return this.oauthClientsService.authenticate(
+        params.client_id,
+        params.client_secret,
+      );
+    }
+
+    const decoded = Buffer.from(authorization.slice(6), 'base64').toString(
+      'utf8',
+    );
+    const malformed = new OAuthException(
+      'invalid_client',
+      'Malformed client credentials',
+      HttpStatus.UNAUTHORIZED,
+    );
+    const separator = decoded.indexOf(':');
+    if (separator === -1) {
+      throw malformed;
+    }
+
+    let clientId: string;
+    let clientSecret: string;
+    try {
+      // RFC 6749 2.3.1: both parts are form-urlencoded before encoding
+      clientId = decodeURIComponent(decoded.slice(0, separator));
+      clientSecret = decodeURIComponent(decoded.slice(separator + 1));
+    } catch {
+      throw malformed;
+    }
+
+    return this.oauthClientsService.authenticate(clientId, clientSecret);
+  }
+}
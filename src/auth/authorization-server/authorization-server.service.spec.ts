@@ -0,0 +1,347 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { JwtModule, JwtService } from '@nestjs/jwt';
+import { createHash } from 'crypto';
+import { AuthorizationServerService } from './authorization-server.service';
+import { OAuthClientsService } from './oauth-clients.service';
+import { OAuthClient } from './oauth-client.entity';
+import { OAuthException } from './oauth.exception';
+import { JwtKeyService } from '../keys/jwt-key.service';
+import { RedisService } from '../../redis/redis.service';
+import { UsersService } from '../users/users.service';
+import { TokenRevocationService } from '../tokens/token-revocation.service';
+
+const REDIRECT_URI = 'https://client.example.com/callback';
+const CODE_VERIFIER = 'a'.repeat(43);
+const CODE_CHALLENGE = createHash('sha256')
+  .update(CODE_VERIFIER)
+  .digest('base64url');
+
+describe('AuthorizationServerService', () => {
+  let service: AuthorizationServerService;
+  let jwtService: JwtService;
+  let store: Map<string, string>;
+  let oauthClientsService: { findActive: jest.Mock };
+  let usersService: {
+    findById: jest.Mock;
+    getAccess: jest.Mock;
+  };
+
+  const client = {
+    id: 'client-record-1',
+    clientId: 'oc_web',
+    name: 'Web app',
+    secretHash: 'f'.repeat(64),
+    redirectUris: [REDIRECT_URI],
+    grantTypes: ['authorization_code', 'client_credentials'],
+    scopes: ['openid', 'email', 'users:read', 'users:write'],
+    revokedAt: null,
+  } as OAuthClient;
+
+  const request = (overrides: Record<string, string | undefined> = {}) => ({
+    client_id: client.clientId,
+    redirect_uri: REDIRECT_URI,
+    response_type: 'code',
+    scope: 'openid email users:read',
+    state: 'xyz',
+    code_challenge: CODE_CHALLENGE,
+    code_challenge_method: 'S256',
+    nonce: 'n-0S6',
+    ...overrides,
+  });
+
+  const expectOAuthError = (fn: () => unknown, error: string) => {
+    try {
+      fn();
+    } catch (e) {
+      expect(e).toBeInstanceOf(OAuthException);
+      expect((e as OAuthException).error).toBe(error);
+      return;
+    }
+    throw new Error(`Expected ${error}`);
+  };
+
+  beforeEach(async () => {
+    store = new Map();
+    oauthClientsService = {
+      findActive: jest.fn((clientId: string) =>
+        Promise.resolve(clientId === client.clientId ? client : null),
+      ),
+    };
+    usersService = {
+      findById: jest.fn().mockResolvedValue({
+        id: 'user-1',
+        email: 'user@example.com',
+        emailVerifiedAt: new Date(),
+        tokensValidAfter: null,
+      }),
+      getAccess: jest.fn().mockResolvedValue({
+        roles: ['admin'],
+        permissions: ['users:read', 'tokens:revoke'],
+      }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      imports: [JwtModule.register({ signOptions: { expiresIn: '15m' } })],
+      providers: [
+        AuthorizationServerService,
+        JwtKeyService,
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: any) =>
+              key === 'JWT_SECRET' ? 'test-secret' : defaultValue,
+            ),
+          },
+        },
+        {
+          provide: RedisService,
+          useValue: {
+            isHealthy: jest.fn().mockReturnValue(true),
+            set: jest.fn((key: string, value: string) => {
+              store.set(key, value);
+              return Promise.resolve(true);
+            }),
+            getClient: jest.fn(() => ({
+              eval: jest.fn((_script: string, _n: number, key: string) => {
+                const value = store.get(key) ?? null;
+                store.delete(key);
+                return Promise.resolve(value);
+              }),
+            })),
+          },
+        },
+        { provide: UsersService, useValue: usersService },
+        {
+          provide: TokenRevocationService,
+          useValue: {
+            isAccessTokenRevoked: jest.fn().mockResolvedValue(false),
+          },
+        },
+        { provide: OAuthClientsService, useValue: oauthClientsService },
+      ],
+    }).compile();
+
+    service = module.get(AuthorizationServerService);
+    jwtService = module.get(JwtService);
+  });
+
+  const authorize = async (overrides = {}) => {
+    const redirectTo = await service.approveAuthorization(
+      'user-1',
+      client,
+      request(overrides),
+    );
+    return new URL(redirectTo).searchParams.get('code') as string;
+  };
+
+  describe('authorization requests', () => {
+    it('should refuse redirect URIs that were not registered', async () => {
+      await expect(
+        service.findClientForRedirect(
+          client.clientId,
+          'https://evil.example.com/callback',
+        ),
+      ).rejects.toThrow(OAuthException);
+    });
+
+    it('should require PKCE with S256', () => {
+      expectOAuthError(
+        () =>
+          service.validateAuthorizationRequest(
+            client,
+            request({ code_challenge_method: 'plain' }),
+          ),
+        'invalid_request',
+      );
+    });
+
+    it('should refuse scopes the client was not registered for', () => {
+      expectOAuthError(
+        () =>
+          service.validateAuthorizationRequest(
+            client,
+            request({ scope: 'openid tokens:revoke' }),
+          ),
+        'invalid_scope',
+      );
+    });
+
+    it("should default to the client's scopes", () => {
+      expect(
+        service.validateAuthorizationRequest(
+          client,
+          request({ scope: undefined }),
+        ),
+      ).toEqual(client.scopes);
+    });
+
+    it('should send the code and state back to the client', async () => {
+      const redirectTo = new URL(
+        await service.approveAuthorization('user-1', client, request()),
+      );
+
+      expect(redirectTo.origin + redirectTo.pathname).toBe(REDIRECT_URI);
+      expect(redirectTo.searchParams.get('code')).toBeTruthy();
+      expect(redirectTo.searchParams.get('state')).toBe('xyz');
+    });
+  });
+
+  describe('exchangeAuthorizationCode', () => {
+    const exchange = (code: string, overrides = {}) =>
+      service.exchangeAuthorizationCode(client, {
+        code,
+        redirect_uri: REDIRECT_URI,
+        code_verifier: CODE_VERIFIER,
+        ...overrides,
+      });
+
+    it('should issue tokens limited to the granted scopes', async () => {
+      const response = await exchange(await authorize());
+      const payload = jwtService.decode(response.access_token);
+
+      expect(response.scope).toBe('openid email users:read');
+      expect(payload).toMatchObject({
+        sub: 'user-1',
+        client_id: client.clientId,
+        scope: 'openid email users:read',
+        permissions: ['users:read'],
+      });
+      // Roles would let the client act with the user's full authority
+      expect(payload.roles).toBeUndefined();
+    });
+
+    it('should issue an ID token for the openid scope', async () => {
+      const response = await exchange(await authorize());
+
+      expect(jwtService.decode(response.id_token as string)).toMatchObject({
+        sub: 'user-1',
+        aud: client.clientId,
+        nonce: 'n-0S6',
+        email: 'user@example.com',
+        email_verified: true,
+      });
+    });
+
+    it('should reject a wrong code verifier', async () => {
+      const code = await authorize();
+
+      await expect(
+        exchange(code, { code_verifier: 'b'.repeat(43) }),
+      ).rejects.toMatchObject({ error: 'invalid_grant' });
+    });
+
+    it('should reject a different redirect URI', async () => {
+      const code = await authorize();
+
+      await expect(
+        exchange(code, { redirect_uri: 'https://client.example.com/other' }),
+      ).rejects.toMatchObject({ error: 'invalid_grant' });
+    });
+
+    it('should only redeem a code once', async () => {
+      const code = await authorize();
+      await exchange(code);
+
+      await expect(exchange(code)).rejects.toMatchObject({
+        error: 'invalid_grant',
+      });
+    });
+  });
+
+  describe('issueClientCredentialsToken', () => {
+    it('should issue a token for the client itself', () => {
+      const response = service.issueClientCredentialsToken(
+        client,
+        'users:read',
+      );
+
+      expect(jwtService.decode(response.access_token)).toMatchObject({
+        sub: client.clientId,
+        client_id: client.clientId,
+        permissions: ['users:read'],
+      });
+    });
+
+    it('should refuse public clients', () => {
+      expectOAuthError(
+        () =>
+          service.issueClientCredentialsToken({ ...client, secretHash: null }),
+        'unauthorized_client',
+      );
+    });
+  });
+
+  describe('introspect', () => {
+    it('should describe an active token', async () => {
+      const { access_token } = await service.exchangeAuthorizationCode(client, {
+        code: await authorize(),
+        redirect_uri: REDIRECT_URI,
+        code_verifier: CODE_VERIFIER,
+      });
+
+      await expect(service.introspect(access_token)).resolves.toMatchObject({
+        active: true,
+        sub: 'user-1',
+        client_id: client.clientId,
+        scope: 'openid email users:read',
+        username: 'user@example.com',
+      });
+    });
+
+    it('should report garbage as inactive', async () => {
+      await expect(service.introspect('not-a-token')).resolves.toEqual({
+        active: false,
+      });
+    });
+
+    it('should report ID tokens as inactive', async () => {
+      const { id_token } = await service.exchangeAuthorizationCode(client, {
+        code: await authorize(),
+        redirect_uri: REDIRECT_URI,
+        code_verifier: CODE_VERIFIER,
+      });
+
+      await expect(service.introspect(id_token)).resolves.toEqual({
+        active: false,
+      });
+    });
+
+    it('should compare revocations at the precision of iat', async () => {
+      const { access_token } = await service.exchangeAuthorizationCode(client, {
+        code: await authorize(),
+        redirect_uri: REDIRECT_URI,
+        code_verifier: CODE_VERIFIER,
+      });
+      const { iat } = JSON.parse(
+        Buffer.from(access_token.split('.')[1], 'base64url').toString(),
+      );
+      const withValidAfter = (ms: number) =>
+        usersService.findById.mockResolvedValueOnce({
+          id: 'user-1',
+          email: 'user@example.com',
+          tokensValidAfter: new Date(ms),
+        });
+
+      // Revoked later in the same second the token was issued
+      withValidAfter(iat * 1000 + 999);
+      await expect(service.introspect(access_token)).resolves.toMatchObject({
+        active: true,
+      });
+
+      withValidAfter((iat + 1) * 1000);
+      await expect(service.introspect(access_token)).resolves.toEqual({
+        active: false,
+      });
+    });
+
+    it('should report tokens of revoked clients as inactive', async () => {
+      const { access_token } = service.issueClientCredentialsToken(client);
+      oauthClientsService.findActive.mockResolvedValue(null);
+
+      await expect(service.introspect(access_token)).resolves.toEqual({
+        active: false,
+      });
+    });
+  });
+});
@@ -0,0 +1,527 @@
+import {
+  Injectable,
+  Logger,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { RedisService } from '../../redis/redis.service';
+import { UsersService } from '../users/users.service';
+import { User } from '../users/user.entity';
+import { JwtKeyService } from '../keys/jwt-key.service';
+import { TokenRevocationService } from '../tokens/token-revocation.service';
+import { JwtPayload } from '../auth.service';
+import { OAuthClient } from './oauth-client.entity';
+import { OAuthClientsService } from './oauth-clients.service';
+import { OAuthException } from './oauth.exception';
+import {
+  GRANT_TYPES,
+  OIDC_SCOPES,
+  SUPPORTED_SCOPES,
+} from './authorization-server.constants';
+import { parseExpiryToSeconds } from '../../common/utils/expiry.util';
+
+/**
+ * Parameters of an authorization request (RFC 6749 4.1.1, RFC 7636 4.3)
+ */
+export interface AuthorizationRequest {
+  client_id: string;
+  redirect_uri: string;
+  response_type?: string;
+  scope?: string;
+  state?: string;
+  code_challenge?: string;
+  code_challenge_method?: string;
+  nonce?: string;
+}
+
+export interface TokenResponse {
+  access_token: string;
+  token_type: 'Bearer';
+  expires_in: number;
+  scope: string;
+  id_token?: string;
+}
+
+export interface IntrospectionResponse {
+  active: boolean;
+  scope?: string;
+  client_id?: string;
+  username?: string;
+  token_type?: 'Bearer';
+  exp?: number;
+  iat?: number;
+  sub?: string;
+  iss?: string;
+  jti?: string;
+}
+
+interface AuthorizationCode {
+  clientId: string;
+  userId: string;
+  redirectUri: string;
+  scopes: string[];
+  codeChallenge: string;
+  nonce?: string;
+}
+
+/**
+ * OAuth2 / OpenID Connect authorization server for first- and third-party
+ * clients: the authorization code grant with mandatory PKCE (S256), the
+ * client_credentials grant, token introspection (RFC 7662) and discovery.
+ *
+ * Access tokens are ordinary platform JWTs carrying `client_id` and `scope`.
+ * Their permissions are the granted scopes that name permissions, limited to
+ * what the user holds, and they never carry roles.
+ *
+ * Layout:
+ *  - oauth_code:<sha256(code)>   JSON AuthorizationCode, single use
+ */
+@Injectable()
+export class AuthorizationServerService {
+  private readonly logger = new Logger(AuthorizationServerService.name);
+  private readonly issuer: string;
+  private readonly consentUrl: string;
+  private readonly codeTtl: number;
+  private readonly accessTokenTtl: number;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly jwtService: JwtService,
+    private readonly jwtKeyService: JwtKeyService,
+    private readonly redisService: RedisService,
+    private readonly usersService: UsersService,
+    private readonly tokenRevocationService: TokenRevocationService,
+    private readonly oauthClientsService: OAuthClientsService,
+  ) {
+    this.issuer = this.configService
+      .get<string>('OAUTH_SERVER_ISSUER', 'http://localhost:3000')
+      .replace(/\/+$/, '');
+    this.consentUrl = this.configService.get<string>(
+      'OAUTH_SERVER_CONSENT_URL',
+      'http://localhost:3000/oauth/consent',
+    );
+    this.codeTtl = parseExpiryToSeconds(
+      this.configService.get<string>(
+        'OAUTH_AUTHORIZATION_CODE_EXPIRES_IN',
+        '1m',
+      ),
+    );
+    this.accessTokenTtl = parseExpiryToSeconds(
+      this.configService.get<string>('JWT_EXPIRES_IN', '15m'),
+    );
+  }
+
+  getIssuer(): string {
+    return this.issuer;
+  }
+
+  /**
+   * The client and redirect URI must be checked before anything is sent to
+   * the redirect URI, otherwise the endpoint becomes an open redirector.
+   */
+  async findClientForRedirect(
+    clientId: string | undefined,
+    redirectUri: string | undefined,
+  ): Promise<OAuthClient> {
+    const client = clientId
+      ? await this.oauthClientsService.findActive(clientId)
+      : null;
+    if (!client || !redirectUri || !client.redirectUris.includes(redirectUri)) {
+      throw new OAuthException(
+        'invalid_request',
+        'Unknown client_id or unregistered redirect_uri',
+      );
+    }
+    return client;
+  }
+
+  /**
+   * Check the rest of an authorization request and return the scopes it
+   * asks for. Errors may be reported to the (already validated) redirect URI.
+   */
+  validateAuthorizationRequest(
+    client: OAuthClient,
+    request: AuthorizationRequest,
+  ): string[] {
+    if (request.response_type !== 'code') {
+      throw new OAuthException(
+        'unsupported_response_type',
+        'Only response_type=code is supported',
+      );
+    }
+    if (!client.grantTypes.includes(GRANT_TYPES.AUTHORIZATION_CODE)) {
+      throw new OAuthException(
+        'unauthorized_client',
+        'Client may not use the authorization code grant',
+      );
+    }
+    if (!request.code_challenge || request.code_challenge_method !== 'S256') {
+      throw new OAuthException(
+        'invalid_request',
+        'PKCE with code_challenge_method=S256 is required',
+      );
+    }
+    return this.resolveScopes(client, request.scope);
+  }
+
+  /**
+   * Where to send the browser for login and consent. The page gets the
+   * original request parameters and posts the user's decision back.
+   */
+  buildConsentRedirect(
+    client: OAuthClient,
+    request: AuthorizationRequest,
+  ): string {
+    return this.buildRedirect(this.consentUrl, {
+      ...request,
+      client_name: client.name,
+    });
+  }
+
+  buildErrorRedirect(
+    redirectUri: string,
+    error: OAuthException,
+    state?: string,
+  ): string {
+    return this.buildRedirect(redirectUri, {
+      error: error.error,
+      error_description: error.description,
+      state,
+    });
+  }
+
+  /**
+   * The signed-in user approved the request: issue a single-use code
+   */
+  async approveAuthorization(
+    userId: string,
+    client: OAuthClient,
+    request: AuthorizationRequest,
+  ): Promise<string> {
+    const scopes = this.validateAuthorizationRequest(client, request);
+
+    const code = randomBytes(32).toString('base64url');
+    const stored = await this.redisService.set(
+      this.codeKey(code),
+      JSON.stringify({
+        clientId: client.clientId,
+        userId,
+        redirectUri: request.redirect_uri,
+        scopes,
+        codeChallenge: request.code_challenge as string,
+        nonce: request.nonce,
+      } satisfies AuthorizationCode),
+      this.codeTtl,
+    );
+    if (!stored) {
+      throw new ServiceUnavailableException(
+        'Unable to issue authorization code',
+      );
+    }
+
+    this.logger.log(`User ${userId} authorized client ${client.clientId}`);
+    return this.buildRedirect(request.redirect_uri, {
+      code,
+      state: request.state,
+    });
+  }
+
+  async exchangeAuthorizationCode(
+    client: OAuthClient,
+    params: Record<string, string | undefined>,
+  ): Promise<TokenResponse> {
+    if (!client.grantTypes.includes(GRANT_TYPES.AUTHORIZATION_CODE)) {
+      throw new OAuthException(
+        'unauthorized_client',
+        'Client may not use the authorization code grant',
+      );
+    }
+    if (!params.code || !params.code_verifier) {
+      throw new OAuthException(
+        'invalid_request',
+        'code and code_verifier are required',
+      );
+    }
+
+    const grant = await this.consumeCode(params.code);
+    const challenge = createHash('sha256')
+      .update(params.code_verifier)
+      .digest('base64url');
+    if (
+      !grant ||
+      grant.clientId !== client.clientId ||
+      grant.redirectUri !== params.redirect_uri ||
+      grant.codeChallenge !== challenge
+    ) {
+      throw new OAuthException(
+        'invalid_grant',
+        'Invalid, expired or already used authorization code',
+      );
+    }
+
+    const user = await this.usersService.findById(grant.userId);
+    if (!user) {
+      throw new OAuthException('invalid_grant', 'User no longer exists');
+    }
+    if (user.suspendedAt || user.deletedAt) {
+      throw new OAuthException('invalid_grant', 'User is suspended or deleted');
+    }
+
+    const { permissions } = await this.usersService.getAccess(user.id);
+    const response = this.issueAccessToken(
+      {
+        sub: user.id,
+        email: user.email,
+        client_id: client.clientId,
+        permissions: permissions.filter((p) => grant.scopes.includes(p)),
+      },
+      grant.scopes,
+    );
+
+    if (grant.scopes.includes(OIDC_SCOPES.OPENID)) {
+      response.id_token = this.issueIdToken(user, client, grant);
+    }
+    return response;
+  }
+
+  issueClientCredentialsToken(
+    client: OAuthClient,
+    scope?: string,
+  ): TokenResponse {
+    if (
+      !client.secretHash ||
+      !client.grantTypes.includes(GRANT_TYPES.CLIENT_CREDENTIALS)
+    ) {
+      throw new OAuthException(
+        'unauthorized_client',
+        'Client may not use the client_credentials grant',
+      );
+    }
+
+    const scopes = this.resolveScopes(client, scope).filter(
+      (s) => !Object.values<string>(OIDC_SCOPES).includes(s),
+    );
+
+    // No user is involved: the client itself is the subject
+    return this.issueAccessToken(
+      {
+        sub: client.clientId,
+        email: '',
+        client_id: client.clientId,
+        permissions: scopes,
+      },
+      scopes,
+    );
+  }
+
+  /**
+   * RFC 7662 token introspection. Anything that is not a currently valid
+   * access token is reported as `{ active: false }` without further detail.
+   */
+  async introspect(token: string | undefined): Promise<IntrospectionResponse> {
+    const inactive: IntrospectionResponse = { active: false };
+    if (!token) return inactive;
+
+    let payload: JwtPayload;
+    try {
+      payload = this.jwtService.verify<JwtPayload>(
+        token,
+        this.jwtKeyService.getVerifyOptions(this.jwtKeyService.getKeyId(token)),
+      );
+    } catch {
+      return inactive;
+    }
+
+    // ID tokens are addressed to a client and are not access tokens
+    if (payload.aud) return inactive;
+
+    if (
+      payload.jti &&
+      (await this.tokenRevocationService.isAccessTokenRevoked(payload.jti))
+    ) {
+      return inactive;
+    }
+
+    if (
+      payload.client_id &&
+      !(await this.oauthClientsService.findActive(payload.client_id))
+    ) {
+      return inactive;
+    }
+
+    if (!this.isClientToken(payload)) {
+      const user = await this.usersService.findById(payload.sub);
+      if (
+        !user ||
+        user.suspendedAt ||
+        user.deletedAt ||
+        (user.tokensValidAfter &&
+          (payload.iat ?? 0) <
+            Math.floor(user.tokensValidAfter.getTime() / 1000))
+      ) {
+        return inactive;
+      }
+    }
+
+    return {
+      active: true,
+      scope: payload.scope,
+      client_id: payload.client_id,
+      username: payload.email || undefined,
+      token_type: 'Bearer',
+      exp: payload.exp,
+      iat: payload.iat,
+      sub: payload.sub,
+      iss: payload.iss,
+      jti: payload.jti,
+    };
+  }
+
+  /**
+   * Tokens from the client_credentials grant act for the client, not a user
+   */
+  isClientToken(payload: JwtPayload): boolean {
+    return !!payload.client_id && payload.sub === payload.client_id;
+  }
+
+  getDiscoveryDocument() {
+    return {
+      issuer: this.issuer,
+      authorization_endpoint: `${this.issuer}/v1/oauth/authorize`,
+      token_endpoint: `${this.issuer}/v1/oauth/token`,
+      introspection_endpoint: `${this.issuer}/v1/oauth/introspect`,
+      userinfo_endpoint: `${this.issuer}/v1/oauth/userinfo`,
+      jwks_uri: `${this.issuer}/.well-known/jwks.json`,
+      scopes_supported: SUPPORTED_SCOPES,
+      response_types_supported: ['code'],
+      response_modes_supported: ['query'],
+      grant_types_supported: Object.values(GRANT_TYPES),
+      code_challenge_methods_supported: ['S256'],
+      token_endpoint_auth_methods_supported: [
+        'client_secret_basic',
+        'client_secret_post',
+        'none',
+      ],
+      introspection_endpoint_auth_methods_supported: [
+        'client_secret_basic',
+        'client_secret_post',
+      ],
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: [
+        this.jwtKeyService.getAlgorithm(),
+      ],
+      claims_supported: [
+        'iss',
+        'sub',
+        'aud',
+        'exp',
+        'iat',
+        'nonce',
+        'email',
+        'email_verified',
+      ],
+    };
+  }
+
+  /**
+   * Requested scopes, or every scope of the client when none are requested
+   */
+  private resolveScopes(client: OAuthClient, scope?: string): string[] {
+    const requested = scope
+      ? [...new Set(scope.split(' ').filter(Boolean))]
+      : [];
+    if (requested.length === 0) {
+      return client.scopes;
+    }
+
+    const notAllowed = requested.filter((s) => !client.scopes.includes(s));
+    if (notAllowed.length > 0) {
+      throw new OAuthException(
+        'invalid_scope',
+        `Scopes not allowed for this client: ${notAllowed.join(' ')}`,
+      );
+    }
+    return requested;
+  }
+
+  private issueAccessToken(
+    payload: Omit<JwtPayload, 'jti' | 'iss' | 'scope'>,
+    scopes: string[],
+  ): TokenResponse {
+    const scope = scopes.join(' ');
+    const accessToken = this.jwtService.sign(
+      { ...payload, iss: this.issuer, jti: randomUUID(), scope },
+      this.jwtKeyService.getSignOptions(),
+    );
+
+    return {
+      access_token: accessToken,
+      token_type: 'Bearer',
+      expires_in: this.accessTokenTtl,
+      scope,
+    };
+  }
+
+  private issueIdToken(
+    user: User,
+    client: OAuthClient,
+    grant: AuthorizationCode,
+  ): string {
+    const claims: Record<string, unknown> = {
+      iss: this.issuer,
+      sub: user.id,
+      aud: client.clientId,
+      nonce: grant.nonce,
+    };
+    if (grant.scopes.includes(OIDC_SCOPES.EMAIL)) {
+      claims.email = user.email;
+      claims.email_verified = user.emailVerifiedAt !== null;
+    }
+
+    return this.jwtService.sign(claims, this.jwtKeyService.getSignOptions());
+  }
+
+  private async consumeCode(code: string): Promise<AuthorizationCode | null> {
+    if (!this.redisService.isHealthy()) {
+      return null;
+    }
+
+    try {
+      const luaScript = `
+        local value = redis.call('GET', KEYS[1])
+        if value then
+          redis.call('DEL', KEYS[1])
+        end
+        return value
+      `;
+      const value = (await this.redisService
+        .getClient()
+        .eval(luaScript, 1, this.codeKey(code))) as string | null;
+      return value ? (JSON.parse(value) as AuthorizationCode) : null;
+    } catch (error) {
+      this.logger.error(
+        `Failed to consume authorization code: ${error.message}`,
+      );
+      return null;
+    }
+  }
+
+  private buildRedirect(
+    baseUrl: string,
+    params: Record<string, string | undefined>,
+  ): string {
+    const url = new URL(baseUrl);
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined) {
+        url.searchParams.set(key, value);
+      }
+    }
+    return url.toString();
+  }
+
+  private codeKey(code: string): string {
+    return `oauth_code:${createHash('sha256').update(code).digest('hex')}`;
+  }
+}
@@ -0,0 +1,47 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * An application allowed to obtain tokens from this platform
+ */
+@Entity('oauth_clients')
+export class OAuthClient {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  // Public identifier sent by the client as `client_id`
+  @Index({ unique: true })
+  @Column()
+  clientId: string;
+
+  @Column()
+  name: string;
+
+  // sha256 of the client secret; null for public clients (SPAs, mobile apps)
+  @Column({ type: 'varchar', nullable: true })
+  secretHash: string | null;
+
+  @Column('text', { array: true, default: '{}' })
+  redirectUris: string[];
+
+  @Column('text', { array: true, default: '{}' })
+  grantTypes: string[];
+
+  // Most scopes a token for this client can carry
+  @Column('text', { array: true, default: '{}' })
+  scopes: string[];
+
+  @Column({ type: 'uuid', nullable: true })
+  createdById: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  revokedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,138 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException } from '@nestjs/common';
+import { OAuthClientsService } from './oauth-clients.service';
+import { OAuthClient } from './oauth-client.entity';
+import { OAuthException } from './oauth.exception';
+
+describe('OAuthClientsService', () => {
+  let service: OAuthClientsService;
+  let repository: {
+    create: jest.Mock;
+    save: jest.Mock;
+    findOne: jest.Mock;
+  };
+
+  beforeEach(async () => {
+    repository = {
+      create: jest.fn((data) => ({ ...data })),
+      save: jest.fn((data) =>
+        Promise.resolve({
+          id: 'client-record-1',
+          revokedAt: null,
+          createdAt: new Date(),
+          ...data,
+        }),
+      ),
+      findOne: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OAuthClientsService,
+        { provide: getRepositoryToken(OAuthClient), useValue: repository },
+      ],
+    }).compile();
+
+    service = module.get<OAuthClientsService>(OAuthClientsService);
+  });
+
+  const createConfidential = () =>
+    service.create(
+      {
+        name: 'Billing',
+        grantTypes: ['client_credentials'],
+        scopes: ['users:read'],
+        confidential: true,
+      },
+      'admin-1',
+    );
+
+  describe('create', () => {
+    it('should return the secret once and store only its hash', async () => {
+      const { client, clientSecret } = await createConfidential();
+      const stored = repository.save.mock.calls[0][0];
+
+      expect(client.clientId).toMatch(/^oc_[0-9a-f]{24}$/);
+      expect(clientSecret).toMatch(/^ocs_/);
+      expect(stored.secretHash).toHaveLength(64);
+      expect(client).not.toHaveProperty('secretHash');
+      expect(client.confidential).toBe(true);
+    });
+
+    it('should reject unknown scopes', async () => {
+      await expect(
+        service.create(
+          {
+            name: 'App',
+            grantTypes: ['client_credentials'],
+            scopes: ['everything'],
+            confidential: true,
+          },
+          'admin-1',
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should not give client_credentials to public clients', async () => {
+      await expect(
+        service.create(
+          {
+            name: 'SPA',
+            grantTypes: ['client_credentials'],
+            scopes: [],
+            confidential: false,
+          },
+          'admin-1',
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should require a redirect URI for the authorization code grant', async () => {
+      await expect(
+        service.create(
+          {
+            name: 'SPA',
+            grantTypes: ['authorization_code'],
+            scopes: ['openid'],
+            confidential: false,
+          },
+          'admin-1',
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('authenticate', () => {
+    it('should accept the correct secret', async () => {
+      const { clientSecret } = await createConfidential();
+      const stored = repository.save.mock.calls[0][0];
+      repository.findOne.mockResolvedValue(stored);
+
+      await expect(
+        service.authenticate(stored.clientId, clientSecret),
+      ).resolves.toBe(stored);
+    });
+
+    it('should reject a wrong or missing secret', async () => {
+      await createConfidential();
+      const stored = repository.save.mock.calls[0][0];
+      repository.findOne.mockResolvedValue(stored);
+
+      await expect(
+        service.authenticate(stored.clientId, 'ocs_wrong'),
+      ).rejects.toThrow(OAuthException);
+      await expect(service.authenticate(stored.clientId)).rejects.toThrow(
+        OAuthException,
+      );
+    });
+
+    it('should reject unknown clients', async () => {
+      repository.findOne.mockResolvedValue(null);
+
+      await expect(service.authenticate('oc_missing', 'x')).rejects.toThrow(
+        OAuthException,
+      );
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  HttpStatus,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { OAuthClient } from './oauth-client.entity';
+import { OAuthException } from './oauth.exception';
+import {
+  GRANT_TYPES,
+  GrantType,
+  SUPPORTED_SCOPES,
+} from './authorization-server.constants';
+
+export interface CreateOAuthClientOptions {
+  name: string;
+  redirectUris?: string[];
+  grantTypes: GrantType[];
+  scopes: string[];
+  // Public clients cannot keep a secret and must rely on PKCE alone
+  confidential: boolean;
+}
+
+export type OAuthClientView = Omit<OAuthClient, 'secretHash'> & {
+  confidential: boolean;
+};
+
+export interface CreatedOAuthClient {
+  client: OAuthClientView;
+  clientSecret?: string; // plaintext, returned once and never stored
+}
+
+/**
+ * Registers the applications that may use this platform as their
+ * authorization server, and authenticates them at the token endpoint.
+ *
+ * Client ids look like `oc_<hex>` and secrets like `ocs_<secret>`; secrets
+ * are only stored as sha256 hashes.
+ */
+@Injectable()
+export class OAuthClientsService {
+  private readonly logger = new Logger(OAuthClientsService.name);
+
+  constructor(
+    @InjectRepository(OAuthClient)
+    private readonly clientRepository: Repository<OAuthClient>,
+  ) {}
+
+  async create(
+    options: CreateOAuthClientOptions,
+    createdById: string,
+  ): Promise<CreatedOAuthClient> {
+    const grantTypes = [...new Set(options.grantTypes)];
+    const scopes = [...new Set(options.scopes)];
+    const redirectUris = [...new Set(options.redirectUris ?? [])];
+
+    const unsupported = scopes.filter(
+      (scope) => !SUPPORTED_SCOPES.includes(scope),
+    );
+    if (unsupported.length > 0) {
+      throw new BadRequestException(
+        `Unsupported scopes: ${unsupported.join(', ')}`,
+      );
+    }
+    if (
+      grantTypes.includes(GRANT_TYPES.AUTHORIZATION_CODE) &&
+      redirectUris.length === 0
+    ) {
+      throw new BadRequestException(
+        'authorization_code clients need at least one redirect URI',
+      );
+    }
+    if (
+      grantTypes.includes(GRANT_TYPES.CLIENT_CREDENTIALS) &&
+      !options.confidential
+    ) {
+      throw new BadRequestException(
+        'client_credentials is only available to confidential clients',
+      );
+    }
+    for (const redirectUri of redirectUris) {
+      this.assertValidRedirectUri(redirectUri);
+    }
+
+    const clientSecret = options.confidential
+      ? `ocs_${randomBytes(32).toString('base64url')}`
+      : undefined;
+
+    const client = await this.clientRepository.save(
+      this.clientRepository.create({
+        clientId: `oc_${randomBytes(12).toString('hex')}`,
+        name: options.name,
+        secretHash: clientSecret ? this.hashSecret(clientSecret) : null,
+        redirectUris,
+        grantTypes,
+        scopes,
+        createdById,
+      }),
+    );
+
+    this.logger.log(`OAuth client ${client.clientId} registered`);
+    return { client: this.toView(client), clientSecret };
+  }
+
+  async list(): Promise<OAuthClientView[]> {
+    const clients = await this.clientRepository.find({
+      order: { createdAt: 'DESC' },
+    });
+    return clients.map((client) => this.toView(client));
+  }
+
+  async revoke(id: string): Promise<void> {
+    const client = await this.clientRepository.findOne({ where: { id } });
+    if (!client) {
+      throw new NotFoundException('OAuth client not found');
+    }
+
+    if (!client.revokedAt) {
+      await this.clientRepository.update(client.id, { revokedAt: new Date() });
+      this.logger.log(`OAuth client ${client.clientId} revoked`);
+    }
+  }
+
+  async findActive(clientId: string): Promise<OAuthClient | null> {
+    return this.clientRepository.findOne({
+      where: { clientId, revokedAt: IsNull() },
+    });
+  }
+
+  /**
+   * Authenticate a client at the token or introspection endpoint.
+   * Confidential clients must present their secret; public clients must not
+   * have one and are only identified.
+   */
+  async authenticate(
+    clientId?: string,
+    clientSecret?: string,
+  ): Promise<OAuthClient> {
+    const client = clientId ? await this.findActive(clientId) : null;
+
+    const authenticated =
+      client &&
+      (client.secretHash
+        ? !!clientSecret && this.matchesHash(clientSecret, client.secretHash)
+        : !clientSecret);
+
+    if (!client || !authenticated) {
+      throw new OAuthException(
+        'invalid_client',
+        'Client authentication failed',
+        HttpStatus.UNAUTHORIZED,
+      );
+    }
+    return client;
+  }
+
+  toView(client: OAuthClient): OAuthClientView {
+    const { secretHash, ...view } = client;
+    return { ...view, confidential: secretHash !== null };
+  }
+
+  private assertValidRedirectUri(redirectUri: string): void {
+    let url: URL;
+    try {
+      url = new URL(redirectUri);
+    } catch {
+      throw new BadRequestException(`Invalid redirect URI: ${redirectUri}`);
+    }
+    if (url.hash) {
+      throw new BadRequestException(
+        `Redirect URIs must not contain a fragment: ${redirectUri}`,
+      );
+    }
+  }
+
+  private matchesHash(secret: string, expectedHash: string): boolean {
+    const actual = Buffer.from(this.hashSecret(secret), 'hex');
+    const expected = Buffer.from(expectedHash, 'hex');
+    return (
+      actual.length === expected.length && timingSafeEqual(actual, expected)
+    );
+  }
+
+  private hashSecret(secret: string): string {
+    return createHash('sha256').update(secret).digest('hex');
+  }
+}
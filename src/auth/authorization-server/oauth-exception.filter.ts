@@ -0,0 +1,20 @@
+import { ExceptionFilter, Catch, ArgumentsHost } from '@nestjs/common';
+import { OAuthException } from './oauth.exception';
+
+/**
+ * Renders OAuthException as RFC 6749 error responses on the token and
+ * introspection endpoints instead of the platform's usual error body.
+ */
+@Catch(OAuthException)
+export class OAuthExceptionFilter implements ExceptionFilter {
+  catch(exception: OAuthException, host: ArgumentsHost) {
+    const response = host.switchToHttp().getResponse();
+
+    response.header('Cache-Control', 'no-store');
+    if (exception.error === 'invalid_client') {
+      response.header('WWW-Authenticate', 'Basic realm="oauth"');
+    }
+
+    response.status(exception.getStatus()).send(exception.getResponse());
+  }
+}
@@ -0,0 +1,26 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+// Error codes of RFC 6749 sections 4.1.2.1 and 5.2
+export type OAuthErrorCode =
+  | 'invalid_request'
+  | 'invalid_client'
+  | 'invalid_grant'
+  | 'unauthorized_client'
+  | 'unsupported_grant_type'
+  | 'unsupported_response_type'
+  | 'invalid_scope'
+  | 'access_denied';
+
+/**
+ * Error reported in the shape OAuth clients expect
+ * (`{ error, error_description }`) by OAuthExceptionFilter
+ */
+export class OAuthException extends HttpException {
+  constructor(
+    readonly error: OAuthErrorCode,
+    readonly description: string,
+    status: HttpStatus = HttpStatus.BAD_REQUEST,
+  ) {
+    super({ error, error_description: description }, status);
+  }
+}
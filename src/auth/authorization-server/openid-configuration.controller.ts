@@ -0,0 +1,32 @@
+import {
+  Controller,
+  Get,
+  Header,
+  VERSION_NEUTRAL,
+  Version,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { AuthorizationServerService } from './authorization-server.service';
+import { Public } from '../../common/decorators/public.decorator';
+
+@ApiTags('oauth')
+@Controller('.well-known')
+export class OpenIdConfigurationController {
+  constructor(
+    private readonly authorizationServerService: AuthorizationServerService,
+  ) {}
+
+  @Public()
+  @Get('openid-configuration')
+  @Version(VERSION_NEUTRAL)
+  @Header('Cache-Control', 'public, max-age=300')
+  @ApiOperation({ summary: 'OpenID Connect discovery document' })
+  @ApiResponse({
+    status: 200,
+    description: 'Endpoints and capabilities of the authorization server',
+    schema: { type: 'object' },
+  })
+  getConfiguration() {
+    return this.authorizationServerService.getDiscoveryDocument();
+  }
+}
@@ -0,0 +1,39 @@
+export const PrivacyEvents = {
+  DATA_EXPORT_REQUESTED: 'privacy.data_export_requested',
+  ACCOUNT_DELETION_SCHEDULED: 'privacy.account_deletion_scheduled',
+  ACCOUNT_RESTORED: 'privacy.account_restored',
+  ACCOUNT_ERASED: 'privacy.account_erased',
+} as const;
+
+export class DataExportRequestedEvent {
+  constructor(
+    public readonly userId: string,
+    public readonly jobId: string,
+    public readonly occurredAt: Date = new Date(),
+  ) {}
+}
+
+export class AccountDeletionScheduledEvent {
+  constructor(
+    public readonly userId: string,
+    public readonly eraseAfter: Date,
+    public readonly occurredAt: Date = new Date(),
+  ) {}
+}
+
+export class AccountRestoredEvent {
+  constructor(
+    public readonly userId: string,
+    public readonly restoredBy: string, // admin user id
+    public readonly occurredAt: Date = new Date(),
+  ) {}
+}
+
+export class AccountErasedEvent {
+  constructor(
+    // The user row is gone; audit records now refer to this pseudonym
+    public readonly pseudonym: string,
+    public readonly erasedBy: string | null, // admin user id, null when scheduled
+    public readonly occurredAt: Date = new Date(),
+  ) {}
+}
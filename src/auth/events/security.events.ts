@@ -0,0 +1,52 @@
+export const SecurityEvents = {
+  REFRESH_TOKEN_REUSED: 'security.refresh_token_reused',
+  LOGIN_LOCKED: 'security.login_locked',
+  LOGIN_UNLOCKED: 'security.login_unlocked',
+  USER_SUSPENDED: 'security.user_suspended',
+  USER_UNSUSPENDED: 'security.user_unsuspended',
+} as const;
+
+export type LockoutScope = 'account' | 'ip';
+
+export class RefreshTokenReusedEvent {
+  constructor(
+    public readonly userId: string,
+    public readonly sessionId: string,
+    public readonly occurredAt: Date = new Date(),
+  ) {}
+}
+
+export class LoginLockedEvent {
+  constructor(
+    public readonly scope: LockoutScope,
+    public readonly subject: string, // hashed email or IP address
+    public readonly lockedForSeconds: number,
+    public readonly occurredAt: Date = new Date(),
+  ) {}
+}
+
+export class LoginUnlockedEvent {
+  constructor(
+    public readonly scope: LockoutScope,
+    public readonly subject: string,
+    public readonly unlockedBy: string, // admin user id
+    public readonly occurredAt: Date = new Date(),
+  ) {}
+}
+
+export class UserSuspendedEvent {
+  constructor(
+    public readonly userId: string,
+    public readonly suspendedBy: string, // admin user id
+    public readonly reason: string | null,
+    public readonly occurredAt: Date = new Date(),
+  ) {}
+}
+
+export class UserUnsuspendedEvent {
+  constructor(
+    public readonly userId: string,
+    public readonly unsuspendedBy: string, // admin user id
+    public readonly occurredAt: Date = new Date(),
+  ) {}
+}
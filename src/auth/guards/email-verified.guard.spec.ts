@@ -0,0 +1,57 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import {
+  EmailVerifiedGuard,
+  REQUIRE_VERIFIED_EMAIL_KEY,
+} from './email-verified.guard';
+
+describe('EmailVerifiedGuard', () => {
+  let guard: EmailVerifiedGuard;
+  let reflector: jest.Mocked<Reflector>;
+
+  const createContext = (user?: any): ExecutionContext =>
+    ({
+      getHandler: () => undefined,
+      getClass: () => undefined,
+      switchToHttp: () => ({
+        getRequest: () => ({ user }),
+      }),
+    }) as unknown as ExecutionContext;
+
+  const requireVerifiedEmail = (required: boolean) => {
+    reflector.getAllAndOverride.mockImplementation((key: string) =>
+      key === REQUIRE_VERIFIED_EMAIL_KEY ? required : undefined,
+    );
+  };
+
+  beforeEach(() => {
+    reflector = {
+      getAllAndOverride: jest.fn(),
+    } as unknown as jest.Mocked<Reflector>;
+    guard = new EmailVerifiedGuard(reflector);
+  });
+
+  it('should allow unverified users on routes that do not opt in', () => {
+    requireVerifiedEmail(false);
+
+    expect(guard.canActivate(createContext({ emailVerified: false }))).toBe(
+      true,
+    );
+  });
+
+  it('should allow verified users on opted-in routes', () => {
+    requireVerifiedEmail(true);
+
+    expect(guard.canActivate(createContext({ emailVerified: true }))).toBe(
+      true,
+    );
+  });
+
+  it('should reject unverified users on opted-in routes', () => {
+    requireVerifiedEmail(true);
+
+    expect(() =>
+      guard.canActivate(createContext({ emailVerified: false })),
+    ).toThrow(ForbiddenException);
+  });
+});
@@ -0,0 +1,40 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+
+export const REQUIRE_VERIFIED_EMAIL_KEY = 'requireVerifiedEmail';
+
+/**
+ * Blocks accounts that have not verified their email address from routes
+ * marked with @RequireVerifiedEmail(). Must run after JwtAuthGuard.
+ */
+@Injectable()
+export class EmailVerifiedGuard implements CanActivate {
+  constructor(private reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const required = this.reflector.getAllAndOverride<boolean>(
+      REQUIRE_VERIFIED_EMAIL_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (!required) {
+      return true;
+    }
+
+    const user = context.switchToHttp().getRequest().user;
+    if (!user) {
+      throw new UnauthorizedException();
+    }
+
+    if (!user.emailVerified) {
+      throw new ForbiddenException('Email address is not verified');
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,150 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import {
+  RolesGuard,
+  ROLES_KEY,
+  PERMISSIONS_KEY,
+  CLIENT_SCOPES_KEY,
+} from './roles.guard';
+import { IS_PUBLIC_KEY } from './jwt-auth.guard';
+
+describe('RolesGuard', () => {
+  let guard: RolesGuard;
+  let reflector: jest.Mocked<Reflector>;
+
+  const createContext = (user?: any): ExecutionContext =>
+    ({
+      getHandler: () => undefined,
+      getClass: () => undefined,
+      switchToHttp: () => ({
+        getRequest: () => ({ user }),
+      }),
+    }) as unknown as ExecutionContext;
+
+  const withMetadata = (metadata: Record<string, any>) => {
+    reflector.getAllAndOverride.mockImplementation((key: string) =>
+      key in metadata ? metadata[key] : undefined,
+    );
+  };
+
+  beforeEach(() => {
+    reflector = {
+      getAllAndOverride: jest.fn(),
+    } as unknown as jest.Mocked<Reflector>;
+    guard = new RolesGuard(reflector);
+  });
+
+  it('should allow routes without role or permission requirements', () => {
+    withMetadata({});
+
+    expect(guard.canActivate(createContext())).toBe(true);
+  });
+
+  it('should allow public routes', () => {
+    withMetadata({ [IS_PUBLIC_KEY]: true, [ROLES_KEY]: ['admin'] });
+
+    expect(guard.canActivate(createContext())).toBe(true);
+  });
+
+  it('should allow a user holding any of the required roles', () => {
+    withMetadata({ [ROLES_KEY]: ['admin', 'support'] });
+
+    expect(
+      guard.canActivate(createContext({ roles: ['support'], permissions: [] })),
+    ).toBe(true);
+  });
+
+  it('should reject a user without any of the required roles', () => {
+    withMetadata({ [ROLES_KEY]: ['admin'] });
+
+    expect(() =>
+      guard.canActivate(createContext({ roles: ['user'], permissions: [] })),
+    ).toThrow(new ForbiddenException('Missing required role: one of admin'));
+  });
+
+  it('should name every missing permission', () => {
+    withMetadata({
+      [PERMISSIONS_KEY]: ['users:read', 'users:write', 'tokens:revoke'],
+    });
+
+    expect(() =>
+      guard.canActivate(
+        createContext({ roles: ['admin'], permissions: ['users:read'] }),
+      ),
+    ).toThrow(
+      new ForbiddenException(
+        'Missing required permission: users:write, tokens:revoke',
+      ),
+    );
+  });
+
+  it('should allow a user holding all required permissions', () => {
+    withMetadata({
+      [ROLES_KEY]: ['admin'],
+      [PERMISSIONS_KEY]: ['tokens:revoke'],
+    });
+
+    expect(
+      guard.canActivate(
+        createContext({ roles: ['admin'], permissions: ['tokens:revoke'] }),
+      ),
+    ).toBe(true);
+  });
+
+  describe('client_credentials tokens', () => {
+    const client = {
+      clientId: 'oc_123',
+      roles: [],
+      permissions: ['users:read'],
+    };
+
+    it('should reject them on routes without permission requirements', () => {
+      withMetadata({});
+
+      expect(() => guard.canActivate(createContext(client))).toThrow(
+        ForbiddenException,
+      );
+    });
+
+    it('should allow them on routes requiring granted permissions', () => {
+      withMetadata({ [PERMISSIONS_KEY]: ['users:read'] });
+
+      expect(guard.canActivate(createContext(client))).toBe(true);
+    });
+  });
+
+  describe('authorization code tokens', () => {
+    // Issued to a client on behalf of a user, so they carry the user's ID
+    const delegated = {
+      id: 'user-1',
+      clientId: 'oc_123',
+      roles: [],
+      permissions: [],
+      scopes: ['openid', 'email'],
+    };
+
+    it('should reject them on routes without permission requirements', () => {
+      withMetadata({});
+
+      expect(() => guard.canActivate(createContext(delegated))).toThrow(
+        new ForbiddenException(
+          'Client tokens can only access routes covered by their scopes',
+        ),
+      );
+    });
+
+    it('should allow them on routes opting in for their scopes', () => {
+      withMetadata({ [CLIENT_SCOPES_KEY]: ['openid'] });
+
+      expect(guard.canActivate(createContext(delegated))).toBe(true);
+    });
+
+    it('should reject them on routes opting in for other scopes', () => {
+      withMetadata({ [CLIENT_SCOPES_KEY]: ['openid', 'profile'] });
+
+      expect(() => guard.canActivate(createContext(delegated))).toThrow(
+        ForbiddenException,
+      );
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { IS_PUBLIC_KEY } from './jwt-auth.guard';
+
+export const ROLES_KEY = 'roles';
+export const PERMISSIONS_KEY = 'permissions';
+export const CLIENT_SCOPES_KEY = 'client_scopes';
+
+/**
+ * Enforces @Roles() (any of the listed roles) and @Permissions()
+ * (all of the listed permissions) using the claims embedded in the JWT.
+ * Must run after JwtAuthGuard so that request.user is populated.
+ *
+ * Tokens issued to OAuth clients (any token with `client_id`, with or without
+ * a user behind it) are limited to their scopes: they only reach routes that
+ * require permissions they were granted, or that opt in with @ClientScopes()
+ * for scopes the token carries. Everything else is for first-party sessions.
+ */
+@Injectable()
+export class RolesGuard implements CanActivate {
+  constructor(private reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const targets = [context.getHandler(), context.getClass()];
+
+    const isPublic = this.reflector.getAllAndOverride<boolean>(
+      IS_PUBLIC_KEY,
+      targets,
+    );
+    if (isPublic) {
+      return true;
+    }
+
+    const requiredRoles = this.reflector.getAllAndOverride<string[]>(
+      ROLES_KEY,
+      targets,
+    );
+    const requiredPermissions = this.reflector.getAllAndOverride<string[]>(
+      PERMISSIONS_KEY,
+      targets,
+    );
+
+    const user = context.switchToHttp().getRequest().user;
+    if (user?.clientId && !requiredPermissions?.length) {
+      const clientScopes = this.reflector.getAllAndOverride<string[]>(
+        CLIENT_SCOPES_KEY,
+        targets,
+      );
+      const scopes: string[] = user.scopes ?? [];
+      if (
+        !clientScopes?.length ||
+        !clientScopes.every((scope) => scopes.includes(scope))
+      ) {
+        throw new ForbiddenException(
+          'Client tokens can only access routes covered by their scopes',
+        );
+      }
+    }
+
+    if (!requiredRoles?.length && !requiredPermissions?.length) {
+      return true;
+    }
+
+    if (!user) {
+      throw new UnauthorizedException();
+    }
+
+    const roles: string[] = user.roles ?? [];
+    if (
+      requiredRoles?.length &&
+      !requiredRoles.some((role) => roles.includes(role))
+    ) {
+      throw new ForbiddenException(
+        `Missing required role: one of ${requiredRoles.join(', ')}`,
+      );
+    }
+
+    const permissions: string[] = user.permissions ?? [];
+    const missingPermissions = (requiredPermissions ?? []).filter(
+      (permission) => !permissions.includes(permission),
+    );
+    if (missingPermissions.length > 0) {
+      throw new ForbiddenException(
+        `Missing required permission: ${missingPermissions.join(', ')}`,
+      );
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,35 @@
+import {
+  Controller,
+  Get,
+  Header,
+  VERSION_NEUTRAL,
+  Version,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { JwtKeyService } from './jwt-key.service';
+import { Public } from '../../common/decorators/public.decorator';
+
+@ApiTags('auth')
+@Controller('.well-known')
+export class JwksController {
+  constructor(private readonly jwtKeyService: JwtKeyService) {}
+
+  @Public()
+  @Get('jwks.json')
+  @Version(VERSION_NEUTRAL)
+  @Header('Cache-Control', 'public, max-age=300')
+  @ApiOperation({ summary: 'Public keys for verifying access tokens' })
+  @ApiResponse({
+    status: 200,
+    description: 'JSON Web Key Set',
+    schema: {
+      type: 'object',
+      properties: {
+        keys: { type: 'array', items: { type: 'object' } },
+      },
+    },
+  })
+  getJwks() {
+    return this.jwtKeyService.getJwks();
+  }
+}
@@ -0,0 +1,144 @@
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { generateKeyPairSync } from 'crypto';
+import { JwtKeyService } from './jwt-key.service';
+
+describe('JwtKeyService', () => {
+  const jwtService = new JwtService({});
+
+  const createService = (config: Record<string, any>) =>
+    new JwtKeyService({
+      get: jest.fn((key: string, defaultValue?: any) =>
+        key in config ? config[key] : defaultValue,
+      ),
+    } as unknown as ConfigService);
+
+  const generatePem = (type: 'rsa' | 'ec') => {
+    const { privateKey, publicKey } =
+      type === 'rsa'
+        ? generateKeyPairSync('rsa', { modulusLength: 2048 })
+        : generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    return {
+      privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }) as string,
+      publicKey: publicKey.export({ type: 'spki', format: 'pem' }) as string,
+    };
+  };
+
+  describe('HS256', () => {
+    it('should sign with the shared secret and publish no keys', () => {
+      const service = createService({ JWT_SECRET: 'test-secret' });
+
+      const token = jwtService.sign({ sub: '1' }, service.getSignOptions());
+
+      expect(
+        jwtService.verify(token, service.getVerifyOptions()),
+      ).toHaveProperty('sub', '1');
+      expect(service.getJwks()).toEqual({ keys: [] });
+    });
+  });
+
+  describe.each(['RS256', 'ES256'] as const)('%s', (algorithm) => {
+    const keyType = algorithm === 'RS256' ? 'rsa' : 'ec';
+    const current = generatePem(keyType);
+    const previous = generatePem(keyType);
+
+    it('should sign with the active key and a kid header', () => {
+      const service = createService({
+        JWT_ALGORITHM: algorithm,
+        JWT_KEYS: JSON.stringify([
+          { kid: 'current', privateKey: current.privateKey },
+        ]),
+      });
+
+      const token = jwtService.sign({ sub: '1' }, service.getSignOptions());
+
+      expect(service.getKeyId(token)).toBe('current');
+      expect(
+        jwtService.verify(token, service.getVerifyOptions('current')),
+      ).toHaveProperty('sub', '1');
+    });
+
+    it('should keep verifying tokens signed by a retired key', () => {
+      const before = createService({
+        JWT_ALGORITHM: algorithm,
+        JWT_KEYS: JSON.stringify([
+          { kid: 'previous', privateKey: previous.privateKey },
+        ]),
+      });
+      const oldToken = jwtService.sign({ sub: '1' }, before.getSignOptions());
+
+      const after = createService({
+        JWT_ALGORITHM: algorithm,
+        JWT_ACTIVE_KID: 'current',
+        JWT_KEYS: JSON.stringify([
+          { kid: 'current', privateKey: current.privateKey },
+          { kid: 'previous', publicKey: previous.publicKey },
+        ]),
+      });
+
+      expect(
+        jwtService.verify(
+          oldToken,
+          after.getVerifyOptions(after.getKeyId(oldToken)),
+        ),
+      ).toHaveProperty('sub', '1');
+      expect(after.getJwks().keys.map((key) => key.kid)).toEqual([
+        'current',
+        'previous',
+      ]);
+    });
+
+    it('should reject tokens with an unknown kid', () => {
+      const service = createService({
+        JWT_ALGORITHM: algorithm,
+        JWT_KEYS: JSON.stringify([
+          { kid: 'current', privateKey: current.privateKey },
+        ]),
+      });
+
+      expect(() => service.getVerifyOptions('unknown')).toThrow(
+        'Unknown signing key',
+      );
+    });
+
+    it('should publish only public key material', () => {
+      const service = createService({
+        JWT_ALGORITHM: algorithm,
+        JWT_KEYS: JSON.stringify([
+          { kid: 'current', privateKey: current.privateKey },
+        ]),
+      });
+
+      const [jwk] = service.getJwks().keys;
+
+      expect(jwk).toMatchObject({ kid: 'current', alg: algorithm, use: 'sig' });
+      expect(jwk).not.toHaveProperty('d');
+    });
+  });
+
+  it('should require JWT_ACTIVE_KID when several private keys are loaded', () => {
+    const first = generatePem('ec');
+    const second = generatePem('ec');
+
+    expect(() =>
+      createService({
+        JWT_ALGORITHM: 'ES256',
+        JWT_KEYS: JSON.stringify([
+          { kid: 'a', privateKey: first.privateKey },
+          { kid: 'b', privateKey: second.privateKey },
+        ]),
+      }),
+    ).toThrow('JWT_ACTIVE_KID');
+  });
+
+  it('should refuse keys that do not match the algorithm', () => {
+    const rsa = generatePem('rsa');
+
+    expect(() =>
+      createService({
+        JWT_ALGORITHM: 'ES256',
+        JWT_KEYS: JSON.stringify([{ kid: 'rsa', privateKey: rsa.privateKey }]),
+      }),
+    ).toThrow('ES256 needs ec');
+  });
+});
@@ -0,0 +1,221 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtSignOptions, JwtVerifyOptions } from '@nestjs/jwt';
+import {
+  createPrivateKey,
+  createPublicKey,
+  KeyObject,
+  JsonWebKey,
+} from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type JwtSigningAlgorithm = 'HS256' | 'RS256' | 'ES256';
+
+export interface JwtKeyDefinition {
+  kid: string;
+  privateKey?: string; // PEM, keys with a private part can sign
+  publicKey?: string; // PEM, verify-only (retired) keys
+}
+
+interface LoadedKey {
+  kid: string;
+  privateKey?: KeyObject;
+  publicKey: KeyObject;
+}
+
+export interface Jwk extends JsonWebKey {
+  kid: string;
+  alg: JwtSigningAlgorithm;
+  use: 'sig';
+}
+
+/**
+ * Holds the keys used to sign and verify access tokens.
+ *
+ * HS256 keeps using the shared JWT_SECRET. RS256/ES256 load several keys from
+ * JWT_KEYS_DIR (one `<kid>.pem` per key) and/or JWT_KEYS (JSON array). The key
+ * named by JWT_ACTIVE_KID signs new tokens; every other loaded key still
+ * verifies tokens carrying its `kid` and is published in the JWKS.
+ */
+@Injectable()
+export class JwtKeyService {
+  private readonly logger = new Logger(JwtKeyService.name);
+  private readonly algorithm: JwtSigningAlgorithm;
+  private readonly secret?: string;
+  private readonly keys = new Map<string, LoadedKey>();
+  private readonly activeKid?: string;
+
+  constructor(private readonly configService: ConfigService) {
+    this.algorithm = this.configService.get<JwtSigningAlgorithm>(
+      'JWT_ALGORITHM',
+      'HS256',
+    );
+
+    if (this.algorithm === 'HS256') {
+      this.secret = this.configService.get<string>('JWT_SECRET');
+      return;
+    }
+
+    for (const definition of this.readKeyDefinitions()) {
+      this.keys.set(definition.kid, this.loadKey(definition));
+    }
+
+    this.activeKid = this.resolveActiveKid();
+    this.logger.log(
+      `Loaded ${this.keys.size} ${this.algorithm} key(s), signing with kid "${this.activeKid}"`,
+    );
+  }
+
+  getAlgorithm(): JwtSigningAlgorithm {
+    return this.algorithm;
+  }
+
+  getSignOptions(): JwtSignOptions {
+    if (this.algorithm === 'HS256') {
+      return { secret: this.secret, algorithm: 'HS256' };
+    }
+
+    const activeKey = this.keys.get(this.activeKid as string) as LoadedKey;
+    return {
+      privateKey: activeKey.privateKey,
+      algorithm: this.algorithm,
+      keyid: activeKey.kid,
+    };
+  }
+
+  getVerifyOptions(kid?: string): JwtVerifyOptions {
+    return {
+      ...(this.algorithm === 'HS256'
+        ? { secret: this.secret }
+        : { publicKey: this.getVerificationKey(kid) }),
+      algorithms: [this.algorithm],
+    };
+  }
+
+  /**
+   * Key that verifies a token signed with the given `kid` header
+   */
+  getVerificationKey(kid?: string): string {
+    if (this.algorithm === 'HS256') {
+      return this.secret as string;
+    }
+
+    const key = kid ? this.keys.get(kid) : undefined;
+    if (!key) {
+      throw new Error(`Unknown signing key "${kid}"`);
+    }
+    return key.publicKey.export({ type: 'spki', format: 'pem' }) as string;
+  }
+
+  /**
+   * Read the `kid` header of a token without verifying it
+   */
+  getKeyId(token: string): string | undefined {
+    try {
+      const header = JSON.parse(
+        Buffer.from(token.split('.')[0], 'base64url').toString('utf8'),
+      );
+      return typeof header.kid === 'string' ? header.kid : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Public keys in JWKS format. Shared secrets are never published.
+   */
+  getJwks(): { keys: Jwk[] } {
+    return {
+      keys: [...this.keys.values()].map((key) => ({
+        ...key.publicKey.export({ format: 'jwk' }),
+        kid: key.kid,
+        alg: this.algorithm,
+        use: 'sig',
+      })),
+    };
+  }
+
+  private readKeyDefinitions(): JwtKeyDefinition[] {
+    const definitions: JwtKeyDefinition[] = [];
+
+    const keysDir = this.configService.get<string>('JWT_KEYS_DIR');
+    if (keysDir) {
+      for (const file of fs.readdirSync(keysDir).sort()) {
+        if (!file.endsWith('.pem')) continue;
+
+        const pem = fs.readFileSync(path.join(keysDir, file), 'utf8');
+        const kid = path.basename(file, '.pem');
+        definitions.push(
+          pem.includes('PRIVATE KEY')
+            ? { kid, privateKey: pem }
+            : { kid, publicKey: pem },
+        );
+      }
+    }
+
+    const keysJson = this.configService.get<string>('JWT_KEYS');
+    if (keysJson) {
+      definitions.push(...(JSON.parse(keysJson) as JwtKeyDefinition[]));
+    }
+
+    if (definitions.length === 0) {
+      throw new Error(
+        `JWT_ALGORITHM=${this.algorithm} requires keys in JWT_KEYS_DIR or JWT_KEYS`,
+      );
+    }
+
+    return definitions;
+  }
+
+  private loadKey(definition: JwtKeyDefinition): LoadedKey {
+    if (this.keys.has(definition.kid)) {
+      throw new Error(`Duplicate signing key "${definition.kid}"`);
+    }
+
+    const privateKey = definition.privateKey
+      ? createPrivateKey(definition.privateKey)
+      : undefined;
+    const publicKey = privateKey
+      ? createPublicKey(privateKey)
+      : createPublicKey(definition.publicKey as string);
+
+    const expectedType = this.algorithm === 'RS256' ? 'rsa' : 'ec';
+    if (publicKey.asymmetricKeyType !== expectedType) {
+      throw new Error(
+        `Key "${definition.kid}" is ${publicKey.asymmetricKeyType}, ${this.algorithm} needs ${expectedType}`,
+      );
+    }
+    if (
+      this.algorithm === 'ES256' &&
+      publicKey.asymmetricKeyDetails?.namedCurve !== 'prime256v1'
+    ) {
+      throw new Error(`Key "${definition.kid}" must use the P-256 curve`);
+    }
+
+    return { kid: definition.kid, privateKey, publicKey };
+  }
+
+  private resolveActiveKid(): string {
+    const configured = this.configService.get<string>('JWT_ACTIVE_KID');
+    const signingKids = [...this.keys.values()]
+      .filter((key) => key.privateKey)
+      .map((key) => key.kid);
+
+    if (configured) {
+      if (!signingKids.includes(configured)) {
+        throw new Error(
+          `JWT_ACTIVE_KID "${configured}" is not a loaded private key`,
+        );
+      }
+      return configured;
+    }
+
+    if (signingKids.length !== 1) {
+      throw new Error(
+        'Set JWT_ACTIVE_KID to choose which private key signs new tokens',
+      );
+    }
+    return signingKids[0];
+  }
+}
@@ -0,0 +1,62 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { MetricsService } from '../../observability/metrics.service';
+import {
+  LoginLockedEvent,
+  LoginUnlockedEvent,
+  RefreshTokenReusedEvent,
+  SecurityEvents,
+  UserSuspendedEvent,
+  UserUnsuspendedEvent,
+} from '../events/security.events';
+
+@Injectable()
+export class SecurityEventsListener {
+  private readonly logger = new Logger('SecurityEvents');
+
+  constructor(private readonly metricsService: MetricsService) {}
+
+  @OnEvent(SecurityEvents.REFRESH_TOKEN_REUSED)
+  handleRefreshTokenReused(event: RefreshTokenReusedEvent) {
+    this.logger.warn(
+      `Refresh token reuse detected for user ${event.userId}, revoked session ${event.sessionId}`,
+    );
+    this.metricsService.recordSecurityEvent(
+      SecurityEvents.REFRESH_TOKEN_REUSED,
+    );
+  }
+
+  @OnEvent(SecurityEvents.LOGIN_LOCKED)
+  handleLoginLocked(event: LoginLockedEvent) {
+    this.logger.warn(
+      `Login locked for ${event.scope} ${event.subject} for ${event.lockedForSeconds}s`,
+    );
+    this.metricsService.recordSecurityEvent(SecurityEvents.LOGIN_LOCKED);
+    this.metricsService.recordLoginLockout(event.scope, 'lock');
+  }
+
+  @OnEvent(SecurityEvents.LOGIN_UNLOCKED)
+  handleLoginUnlocked(event: LoginUnlockedEvent) {
+    this.logger.log(
+      `Login unlocked for ${event.scope} ${event.subject} by ${event.unlockedBy}`,
+    );
+    this.metricsService.recordSecurityEvent(SecurityEvents.LOGIN_UNLOCKED);
+    this.metricsService.recordLoginLockout(event.scope, 'unlock');
+  }
+
+  @OnEvent(SecurityEvents.USER_SUSPENDED)
+  handleUserSuspended(event: UserSuspendedEvent) {
+    this.logger.warn(
+      `User ${event.userId} suspended by ${event.suspendedBy}${event.reason ? `: ${event.reason}` : ''}`,
+    );
+    this.metricsService.recordSecurityEvent(SecurityEvents.USER_SUSPENDED);
+  }
+
+  @OnEvent(SecurityEvents.USER_UNSUSPENDED)
+  handleUserUnsuspended(event: UserUnsuspendedEvent) {
+    this.logger.log(
+      `User ${event.userId} unsuspended by ${event.unsuspendedBy}`,
+    );
+    this.metricsService.recordSecurityEvent(SecurityEvents.USER_UNSUSPENDED);
+  }
+}
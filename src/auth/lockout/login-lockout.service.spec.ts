@@ -0,0 +1,153 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { LoginLockoutService } from './login-lockout.service';
+import { RedisService } from '../../redis/redis.service';
+import { MetricsService } from '../../observability/metrics.service';
+import { SecurityEvents } from '../events/security.events';
+
+describe('LoginLockoutService', () => {
+  let service: LoginLockoutService;
+  let redisClient: { eval: jest.Mock; ttl: jest.Mock };
+  let redisService: jest.Mocked<RedisService>;
+  let eventEmitter: jest.Mocked<EventEmitter2>;
+  let metricsService: jest.Mocked<MetricsService>;
+
+  beforeEach(async () => {
+    redisClient = {
+      eval: jest.fn(),
+      ttl: jest.fn().mockResolvedValue(-2),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LoginLockoutService,
+        {
+          provide: RedisService,
+          useValue: {
+            isHealthy: jest.fn().mockReturnValue(true),
+            getClient: jest.fn(() => redisClient),
+            exists: jest.fn(),
+            del: jest.fn(),
+          },
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: any) =>
+              // No artificial delay in unit tests
+              key === 'LOGIN_DELAY_BASE_MS' ? 0 : defaultValue,
+            ),
+          },
+        },
+        {
+          provide: EventEmitter2,
+          useValue: { emit: jest.fn() },
+        },
+        {
+          provide: MetricsService,
+          useValue: { recordLoginFailure: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get<LoginLockoutService>(LoginLockoutService);
+    redisService = module.get(RedisService);
+    eventEmitter = module.get(EventEmitter2);
+    metricsService = module.get(MetricsService);
+  });
+
+  describe('assertNotLocked', () => {
+    it('should allow attempts when nothing is locked', async () => {
+      await expect(
+        service.assertNotLocked('user@example.com', '10.0.0.1'),
+      ).resolves.toBeUndefined();
+    });
+
+    it('should reject with 429 and the remaining lock time', async () => {
+      redisClient.ttl.mockResolvedValueOnce(-2).mockResolvedValueOnce(120);
+
+      const error = await service
+        .assertNotLocked('user@example.com', '10.0.0.1')
+        .catch((e: HttpException) => e);
+
+      expect(error).toBeInstanceOf(HttpException);
+      expect((error as HttpException).getStatus()).toBe(
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+      expect((error as HttpException).getResponse()).toMatchObject({
+        retryAfter: 120,
+      });
+    });
+
+    it('should key accounts by email hash regardless of case', async () => {
+      await service.assertNotLocked('User@Example.com');
+      await service.assertNotLocked('user@example.com');
+
+      const [first, second] = redisClient.ttl.mock.calls.map((c) => c[0]);
+      expect(first).toBe(second);
+      expect(first).not.toContain('example.com');
+    });
+
+    it('should fail open when Redis is down', async () => {
+      redisService.isHealthy.mockReturnValue(false);
+
+      await expect(
+        service.assertNotLocked('user@example.com'),
+      ).resolves.toBeUndefined();
+      expect(redisClient.ttl).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recordFailure', () => {
+    it('should count the failure without locking below the threshold', async () => {
+      redisClient.eval.mockResolvedValue([1, 0, 1, 0]);
+
+      await service.recordFailure('user@example.com', '10.0.0.1');
+
+      expect(metricsService.recordLoginFailure).toHaveBeenCalled();
+      expect(eventEmitter.emit).not.toHaveBeenCalled();
+    });
+
+    it('should emit a lock event for the account and the IP', async () => {
+      redisClient.eval.mockResolvedValue([5, 1, 50, 1]);
+
+      await service.recordFailure('user@example.com', '10.0.0.1');
+
+      expect(eventEmitter.emit).toHaveBeenCalledWith(
+        SecurityEvents.LOGIN_LOCKED,
+        expect.objectContaining({ scope: 'account', lockedForSeconds: 900 }),
+      );
+      expect(eventEmitter.emit).toHaveBeenCalledWith(
+        SecurityEvents.LOGIN_LOCKED,
+        expect.objectContaining({ scope: 'ip', subject: '10.0.0.1' }),
+      );
+    });
+  });
+
+  describe('unlockAccount', () => {
+    it('should clear the lock and emit an unlock event', async () => {
+      redisService.exists.mockResolvedValue(true);
+
+      await expect(
+        service.unlockAccount('user@example.com', 'admin-1'),
+      ).resolves.toBe(true);
+
+      expect(redisService.del).toHaveBeenCalledTimes(2);
+      expect(eventEmitter.emit).toHaveBeenCalledWith(
+        SecurityEvents.LOGIN_UNLOCKED,
+        expect.objectContaining({ scope: 'account', unlockedBy: 'admin-1' }),
+      );
+    });
+
+    it('should report accounts that were not locked', async () => {
+      redisService.exists.mockResolvedValue(false);
+
+      await expect(
+        service.unlockAccount('user@example.com', 'admin-1'),
+      ).resolves.toBe(false);
+      expect(eventEmitter.emit).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,222 @@
+import { HttpException, HttpStatus, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { createHash } from 'crypto';
+import { RedisService } from '../../redis/redis.service';
+import { MetricsService } from '../../observability/metrics.service';
+import { parseExpiryToSeconds } from '../../common/utils/expiry.util';
+import {
+  LockoutScope,
+  LoginLockedEvent,
+  LoginUnlockedEvent,
+  SecurityEvents,
+} from '../events/security.events';
+
+/**
+ * Remembers failed password logins per account and per client IP.
+ *
+ * Accounts are keyed by a hash of the submitted email, whether or not a user
+ * with that email exists, so locks behave the same for unknown emails and
+ * cannot be used to discover accounts. Each failure is answered a little
+ * slower than the previous one, and reaching the threshold locks the account
+ * (or IP) for LOGIN_LOCKOUT_DURATION.
+ *
+ * Layout:
+ *  - login_failures:<scope>:<subject>  failures within LOGIN_FAILURE_WINDOW
+ *  - login_lock:<scope>:<subject>      present while locked
+ */
+@Injectable()
+export class LoginLockoutService {
+  private readonly logger = new Logger(LoginLockoutService.name);
+  private readonly maxAccountFailures: number;
+  private readonly maxIpFailures: number;
+  private readonly failureWindowSeconds: number;
+  private readonly lockoutSeconds: number;
+  private readonly delayBaseMs: number;
+  private readonly delayMaxMs: number;
+
+  constructor(
+    private readonly redisService: RedisService,
+    private readonly configService: ConfigService,
+    private readonly eventEmitter: EventEmitter2,
+    private readonly metricsService: MetricsService,
+  ) {
+    this.maxAccountFailures = this.configService.get<number>(
+      'LOGIN_MAX_FAILURES',
+      5,
+    );
+    this.maxIpFailures = this.configService.get<number>(
+      'LOGIN_MAX_FAILURES_PER_IP',
+      50,
+    );
+    this.failureWindowSeconds = parseExpiryToSeconds(
+      this.configService.get<string>('LOGIN_FAILURE_WINDOW', '15m'),
+    );
+    this.lockoutSeconds = parseExpiryToSeconds(
+      this.configService.get<string>('LOGIN_LOCKOUT_DURATION', '15m'),
+    );
+    this.delayBaseMs = this.configService.get<number>(
+      'LOGIN_DELAY_BASE_MS',
+      250,
+    );
+    this.delayMaxMs = this.configService.get<number>(
+      'LOGIN_DELAY_MAX_MS',
+      4000,
+    );
+  }
+
+  /**
+   * Reject the attempt up front if the account or IP is locked
+   */
+  async assertNotLocked(email: string, ip?: string): Promise<void> {
+    if (!this.redisService.isHealthy()) return;
+
+    let retryAfter = 0;
+    try {
+      const redis = this.redisService.getClient();
+      const ttls = await Promise.all([
+        redis.ttl(this.lockKey('account', this.accountSubject(email))),
+        ip ? redis.ttl(this.lockKey('ip', ip)) : Promise.resolve(-2),
+      ]);
+      retryAfter = Math.max(...ttls, 0);
+    } catch (error) {
+      this.logger.warn(`Failed to read login locks: ${error.message}`);
+      return;
+    }
+
+    if (retryAfter > 0) {
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.TOO_MANY_REQUESTS,
+          message: 'Too many failed login attempts, try again later',
+          retryAfter,
+        },
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+  }
+
+  /**
+   * Count a failed attempt, lock when a threshold is reached and hold the
+   * response back progressively longer.
+   */
+  async recordFailure(email: string, ip?: string): Promise<void> {
+    this.metricsService.recordLoginFailure();
+    if (!this.redisService.isHealthy()) return;
+
+    const account = this.accountSubject(email);
+    let accountFailures = 0;
+
+    try {
+      const redis = this.redisService.getClient();
+      const luaScript = `
+        local function fail(failuresKey, lockKey, maxFailures)
+          local failures = redis.call('INCR', failuresKey)
+          if failures == 1 then
+            redis.call('EXPIRE', failuresKey, tonumber(ARGV[1]))
+          end
+          local locked = 0
+          if failures >= maxFailures and
+            redis.call('SET', lockKey, '1', 'EX', tonumber(ARGV[2]), 'NX') then
+            locked = 1
+          end
+          return {failures, locked}
+        end
+
+        local account = fail(KEYS[1], KEYS[2], tonumber(ARGV[3]))
+        local ip = {0, 0}
+        if ARGV[5] == '1' then
+          ip = fail(KEYS[3], KEYS[4], tonumber(ARGV[4]))
+        end
+        return {account[1], account[2], ip[1], ip[2]}
+      `;
+
+      const [failures, accountLocked, , ipLocked] = (await redis.eval(
+        luaScript,
+        4,
+        this.failuresKey('account', account),
+        this.lockKey('account', account),
+        this.failuresKey('ip', ip ?? ''),
+        this.lockKey('ip', ip ?? ''),
+        this.failureWindowSeconds.toString(),
+        this.lockoutSeconds.toString(),
+        this.maxAccountFailures.toString(),
+        this.maxIpFailures.toString(),
+        ip ? '1' : '0',
+      )) as number[];
+
+      accountFailures = failures;
+      if (accountLocked === 1) {
+        this.emitLocked('account', account);
+      }
+      if (ipLocked === 1 && ip) {
+        this.emitLocked('ip', ip);
+      }
+    } catch (error) {
+      this.logger.warn(`Failed to record login failure: ${error.message}`);
+    }
+
+    await this.delay(accountFailures);
+  }
+
+  /**
+   * Forget earlier failures of the account after a successful login
+   */
+  async recordSuccess(email: string): Promise<void> {
+    await this.redisService.del(
+      this.failuresKey('account', this.accountSubject(email)),
+    );
+  }
+
+  /**
+   * Lift an account lock early. Returns false if it was not locked.
+   */
+  async unlockAccount(email: string, unlockedBy: string): Promise<boolean> {
+    const account = this.accountSubject(email);
+    const wasLocked = await this.redisService.exists(
+      this.lockKey('account', account),
+    );
+
+    await this.redisService.del(this.lockKey('account', account));
+    await this.redisService.del(this.failuresKey('account', account));
+
+    if (wasLocked) {
+      this.eventEmitter.emit(
+        SecurityEvents.LOGIN_UNLOCKED,
+        new LoginUnlockedEvent('account', account, unlockedBy),
+      );
+    }
+    return wasLocked;
+  }
+
+  private emitLocked(scope: LockoutScope, subject: string): void {
+    this.eventEmitter.emit(
+      SecurityEvents.LOGIN_LOCKED,
+      new LoginLockedEvent(scope, subject, this.lockoutSeconds),
+    );
+  }
+
+  private async delay(failures: number): Promise<void> {
+    if (failures < 1 || this.delayBaseMs <= 0) return;
+
+    const ms = Math.min(
+      this.delayBaseMs * 2 ** (failures - 1),
+      this.delayMaxMs,
+    );
+    await new Promise((resolve) => setTimeout(resolve, ms));
+  }
+
+  private accountSubject(email: string): string {
+    return createHash('sha256')
+      .update(email.trim().toLowerCase())
+      .digest('hex');
+  }
+
+  private failuresKey(scope: LockoutScope, subject: string): string {
+    return `login_failures:${scope}:${subject}`;
+  }
+
+  private lockKey(scope: LockoutScope, subject: string): string {
+    return `login_lock:${scope}:${subject}`;
+  }
+}
@@ -0,0 +1,121 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { ServiceUnavailableException } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { MagicLinkService } from './magic-link.service';
+import { RedisService } from '../../redis/redis.service';
+
+const sha256 = (value: string) =>
+  createHash('sha256').update(value).digest('hex');
+
+describe('MagicLinkService', () => {
+  let service: MagicLinkService;
+  let redisClient: { eval: jest.Mock };
+  let redisService: jest.Mocked<RedisService>;
+
+  beforeEach(async () => {
+    redisClient = { eval: jest.fn().mockResolvedValue(1) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MagicLinkService,
+        {
+          provide: RedisService,
+          useValue: {
+            isHealthy: jest.fn().mockReturnValue(true),
+            getClient: jest.fn(() => redisClient),
+          },
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: any) => defaultValue),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<MagicLinkService>(MagicLinkService);
+    redisService = module.get(RedisService);
+  });
+
+  describe('issue', () => {
+    it('should return a token and a 6-digit code but store only hashes', async () => {
+      const grant = await service.issue('user-1');
+
+      expect(grant.code).toMatch(/^\d{6}$/);
+      expect(grant.token.length).toBeGreaterThanOrEqual(43);
+      expect(grant.expiresIn).toBe(900);
+
+      const args = redisClient.eval.mock.calls[0];
+      expect(args[2]).toBe('magic_link:user-1');
+      expect(args[3]).toBe(sha256(grant.token));
+      expect(args[4]).toBe(sha256(`user-1:${grant.code}`));
+      expect(args).not.toContain(grant.token);
+      expect(args).not.toContain(grant.code);
+      expect(args[7]).toBe('900');
+    });
+
+    it('should fail loudly when the grant cannot be stored', async () => {
+      redisClient.eval.mockRejectedValue(new Error('connection lost'));
+
+      await expect(service.issue('user-1')).rejects.toThrow(
+        ServiceUnavailableException,
+      );
+    });
+  });
+
+  describe('consumeToken', () => {
+    it('should look the token up by its hash and return the user id', async () => {
+      redisClient.eval.mockResolvedValue('user-1');
+
+      await expect(service.consumeToken('link-token')).resolves.toBe('user-1');
+      const args = redisClient.eval.mock.calls[0];
+      expect(args[2]).toBe(`magic_link_token:${sha256('link-token')}`);
+      expect(args[3]).toBe(sha256('link-token'));
+    });
+
+    it('should return null for unknown or spent tokens', async () => {
+      redisClient.eval.mockResolvedValue(null);
+
+      await expect(service.consumeToken('link-token')).resolves.toBeNull();
+    });
+
+    it('should reject tokens when Redis is unavailable', async () => {
+      redisService.isHealthy.mockReturnValue(false);
+
+      await expect(service.consumeToken('link-token')).resolves.toBeNull();
+      expect(redisClient.eval).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('consumeCode', () => {
+    it('should compare the hashed code against the user grant', async () => {
+      redisClient.eval.mockResolvedValue('valid');
+
+      await expect(service.consumeCode('user-1', '123456')).resolves.toBe(
+        'valid',
+      );
+      const args = redisClient.eval.mock.calls[0];
+      expect(args[2]).toBe('magic_link:user-1');
+      expect(args[3]).toBe(sha256('user-1:123456'));
+      expect(args[5]).toBe('5');
+    });
+
+    it('should report when the attempt limit discarded the grant', async () => {
+      redisClient.eval.mockResolvedValue('exhausted');
+
+      await expect(service.consumeCode('user-1', '000000')).resolves.toBe(
+        'exhausted',
+      );
+    });
+
+    it('should treat Redis errors as an invalid code', async () => {
+      redisClient.eval.mockRejectedValue(new Error('connection lost'));
+
+      await expect(service.consumeCode('user-1', '123456')).resolves.toBe(
+        'invalid',
+      );
+    });
+  });
+});
@@ -0,0 +1,186 @@
+import {
+  Injectable,
+  Logger,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash, randomBytes, randomInt } from 'crypto';
+import { RedisService } from '../../redis/redis.service';
+import { parseExpiryToSeconds } from '../../common/utils/expiry.util';
+
+export interface MagicLinkGrant {
+  token: string;
+  code: string;
+  expiresIn: number;
+}
+
+export type MagicCodeResult = 'valid' | 'invalid' | 'exhausted';
+
+/**
+ * Passwordless sign-in grants: a link token and a 6-digit code sent together
+ * in one email. Either one signs the user in, and redeeming one spends both.
+ *
+ * Only sha256 hashes are stored. Codes are short enough to guess, so each
+ * grant accepts at most MAGIC_LINK_MAX_ATTEMPTS wrong codes before it is
+ * discarded. Requesting a new grant replaces the outstanding one.
+ *
+ * Layout:
+ *  - magic_link:<userId>          hash { token, code, attempts }
+ *  - magic_link_token:<hash>      user id the link token belongs to
+ */
+@Injectable()
+export class MagicLinkService {
+  private readonly logger = new Logger(MagicLinkService.name);
+  private readonly ttlSeconds: number;
+  private readonly maxAttempts: number;
+
+  constructor(
+    private readonly redisService: RedisService,
+    private readonly configService: ConfigService,
+  ) {
+    this.ttlSeconds = parseExpiryToSeconds(
+      this.configService.get<string>('MAGIC_LINK_EXPIRES_IN', '15m'),
+    );
+    this.maxAttempts = this.configService.get<number>(
+      'MAGIC_LINK_MAX_ATTEMPTS',
+      5,
+    );
+  }
+
+  async issue(userId: string): Promise<MagicLinkGrant> {
+    const token = randomBytes(32).toString('base64url');
+    const code = randomInt(0, 1_000_000).toString().padStart(6, '0');
+
+    try {
+      const redis = this.redisService.getClient();
+      const luaScript = `
+        local previous = redis.call('HGET', KEYS[1], 'token')
+        if previous then
+          redis.call('DEL', ARGV[4] .. previous)
+        end
+        redis.call('DEL', KEYS[1])
+        redis.call('HSET', KEYS[1], 'token', ARGV[1], 'code', ARGV[2], 'attempts', 0)
+        redis.call('EXPIRE', KEYS[1], tonumber(ARGV[5]))
+        redis.call('SET', ARGV[4] .. ARGV[1], ARGV[3], 'EX', tonumber(ARGV[5]))
+        return 1
+      `;
+
+      await redis.eval(
+        luaScript,
+        1,
+        this.grantKey(userId),
+        this.hash(token),
+        this.hashCode(userId, code),
+        userId,
+        this.tokenKey(''),
+        this.ttlSeconds.toString(),
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to issue magic link for user ${userId}: ${error.message}`,
+      );
+      throw new ServiceUnavailableException('Unable to issue sign-in link');
+    }
+
+    return { token, code, expiresIn: this.ttlSeconds };
+  }
+
+  /**
+   * Redeem a link token. Returns the user id, or null if the token is
+   * unknown, expired, superseded or already used.
+   */
+  async consumeToken(token: string): Promise<string | null> {
+    if (!this.redisService.isHealthy()) return null;
+
+    try {
+      const redis = this.redisService.getClient();
+      const luaScript = `
+        local userId = redis.call('GET', KEYS[1])
+        if not userId then
+          return false
+        end
+        redis.call('DEL', KEYS[1])
+
+        local grantKey = ARGV[2] .. userId
+        if redis.call('HGET', grantKey, 'token') ~= ARGV[1] then
+          return false
+        end
+        redis.call('DEL', grantKey)
+        return userId
+      `;
+
+      const hash = this.hash(token);
+      return (await redis.eval(
+        luaScript,
+        1,
+        this.tokenKey(hash),
+        hash,
+        this.grantKey(''),
+      )) as string | null;
+    } catch (error) {
+      this.logger.error(`Failed to consume magic link: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Check a code against the user's outstanding grant. A wrong code counts
+   * as an attempt; the last allowed attempt discards the grant.
+   */
+  async consumeCode(userId: string, code: string): Promise<MagicCodeResult> {
+    if (!this.redisService.isHealthy()) return 'invalid';
+
+    try {
+      const redis = this.redisService.getClient();
+      const luaScript = `
+        local grant = redis.call('HMGET', KEYS[1], 'token', 'code')
+        if not grant[1] then
+          return 'invalid'
+        end
+
+        if grant[2] == ARGV[1] then
+          redis.call('DEL', KEYS[1], ARGV[2] .. grant[1])
+          return 'valid'
+        end
+
+        local attempts = redis.call('HINCRBY', KEYS[1], 'attempts', 1)
+        if attempts >= tonumber(ARGV[3]) then
+          redis.call('DEL', KEYS[1], ARGV[2] .. grant[1])
+          return 'exhausted'
+        end
+        return 'invalid'
+      `;
+
+      return (await redis.eval(
+        luaScript,
+        1,
+        this.grantKey(userId),
+        this.hashCode(userId, code),
+        this.tokenKey(''),
+        this.maxAttempts.toString(),
+      )) as MagicCodeResult;
+    } catch (error) {
+      this.logger.error(
+        `Failed to check magic code for user ${userId}: ${error.message}`,
+      );
+      return 'invalid';
+    }
+  }
+
+  private hash(value: string): string {
+    return createHash('sha256').update(value).digest('hex');
+  }
+
+  // Salted with the user id so equal codes of different users hash apart
+  private hashCode(userId: string, code: string): string {
+    return this.hash(`${userId}:${code}`);
+  }
+
+  private grantKey(userId: string): string {
+    return `magic_link:${userId}`;
+  }
+
+  private tokenKey(hash: string): string {
+    return `magic_link_token:${hash}`;
+  }
+}
@@ -0,0 +1,45 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../users/user.entity';
+
+/**
+ * A user's account at an external identity provider. The provider's subject
+ * is stable, unlike the email address, so logins are matched on it.
+ */
+@Entity('oauth_identities')
+@Index(['provider', 'subject'], { unique: true })
+export class OAuthIdentity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  provider: string;
+
+  @Column()
+  subject: string;
+
+  // Email reported by the provider when the identity was linked
+  @Column({ type: 'varchar', nullable: true })
+  email: string | null;
+
+  @Index()
+  @Column({ type: 'uuid' })
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Column({ type: 'timestamp', nullable: true })
+  lastLoginAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
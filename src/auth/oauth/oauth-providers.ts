@@ -0,0 +1,81 @@
+import { ConfigService } from '@nestjs/config';
+
+/**
+ * How the user's profile is obtained after the code exchange:
+ *  - oidc:   claims of the ID token (discovery via `<issuer>/.well-known/...`)
+ *  - github: GitHub's REST API, since GitHub does not issue ID tokens
+ */
+export type OAuthProviderKind = 'oidc' | 'github';
+
+export interface OAuthProviderConfig {
+  name: string;
+  kind: OAuthProviderKind;
+  clientId: string;
+  clientSecret: string;
+  scopes: string[];
+  issuer?: string;
+  authorizationEndpoint?: string;
+  tokenEndpoint?: string;
+}
+
+/**
+ * Identity asserted by a provider once the authorization code is redeemed
+ */
+export interface OAuthProfile {
+  subject: string;
+  email: string | null;
+  emailVerified: boolean;
+}
+
+/**
+ * Providers enabled through the environment. A provider is only enabled
+ * when its client id is set.
+ */
+export function loadOAuthProviders(
+  configService: ConfigService,
+): OAuthProviderConfig[] {
+  const providers: OAuthProviderConfig[] = [];
+
+  const googleClientId = configService.get<string>('OAUTH_GOOGLE_CLIENT_ID');
+  if (googleClientId) {
+    providers.push({
+      name: 'google',
+      kind: 'oidc',
+      clientId: googleClientId,
+      clientSecret: configService.get<string>('OAUTH_GOOGLE_CLIENT_SECRET', ''),
+      scopes: ['openid', 'email', 'profile'],
+      issuer: 'https://accounts.google.com',
+    });
+  }
+
+  const githubClientId = configService.get<string>('OAUTH_GITHUB_CLIENT_ID');
+  if (githubClientId) {
+    providers.push({
+      name: 'github',
+      kind: 'github',
+      clientId: githubClientId,
+      clientSecret: configService.get<string>('OAUTH_GITHUB_CLIENT_SECRET', ''),
+      scopes: ['read:user', 'user:email'],
+      authorizationEndpoint: 'https://github.com/login/oauth/authorize',
+      tokenEndpoint: 'https://github.com/login/oauth/access_token',
+    });
+  }
+
+  // Any other OpenID Connect provider (Keycloak, Auth0, a local mock, ...)
+  const oidcIssuer = configService.get<string>('OAUTH_OIDC_ISSUER');
+  if (oidcIssuer) {
+    providers.push({
+      name: configService.get<string>('OAUTH_OIDC_NAME', 'oidc'),
+      kind: 'oidc',
+      clientId: configService.get<string>('OAUTH_OIDC_CLIENT_ID', ''),
+      clientSecret: configService.get<string>('OAUTH_OIDC_CLIENT_SECRET', ''),
+      scopes: configService
+        .get<string>('OAUTH_OIDC_SCOPES', 'openid email profile')
+        .split(' ')
+        .filter(Boolean),
+      issuer: oidcIssuer.replace(/\/+$/, ''),
+    });
+  }
+
+  return providers;
+}
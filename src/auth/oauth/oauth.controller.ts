@@ -0,0 +1,184 @@
+import {
+  BadRequestException,
+  Controller,
+  Delete,
+  ForbiddenException,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Query,
+  Redirect,
+  Request,
+  UnauthorizedException,
+  Version,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { OAuthService } from './oauth.service';
+import { AuthService } from '../auth.service';
+import { Public } from '../../common/decorators/public.decorator';
+
+const identitySchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', format: 'uuid' },
+    provider: { type: 'string', example: 'google' },
+    email: { type: 'string', nullable: true },
+    lastLoginAt: { type: 'string', format: 'date-time', nullable: true },
+    createdAt: { type: 'string', format: 'date-time' },
+  },
+};
+
+@ApiTags('auth')
+@Controller('auth/oauth')
+export class OAuthController {
+  constructor(
+    private readonly oauthService: OAuthService,
+    private readonly authService: AuthService,
+  ) {}
+
+  @Public()
+  @Get('providers')
+  @Version('1')
+  @ApiOperation({ summary: 'Identity providers available for sign-in' })
+  @ApiResponse({
+    status: 200,
+    description: 'Enabled providers',
+    schema: {
+      type: 'object',
+      properties: {
+        providers: {
+          type: 'array',
+          items: { type: 'string', example: 'google' },
+        },
+      },
+    },
+  })
+  getProviders() {
+    return { providers: this.oauthService.getProviderNames() };
+  }
+
+  @Get('identities')
+  @Version('1')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'External accounts linked to the current user' })
+  @ApiResponse({
+    status: 200,
+    description: 'Linked accounts',
+    schema: { type: 'array', items: identitySchema },
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async listIdentities(@Request() req) {
+    return this.oauthService.listIdentities(req.user.id);
+  }
+
+  @Delete('identities/:id')
+  @Version('1')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Unlink an external account' })
+  @ApiResponse({ status: 200, description: 'Account unlinked' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({
+    status: 403,
+    description: 'API keys and OAuth clients cannot unlink accounts',
+  })
+  @ApiResponse({ status: 404, description: 'Linked account not found' })
+  async unlinkIdentity(
+    @Request() req,
+    @Param('id', new ParseUUIDPipe()) identityId: string,
+  ) {
+    this.assertUserSession(req);
+    await this.oauthService.unlink(req.user.id, identityId);
+    return { message: 'Account unlinked successfully' };
+  }
+
+  @Public()
+  @Get(':provider')
+  @Version('1')
+  @Redirect()
+  @ApiOperation({ summary: 'Start signing in with an identity provider' })
+  @ApiParam({ name: 'provider', example: 'google' })
+  @ApiResponse({ status: 302, description: "Redirect to the provider's login" })
+  @ApiResponse({ status: 404, description: 'Unknown provider' })
+  async authorize(@Param('provider') provider: string) {
+    return { url: await this.oauthService.createAuthorizationUrl(provider) };
+  }
+
+  @Public()
+  @Get(':provider/callback')
+  @Version('1')
+  @ApiOperation({ summary: 'Finish signing in with an identity provider' })
+  @ApiParam({ name: 'provider', example: 'google' })
+  @ApiQuery({ name: 'code', required: false })
+  @ApiQuery({ name: 'state', required: false })
+  @ApiQuery({ name: 'error', required: false })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Login successful, or a 2FA challenge when the account has 2FA enabled',
+    schema: {
+      oneOf: [
+        {
+          type: 'object',
+          properties: {
+            accessToken: { type: 'string' },
+            refreshToken: { type: 'string' },
+            expiresIn: { type: 'number' },
+          },
+        },
+        {
+          type: 'object',
+          properties: {
+            twoFactorRequired: { type: 'boolean', example: true },
+            challengeToken: { type: 'string' },
+            expiresIn: { type: 'number' },
+          },
+        },
+      ],
+    },
+  })
+  @ApiResponse({ status: 400, description: 'Missing code or state' })
+  @ApiResponse({
+    status: 401,
+    description: 'Login denied, invalid state or invalid code',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Email belongs to an account that cannot be linked yet',
+  })
+  async callback(
+    @Request() req,
+    @Param('provider') provider: string,
+    @Query('code') code?: string,
+    @Query('state') state?: string,
+    @Query('error') error?: string,
+  ) {
+    if (error) {
+      throw new UnauthorizedException(`Login was not completed: ${error}`);
+    }
+    if (!code || !state) {
+      throw new BadRequestException('code and state are required');
+    }
+
+    const user = await this.oauthService.authenticate(provider, code, state);
+    return this.authService.login(user, {
+      ip: req.ip,
+      userAgent: req.headers['user-agent'],
+    });
+  }
+
+  // Sign-in methods are only managed by the user in person
+  private assertUserSession(req: any): void {
+    if (req.user.apiKeyId || req.user.clientId) {
+      throw new ForbiddenException(
+        'API keys and OAuth clients cannot manage linked accounts',
+      );
+    }
+  }
+}
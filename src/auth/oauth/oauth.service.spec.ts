@@ -0,0 +1,323 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import {
+  ConflictException,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { createHash } from 'crypto';
+import { OAuthService } from './oauth.service';
+import { OAuthIdentity } from './oauth-identity.entity';
+import { RedisService } from '../../redis/redis.service';
+import { UsersService } from '../users/users.service';
+import { PasswordHasherService } from '../password/password-hasher.service';
+
+const ISSUER = 'https://idp.example.com';
+const CLIENT_ID = 'test-client';
+
+describe('OAuthService', () => {
+  let service: OAuthService;
+  let store: Map<string, string>;
+  let repository: {
+    create: jest.Mock;
+    save: jest.Mock;
+    find: jest.Mock;
+    findOne: jest.Mock;
+    update: jest.Mock;
+    delete: jest.Mock;
+  };
+  let usersService: {
+    findById: jest.Mock;
+    findByEmail: jest.Mock;
+    create: jest.Mock;
+    markEmailVerified: jest.Mock;
+  };
+  let fetchMock: jest.SpyInstance;
+  let idTokenClaims: Record<string, any>;
+
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  const encodeJwt = (claims: Record<string, any>) =>
+    [
+      Buffer.from(JSON.stringify({ alg: 'RS256' })).toString('base64url'),
+      Buffer.from(JSON.stringify(claims)).toString('base64url'),
+      'signature',
+    ].join('.');
+
+  beforeEach(async () => {
+    store = new Map();
+    repository = {
+      create: jest.fn((data) => ({ ...data })),
+      save: jest.fn((data) => Promise.resolve({ id: 'identity-1', ...data })),
+      find: jest.fn(),
+      findOne: jest.fn().mockResolvedValue(null),
+      update: jest.fn(),
+      delete: jest.fn(),
+    };
+    usersService = {
+      findById: jest.fn(),
+      findByEmail: jest.fn().mockResolvedValue(null),
+      create: jest.fn((email: string) =>
+        Promise.resolve({ id: 'new-user', email, emailVerifiedAt: null }),
+      ),
+      markEmailVerified: jest.fn(),
+    };
+
+    fetchMock = jest.spyOn(global, 'fetch').mockImplementation((input) => {
+      // The service always passes plain URL strings
+      const url = input as string;
+      if (url.endsWith('/.well-known/openid-configuration')) {
+        return Promise.resolve(
+          json({
+            issuer: ISSUER,
+            authorization_endpoint: `${ISSUER}/authorize`,
+            token_endpoint: `${ISSUER}/token`,
+          }),
+        );
+      }
+      if (url === `${ISSUER}/token`) {
+        return Promise.resolve(
+          json({
+            access_token: 'provider-access-token',
+            id_token: encodeJwt(idTokenClaims),
+          }),
+        );
+      }
+      return Promise.resolve(json({}, 404));
+    });
+
+    const config: Record<string, string> = {
+      OAUTH_OIDC_ISSUER: ISSUER,
+      OAUTH_OIDC_CLIENT_ID: CLIENT_ID,
+      OAUTH_OIDC_CLIENT_SECRET: 'secret',
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OAuthService,
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn(
+              (key: string, defaultValue?: any) => config[key] ?? defaultValue,
+            ),
+          },
+        },
+        {
+          provide: RedisService,
+          useValue: {
+            isHealthy: jest.fn().mockReturnValue(true),
+            set: jest.fn((key: string, value: string) => {
+              store.set(key, value);
+              return Promise.resolve(true);
+            }),
+            getClient: jest.fn(() => ({
+              eval: jest.fn((_script: string, _n: number, key: string) => {
+                const value = store.get(key) ?? null;
+                store.delete(key);
+                return Promise.resolve(value);
+              }),
+            })),
+          },
+        },
+        { provide: UsersService, useValue: usersService },
+        { provide: getRepositoryToken(OAuthIdentity), useValue: repository },
+        {
+          provide: PasswordHasherService,
+          useValue: { hash: jest.fn().mockResolvedValue('unusableHash') },
+        },
+      ],
+    }).compile();
+
+    service = module.get<OAuthService>(OAuthService);
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  /**
+   * Start a login and return the state and nonce the provider would echo
+   */
+  const startLogin = async () => {
+    const url = new URL(await service.createAuthorizationUrl('oidc'));
+    const state = url.searchParams.get('state') as string;
+    const nonce = url.searchParams.get('nonce') as string;
+    idTokenClaims = {
+      iss: ISSUER,
+      aud: CLIENT_ID,
+      sub: 'provider-user-1',
+      email: 'user@example.com',
+      email_verified: true,
+      nonce,
+      exp: Math.floor(Date.now() / 1000) + 300,
+    };
+    return { url, state };
+  };
+
+  describe('createAuthorizationUrl', () => {
+    it('should send a PKCE challenge and remember its verifier', async () => {
+      const { url, state } = await startLogin();
+
+      expect(url.origin + url.pathname).toBe(`${ISSUER}/authorize`);
+      expect(url.searchParams.get('client_id')).toBe(CLIENT_ID);
+      expect(url.searchParams.get('redirect_uri')).toBe(
+        'http://localhost:3000/v1/auth/oauth/oidc/callback',
+      );
+      expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+
+      const saved = JSON.parse(store.get(`oauth_state:${state}`) as string);
+      expect(url.searchParams.get('code_challenge')).toBe(
+        createHash('sha256').update(saved.codeVerifier).digest('base64url'),
+      );
+    });
+
+    it('should reject unknown providers', async () => {
+      await expect(service.createAuthorizationUrl('myspace')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('authenticate', () => {
+    it('should send the PKCE verifier with the code exchange', async () => {
+      const { state } = await startLogin();
+      const { codeVerifier } = JSON.parse(
+        store.get(`oauth_state:${state}`) as string,
+      );
+
+      await service.authenticate('oidc', 'auth-code', state);
+
+      const [, init] = fetchMock.mock.calls.find(
+        ([url]) => url === `${ISSUER}/token`,
+      );
+      const body = new URLSearchParams(init.body);
+      expect(body.get('code')).toBe('auth-code');
+      expect(body.get('code_verifier')).toBe(codeVerifier);
+    });
+
+    it('should accept each state only once', async () => {
+      const { state } = await startLogin();
+      await service.authenticate('oidc', 'auth-code', state);
+
+      await expect(
+        service.authenticate('oidc', 'auth-code', state),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('should reject an ID token with the wrong nonce', async () => {
+      const { state } = await startLogin();
+      idTokenClaims.nonce = 'replayed';
+
+      await expect(
+        service.authenticate('oidc', 'auth-code', state),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('should reject an ID token issued to another client', async () => {
+      const { state } = await startLogin();
+      idTokenClaims.aud = 'someone-else';
+
+      await expect(
+        service.authenticate('oidc', 'auth-code', state),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('should sign in the user already linked to the subject', async () => {
+      const { state } = await startLogin();
+      repository.findOne.mockResolvedValue({
+        id: 'identity-1',
+        userId: 'user-1',
+      });
+      usersService.findById.mockResolvedValue({ id: 'user-1' });
+
+      const user = await service.authenticate('oidc', 'auth-code', state);
+
+      expect(user.id).toBe('user-1');
+      expect(usersService.findByEmail).not.toHaveBeenCalled();
+      expect(repository.save).not.toHaveBeenCalled();
+    });
+
+    it('should link to an existing account when both sides verified the email', async () => {
+      const { state } = await startLogin();
+      usersService.findByEmail.mockResolvedValue({
+        id: 'user-1',
+        email: 'user@example.com',
+        emailVerifiedAt: new Date(),
+      });
+
+      const user = await service.authenticate('oidc', 'auth-code', state);
+
+      expect(user.id).toBe('user-1');
+      expect(usersService.create).not.toHaveBeenCalled();
+      expect(repository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          provider: 'oidc',
+          subject: 'provider-user-1',
+          userId: 'user-1',
+        }),
+      );
+    });
+
+    it('should not link when the provider has not verified the email', async () => {
+      const { state } = await startLogin();
+      idTokenClaims.email_verified = false;
+      usersService.findByEmail.mockResolvedValue({
+        id: 'user-1',
+        emailVerifiedAt: new Date(),
+      });
+
+      await expect(
+        service.authenticate('oidc', 'auth-code', state),
+      ).rejects.toThrow(ConflictException);
+      expect(repository.save).not.toHaveBeenCalled();
+    });
+
+    it('should not link to an account whose email is unverified', async () => {
+      const { state } = await startLogin();
+      usersService.findByEmail.mockResolvedValue({
+        id: 'user-1',
+        emailVerifiedAt: null,
+      });
+
+      await expect(
+        service.authenticate('oidc', 'auth-code', state),
+      ).rejects.toThrow(ConflictException);
+    });
+
+    it('should create a verified user on first login', async () => {
+      const { state } = await startLogin();
+
+      const user = await service.authenticate('oidc', 'auth-code', state);
+
+      expect(user.id).toBe('new-user');
+      expect(usersService.create).toHaveBeenCalledWith(
+        'user@example.com',
+        'unusableHash',
+      );
+      expect(usersService.markEmailVerified).toHaveBeenCalledWith('new-user');
+      expect(repository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'new-user' }),
+      );
+    });
+  });
+
+  describe('unlink', () => {
+    it('should only remove identities of the given user', async () => {
+      repository.delete.mockResolvedValue({ affected: 0 });
+
+      await expect(service.unlink('user-1', 'identity-2')).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(repository.delete).toHaveBeenCalledWith({
+        id: 'identity-2',
+        userId: 'user-1',
+      });
+    });
+  });
+});
@@ -0,0 +1,482 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  ServiceUnavailableException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { createHash, randomBytes } from 'crypto';
+import { RedisService } from '../../redis/redis.service';
+import { UsersService } from '../users/users.service';
+import { PasswordHasherService } from '../password/password-hasher.service';
+import { User } from '../users/user.entity';
+import { OAuthIdentity } from './oauth-identity.entity';
+import {
+  loadOAuthProviders,
+  OAuthProfile,
+  OAuthProviderConfig,
+} from './oauth-providers';
+import { parseExpiryToSeconds } from '../../common/utils/expiry.util';
+
+interface OAuthState {
+  provider: string;
+  codeVerifier: string;
+  nonce: string;
+}
+
+interface ProviderEndpoints {
+  issuer?: string;
+  authorizationEndpoint: string;
+  tokenEndpoint: string;
+  userinfoEndpoint?: string;
+}
+
+interface TokenResponse {
+  access_token?: string;
+  id_token?: string;
+  error?: string;
+}
+
+const GITHUB_API_URL = 'https://api.github.com';
+const PROVIDER_TIMEOUT_MS = 10000;
+
+export type OAuthIdentityView = Pick<
+  OAuthIdentity,
+  'id' | 'provider' | 'email' | 'lastLoginAt' | 'createdAt'
+>;
+
+/**
+ * Sign-in through external identity providers using the authorization code
+ * flow with PKCE.
+ *
+ * The login is bound to the browser that started it by a random `state`
+ * stored in Redis together with the PKCE verifier and the OIDC nonce; it is
+ * consumed on callback so it can only be redeemed once.
+ *
+ * Layout:
+ *  - oauth_state:<state>   JSON OAuthState (TTL = OAUTH_STATE_EXPIRES_IN)
+ */
+@Injectable()
+export class OAuthService {
+  private readonly logger = new Logger(OAuthService.name);
+  private readonly providers = new Map<string, OAuthProviderConfig>();
+  private readonly endpoints = new Map<string, Promise<ProviderEndpoints>>();
+  private readonly stateTtl: number;
+  private readonly callbackBaseUrl: string;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly redisService: RedisService,
+    private readonly usersService: UsersService,
+    @InjectRepository(OAuthIdentity)
+    private readonly identityRepository: Repository<OAuthIdentity>,
+    private readonly passwordHasherService: PasswordHasherService,
+  ) {
+    for (const provider of loadOAuthProviders(this.configService)) {
+      this.providers.set(provider.name, provider);
+    }
+    this.stateTtl = parseExpiryToSeconds(
+      this.configService.get<string>('OAUTH_STATE_EXPIRES_IN', '10m'),
+    );
+    this.callbackBaseUrl = this.configService
+      .get<string>('OAUTH_CALLBACK_BASE_URL', 'http://localhost:3000')
+      .replace(/\/+$/, '');
+  }
+
+  getProviderNames(): string[] {
+    return [...this.providers.keys()];
+  }
+
+  /**
+   * URL of the provider's consent page to send the user's browser to
+   */
+  async createAuthorizationUrl(providerName: string): Promise<string> {
+    const provider = this.getProvider(providerName);
+    const endpoints = await this.getEndpoints(provider);
+
+    const state = randomBytes(32).toString('base64url');
+    const codeVerifier = randomBytes(32).toString('base64url');
+    const nonce = randomBytes(16).toString('base64url');
+    await this.saveState(state, {
+      provider: provider.name,
+      codeVerifier,
+      nonce,
+    });
+
+    const url = new URL(endpoints.authorizationEndpoint);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', provider.clientId);
+    url.searchParams.set('redirect_uri', this.getRedirectUri(provider));
+    url.searchParams.set('scope', provider.scopes.join(' '));
+    url.searchParams.set('state', state);
+    url.searchParams.set(
+      'code_challenge',
+      createHash('sha256').update(codeVerifier).digest('base64url'),
+    );
+    url.searchParams.set('code_challenge_method', 'S256');
+    if (provider.kind === 'oidc') {
+      url.searchParams.set('nonce', nonce);
+    }
+    return url.toString();
+  }
+
+  /**
+   * Redeem the authorization code from the callback and return the local
+   * user it belongs to, linking or creating one on first login.
+   */
+  async authenticate(
+    providerName: string,
+    code: string,
+    state: string,
+  ): Promise<User> {
+    const provider = this.getProvider(providerName);
+
+    const saved = await this.consumeState(state);
+    if (!saved || saved.provider !== provider.name) {
+      throw new UnauthorizedException('Invalid or expired OAuth state');
+    }
+
+    const endpoints = await this.getEndpoints(provider);
+    const tokens = await this.exchangeCode(
+      provider,
+      endpoints,
+      code,
+      saved.codeVerifier,
+    );
+
+    const profile =
+      provider.kind === 'github'
+        ? await this.fetchGithubProfile(tokens)
+        : await this.readOidcProfile(provider, endpoints, tokens, saved.nonce);
+
+    return this.resolveUser(provider.name, profile);
+  }
+
+  async listIdentities(userId: string): Promise<OAuthIdentityView[]> {
+    const identities = await this.identityRepository.find({
+      where: { userId },
+      order: { createdAt: 'ASC' },
+    });
+    return identities.map((identity) => this.toView(identity));
+  }
+
+  async unlink(userId: string, identityId: string): Promise<void> {
+    const result = await this.identityRepository.delete({
+      id: identityId,
+      userId,
+    });
+    if (!result.affected) {
+      throw new NotFoundException('Linked account not found');
+    }
+    this.logger.log(`User ${userId} unlinked identity ${identityId}`);
+  }
+
+  toView(identity: OAuthIdentity): OAuthIdentityView {
+    return {
+      id: identity.id,
+      provider: identity.provider,
+      email: identity.email,
+      lastLoginAt: identity.lastLoginAt,
+      createdAt: identity.createdAt,
+    };
+  }
+
+  private async resolveUser(
+    provider: string,
+    profile: OAuthProfile,
+  ): Promise<User> {
+    const identity = await this.identityRepository.findOne({
+      where: { provider, subject: profile.subject },
+    });
+    if (identity) {
+      const user = await this.usersService.findById(identity.userId);
+      if (user) {
+        await this.identityRepository.update(identity.id, {
+          lastLoginAt: new Date(),
+        });
+        return user;
+      }
+    }
+
+    if (!profile.email) {
+      throw new BadRequestException(
+        'The identity provider did not share an email address',
+      );
+    }
+
+    let user = await this.usersService.findByEmail(profile.email);
+    if (user) {
+      // Both sides must have proven they own the address, otherwise whoever
+      // registered it first could take over the other account
+      if (!profile.emailVerified || !user.emailVerifiedAt) {
+        throw new ConflictException(
+          'An account with this email already exists. Sign in with your password and verify your email to link it.',
+        );
+      }
+    } else {
+      // Nobody knows this password; a password can be set via password reset
+      const unusablePassword = await this.passwordHasherService.hash(
+        randomBytes(32).toString('hex'),
+      );
+      user = await this.usersService.create(profile.email, unusablePassword);
+      if (profile.emailVerified) {
+        await this.usersService.markEmailVerified(user.id);
+        user.emailVerifiedAt = new Date();
+      }
+    }
+
+    await this.identityRepository.save(
+      this.identityRepository.create({
+        provider,
+        subject: profile.subject,
+        email: profile.email,
+        userId: user.id,
+        lastLoginAt: new Date(),
+      }),
+    );
+    this.logger.log(`Linked ${provider} identity to user ${user.id}`);
+
+    return user;
+  }
+
+  private async exchangeCode(
+    provider: OAuthProviderConfig,
+    endpoints: ProviderEndpoints,
+    code: string,
+    codeVerifier: string,
+  ): Promise<TokenResponse> {
+    const response = await this.request(endpoints.tokenEndpoint, {
+      method: 'POST',
+      headers: {
+        Accept: 'application/json',
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: this.getRedirectUri(provider),
+        client_id: provider.clientId,
+        client_secret: provider.clientSecret,
+        code_verifier: codeVerifier,
+      }).toString(),
+    });
+
+    const tokens = (await response.json().catch(() => ({}))) as TokenResponse;
+    // GitHub reports errors with a 200 status
+    if (!response.ok || tokens.error || !tokens.access_token) {
+      this.logger.warn(
+        `${provider.name} rejected the authorization code: ${tokens.error ?? response.status}`,
+      );
+      throw new UnauthorizedException('Invalid authorization code');
+    }
+    return tokens;
+  }
+
+  /**
+   * The ID token comes straight from the token endpoint, so its signature
+   * need not be checked (OIDC Core 3.1.3.7); its claims still must be.
+   */
+  private async readOidcProfile(
+    provider: OAuthProviderConfig,
+    endpoints: ProviderEndpoints,
+    tokens: TokenResponse,
+    nonce: string,
+  ): Promise<OAuthProfile> {
+    const claims = tokens.id_token ? this.decodeJwt(tokens.id_token) : null;
+    const audience = [claims?.aud].flat();
+
+    if (
+      !claims ||
+      claims.iss !== endpoints.issuer ||
+      !audience.includes(provider.clientId) ||
+      typeof claims.exp !== 'number' ||
+      claims.exp * 1000 < Date.now() ||
+      claims.nonce !== nonce ||
+      typeof claims.sub !== 'string'
+    ) {
+      this.logger.warn(`${provider.name} returned an invalid ID token`);
+      throw new UnauthorizedException('Invalid ID token');
+    }
+
+    let email = typeof claims.email === 'string' ? claims.email : null;
+    let emailVerified = this.isTrue(claims.email_verified);
+
+    if (!email && endpoints.userinfoEndpoint) {
+      const userinfo = await this.getJson(
+        endpoints.userinfoEndpoint,
+        tokens.access_token as string,
+      );
+      if (userinfo.sub === claims.sub && typeof userinfo.email === 'string') {
+        email = userinfo.email;
+        emailVerified = this.isTrue(userinfo.email_verified);
+      }
+    }
+
+    return { subject: claims.sub, email, emailVerified };
+  }
+
+  private async fetchGithubProfile(
+    tokens: TokenResponse,
+  ): Promise<OAuthProfile> {
+    const accessToken = tokens.access_token as string;
+    const user = await this.getJson(`${GITHUB_API_URL}/user`, accessToken);
+    const emails = (await this.getJson(
+      `${GITHUB_API_URL}/user/emails`,
+      accessToken,
+    )) as unknown as { email: string; primary: boolean; verified: boolean }[];
+
+    const primary = Array.isArray(emails)
+      ? emails.find((entry) => entry.primary)
+      : undefined;
+
+    return {
+      subject: String(user.id),
+      email: primary?.email ?? null,
+      emailVerified: primary?.verified === true,
+    };
+  }
+
+  private getEndpoints(
+    provider: OAuthProviderConfig,
+  ): Promise<ProviderEndpoints> {
+    if (provider.authorizationEndpoint && provider.tokenEndpoint) {
+      return Promise.resolve({
+        issuer: provider.issuer,
+        authorizationEndpoint: provider.authorizationEndpoint,
+        tokenEndpoint: provider.tokenEndpoint,
+      });
+    }
+
+    let endpoints = this.endpoints.get(provider.name);
+    if (!endpoints) {
+      endpoints = this.discover(provider);
+      this.endpoints.set(provider.name, endpoints);
+      // Retry discovery on the next login instead of caching the failure
+      endpoints.catch(() => this.endpoints.delete(provider.name));
+    }
+    return endpoints;
+  }
+
+  private async discover(
+    provider: OAuthProviderConfig,
+  ): Promise<ProviderEndpoints> {
+    const response = await this.request(
+      `${provider.issuer}/.well-known/openid-configuration`,
+      { headers: { Accept: 'application/json' } },
+    );
+    if (!response.ok) {
+      this.logger.error(
+        `OIDC discovery for ${provider.name} failed with ${response.status}`,
+      );
+      throw new ServiceUnavailableException('Identity provider unavailable');
+    }
+
+    const document = (await response.json()) as Record<string, string>;
+    return {
+      issuer: document.issuer,
+      authorizationEndpoint: document.authorization_endpoint,
+      tokenEndpoint: document.token_endpoint,
+      userinfoEndpoint: document.userinfo_endpoint,
+    };
+  }
+
+  private async getJson(
+    url: string,
+    accessToken: string,
+  ): Promise<Record<string, any>> {
+    const response = await this.request(url, {
+      headers: {
+        Accept: 'application/json',
+        Authorization: `Bearer ${accessToken}`,
+        'User-Agent': 'high-scale-api-platform',
+      },
+    });
+    if (!response.ok) {
+      this.logger.warn(`Profile request to ${url} failed: ${response.status}`);
+      throw new UnauthorizedException('Unable to read the user profile');
+    }
+    return (await response.json()) as Record<string, any>;
+  }
+
+  private async request(url: string, init: RequestInit): Promise<Response> {
+    try {
+      return await fetch(url, {
+        ...init,
+        signal: AbortSignal.timeout(PROVIDER_TIMEOUT_MS),
+      });
+    } catch (error) {
+      this.logger.error(`Request to ${url} failed: ${error.message}`);
+      throw new ServiceUnavailableException('Identity provider unavailable');
+    }
+  }
+
+  private async saveState(state: string, value: OAuthState): Promise<void> {
+    const stored = await this.redisService.set(
+      this.stateKey(state),
+      JSON.stringify(value),
+      this.stateTtl,
+    );
+    if (!stored) {
+      throw new ServiceUnavailableException('Unable to start OAuth login');
+    }
+  }
+
+  private async consumeState(state: string): Promise<OAuthState | null> {
+    if (!this.redisService.isHealthy()) {
+      return null;
+    }
+
+    try {
+      const luaScript = `
+        local value = redis.call('GET', KEYS[1])
+        if value then
+          redis.call('DEL', KEYS[1])
+        end
+        return value
+      `;
+      const value = (await this.redisService
+        .getClient()
+        .eval(luaScript, 1, this.stateKey(state))) as string | null;
+      return value ? (JSON.parse(value) as OAuthState) : null;
+    } catch (error) {
+      this.logger.error(`Failed to consume OAuth state: ${error.message}`);
+      return null;
+    }
+  }
+
+  private decodeJwt(token: string): Record<string, any> | null {
+    try {
+      return JSON.parse(
+        Buffer.from(token.split('.')[1], 'base64url').toString('utf8'),
+      );
+    } catch {
+      return null;
+    }
+  }
+
+  // Some providers send boolean claims as strings
+  private isTrue(value: unknown): boolean {
+    return value === true || value === 'true';
+  }
+
+  private getProvider(name: string): OAuthProviderConfig {
+    const provider = this.providers.get(name);
+    if (!provider) {
+      throw new NotFoundException(`Unknown identity provider "${name}"`);
+    }
+    return provider;
+  }
+
+  private getRedirectUri(provider: OAuthProviderConfig): string {
+    return `${this.callbackBaseUrl}/v1/auth/oauth/${provider.name}/callback`;
+  }
+
+  private stateKey(state: string): string {
+    return `oauth_state:${state}`;
+  }
+}
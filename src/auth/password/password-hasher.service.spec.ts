@@ -0,0 +1,93 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import * as bcrypt from 'bcrypt';
+import { PasswordHasherService } from './password-hasher.service';
+
+// Cheap settings keep the suite fast; only the round trip matters here
+const FAST_ARGON2 = {
+  PASSWORD_HASH_ALGORITHM: 'argon2id',
+  ARGON2_MEMORY_COST: 1024,
+  ARGON2_TIME_COST: 1,
+};
+
+describe('PasswordHasherService', () => {
+  const createService = async (config: Record<string, any> = {}) => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PasswordHasherService,
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn(
+              (key: string, defaultValue?: any) => config[key] ?? defaultValue,
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    return module.get<PasswordHasherService>(PasswordHasherService);
+  };
+
+  it('should hash with bcrypt at the configured cost by default', async () => {
+    const service = await createService({ BCRYPT_COST: 4 });
+
+    const hash = await service.hash('password123');
+
+    expect(hash).toMatch(/^\$2b\$04\$/);
+    await expect(service.verify('password123', hash)).resolves.toBe(true);
+    await expect(service.verify('wrong', hash)).resolves.toBe(false);
+  });
+
+  it('should hash with argon2id when configured', async () => {
+    const service = await createService(FAST_ARGON2);
+
+    const hash = await service.hash('password123');
+
+    expect(hash).toMatch(/^\$argon2id\$v=19\$m=1024,t=1,p=1\$/);
+    await expect(service.verify('password123', hash)).resolves.toBe(true);
+    await expect(service.verify('wrong', hash)).resolves.toBe(false);
+  });
+
+  it('should keep verifying bcrypt hashes after switching to argon2id', async () => {
+    const service = await createService(FAST_ARGON2);
+    const legacyHash = await bcrypt.hash('password123', 4);
+
+    await expect(service.verify('password123', legacyHash)).resolves.toBe(true);
+  });
+
+  it('should fail verification without a stored hash', async () => {
+    const service = await createService({ BCRYPT_COST: 4 });
+
+    await expect(service.verify('password123', null)).resolves.toBe(false);
+  });
+
+  describe('needsRehash', () => {
+    it('should flag bcrypt hashes with another cost', async () => {
+      const service = await createService({ BCRYPT_COST: 12 });
+
+      expect(service.needsRehash(await bcrypt.hash('x', 4))).toBe(true);
+      expect(service.needsRehash(`$2b$12$${'a'.repeat(53)}`)).toBe(false);
+    });
+
+    it('should flag bcrypt hashes once argon2id is configured', async () => {
+      const service = await createService(FAST_ARGON2);
+
+      expect(service.needsRehash(await bcrypt.hash('x', 4))).toBe(true);
+      expect(service.needsRehash(await service.hash('x'))).toBe(false);
+    });
+
+    it('should flag argon2id hashes with outdated parameters', async () => {
+      const service = await createService(FAST_ARGON2);
+      const stronger = await createService({
+        ...FAST_ARGON2,
+        ARGON2_TIME_COST: 2,
+      });
+
+      const hash = await service.hash('x');
+
+      expect(stronger.needsRehash(hash)).toBe(true);
+      expect(service.needsRehash(hash)).toBe(false);
+    });
+  });
+});
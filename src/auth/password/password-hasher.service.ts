@@ -0,0 +1,99 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomBytes } from 'crypto';
+import * as bcrypt from 'bcrypt';
+import * as argon2 from '@node-rs/argon2';
+
+export type PasswordHashAlgorithm = 'bcrypt' | 'argon2id';
+
+interface Argon2Params {
+  memoryCost: number;
+  timeCost: number;
+  parallelism: number;
+}
+
+const BCRYPT_PREFIX = /^\$2[aby]\$(\d{2})\$/;
+const ARGON2ID_PREFIX = /^\$argon2id\$v=\d+\$m=(\d+),t=(\d+),p=(\d+)\$/;
+
+/**
+ * Hashes passwords with the configured algorithm and cost, and verifies
+ * hashes made with any supported one, so stored bcrypt hashes keep working
+ * after switching to argon2id.
+ *
+ * The parameters are read back from the stored hash itself (`$2b$<cost>$`,
+ * `$argon2id$v=19$m=..,t=..,p=..$`), which lets needsRehash() spot hashes made
+ * with outdated settings and have them upgraded on the next successful login.
+ */
+@Injectable()
+export class PasswordHasherService {
+  private readonly algorithm: PasswordHashAlgorithm;
+  private readonly bcryptCost: number;
+  private readonly argon2: Argon2Params;
+  private dummyHash?: Promise<string>;
+
+  constructor(private readonly configService: ConfigService) {
+    this.algorithm = this.configService.get<PasswordHashAlgorithm>(
+      'PASSWORD_HASH_ALGORITHM',
+      'bcrypt',
+    );
+    this.bcryptCost = this.configService.get<number>('BCRYPT_COST', 10);
+    this.argon2 = {
+      memoryCost: this.configService.get<number>('ARGON2_MEMORY_COST', 19456),
+      timeCost: this.configService.get<number>('ARGON2_TIME_COST', 2),
+      parallelism: this.configService.get<number>('ARGON2_PARALLELISM', 1),
+    };
+  }
+
+  async hash(password: string): Promise<string> {
+    if (this.algorithm === 'argon2id') {
+      // argon2id is the library's default variant
+      return argon2.hash(password, this.argon2);
+    }
+    return bcrypt.hash(password, this.bcryptCost);
+  }
+
+  /**
+   * Check a password against a stored hash of either algorithm. Without a
+   * hash (unknown account) a dummy hash is checked instead so both cases take
+   * the same time, and the result is always false.
+   */
+  async verify(
+    password: string,
+    hash: string | null | undefined,
+  ): Promise<boolean> {
+    if (!hash) {
+      this.dummyHash ??= this.hash(randomBytes(32).toString('hex'));
+      await this.verifyHash(password, await this.dummyHash);
+      return false;
+    }
+    return this.verifyHash(password, hash);
+  }
+
+  /**
+   * Whether the hash was made with another algorithm or other cost settings
+   * than the configured ones
+   */
+  needsRehash(hash: string): boolean {
+    if (this.algorithm === 'argon2id') {
+      const match = ARGON2ID_PREFIX.exec(hash);
+      if (!match) return true;
+
+      const [, memoryCost, timeCost, parallelism] = match.map(Number);
+      return (
+        memoryCost !== this.argon2.memoryCost ||
+        timeCost !== this.argon2.timeCost ||
+        parallelism !== this.argon2.parallelism
+      );
+    }
+
+    const match = BCRYPT_PREFIX.exec(hash);
+    return !match || Number(match[1]) !== this.bcryptCost;
+  }
+
+  private async verifyHash(password: string, hash: string): Promise<boolean> {
+    if (hash.startsWith('$argon2')) {
+      return argon2.verify(hash, password).catch(() => false);
+    }
+    return bcrypt.compare(password, hash);
+  }
+}
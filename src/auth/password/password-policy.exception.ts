@@ -0,0 +1,31 @@
+import { BadRequestException } from '@nestjs/common';
+
+export type PasswordRule =
+  | 'min_length'
+  | 'max_length'
+  | 'uppercase'
+  | 'lowercase'
+  | 'digit'
+  | 'symbol'
+  | 'blocklist'
+  | 'breached';
+
+export interface PasswordViolation {
+  rule: PasswordRule;
+  message: string;
+}
+
+/**
+ * Rejected password, listing every rule it broke so clients can show them
+ * all at once instead of one per attempt
+ */
+export class PasswordPolicyException extends BadRequestException {
+  constructor(readonly violations: PasswordViolation[]) {
+    super({
+      statusCode: 400,
+      error: 'Bad Request',
+      message: 'Password does not meet the password policy',
+      violations,
+    });
+  }
+}
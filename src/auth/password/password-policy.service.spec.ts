@@ -0,0 +1,182 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PasswordPolicyService } from './password-policy.service';
+import { PasswordPolicyException } from './password-policy.exception';
+
+const BREACHED_PASSWORD = 'correct horse battery staple';
+const RARELY_BREACHED_PASSWORD = 'purple monkey dishwasher';
+
+describe('PasswordPolicyService', () => {
+  let rangesDir: string;
+
+  /**
+   * Write HIBP-style range files for the given passwords
+   */
+  const writeRanges = (counts: Record<string, number>) => {
+    for (const [password, count] of Object.entries(counts)) {
+      const hash = createHash('sha1')
+        .update(password)
+        .digest('hex')
+        .toUpperCase();
+      fs.appendFileSync(
+        path.join(rangesDir, `${hash.slice(0, 5)}.txt`),
+        `0000000000000000000000000000000000A:3\r\n${hash.slice(5)}:${count}\r\n`,
+      );
+    }
+  };
+
+  const createService = async (config: Record<string, any> = {}) => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PasswordPolicyService,
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn(
+              (key: string, defaultValue?: any) => config[key] ?? defaultValue,
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    return module.get<PasswordPolicyService>(PasswordPolicyService);
+  };
+
+  beforeAll(() => {
+    rangesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pwned-ranges-'));
+    writeRanges({ [BREACHED_PASSWORD]: 120, [RARELY_BREACHED_PASSWORD]: 2 });
+  });
+
+  afterAll(() => {
+    fs.rmSync(rangesDir, { recursive: true, force: true });
+  });
+
+  it('should accept a password that follows the default policy', async () => {
+    const service = await createService();
+
+    await expect(service.validate('long enough')).resolves.toEqual([]);
+  });
+
+  it('should list every rule a password breaks', async () => {
+    const service = await createService({
+      PASSWORD_MIN_LENGTH: 10,
+      PASSWORD_REQUIRE_UPPERCASE: true,
+      PASSWORD_REQUIRE_DIGIT: true,
+      PASSWORD_REQUIRE_SYMBOL: true,
+    });
+
+    const violations = await service.validate('short');
+
+    expect(violations.map((violation) => violation.rule)).toEqual([
+      'min_length',
+      'uppercase',
+      'digit',
+      'symbol',
+    ]);
+    expect(violations[0].message).toBe('Must be at least 10 characters long');
+  });
+
+  it('should enforce the maximum length', async () => {
+    const service = await createService({ PASSWORD_MAX_LENGTH: 12 });
+
+    await expect(service.validate('a'.repeat(13))).resolves.toEqual([
+      expect.objectContaining({ rule: 'max_length' }),
+    ]);
+  });
+
+  it('should count non-ASCII letters towards character classes', async () => {
+    const service = await createService({
+      PASSWORD_REQUIRE_UPPERCASE: true,
+      PASSWORD_REQUIRE_LOWERCASE: true,
+    });
+
+    await expect(service.validate('ÉCOLE été 2024')).resolves.toEqual([]);
+  });
+
+  it('should refuse blocklisted passwords regardless of case', async () => {
+    const service = await createService({
+      PASSWORD_BLOCKLIST: 'password1, letmein123',
+    });
+
+    await expect(service.validate('LetMeIn123')).resolves.toEqual([
+      expect.objectContaining({ rule: 'blocklist' }),
+    ]);
+  });
+
+  it("should refuse the account's own email as a password", async () => {
+    const service = await createService();
+
+    const violations = await service.validate('jane.doe', {
+      email: 'Jane.Doe@example.com',
+    });
+
+    expect(violations).toEqual([
+      expect.objectContaining({ rule: 'blocklist' }),
+    ]);
+  });
+
+  describe('breach check', () => {
+    it('should be off without a ranges directory', async () => {
+      const service = await createService();
+
+      await expect(service.validate(BREACHED_PASSWORD)).resolves.toEqual([]);
+      expect(service.getPolicy().breachCheck).toBe(false);
+    });
+
+    it('should refuse a password found in its range file', async () => {
+      const service = await createService({
+        PASSWORD_BREACH_RANGES_DIR: rangesDir,
+      });
+
+      await expect(service.validate(BREACHED_PASSWORD)).resolves.toEqual([
+        expect.objectContaining({ rule: 'breached' }),
+      ]);
+    });
+
+    it('should only refuse passwords seen often enough', async () => {
+      const service = await createService({
+        PASSWORD_BREACH_RANGES_DIR: rangesDir,
+        PASSWORD_BREACH_MIN_COUNT: 10,
+      });
+
+      await expect(service.validate(RARELY_BREACHED_PASSWORD)).resolves.toEqual(
+        [],
+      );
+      await expect(service.validate(BREACHED_PASSWORD)).resolves.toHaveLength(
+        1,
+      );
+    });
+
+    it('should accept a password whose range file does not exist', async () => {
+      const service = await createService({
+        PASSWORD_BREACH_RANGES_DIR: rangesDir,
+      });
+
+      await expect(service.validate('never seen anywhere')).resolves.toEqual(
+        [],
+      );
+    });
+  });
+
+  describe('assertAcceptable', () => {
+    it('should throw the violations as a structured 400', async () => {
+      const service = await createService({ PASSWORD_REQUIRE_DIGIT: true });
+
+      const error = await service
+        .assertAcceptable('no digits here')
+        .catch((e: PasswordPolicyException) => e);
+
+      expect(error).toBeInstanceOf(PasswordPolicyException);
+      expect((error as PasswordPolicyException).getStatus()).toBe(400);
+      expect((error as PasswordPolicyException).getResponse()).toMatchObject({
+        message: 'Password does not meet the password policy',
+        violations: [{ rule: 'digit', message: 'Must contain a digit' }],
+      });
+    });
+  });
+});
@@ -0,0 +1,199 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {
+  PasswordPolicyException,
+  PasswordViolation,
+} from './password-policy.exception';
+
+export interface PasswordPolicy {
+  minLength: number;
+  maxLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireDigit: boolean;
+  requireSymbol: boolean;
+  breachCheck: boolean;
+}
+
+export interface PasswordContext {
+  // Passwords made from the account's own email are rejected
+  email?: string;
+}
+
+/**
+ * Checks new passwords against the configured policy: length bounds,
+ * required character classes, a blocklist and known breaches.
+ *
+ * The breach check works offline on the k-anonymity range files published by
+ * Have I Been Pwned: PASSWORD_BREACH_RANGES_DIR holds one `<PREFIX>.txt` per
+ * 5-character SHA-1 prefix, each listing `SUFFIX:COUNT` lines. Only the file
+ * for the password's prefix is read, and a missing directory or file simply
+ * skips the check.
+ */
+@Injectable()
+export class PasswordPolicyService {
+  private readonly logger = new Logger(PasswordPolicyService.name);
+  private readonly policy: PasswordPolicy;
+  private readonly blocklist: Set<string>;
+  private readonly breachRangesDir?: string;
+  private readonly breachMinCount: number;
+
+  constructor(private readonly configService: ConfigService) {
+    this.breachRangesDir = this.configService.get<string>(
+      'PASSWORD_BREACH_RANGES_DIR',
+    );
+    this.breachMinCount = this.configService.get<number>(
+      'PASSWORD_BREACH_MIN_COUNT',
+      1,
+    );
+    this.policy = {
+      minLength: this.configService.get<number>('PASSWORD_MIN_LENGTH', 8),
+      maxLength: this.configService.get<number>('PASSWORD_MAX_LENGTH', 128),
+      requireUppercase: this.configService.get<boolean>(
+        'PASSWORD_REQUIRE_UPPERCASE',
+        false,
+      ),
+      requireLowercase: this.configService.get<boolean>(
+        'PASSWORD_REQUIRE_LOWERCASE',
+        false,
+      ),
+      requireDigit: this.configService.get<boolean>(
+        'PASSWORD_REQUIRE_DIGIT',
+        false,
+      ),
+      requireSymbol: this.configService.get<boolean>(
+        'PASSWORD_REQUIRE_SYMBOL',
+        false,
+      ),
+      breachCheck: !!this.breachRangesDir,
+    };
+    this.blocklist = new Set(
+      this.configService
+        .get<string>('PASSWORD_BLOCKLIST', '')
+        .split(',')
+        .map((entry) => entry.trim().toLowerCase())
+        .filter(Boolean),
+    );
+  }
+
+  getPolicy(): PasswordPolicy {
+    return { ...this.policy };
+  }
+
+  /**
+   * Every rule the password breaks, empty when it is acceptable
+   */
+  async validate(
+    password: string,
+    context: PasswordContext = {},
+  ): Promise<PasswordViolation[]> {
+    const violations: PasswordViolation[] = [];
+    const { minLength, maxLength } = this.policy;
+
+    if (password.length < minLength) {
+      violations.push({
+        rule: 'min_length',
+        message: `Must be at least ${minLength} characters long`,
+      });
+    }
+    if (password.length > maxLength) {
+      violations.push({
+        rule: 'max_length',
+        message: `Must be at most ${maxLength} characters long`,
+      });
+    }
+    if (this.policy.requireUppercase && !/\p{Lu}/u.test(password)) {
+      violations.push({
+        rule: 'uppercase',
+        message: 'Must contain an uppercase letter',
+      });
+    }
+    if (this.policy.requireLowercase && !/\p{Ll}/u.test(password)) {
+      violations.push({
+        rule: 'lowercase',
+        message: 'Must contain a lowercase letter',
+      });
+    }
+    if (this.policy.requireDigit && !/\p{Nd}/u.test(password)) {
+      violations.push({ rule: 'digit', message: 'Must contain a digit' });
+    }
+    if (this.policy.requireSymbol && !/[^\p{L}\p{Nd}]/u.test(password)) {
+      violations.push({
+        rule: 'symbol',
+        message: 'Must contain a symbol or punctuation character',
+      });
+    }
+    if (this.isBlocked(password, context)) {
+      violations.push({
+        rule: 'blocklist',
+        message: 'Is too common or too easy to guess',
+      });
+    }
+    // Skip the file lookup when the password is rejected anyway
+    if (violations.length === 0 && (await this.isBreached(password))) {
+      violations.push({
+        rule: 'breached',
+        message: 'Has appeared in a data breach, choose another one',
+      });
+    }
+
+    return violations;
+  }
+
+  async assertAcceptable(
+    password: string,
+    context: PasswordContext = {},
+  ): Promise<void> {
+    const violations = await this.validate(password, context);
+    if (violations.length > 0) {
+      throw new PasswordPolicyException(violations);
+    }
+  }
+
+  private isBlocked(password: string, context: PasswordContext): boolean {
+    const candidate = password.toLowerCase();
+    if (this.blocklist.has(candidate)) {
+      return true;
+    }
+
+    if (context.email) {
+      const email = context.email.toLowerCase();
+      return candidate === email || candidate === email.split('@')[0];
+    }
+    return false;
+  }
+
+  private async isBreached(password: string): Promise<boolean> {
+    if (!this.breachRangesDir) return false;
+
+    const hash = createHash('sha1').update(password).digest('hex');
+    const prefix = hash.slice(0, 5).toUpperCase();
+    const suffix = hash.slice(5).toUpperCase();
+
+    let range: string;
+    try {
+      range = await fs.readFile(
+        path.join(this.breachRangesDir, `${prefix}.txt`),
+        'utf8',
+      );
+    } catch (error) {
+      if (error.code !== 'ENOENT') {
+        this.logger.warn(
+          `Failed to read breach range ${prefix}: ${error.message}`,
+        );
+      }
+      return false;
+    }
+
+    for (const line of range.split('\n')) {
+      const [entry, count] = line.trim().split(':');
+      if (entry?.toUpperCase() === suffix) {
+        return Number(count ?? 1) >= this.breachMinCount;
+      }
+    }
+    return false;
+  }
+}
@@ -0,0 +1,139 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { AccountErasureService } from './account-erasure.service';
+import { UsersService } from '../users/users.service';
+import { AuditService } from '../../audit/audit.service';
+import { CLOCK } from '../../common/clock/clock';
+import { PrivacyEvents } from '../events/privacy.events';
+
+const DAY_MS = 86_400_000;
+
+describe('AccountErasureService', () => {
+  let service: AccountErasureService;
+  let usersService: jest.Mocked<UsersService>;
+  let auditService: jest.Mocked<AuditService>;
+  let eventEmitter: jest.Mocked<EventEmitter2>;
+  const now = Date.parse('2026-01-01T00:00:00Z');
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AccountErasureService,
+        {
+          provide: UsersService,
+          useValue: {
+            markDeleted: jest.fn(),
+            restore: jest.fn(),
+            delete: jest.fn().mockResolvedValue(true),
+            findDeletedBefore: jest.fn().mockResolvedValue([]),
+          },
+        },
+        {
+          provide: AuditService,
+          useValue: {
+            pseudonymizeUser: jest.fn().mockResolvedValue('erased-abc'),
+          },
+        },
+        {
+          provide: EventEmitter2,
+          useValue: { emit: jest.fn() },
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: any) =>
+              key === 'ACCOUNT_ERASURE_GRACE_PERIOD' ? '14d' : defaultValue,
+            ),
+          },
+        },
+        { provide: CLOCK, useValue: { now: () => now } },
+      ],
+    }).compile();
+
+    service = module.get<AccountErasureService>(AccountErasureService);
+    usersService = module.get(UsersService);
+    auditService = module.get(AuditService);
+    eventEmitter = module.get(EventEmitter2);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('scheduleErasure', () => {
+    it('should soft-delete the user and return the end of the grace period', async () => {
+      const eraseAfter = await service.scheduleErasure('user-1');
+
+      expect(usersService.markDeleted).toHaveBeenCalledWith(
+        'user-1',
+        new Date(now),
+      );
+      expect(eraseAfter).toEqual(new Date(now + 14 * DAY_MS));
+      expect(eventEmitter.emit).toHaveBeenCalledWith(
+        PrivacyEvents.ACCOUNT_DELETION_SCHEDULED,
+        expect.objectContaining({ userId: 'user-1', eraseAfter }),
+      );
+    });
+  });
+
+  describe('erase', () => {
+    it('should pseudonymize the audit trail before deleting the user', async () => {
+      const order: string[] = [];
+      auditService.pseudonymizeUser.mockImplementationOnce(() => {
+        order.push('pseudonymize');
+        return Promise.resolve('erased-abc');
+      });
+      usersService.delete.mockImplementationOnce(() => {
+        order.push('delete');
+        return Promise.resolve(true);
+      });
+
+      await service.erase('user-1', 'admin-1');
+
+      expect(order).toEqual(['pseudonymize', 'delete']);
+      expect(eventEmitter.emit).toHaveBeenCalledWith(
+        PrivacyEvents.ACCOUNT_ERASED,
+        expect.objectContaining({
+          pseudonym: 'erased-abc',
+          erasedBy: 'admin-1',
+        }),
+      );
+    });
+
+    it('should not report an account that was already gone', async () => {
+      usersService.delete.mockResolvedValueOnce(false);
+
+      await service.erase('user-1');
+
+      expect(eventEmitter.emit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('eraseDueAccounts', () => {
+    it('should erase accounts deleted before the grace period', async () => {
+      usersService.findDeletedBefore.mockResolvedValueOnce(['a', 'b']);
+
+      await expect(service.eraseDueAccounts()).resolves.toBe(2);
+
+      expect(usersService.findDeletedBefore).toHaveBeenCalledWith(
+        new Date(now - 14 * DAY_MS),
+        100,
+      );
+      expect(usersService.delete).toHaveBeenCalledWith('a');
+      expect(usersService.delete).toHaveBeenCalledWith('b');
+    });
+
+    it('should carry on past an account that fails', async () => {
+      usersService.findDeletedBefore.mockResolvedValueOnce(['a', 'b']);
+      auditService.pseudonymizeUser.mockRejectedValueOnce(
+        new Error('connection lost'),
+      );
+
+      await expect(service.eraseDueAccounts()).resolves.toBe(1);
+
+      expect(usersService.delete).not.toHaveBeenCalledWith('a');
+      expect(usersService.delete).toHaveBeenCalledWith('b');
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { UsersService } from '../users/users.service';
+import { AuditService } from '../../audit/audit.service';
+import { CLOCK } from '../../common/clock/clock';
+import type { Clock } from '../../common/clock/clock';
+import { parseExpiryToSeconds } from '../../common/utils/expiry.util';
+import {
+  AccountDeletionScheduledEvent,
+  AccountErasedEvent,
+  AccountRestoredEvent,
+  PrivacyEvents,
+} from '../events/privacy.events';
+
+// Accounts erased per scheduled run; the rest wait for the next one
+const ERASURE_BATCH_SIZE = 100;
+
+/**
+ * Two-step account deletion. Deleting an account only marks it (soft delete),
+ * which locks it out everywhere but can still be undone by an admin. Once the
+ * grace period has passed, a scheduled job erases it: audit entries are
+ * pseudonymized, then the user row is removed together with everything that
+ * cascades from it.
+ */
+@Injectable()
+export class AccountErasureService {
+  private readonly logger = new Logger(AccountErasureService.name);
+  private readonly gracePeriodMs: number;
+
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly auditService: AuditService,
+    private readonly eventEmitter: EventEmitter2,
+    private readonly configService: ConfigService,
+    @Inject(CLOCK) private readonly clock: Clock,
+  ) {
+    this.gracePeriodMs =
+      parseExpiryToSeconds(
+        this.configService.get<string>('ACCOUNT_ERASURE_GRACE_PERIOD', '30d'),
+      ) * 1000;
+  }
+
+  /**
+   * Soft-delete the account. Returns when it will be erased for good.
+   */
+  async scheduleErasure(userId: string): Promise<Date> {
+    const deletedAt = new Date(this.clock.now());
+    const eraseAfter = new Date(deletedAt.getTime() + this.gracePeriodMs);
+
+    await this.usersService.markDeleted(userId, deletedAt);
+    this.eventEmitter.emit(
+      PrivacyEvents.ACCOUNT_DELETION_SCHEDULED,
+      new AccountDeletionScheduledEvent(userId, eraseAfter),
+    );
+    this.logger.log(
+      `Account ${userId} deleted, erasure after ${eraseAfter.toISOString()}`,
+    );
+    return eraseAfter;
+  }
+
+  async cancelErasure(userId: string, restoredBy: string): Promise<void> {
+    await this.usersService.restore(userId);
+    this.eventEmitter.emit(
+      PrivacyEvents.ACCOUNT_RESTORED,
+      new AccountRestoredEvent(userId, restoredBy),
+    );
+  }
+
+  /**
+   * Remove the account now. Audit entries are detached first so they survive
+   * the delete under a pseudonym instead of losing their subject.
+   */
+  async erase(userId: string, erasedBy: string | null = null): Promise<void> {
+    const pseudonym = await this.auditService.pseudonymizeUser(userId);
+    if (!(await this.usersService.delete(userId))) {
+      return; // Erased meanwhile by another instance
+    }
+
+    this.eventEmitter.emit(
+      PrivacyEvents.ACCOUNT_ERASED,
+      new AccountErasedEvent(pseudonym, erasedBy),
+    );
+    this.logger.log(`Account ${userId} erased as ${pseudonym}`);
+  }
+
+  /**
+   * Erase accounts whose grace period is over. Safe to run on several
+   * instances at once: an account erased twice is only erased (and audited)
+   * once.
+   */
+  @Cron(CronExpression.EVERY_HOUR, { name: 'account-erasure' })
+  async eraseDueAccounts(): Promise<number> {
+    const cutoff = new Date(this.clock.now() - this.gracePeriodMs);
+    const userIds = await this.usersService.findDeletedBefore(
+      cutoff,
+      ERASURE_BATCH_SIZE,
+    );
+
+    let erased = 0;
+    for (const userId of userIds) {
+      try {
+        await this.erase(userId);
+        erased++;
+      } catch (error) {
+        this.logger.error(
+          `Failed to erase account ${userId}: ${error.message}`,
+        );
+      }
+    }
+
+    if (userIds.length > 0) {
+      this.logger.log(`Erased ${erased} of ${userIds.length} due account(s)`);
+    }
+    return erased;
+  }
+}
@@ -0,0 +1,202 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { DataExportService } from './data-export.service';
+import { RedisService } from '../../redis/redis.service';
+import { UsersService } from '../users/users.service';
+import { SessionService } from '../sessions/session.service';
+import { ApiKeysService } from '../api-keys/api-keys.service';
+import { WebAuthnService } from '../webauthn/webauthn.service';
+import { OAuthService } from '../oauth/oauth.service';
+import { AuditService } from '../../audit/audit.service';
+import { PrivacyEvents } from '../events/privacy.events';
+
+describe('DataExportService', () => {
+  let service: DataExportService;
+  let store: Map<string, string>;
+  let usersService: jest.Mocked<UsersService>;
+  let eventEmitter: jest.Mocked<EventEmitter2>;
+
+  const user = {
+    id: 'user-1',
+    email: 'test@example.com',
+    password: 'hashedPassword',
+    twoFactorSecret: 'SECRET',
+    displayName: 'Jane Doe',
+    roles: [],
+  };
+
+  // Lets the background build started by requestExport() finish
+  const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+  beforeEach(async () => {
+    store = new Map();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DataExportService,
+        {
+          provide: RedisService,
+          useValue: {
+            get: jest.fn((key: string) =>
+              Promise.resolve(store.get(key) ?? null),
+            ),
+            set: jest.fn((key: string, value: string) => {
+              store.set(key, value);
+              return Promise.resolve(true);
+            }),
+          },
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: any) => defaultValue),
+          },
+        },
+        {
+          provide: EventEmitter2,
+          useValue: { emit: jest.fn() },
+        },
+        {
+          provide: UsersService,
+          useValue: {
+            findById: jest.fn().mockResolvedValue(user),
+            getAccess: jest
+              .fn()
+              .mockResolvedValue({ roles: ['user'], permissions: [] }),
+          },
+        },
+        {
+          provide: SessionService,
+          useValue: {
+            listForUser: jest
+              .fn()
+              .mockResolvedValue([
+                { id: 'session-1', userId: 'user-1', refreshTokenHash: 'h' },
+              ]),
+            toView: jest.fn(({ id }) => ({ id })),
+          },
+        },
+        {
+          provide: ApiKeysService,
+          useValue: {
+            listForUser: jest.fn().mockResolvedValue([{ id: 'key-1' }]),
+          },
+        },
+        {
+          provide: WebAuthnService,
+          useValue: { list: jest.fn().mockResolvedValue([]) },
+        },
+        {
+          provide: OAuthService,
+          useValue: { listIdentities: jest.fn().mockResolvedValue([]) },
+        },
+        {
+          provide: AuditService,
+          useValue: {
+            listForUser: jest.fn().mockResolvedValue([
+              {
+                action: 'security.user_suspended',
+                userId: 'user-1',
+                actorId: 'admin-1',
+                details: { reason: 'Chargeback' },
+                createdAt: new Date('2026-01-01T00:00:00Z'),
+              },
+              {
+                action: 'security.user_suspended',
+                userId: 'other-user',
+                actorId: 'user-1',
+                details: { reason: 'Spam' },
+                createdAt: new Date('2026-01-02T00:00:00Z'),
+              },
+            ]),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<DataExportService>(DataExportService);
+    usersService = module.get(UsersService);
+    eventEmitter = module.get(EventEmitter2);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should build the archive in the background', async () => {
+    const job = await service.requestExport('user-1');
+
+    expect(job.status).toBe('pending');
+    expect(service.toView(job).downloadUrl).toBeNull();
+    expect(eventEmitter.emit).toHaveBeenCalledWith(
+      PrivacyEvents.DATA_EXPORT_REQUESTED,
+      expect.objectContaining({ userId: 'user-1', jobId: job.id }),
+    );
+
+    await flush();
+
+    const done = await service.getJob('user-1', job.id);
+    expect(done.status).toBe('ready');
+    expect(service.toView(done).downloadUrl).toBe(
+      `/v1/users/me/export/${job.id}/download`,
+    );
+
+    const archive = JSON.parse(await service.getArchive('user-1', job.id));
+    expect(archive).toMatchObject({
+      account: { id: 'user-1', email: 'test@example.com' },
+      roles: ['user'],
+      sessions: [{ id: 'session-1' }],
+      apiKeys: [{ id: 'key-1' }],
+    });
+    expect(archive.account).not.toHaveProperty('password');
+    expect(archive.account).not.toHaveProperty('twoFactorSecret');
+  });
+
+  it('should leave other accounts out of audit entries the user made', async () => {
+    const archive = await service.collect('user-1');
+
+    expect(archive.auditLog).toEqual([
+      expect.objectContaining({
+        role: 'subject',
+        details: { reason: 'Chargeback' },
+      }),
+      {
+        action: 'security.user_suspended',
+        role: 'actor',
+        createdAt: new Date('2026-01-02T00:00:00Z'),
+      },
+    ]);
+  });
+
+  it('should return the export in progress instead of starting another', async () => {
+    usersService.findById.mockReturnValueOnce(new Promise(() => {}));
+
+    const first = await service.requestExport('user-1');
+    const second = await service.requestExport('user-1');
+
+    expect(second.id).toBe(first.id);
+    expect(eventEmitter.emit).toHaveBeenCalledTimes(1);
+  });
+
+  it('should mark the job failed when the archive cannot be built', async () => {
+    usersService.findById.mockRejectedValueOnce(new Error('connection lost'));
+
+    const job = await service.requestExport('user-1');
+    await flush();
+
+    expect((await service.getJob('user-1', job.id)).status).toBe('failed');
+    await expect(service.getArchive('user-1', job.id)).rejects.toThrow(
+      ConflictException,
+    );
+  });
+
+  it("should hide other users' exports", async () => {
+    const job = await service.requestExport('user-1');
+
+    await expect(service.getJob('user-2', job.id)).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+});
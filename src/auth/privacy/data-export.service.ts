@@ -0,0 +1,260 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { randomUUID } from 'crypto';
+import { RedisService } from '../../redis/redis.service';
+import { UsersService } from '../users/users.service';
+import { SessionService } from '../sessions/session.service';
+import { ApiKeysService } from '../api-keys/api-keys.service';
+import { WebAuthnService } from '../webauthn/webauthn.service';
+import { OAuthService } from '../oauth/oauth.service';
+import { AuditService } from '../../audit/audit.service';
+import { parseExpiryToSeconds } from '../../common/utils/expiry.util';
+import {
+  DataExportRequestedEvent,
+  PrivacyEvents,
+} from '../events/privacy.events';
+
+export type DataExportStatus = 'pending' | 'ready' | 'failed';
+
+export interface DataExportJob {
+  id: string;
+  userId: string;
+  status: DataExportStatus;
+  createdAt: string;
+  completedAt: string | null;
+  expiresAt: string;
+}
+
+export type DataExportJobView = Omit<DataExportJob, 'userId'> & {
+  downloadUrl: string | null;
+};
+
+// A job still pending after this long died with its instance; start over
+const STALE_PENDING_JOB_MS = 10 * 60 * 1000;
+
+/**
+ * Builds a JSON archive of everything stored about a user, for data subject
+ * access requests. Archives are built in the background and kept for
+ * DATA_EXPORT_EXPIRES_IN, after which a new export has to be requested.
+ *
+ * Layout:
+ *  - data_export:<jobId>          JSON job record (TTL = archive TTL)
+ *  - data_export_archive:<jobId>  the archive once built (same TTL)
+ *  - data_export_user:<userId>    id of the user's latest job (same TTL)
+ */
+@Injectable()
+export class DataExportService {
+  private readonly logger = new Logger(DataExportService.name);
+  private readonly exportTtl: number;
+
+  constructor(
+    private readonly redisService: RedisService,
+    private readonly configService: ConfigService,
+    private readonly eventEmitter: EventEmitter2,
+    private readonly usersService: UsersService,
+    private readonly sessionService: SessionService,
+    private readonly apiKeysService: ApiKeysService,
+    private readonly webAuthnService: WebAuthnService,
+    private readonly oauthService: OAuthService,
+    private readonly auditService: AuditService,
+  ) {
+    this.exportTtl = parseExpiryToSeconds(
+      this.configService.get<string>('DATA_EXPORT_EXPIRES_IN', '7d'),
+    );
+  }
+
+  /**
+   * Start building an archive. A request while one is still being built
+   * returns that job instead of starting another.
+   */
+  async requestExport(userId: string): Promise<DataExportJob> {
+    const latestId = await this.redisService.get(this.userKey(userId));
+    const latest = latestId ? await this.findJob(latestId) : null;
+    if (
+      latest?.status === 'pending' &&
+      Date.now() - Date.parse(latest.createdAt) < STALE_PENDING_JOB_MS
+    ) {
+      return latest;
+    }
+
+    const now = new Date();
+    const job: DataExportJob = {
+      id: randomUUID(),
+      userId,
+      status: 'pending',
+      createdAt: now.toISOString(),
+      completedAt: null,
+      expiresAt: new Date(now.getTime() + this.exportTtl * 1000).toISOString(),
+    };
+
+    if (
+      !(await this.saveJob(job)) ||
+      !(await this.redisService.set(
+        this.userKey(userId),
+        job.id,
+        this.exportTtl,
+      ))
+    ) {
+      throw new ServiceUnavailableException('Unable to start data export');
+    }
+
+    this.eventEmitter.emit(
+      PrivacyEvents.DATA_EXPORT_REQUESTED,
+      new DataExportRequestedEvent(userId, job.id),
+    );
+
+    // Not awaited; the caller polls getJob() until it is ready
+    this.build(job).catch((error) =>
+      this.logger.error(`Data export ${job.id} crashed: ${error.message}`),
+    );
+
+    return job;
+  }
+
+  /**
+   * A job of the user; other users' jobs are reported as missing
+   */
+  async getJob(userId: string, jobId: string): Promise<DataExportJob> {
+    const job = await this.findJob(jobId);
+    if (!job || job.userId !== userId) {
+      throw new NotFoundException('Export not found');
+    }
+    return job;
+  }
+
+  async getArchive(userId: string, jobId: string): Promise<string> {
+    const job = await this.getJob(userId, jobId);
+    if (job.status !== 'ready') {
+      throw new ConflictException(`Export is ${job.status}`);
+    }
+
+    const archive = await this.redisService.get(this.archiveKey(job.id));
+    if (!archive) {
+      throw new NotFoundException('Export not found');
+    }
+    return archive;
+  }
+
+  toView(job: DataExportJob): DataExportJobView {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { userId, ...view } = job;
+    return {
+      ...view,
+      downloadUrl:
+        job.status === 'ready'
+          ? `/v1/users/me/export/${job.id}/download`
+          : null,
+    };
+  }
+
+  /**
+   * Everything stored about the user, minus credentials (password hash, TOTP
+   * secret, key hashes) that are only useful to an attacker
+   */
+  async collect(userId: string): Promise<Record<string, unknown>> {
+    const user = await this.usersService.findById(userId);
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { password, twoFactorSecret, roles, ...account } = user;
+    const [access, sessions, apiKeys, passkeys, linkedAccounts, auditEntries] =
+      await Promise.all([
+        this.usersService.getAccess(userId),
+        this.sessionService.listForUser(userId),
+        this.apiKeysService.listForUser(userId),
+        this.webAuthnService.list(userId),
+        this.oauthService.listIdentities(userId),
+        this.auditService.listForUser(userId),
+      ]);
+
+    return {
+      exportedAt: new Date().toISOString(),
+      account,
+      roles: access.roles,
+      permissions: access.permissions,
+      sessions: sessions.map((session) => this.sessionService.toView(session)),
+      apiKeys,
+      passkeys,
+      linkedAccounts,
+      // Entries where the user acted on someone else keep that account out
+      auditLog: auditEntries.map((entry) =>
+        entry.userId === userId
+          ? {
+              action: entry.action,
+              role: 'subject',
+              details: entry.details,
+              createdAt: entry.createdAt,
+            }
+          : { action: entry.action, role: 'actor', createdAt: entry.createdAt },
+      ),
+    };
+  }
+
+  private async build(job: DataExportJob): Promise<void> {
+    let status: DataExportStatus = 'failed';
+    try {
+      const archive = JSON.stringify(await this.collect(job.userId), null, 2);
+      if (
+        await this.redisService.set(
+          this.archiveKey(job.id),
+          archive,
+          this.exportTtl,
+        )
+      ) {
+        status = 'ready';
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to build data export ${job.id} for user ${job.userId}: ${error.message}`,
+      );
+    }
+
+    await this.saveJob({
+      ...job,
+      status,
+      completedAt: new Date().toISOString(),
+    });
+    this.logger.log(`Data export ${job.id} for user ${job.userId}: ${status}`);
+  }
+
+  private async findJob(jobId: string): Promise<DataExportJob | null> {
+    const value = await this.redisService.get(this.jobKey(jobId));
+    if (!value) return null;
+
+    try {
+      return JSON.parse(value) as DataExportJob;
+    } catch {
+      this.logger.warn(`Discarding malformed data export record ${jobId}`);
+      return null;
+    }
+  }
+
+  private async saveJob(job: DataExportJob): Promise<boolean> {
+    const ttl = Math.max(
+      1,
+      Math.ceil((Date.parse(job.expiresAt) - Date.now()) / 1000),
+    );
+    return this.redisService.set(this.jobKey(job.id), JSON.stringify(job), ttl);
+  }
+
+  private jobKey(jobId: string): string {
+    return `data_export:${jobId}`;
+  }
+
+  private archiveKey(jobId: string): string {
+    return `data_export_archive:${jobId}`;
+  }
+
+  private userKey(userId: string): string {
+    return `data_export_user:${userId}`;
+  }
+}
@@ -0,0 +1,12 @@
+export const ROLES = {
+  ADMIN: 'admin',
+  USER: 'user',
+} as const;
+
+export const PERMISSIONS = {
+  USERS_READ: 'users:read',
+  USERS_WRITE: 'users:write',
+  TOKENS_REVOKE: 'tokens:revoke',
+  OAUTH_CLIENTS_MANAGE: 'oauth_clients:manage',
+  PLANS_MANAGE: 'plans:manage',
+} as const;
@@ -0,0 +1,281 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash, randomUUID } from 'crypto';
+import { RedisService } from '../../redis/redis.service';
+import { parseExpiryToSeconds } from '../../common/utils/expiry.util';
+
+export interface SessionContext {
+  ip?: string;
+  userAgent?: string;
+  deviceLabel?: string;
+}
+
+export interface Session {
+  id: string;
+  userId: string;
+  deviceLabel: string;
+  ip: string | null;
+  userAgent: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  refreshTokenHash: string | null;
+  orgId?: string | null; // organization its tokens act for, see org_id
+}
+
+export type SessionView = Omit<Session, 'refreshTokenHash' | 'userId'>;
+
+export type RefreshTokenRotation = 'rotated' | 'reused' | 'missing';
+
+/**
+ * Stores one record per login (device) so that sessions on different
+ * devices can coexist and be revoked independently. Each session is also
+ * the family of every refresh token rotated from its initial login.
+ *
+ * Layout:
+ *  - session:<sessionId>       JSON session record (TTL = refresh token TTL)
+ *  - user_sessions:<userId>    set of session ids belonging to the user
+ */
+@Injectable()
+export class SessionService {
+  private readonly logger = new Logger(SessionService.name);
+  private readonly sessionTtl: number;
+
+  constructor(
+    private readonly redisService: RedisService,
+    private readonly configService: ConfigService,
+  ) {
+    this.sessionTtl = parseExpiryToSeconds(
+      this.configService.get<string>('JWT_REFRESH_EXPIRES_IN', '7d'),
+    );
+  }
+
+  async create(userId: string, context: SessionContext = {}): Promise<Session> {
+    const now = new Date().toISOString();
+    const session: Session = {
+      id: randomUUID(),
+      userId,
+      deviceLabel: this.resolveDeviceLabel(context),
+      ip: context.ip ?? null,
+      userAgent: context.userAgent ?? null,
+      createdAt: now,
+      lastUsedAt: now,
+      refreshTokenHash: null,
+    };
+
+    await this.save(session);
+
+    if (this.redisService.isHealthy()) {
+      try {
+        const userKey = this.userSessionsKey(userId);
+        await this.redisService.getClient().sadd(userKey, session.id);
+        await this.redisService.expire(userKey, this.sessionTtl);
+      } catch (error) {
+        this.logger.warn(
+          `Failed to index session ${session.id} for user ${userId}: ${error.message}`,
+        );
+      }
+    }
+
+    return session;
+  }
+
+  async findById(sessionId: string): Promise<Session | null> {
+    const value = await this.redisService.get(this.sessionKey(sessionId));
+    if (!value) return null;
+
+    try {
+      return JSON.parse(value) as Session;
+    } catch {
+      this.logger.warn(`Discarding malformed session record ${sessionId}`);
+      return null;
+    }
+  }
+
+  /**
+   * Whether the session has not been revoked or expired. Like the access
+   * token denylist, this answers true when Redis cannot be asked.
+   */
+  async isActive(sessionId: string): Promise<boolean> {
+    if (!this.redisService.isHealthy()) return true;
+    try {
+      const exists = await this.redisService
+        .getClient()
+        .exists(this.sessionKey(sessionId));
+      return exists === 1;
+    } catch (error) {
+      this.logger.warn(
+        `Failed to look up session ${sessionId}: ${error.message}`,
+      );
+      return true;
+    }
+  }
+
+  /**
+   * Bind a newly issued refresh token to the session and mark it as used.
+   */
+  async attachRefreshToken(
+    session: Session,
+    refreshToken: string,
+  ): Promise<Session> {
+    const updated: Session = {
+      ...session,
+      refreshTokenHash: this.hashToken(refreshToken),
+      lastUsedAt: new Date().toISOString(),
+    };
+    await this.save(updated);
+    return updated;
+  }
+
+  /**
+   * Atomically swap the session's refresh token for a new one.
+   * Returns 'reused' when the presented token is a valid member of the
+   * family that has already been rotated away, which signals replay.
+   */
+  async rotateRefreshToken(
+    sessionId: string,
+    presentedToken: string,
+    nextToken: string,
+  ): Promise<RefreshTokenRotation> {
+    if (!this.redisService.isHealthy()) {
+      return 'missing';
+    }
+
+    try {
+      const redis = this.redisService.getClient();
+      const luaScript = `
+        local raw = redis.call('GET', KEYS[1])
+        if not raw then
+          return 'missing'
+        end
+
+        local session = cjson.decode(raw)
+        if session.refreshTokenHash ~= ARGV[1] then
+          return 'reused'
+        end
+
+        session.refreshTokenHash = ARGV[2]
+        session.lastUsedAt = ARGV[3]
+        redis.call('SET', KEYS[1], cjson.encode(session), 'EX', tonumber(ARGV[4]))
+        return 'rotated'
+      `;
+
+      return (await redis.eval(
+        luaScript,
+        1,
+        this.sessionKey(sessionId),
+        this.hashToken(presentedToken),
+        this.hashToken(nextToken),
+        new Date().toISOString(),
+        this.sessionTtl.toString(),
+      )) as RefreshTokenRotation;
+    } catch (error) {
+      this.logger.error(
+        `Refresh token rotation failed for session ${sessionId}: ${error.message}`,
+      );
+      return 'missing';
+    }
+  }
+
+  async listForUser(userId: string): Promise<Session[]> {
+    if (!this.redisService.isHealthy()) return [];
+
+    const userKey = this.userSessionsKey(userId);
+    let sessionIds: string[];
+    try {
+      sessionIds = await this.redisService.getClient().smembers(userKey);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to list sessions for user ${userId}: ${error.message}`,
+      );
+      return [];
+    }
+
+    const sessions: Session[] = [];
+    for (const sessionId of sessionIds) {
+      const session = await this.findById(sessionId);
+      if (session && session.userId === userId) {
+        sessions.push(session);
+      } else {
+        // Session expired on its own, drop the dangling index entry
+        await this.redisService.getClient().srem(userKey, sessionId);
+      }
+    }
+
+    return sessions.sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt));
+  }
+
+  /**
+   * Revoke a single session. Returns false if it does not belong to the user.
+   */
+  async revoke(userId: string, sessionId: string): Promise<boolean> {
+    const session = await this.findById(sessionId);
+    if (!session || session.userId !== userId) {
+      return false;
+    }
+
+    await this.redisService.del(this.sessionKey(sessionId));
+    if (this.redisService.isHealthy()) {
+      try {
+        await this.redisService
+          .getClient()
+          .srem(this.userSessionsKey(userId), sessionId);
+      } catch (error) {
+        this.logger.warn(
+          `Failed to unindex session ${sessionId}: ${error.message}`,
+        );
+      }
+    }
+
+    this.logger.debug(`Session ${sessionId} revoked for user ${userId}`);
+    return true;
+  }
+
+  async revokeAll(userId: string): Promise<number> {
+    const sessions = await this.listForUser(userId);
+    for (const session of sessions) {
+      await this.redisService.del(this.sessionKey(session.id));
+    }
+    await this.redisService.del(this.userSessionsKey(userId));
+
+    this.logger.debug(
+      `Revoked ${sessions.length} session(s) for user ${userId}`,
+    );
+    return sessions.length;
+  }
+
+  toView(session: Session): SessionView {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { refreshTokenHash, userId, ...view } = session;
+    return view;
+  }
+
+  private async save(session: Session): Promise<void> {
+    await this.redisService.set(
+      this.sessionKey(session.id),
+      JSON.stringify(session),
+      this.sessionTtl,
+    );
+  }
+
+  private resolveDeviceLabel(context: SessionContext): string {
+    if (context.deviceLabel && context.deviceLabel.trim() !== '') {
+      return context.deviceLabel.trim();
+    }
+    if (context.userAgent) {
+      return context.userAgent.slice(0, 100);
+    }
+    return 'Unknown device';
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  private sessionKey(sessionId: string): string {
+    return `session:${sessionId}`;
+  }
+
+  private userSessionsKey(userId: string): string {
+    return `user_sessions:${userId}`;
+  }
+}
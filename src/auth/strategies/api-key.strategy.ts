@@ -0,0 +1,50 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { PassportStrategy } from '@nestjs/passport';
+import { HeaderAPIKeyStrategy } from 'passport-headerapikey';
+import { ApiKeysService } from '../api-keys/api-keys.service';
+import { UsersService } from '../users/users.service';
+
+export const API_KEY_HEADER = 'X-API-Key';
+
+@Injectable()
+export class ApiKeyStrategy extends PassportStrategy(
+  HeaderAPIKeyStrategy,
+  'api-key',
+) {
+  constructor(
+    private readonly apiKeysService: ApiKeysService,
+    private readonly usersService: UsersService,
+  ) {
+    super({ header: API_KEY_HEADER, prefix: '' }, false);
+  }
+
+  async validate(key: string) {
+    const apiKey = await this.apiKeysService.validateKey(key);
+
+    if (!apiKey) {
+      throw new UnauthorizedException('Invalid API key');
+    }
+
+    if (apiKey.user.deletedAt) {
+      throw new UnauthorizedException('Account deleted');
+    }
+    if (apiKey.user.suspendedAt) {
+      throw new UnauthorizedException('Account suspended');
+    }
+
+    // A key never carries more than its owner currently holds
+    const access = await this.usersService.getAccess(apiKey.userId);
+
+    return {
+      id: apiKey.user.id,
+      email: apiKey.user.email,
+      emailVerified: apiKey.user.emailVerifiedAt !== null,
+      sub: apiKey.user.id,
+      apiKeyId: apiKey.id,
+      roles: access.roles,
+      permissions: apiKey.scopes.filter((scope) =>
+        access.permissions.includes(scope),
+      ),
+    };
+  }
+}
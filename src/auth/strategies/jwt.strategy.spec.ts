@@ -0,0 +1,74 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { UnauthorizedException } from '@nestjs/common';
+import { JwtStrategy } from './jwt.strategy';
+import { AuthService } from '../auth.service';
+import { UsersService } from '../users/users.service';
+import { TokenRevocationService } from '../tokens/token-revocation.service';
+import { SessionService } from '../sessions/session.service';
+import { JwtKeyService } from '../keys/jwt-key.service';
+import { OAuthClientsService } from '../authorization-server/oauth-clients.service';
+
+describe('JwtStrategy', () => {
+  let strategy: JwtStrategy;
+  let sessionService: { isActive: jest.Mock };
+
+  const user = {
+    id: 'user-1',
+    email: 'test@example.com',
+    emailVerifiedAt: new Date(),
+    tokensValidAfter: null,
+    deletedAt: null,
+    suspendedAt: null,
+  };
+  const payload = {
+    sub: 'user-1',
+    email: 'test@example.com',
+    sid: 'session-1',
+    jti: 'token-1',
+  };
+
+  beforeEach(async () => {
+    sessionService = { isActive: jest.fn().mockResolvedValue(true) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        JwtStrategy,
+        {
+          provide: JwtKeyService,
+          useValue: { getAlgorithm: () => 'HS256' },
+        },
+        { provide: AuthService, useValue: {} },
+        {
+          provide: UsersService,
+          useValue: { findById: jest.fn().mockResolvedValue(user) },
+        },
+        {
+          provide: TokenRevocationService,
+          useValue: {
+            isAccessTokenRevoked: jest.fn().mockResolvedValue(false),
+          },
+        },
+        { provide: SessionService, useValue: sessionService },
+        { provide: OAuthClientsService, useValue: {} },
+      ],
+    }).compile();
+
+    strategy = module.get<JwtStrategy>(JwtStrategy);
+  });
+
+  it('should accept a token of an active session', async () => {
+    await expect(strategy.validate(payload)).resolves.toMatchObject({
+      id: 'user-1',
+      sessionId: 'session-1',
+    });
+    expect(sessionService.isActive).toHaveBeenCalledWith('session-1');
+  });
+
+  it('should reject a token of a revoked session', async () => {
+    sessionService.isActive.mockResolvedValueOnce(false);
+
+    await expect(strategy.validate(payload)).rejects.toThrow(
+      new UnauthorizedException('Session has been revoked'),
+    );
+  });
+});
@@ -1,35 +1,123 @@
 import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
-import { ConfigService } from '@nestjs/config';
 import { AuthService, JwtPayload } from '../auth.service';
 import { UsersService } from '../users/users.service';
+import { TokenRevocationService } from '../tokens/token-revocation.service';
+import { SessionService } from '../sessions/session.service';
+import { JwtKeyService } from '../keys/jwt-key.service';
+import { OAuthClientsService } from '../authorization-server/oauth-clients.service';
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
   constructor(
-    private readonly configService: ConfigService,
+    private readonly jwtKeyService: JwtKeyService,
     private readonly authService: AuthService,
     private readonly usersService: UsersService,
+    private readonly tokenRevocationService: TokenRevocationService,
+    private readonly sessionService: SessionService,
+    private readonly oauthClientsService: OAuthClientsService,
   ) {
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
       ignoreExpiration: false,
-      secretOrKey: configService.get<string>('JWT_SECRET'),
+      algorithms: [jwtKeyService.getAlgorithm()],
+      // Pick the verification key named by the token's `kid` header
+      secretOrKeyProvider: (_request, rawJwtToken: string, done) => {
+        try {
+          done(
+            null,
+            jwtKeyService.getVerificationKey(
+              jwtKeyService.getKeyId(rawJwtToken),
+            ),
+          );
+        } catch (error) {
+          done(error);
+        }
+      },
     });
   }
 
   async validate(payload: JwtPayload) {
+    // ID tokens are addressed to a client and must not open the API
+    if (payload.aud) {
+      throw new UnauthorizedException('Not an access token');
+    }
+
+    if (
+      payload.jti &&
+      (await this.tokenRevocationService.isAccessTokenRevoked(payload.jti))
+    ) {
+      throw new UnauthorizedException('Token has been revoked');
+    }
+
+    // Revoking a session (device) also ends its access tokens
+    if (payload.sid && !(await this.sessionService.isActive(payload.sid))) {
+      throw new UnauthorizedException('Session has been revoked');
+    }
+
+    // Tokens issued to an OAuth client die with the client
+    if (
+      payload.client_id &&
+      !(await this.oauthClientsService.findActive(payload.client_id))
+    ) {
+      throw new UnauthorizedException('Client has been revoked');
+    }
+
+    // client_credentials tokens act for the OAuth client itself
+    if (payload.client_id && payload.sub === payload.client_id) {
+      return this.validateClientToken(payload);
+    }
+
     const user = await this.usersService.findById(payload.sub);
 
     if (!user) {
       throw new UnauthorizedException('User not found');
     }
 
+    if (user.deletedAt) {
+      throw new UnauthorizedException('Account deleted');
+    }
+    if (user.suspendedAt) {
+      throw new UnauthorizedException('Account suspended');
+    }
+
+    // Reject tokens issued before the user's last "revoke all". iat has
+    // whole seconds, so tokens from the same second as the revocation stay
+    // valid rather than being rejected for their whole lifetime
+    if (
+      user.tokensValidAfter &&
+      (payload.iat ?? 0) < Math.floor(user.tokensValidAfter.getTime() / 1000)
+    ) {
+      throw new UnauthorizedException('Token has been revoked');
+    }
+
     return {
       id: user.id,
       email: user.email,
+      emailVerified: user.emailVerifiedAt !== null,
+      sub: payload.sub,
+      sessionId: payload.sid,
+      jti: payload.jti,
+      exp: payload.exp,
+      roles: payload.roles ?? [],
+      permissions: payload.permissions ?? [],
+      clientId: payload.client_id,
+      scopes: payload.scope?.split(' ') ?? [],
+      orgId: payload.org_id,
+    };
+  }
+
+  private validateClientToken(payload: JwtPayload) {
+    return {
       sub: payload.sub,
+      emailVerified: false,
+      jti: payload.jti,
+      exp: payload.exp,
+      roles: [],
+      permissions: payload.permissions ?? [],
+      clientId: payload.client_id,
+      scopes: payload.scope?.split(' ') ?? [],
     };
   }
 }
@@ -1,4 +1,8 @@
-import { Injectable, UnauthorizedException } from '@nestjs/common';
+import {
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
 import { Strategy } from 'passport-local';
 import { AuthService } from '../auth.service';
@@ -9,16 +13,25 @@ export class LocalStrategy extends PassportStrategy(Strategy) {
     super({
       usernameField: 'email',
       passwordField: 'password',
+      passReqToCallback: true,
     });
   }
 
-  async validate(email: string, password: string): Promise<any> {
-    const user = await this.authService.validateUser(email, password);
+  async validate(req: any, email: string, password: string): Promise<any> {
+    const user = await this.authService.validateUser(email, password, req.ip);
 
     if (!user) {
       throw new UnauthorizedException('Invalid credentials');
     }
 
+    // Only revealed to callers who know the password
+    if (user.deletedAt) {
+      throw new ForbiddenException('Account deleted');
+    }
+    if (user.suspendedAt) {
+      throw new ForbiddenException('Account suspended');
+    }
+
     return user;
   }
 }
@@ -0,0 +1,124 @@
+import {
+  Injectable,
+  Logger,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { createHash, randomBytes } from 'crypto';
+import { RedisService } from '../../redis/redis.service';
+
+/**
+ * Short-lived, single-use tokens sent to users out of band (e-mail links).
+ *
+ * Only a sha256 hash of the token is stored. Issuing a new token for the same
+ * purpose and subject invalidates the previous one, and consuming a token
+ * deletes it atomically so it can never be redeemed twice.
+ *
+ * Layout:
+ *  - one_time_token:<purpose>:<hash>             subject (e.g. user id)
+ *  - one_time_token_subject:<purpose>:<subject>  hash of the outstanding token
+ */
+@Injectable()
+export class OneTimeTokenService {
+  private readonly logger = new Logger(OneTimeTokenService.name);
+
+  constructor(private readonly redisService: RedisService) {}
+
+  async issue(
+    purpose: string,
+    subject: string,
+    ttlSeconds: number,
+  ): Promise<string> {
+    const token = randomBytes(32).toString('base64url');
+    const hash = this.hashToken(token);
+
+    try {
+      const redis = this.redisService.getClient();
+      const luaScript = `
+        local previous = redis.call('GET', KEYS[2])
+        if previous then
+          redis.call('DEL', ARGV[3] .. previous)
+        end
+        redis.call('SET', ARGV[3] .. ARGV[1], ARGV[2], 'EX', tonumber(ARGV[4]))
+        redis.call('SET', KEYS[2], ARGV[1], 'EX', tonumber(ARGV[4]))
+        return 1
+      `;
+
+      await redis.eval(
+        luaScript,
+        1,
+        this.subjectKey(purpose, subject),
+        hash,
+        subject,
+        this.tokenKeyPrefix(purpose),
+        ttlSeconds.toString(),
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to issue ${purpose} token for ${subject}: ${error.message}`,
+      );
+      throw new ServiceUnavailableException('Unable to issue token');
+    }
+
+    return token;
+  }
+
+  /**
+   * Subject of a token without redeeming it, or null if it is not valid
+   */
+  async peek(purpose: string, token: string): Promise<string | null> {
+    return this.redisService.get(
+      `${this.tokenKeyPrefix(purpose)}${this.hashToken(token)}`,
+    );
+  }
+
+  /**
+   * Redeem a token. Returns its subject, or null if the token is unknown,
+   * expired, superseded or already used.
+   */
+  async consume(purpose: string, token: string): Promise<string | null> {
+    if (!this.redisService.isHealthy()) {
+      return null;
+    }
+
+    try {
+      const redis = this.redisService.getClient();
+      const luaScript = `
+        local subject = redis.call('GET', KEYS[1])
+        if not subject then
+          return false
+        end
+        redis.call('DEL', KEYS[1])
+
+        local subjectKey = ARGV[2] .. subject
+        if redis.call('GET', subjectKey) == ARGV[1] then
+          redis.call('DEL', subjectKey)
+        end
+        return subject
+      `;
+
+      const hash = this.hashToken(token);
+      return (await redis.eval(
+        luaScript,
+        1,
+        `${this.tokenKeyPrefix(purpose)}${hash}`,
+        hash,
+        this.subjectKey(purpose, ''),
+      )) as string | null;
+    } catch (error) {
+      this.logger.error(`Failed to consume ${purpose} token: ${error.message}`);
+      return null;
+    }
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  private tokenKeyPrefix(purpose: string): string {
+    return `one_time_token:${purpose}:`;
+  }
+
+  private subjectKey(purpose: string, subject: string): string {
+    return `one_time_token_subject:${purpose}:${subject}`;
+  }
+}
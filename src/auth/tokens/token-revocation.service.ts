@@ -0,0 +1,44 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { RedisService } from '../../redis/redis.service';
+
+/**
+ * Redis-backed denylist for individual access tokens.
+ * Entries expire together with the token they revoke, so the list only
+ * ever holds tokens that would otherwise still be accepted.
+ */
+@Injectable()
+export class TokenRevocationService {
+  private readonly logger = new Logger(TokenRevocationService.name);
+
+  constructor(private readonly redisService: RedisService) {}
+
+  /**
+   * Deny an access token until it expires
+   * @param jti token ID claim
+   * @param exp token expiry claim (seconds since epoch)
+   */
+  async revokeAccessToken(jti: string, exp: number): Promise<void> {
+    const remainingSeconds = exp - Math.floor(Date.now() / 1000);
+    if (remainingSeconds <= 0) {
+      // Already expired, nothing to deny
+      return;
+    }
+
+    const stored = await this.redisService.set(
+      this.denylistKey(jti),
+      '1',
+      remainingSeconds,
+    );
+    if (!stored) {
+      this.logger.warn(`Failed to add access token ${jti} to the denylist`);
+    }
+  }
+
+  async isAccessTokenRevoked(jti: string): Promise<boolean> {
+    return this.redisService.exists(this.denylistKey(jti));
+  }
+
+  private denylistKey(jti: string): string {
+    return `revoked_jti:${jti}`;
+  }
+}
@@ -0,0 +1,63 @@
+import { ConfigService } from '@nestjs/config';
+import { TotpService } from './totp.service';
+import { Clock } from '../../common/clock/clock';
+
+describe('TotpService', () => {
+  let service: TotpService;
+  let now: number;
+
+  // "12345678901234567890" in base32, the SHA-1 secret of RFC 6238 appendix B
+  const rfcSecret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+  beforeEach(() => {
+    const clock: Clock = { now: () => now };
+    const configService = {
+      get: jest.fn((key: string, defaultValue?: any) => defaultValue),
+    } as unknown as ConfigService;
+    service = new TotpService(clock, configService);
+  });
+
+  it.each([
+    [59, '287082'],
+    [1111111109, '081804'],
+    [1234567890, '005924'],
+    [2000000000, '279037'],
+  ])('should match the RFC 6238 vector at %i seconds', (seconds, code) => {
+    expect(service.generate(rfcSecret, seconds * 1000)).toBe(code);
+  });
+
+  it('should accept codes from the adjacent time steps only', () => {
+    now = 1111111109 * 1000;
+    const current = service.generate(rfcSecret);
+    const previous = service.generate(rfcSecret, now - 30_000);
+    const stale = service.generate(rfcSecret, now - 90_000);
+
+    expect(service.verify(rfcSecret, current)).toBe(Math.floor(now / 30_000));
+    expect(service.verify(rfcSecret, previous)).not.toBeNull();
+    expect(service.verify(rfcSecret, stale)).toBeNull();
+  });
+
+  it('should reject malformed codes', () => {
+    now = Date.now();
+
+    expect(service.verify(rfcSecret, '12345')).toBeNull();
+    expect(service.verify(rfcSecret, 'abcdef')).toBeNull();
+  });
+
+  it('should generate secrets that round-trip through base32', () => {
+    now = Date.now();
+    const secret = service.generateSecret();
+
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(service.verify(secret, service.generate(secret))).not.toBeNull();
+  });
+
+  it('should build an otpauth URI for authenticator apps', () => {
+    const uri = service.buildOtpAuthUri(rfcSecret, 'user@example.com');
+
+    expect(uri).toBe(
+      'otpauth://totp/High-Scale%20API:user%40example.com' +
+        `?secret=${rfcSecret}&issuer=High-Scale+API&algorithm=SHA1&digits=6&period=30`,
+    );
+  });
+});
@@ -0,0 +1,75 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ForbiddenException } from '@nestjs/common';
+import { TwoFactorController } from './two-factor.controller';
+import { TwoFactorService } from './two-factor.service';
+import { AuthService } from '../auth.service';
+
+describe('TwoFactorController', () => {
+  let controller: TwoFactorController;
+  let twoFactorService: {
+    beginEnrollment: jest.Mock;
+    confirmEnrollment: jest.Mock;
+    regenerateRecoveryCodes: jest.Mock;
+    disable: jest.Mock;
+  };
+
+  const session = { user: { id: 'user-1' } };
+  const apiKey = { user: { id: 'user-1', apiKeyId: 'key-1' } };
+  const client = { user: { id: 'user-1', clientId: 'client-1' } };
+  const dto = { code: '123456' };
+
+  beforeEach(async () => {
+    twoFactorService = {
+      beginEnrollment: jest.fn().mockResolvedValue({ secret: 'SECRET' }),
+      confirmEnrollment: jest.fn().mockResolvedValue(['3f9a1-c07b2']),
+      regenerateRecoveryCodes: jest.fn().mockResolvedValue(['3f9a1-c07b2']),
+      disable: jest.fn().mockResolvedValue(undefined),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [TwoFactorController],
+      providers: [
+        { provide: TwoFactorService, useValue: twoFactorService },
+        { provide: AuthService, useValue: {} },
+      ],
+    }).compile();
+
+    controller = module.get<TwoFactorController>(TwoFactorController);
+  });
+
+  it('should let a user session manage 2FA', async () => {
+    await expect(controller.enroll(session)).resolves.toEqual({
+      secret: 'SECRET',
+    });
+    await expect(controller.confirmEnrollment(session, dto)).resolves.toEqual({
+      recoveryCodes: ['3f9a1-c07b2'],
+    });
+    expect(twoFactorService.confirmEnrollment).toHaveBeenCalledWith(
+      'user-1',
+      '123456',
+    );
+  });
+
+  it.each([
+    ['an API key', apiKey],
+    ['an OAuth client', client],
+  ])('should refuse %s', async (_caller, req) => {
+    await expect(controller.enroll(req)).rejects.toBeInstanceOf(
+      ForbiddenException,
+    );
+    await expect(controller.confirmEnrollment(req, dto)).rejects.toBeInstanceOf(
+      ForbiddenException,
+    );
+    await expect(
+      controller.regenerateRecoveryCodes(req, dto),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+    await expect(controller.disable(req, dto)).rejects.toBeInstanceOf(
+      ForbiddenException,
+    );
+
+    expect(twoFactorService.beginEnrollment).not.toHaveBeenCalled();
+    expect(twoFactorService.confirmEnrollment).not.toHaveBeenCalled();
+    expect(twoFactorService.regenerateRecoveryCodes).not.toHaveBeenCalled();
+    expect(twoFactorService.disable).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,240 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  ForbiddenException,
+  HttpCode,
+  HttpStatus,
+  Request,
+  Version,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBody,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import {
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+import { TwoFactorService } from './two-factor.service';
+import { AuthService } from '../auth.service';
+import { Public } from '../../common/decorators/public.decorator';
+
+export class TwoFactorCodeDto {
+  // 6-digit TOTP code or an xxxxx-xxxxx recovery code
+  @IsString()
+  @Matches(/^(\d{6}|[0-9a-fA-F]{5}-[0-9a-fA-F]{5})$/, {
+    message: 'code must be a 6-digit code or a recovery code',
+  })
+  code: string;
+}
+
+export class VerifyTwoFactorDto extends TwoFactorCodeDto {
+  @IsString()
+  @IsNotEmpty()
+  challengeToken: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  deviceLabel?: string;
+}
+
+const recoveryCodesSchema = {
+  type: 'object',
+  properties: {
+    recoveryCodes: {
+      type: 'array',
+      items: { type: 'string', example: '3f9a1-c07b2' },
+    },
+  },
+};
+
+@ApiTags('auth')
+@Controller('auth/2fa')
+export class TwoFactorController {
+  constructor(
+    private readonly twoFactorService: TwoFactorService,
+    private readonly authService: AuthService,
+  ) {}
+
+  @Get()
+  @Version('1')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Two-factor authentication status' })
+  @ApiResponse({
+    status: 200,
+    description: 'Whether 2FA is on and how many recovery codes are left',
+    schema: {
+      type: 'object',
+      properties: {
+        enabled: { type: 'boolean' },
+        recoveryCodesRemaining: { type: 'number' },
+      },
+    },
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getStatus(@Request() req) {
+    return this.twoFactorService.getStatus(req.user.id);
+  }
+
+  @Post('enroll')
+  @Version('1')
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Start TOTP enrollment' })
+  @ApiResponse({
+    status: 200,
+    description: 'Secret to add to an authenticator app',
+    schema: {
+      type: 'object',
+      properties: {
+        secret: { type: 'string' },
+        otpauthUri: {
+          type: 'string',
+          example: 'otpauth://totp/High-Scale%20API:user%40example.com?...',
+        },
+      },
+    },
+  })
+  @ApiResponse({ status: 400, description: '2FA already enabled' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({
+    status: 403,
+    description: 'API keys and OAuth clients cannot manage 2FA',
+  })
+  async enroll(@Request() req) {
+    this.assertUserSession(req);
+    return this.twoFactorService.beginEnrollment(req.user.id);
+  }
+
+  @Post('enroll/confirm')
+  @Version('1')
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Enable 2FA with the first code from the app' })
+  @ApiBody({ type: TwoFactorCodeDto })
+  @ApiResponse({
+    status: 200,
+    description: '2FA enabled. Recovery codes are only shown once.',
+    schema: recoveryCodesSchema,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid code' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({
+    status: 403,
+    description: 'API keys and OAuth clients cannot manage 2FA',
+  })
+  async confirmEnrollment(@Request() req, @Body() dto: TwoFactorCodeDto) {
+    this.assertUserSession(req);
+    const recoveryCodes = await this.twoFactorService.confirmEnrollment(
+      req.user.id,
+      dto.code,
+    );
+    return { recoveryCodes };
+  }
+
+  @Post('recovery-codes')
+  @Version('1')
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Replace all recovery codes' })
+  @ApiBody({ type: TwoFactorCodeDto })
+  @ApiResponse({
+    status: 200,
+    description: 'New recovery codes; earlier ones stop working',
+    schema: recoveryCodesSchema,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid code or 2FA disabled' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({
+    status: 403,
+    description: 'API keys and OAuth clients cannot manage 2FA',
+  })
+  async regenerateRecoveryCodes(@Request() req, @Body() dto: TwoFactorCodeDto) {
+    this.assertUserSession(req);
+    const recoveryCodes = await this.twoFactorService.regenerateRecoveryCodes(
+      req.user.id,
+      dto.code,
+    );
+    return { recoveryCodes };
+  }
+
+  @Post('disable')
+  @Version('1')
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Turn off two-factor authentication' })
+  @ApiBody({ type: TwoFactorCodeDto })
+  @ApiResponse({
+    status: 200,
+    description: '2FA disabled',
+    schema: {
+      type: 'object',
+      properties: {
+        message: {
+          type: 'string',
+          example: 'Two-factor authentication disabled',
+        },
+      },
+    },
+  })
+  @ApiResponse({ status: 400, description: 'Invalid code or 2FA disabled' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({
+    status: 403,
+    description: 'API keys and OAuth clients cannot manage 2FA',
+  })
+  async disable(@Request() req, @Body() dto: TwoFactorCodeDto) {
+    this.assertUserSession(req);
+    await this.twoFactorService.disable(req.user.id, dto.code);
+    return { message: 'Two-factor authentication disabled' };
+  }
+
+  @Public()
+  @Post('verify')
+  @Version('1')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Complete a login that requires 2FA' })
+  @ApiBody({ type: VerifyTwoFactorDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Login successful',
+    schema: {
+      type: 'object',
+      properties: {
+        accessToken: { type: 'string' },
+        refreshToken: { type: 'string' },
+        expiresIn: { type: 'number' },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Invalid code or expired challenge token',
+  })
+  async verify(@Request() req, @Body() dto: VerifyTwoFactorDto) {
+    return this.authService.verifyTwoFactorLogin(dto.challengeToken, dto.code, {
+      ip: req.ip,
+      userAgent: req.headers['user-agent'],
+      deviceLabel: dto.deviceLabel,
+    });
+  }
+
+  // A leaked API key or a delegated client token must not be able to take
+  // over or weaken the second factor
+  private assertUserSession(req: any): void {
+    if (req.user.apiKeyId || req.user.clientId) {
+      throw new ForbiddenException(
+        'API keys and OAuth clients cannot manage two-factor authentication',
+      );
+    }
+  }
+}
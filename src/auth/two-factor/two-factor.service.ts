@@ -0,0 +1,247 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { createHash, randomBytes } from 'crypto';
+import { RecoveryCode } from './recovery-code.entity';
+import { TotpService } from './totp.service';
+import { UsersService } from '../users/users.service';
+import { User } from '../users/user.entity';
+import { RedisService } from '../../redis/redis.service';
+import { CLOCK } from '../../common/clock/clock';
+import type { Clock } from '../../common/clock/clock';
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUri: string;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+}
+
+const RECOVERY_CODE_COUNT = 10;
+// A TOTP code stays acceptable for the drift window (3 steps of 30s)
+const USED_CODE_TTL_SECONDS = 90;
+const MAX_CHALLENGE_ATTEMPTS = 5;
+
+/**
+ * TOTP enrollment, recovery codes and second-factor checks.
+ *
+ * Enrollment is two-step: a pending secret is stored, and 2FA is only turned
+ * on once the user proves their authenticator produces matching codes.
+ * Recovery codes are single-use and stored as sha256 hashes.
+ */
+@Injectable()
+export class TwoFactorService {
+  private readonly logger = new Logger(TwoFactorService.name);
+
+  constructor(
+    private readonly usersService: UsersService,
+    @InjectRepository(RecoveryCode)
+    private readonly recoveryCodeRepository: Repository<RecoveryCode>,
+    private readonly totpService: TotpService,
+    private readonly redisService: RedisService,
+    @Inject(CLOCK) private readonly clock: Clock,
+  ) {}
+
+  async getStatus(userId: string): Promise<TwoFactorStatus> {
+    const user = await this.usersService.findById(userId);
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const recoveryCodesRemaining = user.twoFactorEnabledAt
+      ? await this.recoveryCodeRepository.count({
+          where: { userId, usedAt: IsNull() },
+        })
+      : 0;
+
+    return { enabled: !!user.twoFactorEnabledAt, recoveryCodesRemaining };
+  }
+
+  async beginEnrollment(userId: string): Promise<TwoFactorEnrollment> {
+    const user = await this.usersService.findById(userId);
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    if (user.twoFactorEnabledAt) {
+      throw new BadRequestException(
+        'Two-factor authentication is already enabled',
+      );
+    }
+
+    const secret = this.totpService.generateSecret();
+    await this.usersService.setPendingTwoFactorSecret(userId, secret);
+
+    return {
+      secret,
+      otpauthUri: this.totpService.buildOtpAuthUri(secret, user.email),
+    };
+  }
+
+  /**
+   * Turn 2FA on with the first code from the authenticator.
+   * Returns the plaintext recovery codes, which are never shown again.
+   */
+  async confirmEnrollment(userId: string, code: string): Promise<string[]> {
+    const user = await this.usersService.findByIdWithTwoFactorSecret(userId);
+    if (!user?.twoFactorSecret) {
+      throw new BadRequestException('Start two-factor enrollment first');
+    }
+    if (user.twoFactorEnabledAt) {
+      throw new BadRequestException(
+        'Two-factor authentication is already enabled',
+      );
+    }
+
+    if (!(await this.verifyTotp(user, code))) {
+      throw new BadRequestException('Invalid two-factor code');
+    }
+
+    await this.usersService.enableTwoFactor(userId);
+    this.logger.log(`Two-factor authentication enabled for user ${userId}`);
+
+    return this.replaceRecoveryCodes(userId);
+  }
+
+  async disable(userId: string, code: string): Promise<void> {
+    await this.assertValidCode(userId, code);
+
+    await this.usersService.disableTwoFactor(userId);
+    await this.recoveryCodeRepository.delete({ userId });
+    this.logger.log(`Two-factor authentication disabled for user ${userId}`);
+  }
+
+  async regenerateRecoveryCodes(
+    userId: string,
+    code: string,
+  ): Promise<string[]> {
+    await this.assertValidCode(userId, code);
+    return this.replaceRecoveryCodes(userId);
+  }
+
+  /**
+   * Accepts a current TOTP code or an unused recovery code (which is spent)
+   */
+  async verifyCode(userId: string, code: string): Promise<boolean> {
+    const user = await this.usersService.findByIdWithTwoFactorSecret(userId);
+    if (!user?.twoFactorEnabledAt || !user.twoFactorSecret) {
+      return false;
+    }
+
+    if (await this.verifyTotp(user, code)) {
+      return true;
+    }
+    return this.redeemRecoveryCode(userId, code);
+  }
+
+  /**
+   * Count a wrong code against a login challenge.
+   * Returns true once the challenge has used up its attempts.
+   */
+  async recordFailedChallengeAttempt(
+    userId: string,
+    ttlSeconds: number,
+  ): Promise<boolean> {
+    const key = this.attemptsKey(userId);
+    const attempts = await this.redisService.incr(key);
+    if (attempts === 1) {
+      await this.redisService.expire(key, ttlSeconds);
+    }
+    return attempts !== null && attempts >= MAX_CHALLENGE_ATTEMPTS;
+  }
+
+  async clearFailedChallengeAttempts(userId: string): Promise<void> {
+    await this.redisService.del(this.attemptsKey(userId));
+  }
+
+  private async assertValidCode(userId: string, code: string): Promise<void> {
+    const user = await this.usersService.findById(userId);
+    if (!user?.twoFactorEnabledAt) {
+      throw new BadRequestException('Two-factor authentication is not enabled');
+    }
+    if (!(await this.verifyCode(userId, code))) {
+      throw new BadRequestException('Invalid two-factor code');
+    }
+  }
+
+  private async verifyTotp(user: User, code: string): Promise<boolean> {
+    const step = this.totpService.verify(user.twoFactorSecret as string, code);
+    if (step === null) {
+      return false;
+    }
+
+    if (!this.redisService.isHealthy()) {
+      return true;
+    }
+
+    // Remember the time step so an intercepted code cannot be replayed
+    try {
+      const stored = await this.redisService
+        .getClient()
+        .set(
+          `totp_used:${user.id}:${step}`,
+          '1',
+          'EX',
+          USED_CODE_TTL_SECONDS,
+          'NX',
+        );
+      return stored === 'OK';
+    } catch (error) {
+      this.logger.warn(
+        `Failed to record TOTP use for user ${user.id}: ${error.message}`,
+      );
+      return true;
+    }
+  }
+
+  private async redeemRecoveryCode(
+    userId: string,
+    code: string,
+  ): Promise<boolean> {
+    const result = await this.recoveryCodeRepository.update(
+      { userId, codeHash: this.hashCode(code), usedAt: IsNull() },
+      { usedAt: new Date(this.clock.now()) },
+    );
+
+    const redeemed = (result.affected ?? 0) > 0;
+    if (redeemed) {
+      this.logger.log(`Recovery code used by user ${userId}`);
+    }
+    return redeemed;
+  }
+
+  private async replaceRecoveryCodes(userId: string): Promise<string[]> {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const raw = randomBytes(5).toString('hex');
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+
+    await this.recoveryCodeRepository.delete({ userId });
+    await this.recoveryCodeRepository.save(
+      codes.map((code) =>
+        this.recoveryCodeRepository.create({
+          userId,
+          codeHash: this.hashCode(code),
+        }),
+      ),
+    );
+
+    return codes;
+  }
+
+  private hashCode(code: string): string {
+    return createHash('sha256').update(code.trim().toLowerCase()).digest('hex');
+  }
+
+  private attemptsKey(userId: string): string {
+    return `two_factor_attempts:${userId}`;
+  }
+}
@@ -4,7 +4,11 @@ import {
   PrimaryGeneratedColumn,
   CreateDateColumn,
   UpdateDateColumn,
+  ManyToMany,
+  JoinTable,
+  Index,
 } from 'typeorm';
+import { Role } from '../roles/role.entity';
 
 @Entity('users')
 export class User {
@@ -17,6 +21,52 @@ export class User {
   @Column()
   password: string;
 
+  @Column({ type: 'timestamp', nullable: true })
+  emailVerifiedAt: Date | null;
+
+  // New address awaiting confirmation from its owner
+  @Column({ type: 'varchar', nullable: true })
+  pendingEmail: string | null;
+
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  displayName: string | null;
+
+  @Column({ type: 'varchar', length: 35, nullable: true })
+  locale: string | null;
+
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  timezone: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  tokensValidAfter: Date | null;
+
+  // TOTP shared secret, only loaded when explicitly selected
+  @Column({ type: 'varchar', nullable: true, select: false })
+  twoFactorSecret?: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  twoFactorEnabledAt: Date | null;
+
+  // Suspended accounts cannot sign in or use any token
+  @Column({ type: 'timestamp', nullable: true })
+  suspendedAt: Date | null;
+
+  @Column({ type: 'varchar', length: 500, nullable: true })
+  suspensionReason: string | null;
+
+  // Deleted by its owner and awaiting erasure; refused everywhere meanwhile
+  @Index()
+  @Column({ type: 'timestamp', nullable: true })
+  deletedAt: Date | null;
+
+  @ManyToMany(() => Role)
+  @JoinTable({
+    name: 'user_roles',
+    joinColumn: { name: 'userId', referencedColumnName: 'id' },
+    inverseJoinColumn: { name: 'roleId', referencedColumnName: 'id' },
+  })
+  roles: Role[];
+
   @CreateDateColumn()
   createdAt: Date;
 
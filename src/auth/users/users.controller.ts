@@ -0,0 +1,413 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  HttpCode,
+  HttpStatus,
+  ForbiddenException,
+  NotFoundException,
+  Param,
+  ParseUUIDPipe,
+  Request,
+  StreamableFile,
+  Version,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBody,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import {
+  IsEmail,
+  IsLocale,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsTimeZone,
+  MaxLength,
+} from 'class-validator';
+import { UsersService, ProfileChanges } from './users.service';
+import { AuthService } from '../auth.service';
+import { DataExportService } from '../privacy/data-export.service';
+import { Public } from '../../common/decorators/public.decorator';
+import { RateLimit } from '../../rate-limit/decorators/rate-limit.decorator';
+
+/**
+ * Fields left out stay as they are; null clears them
+ */
+export class UpdateProfileDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  displayName?: string | null;
+
+  @IsOptional()
+  @IsLocale()
+  @MaxLength(35)
+  locale?: string | null;
+
+  @IsOptional()
+  @IsTimeZone()
+  timezone?: string | null;
+}
+
+export class ChangePasswordDto {
+  @IsString()
+  @IsNotEmpty()
+  currentPassword: string;
+
+  // Checked against PasswordPolicyService, not here, so it is configurable
+  @IsString()
+  @IsNotEmpty()
+  newPassword: string;
+}
+
+export class ChangeEmailDto {
+  @IsEmail()
+  newEmail: string;
+
+  @IsString()
+  @IsNotEmpty()
+  currentPassword: string;
+}
+
+export class ConfirmEmailChangeDto {
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+}
+
+export class DeleteAccountDto {
+  @IsString()
+  @IsNotEmpty()
+  currentPassword: string;
+}
+
+const profileSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', format: 'uuid' },
+    email: { type: 'string', example: 'user@example.com' },
+    emailVerified: { type: 'boolean' },
+    pendingEmail: {
+      type: 'string',
+      nullable: true,
+      description: 'New address awaiting confirmation',
+    },
+    displayName: { type: 'string', nullable: true, example: 'Jane Doe' },
+    locale: { type: 'string', nullable: true, example: 'en-GB' },
+    timezone: { type: 'string', nullable: true, example: 'Europe/London' },
+    twoFactorEnabled: { type: 'boolean' },
+    createdAt: { type: 'string', format: 'date-time' },
+  },
+};
+
+const exportJobSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', format: 'uuid' },
+    status: { type: 'string', enum: ['pending', 'ready', 'failed'] },
+    createdAt: { type: 'string', format: 'date-time' },
+    completedAt: { type: 'string', format: 'date-time', nullable: true },
+    expiresAt: { type: 'string', format: 'date-time' },
+    downloadUrl: {
+      type: 'string',
+      nullable: true,
+      description: 'Set once the archive is ready',
+      example: '/v1/users/me/export/6f1c.../download',
+    },
+  },
+};
+
+const messageSchema = (example: string) => ({
+  type: 'object',
+  properties: {
+    message: { type: 'string', example },
+  },
+});
+
+@ApiTags('users')
+@Controller('users')
+export class UsersController {
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly authService: AuthService,
+    private readonly dataExportService: DataExportService,
+  ) {}
+
+  @Get('me')
+  @Version('1')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Profile of the current user' })
+  @ApiResponse({ status: 200, description: 'Profile', schema: profileSchema })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getProfile(@Request() req) {
+    return this.findProfile(this.getUserId(req));
+  }
+
+  @Patch('me')
+  @Version('1')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Update the profile of the current user' })
+  @ApiBody({ type: UpdateProfileDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Updated profile',
+    schema: profileSchema,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid locale or time zone' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async updateProfile(@Request() req, @Body() dto: UpdateProfileDto) {
+    const changes: ProfileChanges = {};
+    for (const field of ['displayName', 'locale', 'timezone'] as const) {
+      if (dto[field] !== undefined) {
+        changes[field] = dto[field];
+      }
+    }
+
+    const userId = this.getUserId(req);
+    await this.usersService.updateProfile(userId, changes);
+    return this.findProfile(userId);
+  }
+
+  @Post('me/password')
+  @Version('1')
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth('JWT-auth')
+  @RateLimit({
+    capacity: 5,
+    windowSeconds: 900,
+    strategy: 'token_bucket',
+    scope: 'change_password',
+  })
+  @ApiOperation({
+    summary: 'Change password',
+    description: 'Signs out every session, including the current one',
+  })
+  @ApiBody({ type: ChangePasswordDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Password changed',
+    schema: messageSchema('Password changed, please sign in again'),
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Current password is incorrect, or the new one breaks the password policy',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({
+    status: 403,
+    description: 'Not available to API keys or OAuth clients',
+  })
+  @ApiResponse({ status: 429, description: 'Too many attempts' })
+  async changePassword(@Request() req, @Body() dto: ChangePasswordDto) {
+    this.assertUserSession(req);
+    await this.authService.changePassword(
+      req.user.id,
+      dto.currentPassword,
+      dto.newPassword,
+    );
+    return { message: 'Password changed, please sign in again' };
+  }
+
+  @Post('me/email')
+  @Version('1')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiBearerAuth('JWT-auth')
+  @RateLimit({
+    capacity: 5,
+    windowSeconds: 900,
+    strategy: 'token_bucket',
+    scope: 'change_email',
+  })
+  @ApiOperation({
+    summary: 'Change email address',
+    description:
+      'Emails a confirmation link to the new address; the current one stays in use until it is followed',
+  })
+  @ApiBody({ type: ChangeEmailDto })
+  @ApiResponse({
+    status: 202,
+    description: 'Confirmation email sent',
+    schema: messageSchema('Confirmation email sent to the new address'),
+  })
+  @ApiResponse({ status: 400, description: 'Current password is incorrect' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({
+    status: 403,
+    description: 'Not available to API keys or OAuth clients',
+  })
+  @ApiResponse({ status: 409, description: 'Email address already in use' })
+  @ApiResponse({ status: 429, description: 'Too many attempts' })
+  async changeEmail(@Request() req, @Body() dto: ChangeEmailDto) {
+    this.assertUserSession(req);
+    await this.authService.requestEmailChange(
+      req.user.id,
+      dto.newEmail,
+      dto.currentPassword,
+    );
+    return { message: 'Confirmation email sent to the new address' };
+  }
+
+  @Public()
+  @Post('email-change/confirm')
+  @Version('1')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Confirm a new email address with the emailed token',
+  })
+  @ApiBody({ type: ConfirmEmailChangeDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Email address changed',
+    schema: messageSchema('Email address changed'),
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid or expired email change token',
+  })
+  @ApiResponse({ status: 409, description: 'Email address already in use' })
+  async confirmEmailChange(@Body() dto: ConfirmEmailChangeDto) {
+    await this.authService.confirmEmailChange(dto.token);
+    return { message: 'Email address changed' };
+  }
+
+  @Post('me/export')
+  @Version('1')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiBearerAuth('JWT-auth')
+  @RateLimit({
+    capacity: 3,
+    windowSeconds: 86400,
+    strategy: 'token_bucket',
+    scope: 'data_export',
+  })
+  @ApiOperation({
+    summary: 'Export all data stored about the current user',
+    description:
+      'Builds a JSON archive in the background. Poll the returned job until it is ready, then fetch downloadUrl.',
+  })
+  @ApiResponse({
+    status: 202,
+    description: 'Export started (or the one in progress)',
+    schema: exportJobSchema,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({
+    status: 403,
+    description: 'Not available to API keys or OAuth clients',
+  })
+  @ApiResponse({ status: 429, description: 'Too many exports requested' })
+  async requestExport(@Request() req) {
+    this.assertUserSession(req);
+    const job = await this.dataExportService.requestExport(req.user.id);
+    return this.dataExportService.toView(job);
+  }
+
+  @Get('me/export/:jobId')
+  @Version('1')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Status of a data export' })
+  @ApiResponse({
+    status: 200,
+    description: 'Export job',
+    schema: exportJobSchema,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Export not found or expired' })
+  async getExport(
+    @Request() req,
+    @Param('jobId', new ParseUUIDPipe()) jobId: string,
+  ) {
+    this.assertUserSession(req);
+    const job = await this.dataExportService.getJob(req.user.id, jobId);
+    return this.dataExportService.toView(job);
+  }
+
+  @Get('me/export/:jobId/download')
+  @Version('1')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Download a finished data export' })
+  @ApiResponse({ status: 200, description: 'JSON archive as an attachment' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Export not found or expired' })
+  @ApiResponse({ status: 409, description: 'Export not ready yet or failed' })
+  async downloadExport(
+    @Request() req,
+    @Param('jobId', new ParseUUIDPipe()) jobId: string,
+  ) {
+    this.assertUserSession(req);
+    const archive = await this.dataExportService.getArchive(req.user.id, jobId);
+    return new StreamableFile(Buffer.from(archive), {
+      type: 'application/json',
+      disposition: `attachment; filename="data-export-${jobId}.json"`,
+    });
+  }
+
+  @Delete('me')
+  @Version('1')
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Delete the account of the current user',
+    description:
+      'The account is locked at once and erased for good after a grace period (ACCOUNT_ERASURE_GRACE_PERIOD)',
+  })
+  @ApiBody({ type: DeleteAccountDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Account deleted',
+    schema: {
+      type: 'object',
+      properties: {
+        message: { type: 'string', example: 'Account deleted' },
+        eraseAfter: { type: 'string', format: 'date-time' },
+      },
+    },
+  })
+  @ApiResponse({ status: 400, description: 'Current password is incorrect' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({
+    status: 403,
+    description: 'Not available to API keys or OAuth clients',
+  })
+  async deleteAccount(@Request() req, @Body() dto: DeleteAccountDto) {
+    this.assertUserSession(req);
+    const eraseAfter = await this.authService.deleteAccount(
+      req.user.id,
+      dto.currentPassword,
+    );
+    return { message: 'Account deleted', eraseAfter };
+  }
+
+  private async findProfile(userId: string) {
+    const profile = await this.usersService.getProfile(userId);
+    if (!profile) {
+      throw new NotFoundException('User not found');
+    }
+    return profile;
+  }
+
+  // client_credentials tokens act for an OAuth client, not a user
+  private getUserId(req: any): string {
+    if (!req.user.id) {
+      throw new ForbiddenException('Only available to users');
+    }
+    return req.user.id;
+  }
+
+  // Credentials and the account itself are only managed by the user in person
+  private assertUserSession(req: any): void {
+    if (req.user.apiKeyId || req.user.clientId) {
+      throw new ForbiddenException(
+        'API keys and OAuth clients cannot manage the account',
+      );
+    }
+  }
+}
@@ -1,13 +1,60 @@
-import { Injectable } from '@nestjs/common';
+import { BadRequestException, Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { LessThan, Repository } from 'typeorm';
+import { isUUID } from 'class-validator';
 import { User } from './user.entity';
+import { Role } from '../roles/role.entity';
+import { ROLES } from '../roles/roles.constants';
+
+export interface UserAccess {
+  roles: string[];
+  permissions: string[];
+}
+
+export type UserStatus = 'active' | 'suspended' | 'deleted';
+
+export interface UserSearchQuery {
+  emailPrefix?: string;
+  createdAfter?: Date;
+  createdBefore?: Date;
+  status?: UserStatus;
+  sort?: 'createdAt' | 'email';
+  order?: 'asc' | 'desc';
+  // Opaque position returned as nextCursor by the previous page
+  cursor?: string;
+  limit?: number;
+}
+
+export interface UserPage {
+  items: User[];
+  nextCursor: string | null;
+}
+
+export interface ProfileChanges {
+  displayName?: string | null;
+  locale?: string | null;
+  timezone?: string | null;
+}
+
+export interface UserProfile {
+  id: string;
+  email: string;
+  emailVerified: boolean;
+  pendingEmail: string | null;
+  displayName: string | null;
+  locale: string | null;
+  timezone: string | null;
+  twoFactorEnabled: boolean;
+  createdAt: Date;
+}
 
 @Injectable()
 export class UsersService {
   constructor(
     @InjectRepository(User)
     private readonly userRepository: Repository<User>,
+    @InjectRepository(Role)
+    private readonly roleRepository: Repository<Role>,
   ) {}
 
   async findByEmail(email: string): Promise<User | null> {
@@ -21,7 +68,260 @@ export class UsersService {
   async create(email: string, password: string): Promise<User> {
     // Password should already be hashed by the caller (AuthService)
     // This method just creates the user record
-    const user = this.userRepository.create({ email, password });
+    const defaultRole = await this.roleRepository.findOne({
+      where: { name: ROLES.USER },
+    });
+    const user = this.userRepository.create({
+      email,
+      password,
+      roles: defaultRole ? [defaultRole] : [],
+    });
     return this.userRepository.save(user);
   }
+
+  /**
+   * Role names and the union of their permissions, for embedding in tokens
+   */
+  async getAccess(id: string): Promise<UserAccess> {
+    const user = await this.userRepository.findOne({
+      where: { id },
+      relations: { roles: { permissions: true } },
+    });
+
+    const roles = user?.roles ?? [];
+    const permissions = new Set(
+      roles.flatMap((role) => role.permissions.map((p) => p.name)),
+    );
+
+    return {
+      roles: roles.map((role) => role.name),
+      permissions: [...permissions],
+    };
+  }
+
+  /**
+   * One page of users in a stable order. The cursor carries the sort value
+   * and id of the last row, so pages neither skip nor repeat rows when users
+   * are added or removed in between.
+   *
+   * createdAt is compared at millisecond precision, the precision the cursor
+   * can carry through a JS Date.
+   */
+  async search(query: UserSearchQuery): Promise<UserPage> {
+    const sortColumn =
+      query.sort === 'email'
+        ? 'user.email'
+        : "date_trunc('milliseconds', user.createdAt)";
+    const direction = query.order === 'asc' ? 'ASC' : 'DESC';
+    const limit = query.limit ?? 20;
+
+    const qb = this.userRepository.createQueryBuilder('user');
+
+    if (query.emailPrefix) {
+      qb.andWhere('user.email ILIKE :emailPrefix', {
+        emailPrefix: `${query.emailPrefix.replace(/[\\%_]/g, '\\$&')}%`,
+      });
+    }
+    if (query.createdAfter) {
+      qb.andWhere('user.createdAt >= :createdAfter', {
+        createdAfter: query.createdAfter,
+      });
+    }
+    if (query.createdBefore) {
+      qb.andWhere('user.createdAt < :createdBefore', {
+        createdBefore: query.createdBefore,
+      });
+    }
+    if (query.status === 'active') {
+      qb.andWhere('user.suspendedAt IS NULL AND user.deletedAt IS NULL');
+    } else if (query.status === 'suspended') {
+      qb.andWhere('user.suspendedAt IS NOT NULL');
+    } else if (query.status === 'deleted') {
+      qb.andWhere('user.deletedAt IS NOT NULL');
+    }
+    if (query.cursor) {
+      const [value, id] = this.decodeCursor(query.cursor);
+      const cursorValue = query.sort === 'email' ? value : new Date(value);
+      if (cursorValue instanceof Date && isNaN(cursorValue.getTime())) {
+        throw new BadRequestException('Invalid cursor');
+      }
+      qb.andWhere(
+        `(${sortColumn}, user.id) ${direction === 'ASC' ? '>' : '<'} (:cursorValue, :cursorId)`,
+        { cursorValue, cursorId: id },
+      );
+    }
+
+    const rows = await qb
+      .orderBy(sortColumn, direction)
+      .addOrderBy('user.id', direction)
+      .limit(limit + 1)
+      .getMany();
+
+    const items = rows.slice(0, limit);
+    const last = items[items.length - 1];
+    return {
+      items,
+      nextCursor:
+        rows.length > limit
+          ? this.encodeCursor(
+              query.sort === 'email'
+                ? last.email
+                : last.createdAt.toISOString(),
+              last.id,
+            )
+          : null,
+    };
+  }
+
+  /**
+   * What the user can see about themselves; null for unknown ids
+   */
+  async getProfile(id: string): Promise<UserProfile | null> {
+    const user = await this.findById(id);
+    if (!user) return null;
+
+    return {
+      id: user.id,
+      email: user.email,
+      emailVerified: user.emailVerifiedAt !== null,
+      pendingEmail: user.pendingEmail,
+      displayName: user.displayName,
+      locale: user.locale,
+      timezone: user.timezone,
+      twoFactorEnabled: user.twoFactorEnabledAt !== null,
+      createdAt: user.createdAt,
+    };
+  }
+
+  async updateProfile(id: string, changes: ProfileChanges): Promise<void> {
+    if (Object.keys(changes).length > 0) {
+      await this.userRepository.update(id, changes);
+    }
+  }
+
+  async markEmailVerified(id: string): Promise<void> {
+    await this.userRepository.update(id, { emailVerifiedAt: new Date() });
+  }
+
+  async updatePassword(id: string, hashedPassword: string): Promise<void> {
+    await this.userRepository.update(id, { password: hashedPassword });
+  }
+
+  async setPendingEmail(id: string, email: string | null): Promise<void> {
+    await this.userRepository.update(id, { pendingEmail: email });
+  }
+
+  /**
+   * Switch to the confirmed pending address, which counts as verified
+   */
+  async changeEmail(id: string, email: string): Promise<void> {
+    await this.userRepository.update(id, {
+      email,
+      emailVerifiedAt: new Date(),
+      pendingEmail: null,
+    });
+  }
+
+  /**
+   * Remove the account; API keys, passkeys, linked identities and recovery
+   * codes go with it through their foreign keys. False if it was already gone.
+   */
+  async delete(id: string): Promise<boolean> {
+    const result = await this.userRepository.delete(id);
+    return (result.affected ?? 0) > 0;
+  }
+
+  async findByIdWithTwoFactorSecret(id: string): Promise<User | null> {
+    return this.userRepository
+      .createQueryBuilder('user')
+      .addSelect('user.twoFactorSecret')
+      .where('user.id = :id', { id })
+      .getOne();
+  }
+
+  /**
+   * Store a secret awaiting confirmation; 2FA stays off until enabled
+   */
+  async setPendingTwoFactorSecret(id: string, secret: string): Promise<void> {
+    await this.userRepository.update(id, {
+      twoFactorSecret: secret,
+      twoFactorEnabledAt: null,
+    });
+  }
+
+  async enableTwoFactor(id: string): Promise<void> {
+    await this.userRepository.update(id, { twoFactorEnabledAt: new Date() });
+  }
+
+  async disableTwoFactor(id: string): Promise<void> {
+    await this.userRepository.update(id, {
+      twoFactorSecret: null,
+      twoFactorEnabledAt: null,
+    });
+  }
+
+  async setTokensValidAfter(id: string, validAfter: Date): Promise<void> {
+    await this.userRepository.update(id, { tokensValidAfter: validAfter });
+  }
+
+  async suspend(id: string, reason: string | null): Promise<void> {
+    await this.userRepository.update(id, {
+      suspendedAt: new Date(),
+      suspensionReason: reason,
+    });
+  }
+
+  async unsuspend(id: string): Promise<void> {
+    await this.userRepository.update(id, {
+      suspendedAt: null,
+      suspensionReason: null,
+    });
+  }
+
+  /**
+   * Soft delete: the row stays until erased, so a deletion can be undone
+   */
+  async markDeleted(id: string, deletedAt: Date): Promise<void> {
+    await this.userRepository.update(id, { deletedAt });
+  }
+
+  async restore(id: string): Promise<void> {
+    await this.userRepository.update(id, { deletedAt: null });
+  }
+
+  /**
+   * Ids of accounts deleted before the cutoff, oldest first
+   */
+  async findDeletedBefore(cutoff: Date, limit: number): Promise<string[]> {
+    const users = await this.userRepository.find({
+      select: { id: true },
+      where: { deletedAt: LessThan(cutoff) },
+      order: { deletedAt: 'ASC' },
+      take: limit,
+    });
+    return users.map((user) => user.id);
+  }
+
+  private encodeCursor(value: string, id: string): string {
+    return Buffer.from(JSON.stringify([value, id])).toString('base64url');
+  }
+
+  private decodeCursor(cursor: string): [string, string] {
+    try {
+      const decoded: unknown = JSON.parse(
+        Buffer.from(cursor, 'base64url').toString('utf8'),
+      );
+      if (
+        Array.isArray(decoded) &&
+        decoded.length === 2 &&
+        typeof decoded[0] === 'string' &&
+        isUUID(decoded[1])
+      ) {
+        return decoded as [string, string];
+      }
+    } catch {
+      // Falls through to the error below
+    }
+    throw new BadRequestException('Invalid cursor');
+  }
 }
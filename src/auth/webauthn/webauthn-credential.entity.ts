@@ -0,0 +1,64 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../users/user.entity';
+
+/**
+ * A passkey or security key registered by a user. Only the public key is
+ * kept; the private key never leaves the authenticator.
+ */
+@Entity('webauthn_credentials')
+export class WebAuthnCredential {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  // Credential id chosen by the authenticator, base64url encoded
+  @Index({ unique: true })
+  @Column({ type: 'varchar', length: 1024 })
+  credentialId: string;
+
+  // COSE-encoded public key
+  @Column({ type: 'bytea' })
+  publicKey: Buffer;
+
+  // Signature counter reported by the authenticator, used to spot clones
+  @Column({
+    type: 'bigint',
+    default: 0,
+    transformer: { to: (value: number) => value, from: (value) => +value },
+  })
+  counter: number;
+
+  @Column('text', { array: true, default: '{}' })
+  transports: string[];
+
+  @Column({ type: 'varchar', length: 100 })
+  name: string;
+
+  // 'singleDevice' or 'multiDevice' (synced passkey)
+  @Column({ type: 'varchar', length: 20 })
+  deviceType: string;
+
+  @Column({ default: false })
+  backedUp: boolean;
+
+  @Index()
+  @Column({ type: 'uuid' })
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Column({ type: 'timestamp', nullable: true })
+  lastUsedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
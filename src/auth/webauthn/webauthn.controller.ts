@@ -0,0 +1,213 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  ForbiddenException,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Request,
+  Version,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiBody,
+  ApiParam,
+} from '@nestjs/swagger';
+import { IsObject, IsOptional, IsString, MaxLength } from 'class-validator';
+import type {
+  AuthenticationResponseJSON,
+  RegistrationResponseJSON,
+} from '@simplewebauthn/server';
+import { WebAuthnService } from './webauthn.service';
+import { AuthService } from '../auth.service';
+import { Public } from '../../common/decorators/public.decorator';
+import { RequireVerifiedEmail } from '../../common/decorators/require-verified-email.decorator';
+import { RateLimit } from '../../rate-limit/decorators/rate-limit.decorator';
+
+export class RegisterPasskeyDto {
+  // PublicKeyCredential from navigator.credentials.create(), JSON encoded
+  @IsObject()
+  response: RegistrationResponseJSON;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  name?: string;
+}
+
+export class PasskeyLoginDto {
+  // PublicKeyCredential from navigator.credentials.get(), JSON encoded
+  @IsObject()
+  response: AuthenticationResponseJSON;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  deviceLabel?: string;
+}
+
+const credentialSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', format: 'uuid' },
+    name: { type: 'string', example: 'MacBook Touch ID' },
+    deviceType: { type: 'string', enum: ['singleDevice', 'multiDevice'] },
+    backedUp: { type: 'boolean' },
+    transports: { type: 'array', items: { type: 'string' } },
+    lastUsedAt: { type: 'string', format: 'date-time', nullable: true },
+    createdAt: { type: 'string', format: 'date-time' },
+  },
+};
+
+@ApiTags('auth')
+@Controller('auth/webauthn')
+export class WebAuthnController {
+  constructor(
+    private readonly webAuthnService: WebAuthnService,
+    private readonly authService: AuthService,
+  ) {}
+
+  @Post('registration/options')
+  @Version('1')
+  @HttpCode(HttpStatus.OK)
+  @RequireVerifiedEmail()
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Start registering a passkey',
+    description:
+      'Pass the result to navigator.credentials.create({ publicKey })',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'PublicKeyCredentialCreationOptions (JSON)',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Email address not verified' })
+  async registrationOptions(@Request() req) {
+    this.assertUserSession(req);
+    return this.webAuthnService.createRegistrationOptions(req.user);
+  }
+
+  @Post('registration')
+  @Version('1')
+  @HttpCode(HttpStatus.CREATED)
+  @RequireVerifiedEmail()
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Finish registering a passkey' })
+  @ApiBody({ type: RegisterPasskeyDto })
+  @ApiResponse({
+    status: 201,
+    description: 'Passkey registered',
+    schema: credentialSchema,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'No ceremony in progress or the response did not verify',
+  })
+  @ApiResponse({ status: 409, description: 'Passkey already registered' })
+  async register(@Request() req, @Body() dto: RegisterPasskeyDto) {
+    this.assertUserSession(req);
+    return this.webAuthnService.register(req.user.id, dto.response, dto.name);
+  }
+
+  @Get('credentials')
+  @Version('1')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Passkeys registered by the current user' })
+  @ApiResponse({
+    status: 200,
+    description: 'Registered passkeys',
+    schema: { type: 'array', items: credentialSchema },
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async listCredentials(@Request() req) {
+    return this.webAuthnService.list(req.user.id);
+  }
+
+  @Delete('credentials/:id')
+  @Version('1')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Remove a passkey' })
+  @ApiParam({ name: 'id', format: 'uuid' })
+  @ApiResponse({ status: 200, description: 'Passkey removed' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Passkey not found' })
+  async removeCredential(
+    @Request() req,
+    @Param('id', new ParseUUIDPipe()) id: string,
+  ) {
+    this.assertUserSession(req);
+    await this.webAuthnService.remove(req.user.id, id);
+    return { message: 'Passkey removed successfully' };
+  }
+
+  @Public()
+  @Post('authentication/options')
+  @Version('1')
+  @HttpCode(HttpStatus.OK)
+  @RateLimit({
+    capacity: 20,
+    windowSeconds: 60,
+    strategy: 'token_bucket',
+    scope: 'webauthn_options',
+  })
+  @ApiOperation({
+    summary: 'Start signing in with a passkey',
+    description: 'Pass the result to navigator.credentials.get({ publicKey })',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'PublicKeyCredentialRequestOptions (JSON)',
+  })
+  async authenticationOptions() {
+    return this.webAuthnService.createAuthenticationOptions();
+  }
+
+  @Public()
+  @Post('authentication')
+  @Version('1')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Sign in with a signed passkey assertion' })
+  @ApiBody({ type: PasskeyLoginDto })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Login successful. Passkeys without user verification on accounts with 2FA get a challenge instead of tokens.',
+    schema: {
+      type: 'object',
+      properties: {
+        accessToken: { type: 'string' },
+        refreshToken: { type: 'string' },
+        expiresIn: { type: 'number' },
+      },
+    },
+  })
+  @ApiResponse({ status: 401, description: 'Assertion did not verify' })
+  async authenticate(@Request() req, @Body() dto: PasskeyLoginDto) {
+    const { user, userVerified } = await this.webAuthnService.authenticate(
+      dto.response,
+    );
+    return this.authService.loginWithPasskey(user, userVerified, {
+      ip: req.ip,
+      userAgent: req.headers['user-agent'],
+      deviceLabel: dto.deviceLabel,
+    });
+  }
+
+  // Neither a leaked API key nor a delegated client token may add a way to
+  // sign in
+  private assertUserSession(req: any): void {
+    if (req.user.apiKeyId || req.user.clientId) {
+      throw new ForbiddenException(
+        'API keys and OAuth clients cannot manage passkeys',
+      );
+    }
+  }
+}
@@ -0,0 +1,286 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import {
+  generateAuthenticationOptions,
+  generateRegistrationOptions,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+} from '@simplewebauthn/server';
+import { WebAuthnService } from './webauthn.service';
+import { WebAuthnCredential } from './webauthn-credential.entity';
+import { RedisService } from '../../redis/redis.service';
+import { UsersService } from '../users/users.service';
+
+jest.mock('@simplewebauthn/server');
+
+describe('WebAuthnService', () => {
+  let service: WebAuthnService;
+  let store: Map<string, string>;
+  let repository: {
+    create: jest.Mock;
+    save: jest.Mock;
+    find: jest.Mock;
+    findOne: jest.Mock;
+    update: jest.Mock;
+    delete: jest.Mock;
+  };
+  let usersService: { findById: jest.Mock };
+
+  const user = { id: 'user-1', email: 'user@example.com' };
+  const storedCredential = {
+    id: 'credential-1',
+    credentialId: 'cred-abc',
+    publicKey: Buffer.from([1, 2, 3]),
+    counter: 4,
+    transports: ['internal'],
+    userId: 'user-1',
+  };
+  const registrationResponse = { id: 'cred-abc' } as any;
+  const assertion = (userHandle?: string) =>
+    ({ id: 'cred-abc', response: { userHandle } }) as any;
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    store = new Map();
+    repository = {
+      create: jest.fn((data) => ({ ...data })),
+      save: jest.fn((data) =>
+        Promise.resolve({ id: 'credential-1', createdAt: new Date(), ...data }),
+      ),
+      find: jest.fn().mockResolvedValue([]),
+      findOne: jest.fn().mockResolvedValue(null),
+      update: jest.fn(),
+      delete: jest.fn(),
+    };
+    usersService = { findById: jest.fn().mockResolvedValue(user) };
+
+    (generateRegistrationOptions as jest.Mock).mockResolvedValue({
+      challenge: 'registration-challenge',
+    });
+    (generateAuthenticationOptions as jest.Mock).mockResolvedValue({
+      challenge: 'authentication-challenge',
+    });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WebAuthnService,
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: any) => defaultValue),
+          },
+        },
+        {
+          provide: RedisService,
+          useValue: {
+            isHealthy: jest.fn().mockReturnValue(true),
+            set: jest.fn((key: string, value: string) => {
+              store.set(key, value);
+              return Promise.resolve(true);
+            }),
+            getClient: jest.fn(() => ({
+              eval: jest.fn((_script: string, _n: number, key: string) => {
+                const value = store.get(key) ?? null;
+                store.delete(key);
+                return Promise.resolve(value);
+              }),
+            })),
+          },
+        },
+        { provide: UsersService, useValue: usersService },
+        {
+          provide: getRepositoryToken(WebAuthnCredential),
+          useValue: repository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<WebAuthnService>(WebAuthnService);
+  });
+
+  describe('registration', () => {
+    beforeEach(() => {
+      (verifyRegistrationResponse as jest.Mock).mockResolvedValue({
+        verified: true,
+        registrationInfo: {
+          credential: {
+            id: 'cred-abc',
+            publicKey: new Uint8Array([1, 2, 3]),
+            counter: 0,
+            transports: ['internal'],
+          },
+          credentialDeviceType: 'multiDevice',
+          credentialBackedUp: true,
+        },
+      });
+    });
+
+    it('should offer discoverable credentials and exclude existing ones', async () => {
+      repository.find.mockResolvedValue([storedCredential]);
+
+      await service.createRegistrationOptions(user);
+
+      expect(generateRegistrationOptions).toHaveBeenCalledWith(
+        expect.objectContaining({
+          rpID: 'localhost',
+          userName: 'user@example.com',
+          excludeCredentials: [{ id: 'cred-abc', transports: ['internal'] }],
+          authenticatorSelection: expect.objectContaining({
+            residentKey: 'required',
+          }),
+        }),
+      );
+      expect(store.get('webauthn_challenge:registration:user-1')).toBe(
+        'registration-challenge',
+      );
+    });
+
+    it('should verify against the stored challenge and save the key', async () => {
+      await service.createRegistrationOptions(user);
+
+      const view = await service.register(
+        'user-1',
+        registrationResponse,
+        'Laptop',
+      );
+
+      expect(verifyRegistrationResponse).toHaveBeenCalledWith(
+        expect.objectContaining({
+          expectedChallenge: 'registration-challenge',
+          expectedOrigin: ['http://localhost:3000'],
+          expectedRPID: 'localhost',
+        }),
+      );
+      expect(repository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 'user-1',
+          credentialId: 'cred-abc',
+          publicKey: Buffer.from([1, 2, 3]),
+          name: 'Laptop',
+          deviceType: 'multiDevice',
+        }),
+      );
+      expect(view).not.toHaveProperty('publicKey');
+      expect(store.size).toBe(0);
+    });
+
+    it('should refuse a response without a pending challenge', async () => {
+      await expect(
+        service.register('user-1', registrationResponse),
+      ).rejects.toThrow(BadRequestException);
+      expect(verifyRegistrationResponse).not.toHaveBeenCalled();
+    });
+
+    it('should spend the challenge even when verification fails', async () => {
+      (verifyRegistrationResponse as jest.Mock).mockRejectedValue(
+        new Error('Unexpected registration response origin'),
+      );
+      await service.createRegistrationOptions(user);
+
+      await expect(
+        service.register('user-1', registrationResponse),
+      ).rejects.toThrow(BadRequestException);
+      expect(store.size).toBe(0);
+    });
+
+    it('should reject a credential that is already registered', async () => {
+      repository.findOne.mockResolvedValue(storedCredential);
+      await service.createRegistrationOptions(user);
+
+      await expect(
+        service.register('user-1', registrationResponse),
+      ).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('authenticate', () => {
+    beforeEach(async () => {
+      repository.findOne.mockResolvedValue(storedCredential);
+      (verifyAuthenticationResponse as jest.Mock).mockImplementation(
+        async ({ expectedChallenge }) => ({
+          verified: await expectedChallenge('authentication-challenge'),
+          authenticationInfo: {
+            newCounter: 5,
+            userVerified: true,
+            credentialBackedUp: false,
+          },
+        }),
+      );
+      await service.createAuthenticationOptions();
+    });
+
+    it('should return the user and store the new counter', async () => {
+      const result = await service.authenticate(
+        assertion(Buffer.from('user-1').toString('base64url')),
+      );
+
+      expect(result).toEqual({ user, userVerified: true });
+      expect(verifyAuthenticationResponse).toHaveBeenCalledWith(
+        expect.objectContaining({
+          credential: expect.objectContaining({ id: 'cred-abc', counter: 4 }),
+        }),
+      );
+      expect(repository.update).toHaveBeenCalledWith(
+        'credential-1',
+        expect.objectContaining({ counter: 5 }),
+      );
+    });
+
+    it('should accept each challenge only once', async () => {
+      await service.authenticate(assertion());
+
+      await expect(service.authenticate(assertion())).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+
+    it('should reject an unknown credential', async () => {
+      repository.findOne.mockResolvedValue(null);
+
+      await expect(service.authenticate(assertion())).rejects.toThrow(
+        'Unknown passkey',
+      );
+    });
+
+    it('should reject a user handle that does not match the credential', async () => {
+      await expect(
+        service.authenticate(
+          assertion(Buffer.from('user-2').toString('base64url')),
+        ),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(verifyAuthenticationResponse).not.toHaveBeenCalled();
+    });
+
+    it('should reject assertions the library refuses', async () => {
+      (verifyAuthenticationResponse as jest.Mock).mockRejectedValue(
+        new Error('Response counter value 3 was lower than expected 4'),
+      );
+
+      await expect(service.authenticate(assertion())).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(repository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('remove', () => {
+    it('should only delete credentials of the user', async () => {
+      repository.delete.mockResolvedValue({ affected: 0 });
+
+      await expect(service.remove('user-2', 'credential-1')).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(repository.delete).toHaveBeenCalledWith({
+        id: 'credential-1',
+        userId: 'user-2',
+      });
+    });
+  });
+});
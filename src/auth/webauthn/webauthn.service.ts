@@ -0,0 +1,335 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  ServiceUnavailableException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import {
+  generateAuthenticationOptions,
+  generateRegistrationOptions,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+} from '@simplewebauthn/server';
+import type {
+  AuthenticationResponseJSON,
+  PublicKeyCredentialCreationOptionsJSON,
+  PublicKeyCredentialRequestOptionsJSON,
+  RegistrationResponseJSON,
+} from '@simplewebauthn/server';
+import { RedisService } from '../../redis/redis.service';
+import { UsersService } from '../users/users.service';
+import { User } from '../users/user.entity';
+import { WebAuthnCredential } from './webauthn-credential.entity';
+import { parseExpiryToSeconds } from '../../common/utils/expiry.util';
+
+type Ceremony = 'registration' | 'authentication';
+
+export type WebAuthnCredentialView = Pick<
+  WebAuthnCredential,
+  | 'id'
+  | 'name'
+  | 'deviceType'
+  | 'backedUp'
+  | 'transports'
+  | 'lastUsedAt'
+  | 'createdAt'
+>;
+
+export interface PasskeyAuthentication {
+  user: User;
+  // Whether the authenticator checked a PIN or biometric
+  userVerified: boolean;
+}
+
+/**
+ * Registration and authentication ceremonies for passkeys and security keys.
+ *
+ * Every ceremony starts with a random challenge that the authenticator signs.
+ * Challenges are kept in Redis for WEBAUTHN_CHALLENGE_EXPIRES_IN and deleted
+ * when checked, so a signed response can only be used once. Passkeys are
+ * registered as discoverable credentials, which lets users sign in without
+ * typing their email.
+ *
+ * Layout:
+ *  - webauthn_challenge:registration:<userId>        pending challenge
+ *  - webauthn_challenge:authentication:<challenge>   present while valid
+ */
+@Injectable()
+export class WebAuthnService {
+  private readonly logger = new Logger(WebAuthnService.name);
+  private readonly rpId: string;
+  private readonly rpName: string;
+  private readonly origins: string[];
+  private readonly challengeTtl: number;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly redisService: RedisService,
+    private readonly usersService: UsersService,
+    @InjectRepository(WebAuthnCredential)
+    private readonly credentialRepository: Repository<WebAuthnCredential>,
+  ) {
+    this.rpId = this.configService.get<string>('WEBAUTHN_RP_ID', 'localhost');
+    this.rpName = this.configService.get<string>(
+      'WEBAUTHN_RP_NAME',
+      'High-Scale API',
+    );
+    this.origins = this.configService
+      .get<string>('WEBAUTHN_ORIGINS', 'http://localhost:3000')
+      .split(',')
+      .map((origin) => origin.trim())
+      .filter(Boolean);
+    this.challengeTtl = parseExpiryToSeconds(
+      this.configService.get<string>('WEBAUTHN_CHALLENGE_EXPIRES_IN', '5m'),
+    );
+  }
+
+  async createRegistrationOptions(user: {
+    id: string;
+    email: string;
+  }): Promise<PublicKeyCredentialCreationOptionsJSON> {
+    const existing = await this.credentialRepository.find({
+      where: { userId: user.id },
+    });
+
+    const options = await generateRegistrationOptions({
+      rpName: this.rpName,
+      rpID: this.rpId,
+      userName: user.email,
+      userID: Buffer.from(user.id),
+      attestationType: 'none',
+      // Stops the same authenticator from being registered twice
+      excludeCredentials: existing.map((credential) => ({
+        id: credential.credentialId,
+        transports: credential.transports,
+      })),
+      authenticatorSelection: {
+        residentKey: 'required',
+        userVerification: 'preferred',
+      },
+      timeout: this.challengeTtl * 1000,
+    });
+
+    await this.storeChallenge('registration', user.id, options.challenge);
+    return options;
+  }
+
+  async register(
+    userId: string,
+    response: RegistrationResponseJSON,
+    name?: string,
+  ): Promise<WebAuthnCredentialView> {
+    const expectedChallenge = await this.consumeChallenge(
+      'registration',
+      userId,
+    );
+    if (!expectedChallenge) {
+      throw new BadRequestException(
+        'No passkey registration in progress, request new options',
+      );
+    }
+
+    let verification: Awaited<ReturnType<typeof verifyRegistrationResponse>>;
+    try {
+      verification = await verifyRegistrationResponse({
+        response,
+        expectedChallenge,
+        expectedOrigin: this.origins,
+        expectedRPID: this.rpId,
+        requireUserVerification: false,
+      });
+    } catch (error) {
+      throw new BadRequestException(
+        `Passkey registration failed: ${error.message}`,
+      );
+    }
+    if (!verification.verified) {
+      throw new BadRequestException('Passkey registration failed');
+    }
+
+    const { credential, credentialDeviceType, credentialBackedUp } =
+      verification.registrationInfo;
+
+    const duplicate = await this.credentialRepository.findOne({
+      where: { credentialId: credential.id },
+    });
+    if (duplicate) {
+      throw new ConflictException('This passkey is already registered');
+    }
+
+    const saved = await this.credentialRepository.save(
+      this.credentialRepository.create({
+        userId,
+        credentialId: credential.id,
+        publicKey: Buffer.from(credential.publicKey),
+        counter: credential.counter,
+        transports: credential.transports ?? [],
+        name: name?.trim() || 'Passkey',
+        deviceType: credentialDeviceType,
+        backedUp: credentialBackedUp,
+      }),
+    );
+
+    this.logger.log(`User ${userId} registered passkey ${saved.id}`);
+    return this.toView(saved);
+  }
+
+  async createAuthenticationOptions(): Promise<PublicKeyCredentialRequestOptionsJSON> {
+    // No allowCredentials: the authenticator offers its discoverable passkeys
+    const options = await generateAuthenticationOptions({
+      rpID: this.rpId,
+      userVerification: 'preferred',
+      timeout: this.challengeTtl * 1000,
+    });
+
+    await this.storeChallenge('authentication', options.challenge, '1');
+    return options;
+  }
+
+  /**
+   * Verify a signed assertion and return the user it belongs to
+   */
+  async authenticate(
+    response: AuthenticationResponseJSON,
+  ): Promise<PasskeyAuthentication> {
+    const credential = await this.credentialRepository.findOne({
+      where: { credentialId: response.id },
+    });
+    if (!credential) {
+      throw new UnauthorizedException('Unknown passkey');
+    }
+
+    // Discoverable credentials name the user they were created for
+    const userHandle = response.response.userHandle;
+    if (
+      userHandle &&
+      Buffer.from(userHandle, 'base64url').toString('utf8') !==
+        credential.userId
+    ) {
+      throw new UnauthorizedException('Passkey verification failed');
+    }
+
+    let verification: Awaited<ReturnType<typeof verifyAuthenticationResponse>>;
+    try {
+      verification = await verifyAuthenticationResponse({
+        response,
+        expectedChallenge: (challenge) =>
+          this.consumeChallenge('authentication', challenge).then(
+            (value) => value !== null,
+          ),
+        expectedOrigin: this.origins,
+        expectedRPID: this.rpId,
+        credential: {
+          id: credential.credentialId,
+          publicKey: new Uint8Array(credential.publicKey),
+          counter: credential.counter,
+          transports: credential.transports,
+        },
+        requireUserVerification: false,
+      });
+    } catch (error) {
+      this.logger.warn(
+        `Passkey ${credential.id} assertion rejected: ${error.message}`,
+      );
+      throw new UnauthorizedException('Passkey verification failed');
+    }
+    if (!verification.verified) {
+      throw new UnauthorizedException('Passkey verification failed');
+    }
+
+    const user = await this.usersService.findById(credential.userId);
+    if (!user) {
+      throw new UnauthorizedException('Passkey verification failed');
+    }
+
+    const { newCounter, userVerified, credentialBackedUp } =
+      verification.authenticationInfo;
+    await this.credentialRepository.update(credential.id, {
+      counter: newCounter,
+      backedUp: credentialBackedUp,
+      lastUsedAt: new Date(),
+    });
+
+    return { user, userVerified };
+  }
+
+  async list(userId: string): Promise<WebAuthnCredentialView[]> {
+    const credentials = await this.credentialRepository.find({
+      where: { userId },
+      order: { createdAt: 'ASC' },
+    });
+    return credentials.map((credential) => this.toView(credential));
+  }
+
+  async remove(userId: string, id: string): Promise<void> {
+    const result = await this.credentialRepository.delete({ id, userId });
+    if (!result.affected) {
+      throw new NotFoundException('Passkey not found');
+    }
+    this.logger.log(`User ${userId} removed passkey ${id}`);
+  }
+
+  toView(credential: WebAuthnCredential): WebAuthnCredentialView {
+    return {
+      id: credential.id,
+      name: credential.name,
+      deviceType: credential.deviceType,
+      backedUp: credential.backedUp,
+      transports: credential.transports,
+      lastUsedAt: credential.lastUsedAt,
+      createdAt: credential.createdAt,
+    };
+  }
+
+  private async storeChallenge(
+    ceremony: Ceremony,
+    id: string,
+    value: string,
+  ): Promise<void> {
+    const stored = await this.redisService.set(
+      this.challengeKey(ceremony, id),
+      value,
+      this.challengeTtl,
+    );
+    if (!stored) {
+      throw new ServiceUnavailableException('Unable to start passkey ceremony');
+    }
+  }
+
+  private async consumeChallenge(
+    ceremony: Ceremony,
+    id: string,
+  ): Promise<string | null> {
+    if (!this.redisService.isHealthy()) {
+      return null;
+    }
+
+    try {
+      const luaScript = `
+        local value = redis.call('GET', KEYS[1])
+        if value then
+          redis.call('DEL', KEYS[1])
+        end
+        return value
+      `;
+      return (await this.redisService
+        .getClient()
+        .eval(luaScript, 1, this.challengeKey(ceremony, id))) as string | null;
+    } catch (error) {
+      this.logger.error(
+        `Failed to consume ${ceremony} challenge: ${error.message}`,
+      );
+      return null;
+    }
+  }
+
+  private challengeKey(ceremony: Ceremony, id: string): string {
+    return `webauthn_challenge:${ceremony}:${id}`;
+  }
+}
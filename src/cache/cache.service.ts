@@ -2,6 +2,7 @@ import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { RedisService } from '../redis/redis.service';
 import { MetricsService } from '../observability/metrics.service';
+import { TenantContext } from '../common/tenancy/tenant-context';
 
 export interface CacheOptions {
   ttl?: number; // Time to live in seconds
@@ -9,6 +10,11 @@ export interface CacheOptions {
   namespace?: string; // Cache namespace
 }
 
+/**
+ * Redis-backed cache. Inside a request acting for an organization, keys are
+ * stored under `cache:org:<orgId>:` so tenants never read each other's
+ * entries; tags stay global, so invalidating a tag reaches every tenant.
+ */
 @Injectable()
 export class CacheService {
   private readonly logger = new Logger(CacheService.name);
@@ -18,6 +24,7 @@ export class CacheService {
     private readonly redisService: RedisService,
     private readonly metricsService: MetricsService,
     private readonly configService: ConfigService,
+    private readonly tenantContext: TenantContext,
   ) {
     this.defaultTtl = this.configService.get<number>('REDIS_TTL', 3600);
   }
@@ -147,7 +154,9 @@ export class CacheService {
     }
 
     try {
-      const pattern = namespace ? `cache:${namespace}:*` : 'cache:*';
+      const pattern = namespace
+        ? `${this.keyPrefix()}${namespace}:*`
+        : `${this.keyPrefix()}*`;
 
       const keys = await this.redisService.getClient().keys(pattern);
 
@@ -288,8 +297,13 @@ export class CacheService {
   }
 
   private buildKey(key: string, namespace?: string): string {
-    const prefix = namespace ? `cache:${namespace}:${key}` : `cache:${key}`;
-    return prefix;
+    const prefix = this.keyPrefix();
+    return namespace ? `${prefix}${namespace}:${key}` : `${prefix}${key}`;
+  }
+
+  private keyPrefix(): string {
+    const orgId = this.tenantContext.getOrgId();
+    return orgId ? `cache:org:${orgId}:` : 'cache:';
   }
 
   private async storeCacheTags(
@@ -0,0 +1,15 @@
+export const CLOCK = 'CLOCK';
+
+/**
+ * Source of the current time. Inject it with @Inject(CLOCK) instead of
+ * calling Date.now() where tests need to control time.
+ */
+export interface Clock {
+  now(): number; // milliseconds since epoch
+}
+
+export class SystemClock implements Clock {
+  now(): number {
+    return Date.now();
+  }
+}
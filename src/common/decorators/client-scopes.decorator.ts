@@ -0,0 +1,9 @@
+import { SetMetadata } from '@nestjs/common';
+import { CLIENT_SCOPES_KEY } from '../../auth/guards/roles.guard';
+
+/**
+ * Let OAuth client tokens carrying all of these scopes reach a route that
+ * requires no permissions. Without it such routes are for user sessions only.
+ */
+export const ClientScopes = (...scopes: string[]) =>
+  SetMetadata(CLIENT_SCOPES_KEY, scopes);
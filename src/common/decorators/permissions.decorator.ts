@@ -0,0 +1,5 @@
+import { SetMetadata } from '@nestjs/common';
+import { PERMISSIONS_KEY } from '../../auth/guards/roles.guard';
+
+export const Permissions = (...permissions: string[]) =>
+  SetMetadata(PERMISSIONS_KEY, permissions);
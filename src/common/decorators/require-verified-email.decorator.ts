@@ -0,0 +1,5 @@
+import { SetMetadata } from '@nestjs/common';
+import { REQUIRE_VERIFIED_EMAIL_KEY } from '../../auth/guards/email-verified.guard';
+
+export const RequireVerifiedEmail = () =>
+  SetMetadata(REQUIRE_VERIFIED_EMAIL_KEY, true);
@@ -0,0 +1,4 @@
+import { SetMetadata } from '@nestjs/common';
+import { ROLES_KEY } from '../../auth/guards/roles.guard';
+
+export const Roles = (...roles: string[]) => SetMetadata(ROLES_KEY, roles);
@@ -26,12 +26,19 @@ export class HttpExceptionFilter implements ExceptionFilter {
         ? exception.getResponse()
         : 'Internal server error';
 
+    // Structured details such as retryAfter or policy violations are kept
+    const body: Record<string, any> =
+      typeof message === 'string' ? {} : message;
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { statusCode, error, message: text, ...details } = body;
+
     const errorResponse = {
       statusCode: status,
       timestamp: new Date().toISOString(),
       path: request.url,
       method: request.method,
       message: typeof message === 'string' ? message : (message as any).message,
+      ...details,
     };
 
     if (status >= 500) {
@@ -0,0 +1,27 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import { Observable } from 'rxjs';
+import { TenantContext } from './tenant-context';
+
+/**
+ * Runs the handler inside the tenant context of the request. The tenant
+ * itself is resolved earlier, by TenantGuard, onto request.tenant.
+ */
+@Injectable()
+export class TenantContextInterceptor implements NestInterceptor {
+  constructor(private readonly tenantContext: TenantContext) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+    const request = context.switchToHttp().getRequest();
+
+    return new Observable((subscriber) =>
+      this.tenantContext.run(request.tenant ?? null, () =>
+        next.handle().subscribe(subscriber),
+      ),
+    );
+  }
+}
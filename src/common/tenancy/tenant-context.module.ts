@@ -0,0 +1,14 @@
+import { Global, Module } from '@nestjs/common';
+import { APP_INTERCEPTOR } from '@nestjs/core';
+import { TenantContext } from './tenant-context';
+import { TenantContextInterceptor } from './tenant-context.interceptor';
+
+@Global()
+@Module({
+  providers: [
+    TenantContext,
+    { provide: APP_INTERCEPTOR, useClass: TenantContextInterceptor },
+  ],
+  exports: [TenantContext],
+})
+export class TenantContextModule {}
@@ -0,0 +1,34 @@
+import { Injectable } from '@nestjs/common';
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * The organization a request acts for, once the caller's membership in it
+ * has been checked
+ */
+export interface Tenant {
+  orgId: string;
+  role: string; // the caller's role in the organization
+}
+
+/**
+ * Gives services the tenant of the current request without passing it down
+ * every call. TenantContextInterceptor runs each handler inside run(), so
+ * anything the handler awaits sees the same tenant; outside a request (jobs,
+ * listeners) there is none.
+ */
+@Injectable()
+export class TenantContext {
+  private readonly storage = new AsyncLocalStorage<Tenant | null>();
+
+  run<T>(tenant: Tenant | null, callback: () => T): T {
+    return this.storage.run(tenant, callback);
+  }
+
+  get(): Tenant | null {
+    return this.storage.getStore() ?? null;
+  }
+
+  getOrgId(): string | null {
+    return this.get()?.orgId ?? null;
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * Convert a compact duration string (e.g. "15m", "7d") to seconds.
+ * Falls back to 15 minutes for values that cannot be parsed.
+ */
+export function parseExpiryToSeconds(expiry: string): number {
+  const match = expiry.match(/^(\d+)([smhd])$/);
+  if (!match) return 900; // default 15 minutes
+
+  const [, value, unit] = match;
+  const num = parseInt(value, 10);
+
+  switch (unit) {
+    case 's':
+      return num;
+    case 'm':
+      return num * 60;
+    case 'h':
+      return num * 3600;
+    case 'd':
+      return num * 86400;
+    default:
+      return 900;
+  }
+}
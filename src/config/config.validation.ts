@@ -22,15 +22,136 @@ export const configValidationSchema = Joi.object({
   REDIS_TTL: Joi.number().default(3600),
 
   // JWT
-  JWT_SECRET: Joi.string().required(),
+  JWT_ALGORITHM: Joi.string().valid('HS256', 'RS256', 'ES256').default('HS256'),
+  JWT_SECRET: Joi.string().when('JWT_ALGORITHM', {
+    is: 'HS256',
+    then: Joi.required(),
+    otherwise: Joi.optional(),
+  }),
+  JWT_KEYS_DIR: Joi.string().optional(),
+  JWT_KEYS: Joi.string().optional(),
+  JWT_ACTIVE_KID: Joi.string().optional(),
   JWT_EXPIRES_IN: Joi.string().default('15m'),
   JWT_REFRESH_SECRET: Joi.string().required(),
   JWT_REFRESH_EXPIRES_IN: Joi.string().default('7d'),
 
+  // Login lockout
+  LOGIN_MAX_FAILURES: Joi.number().integer().min(1).default(5),
+  LOGIN_MAX_FAILURES_PER_IP: Joi.number().integer().min(1).default(50),
+  LOGIN_FAILURE_WINDOW: Joi.string().default('15m'),
+  LOGIN_LOCKOUT_DURATION: Joi.string().default('15m'),
+  LOGIN_DELAY_BASE_MS: Joi.number().integer().min(0).default(250),
+  LOGIN_DELAY_MAX_MS: Joi.number().integer().min(0).default(4000),
+
+  // Two-factor authentication
+  TWO_FACTOR_ISSUER: Joi.string().default('High-Scale API'),
+  TWO_FACTOR_CHALLENGE_EXPIRES_IN: Joi.string().default('5m'),
+
+  // Social login (OAuth2 / OpenID Connect)
+  OAUTH_CALLBACK_BASE_URL: Joi.string().uri().default('http://localhost:3000'),
+  OAUTH_STATE_EXPIRES_IN: Joi.string().default('10m'),
+  OAUTH_GOOGLE_CLIENT_ID: Joi.string().optional(),
+  OAUTH_GOOGLE_CLIENT_SECRET: Joi.string().optional(),
+  OAUTH_GITHUB_CLIENT_ID: Joi.string().optional(),
+  OAUTH_GITHUB_CLIENT_SECRET: Joi.string().optional(),
+  OAUTH_OIDC_ISSUER: Joi.string().uri().optional(),
+  OAUTH_OIDC_NAME: Joi.string()
+    .pattern(/^[a-z0-9-]+$/)
+    .default('oidc'),
+  OAUTH_OIDC_CLIENT_ID: Joi.string().when('OAUTH_OIDC_ISSUER', {
+    is: Joi.exist(),
+    then: Joi.required(),
+    otherwise: Joi.optional(),
+  }),
+  OAUTH_OIDC_CLIENT_SECRET: Joi.string().allow('').optional(),
+  OAUTH_OIDC_SCOPES: Joi.string().default('openid email profile'),
+
+  // OAuth2 / OIDC authorization server
+  OAUTH_SERVER_ISSUER: Joi.string().uri().default('http://localhost:3000'),
+  OAUTH_SERVER_CONSENT_URL: Joi.string()
+    .uri()
+    .default('http://localhost:3000/oauth/consent'),
+  OAUTH_AUTHORIZATION_CODE_EXPIRES_IN: Joi.string().default('1m'),
+
+  // Password policy
+  PASSWORD_MIN_LENGTH: Joi.number().integer().min(1).default(8),
+  PASSWORD_MAX_LENGTH: Joi.number().integer().min(1).default(128),
+  PASSWORD_REQUIRE_UPPERCASE: Joi.boolean().default(false),
+  PASSWORD_REQUIRE_LOWERCASE: Joi.boolean().default(false),
+  PASSWORD_REQUIRE_DIGIT: Joi.boolean().default(false),
+  PASSWORD_REQUIRE_SYMBOL: Joi.boolean().default(false),
+  PASSWORD_BLOCKLIST: Joi.string().allow('').default(''),
+  PASSWORD_BREACH_RANGES_DIR: Joi.string().optional(),
+  PASSWORD_BREACH_MIN_COUNT: Joi.number().integer().min(1).default(1),
+
+  // Password hashing
+  PASSWORD_HASH_ALGORITHM: Joi.string()
+    .valid('bcrypt', 'argon2id')
+    .default('bcrypt'),
+  BCRYPT_COST: Joi.number().integer().min(4).max(31).default(10),
+  ARGON2_MEMORY_COST: Joi.number().integer().min(1024).default(19456),
+  ARGON2_TIME_COST: Joi.number().integer().min(1).default(2),
+  ARGON2_PARALLELISM: Joi.number().integer().min(1).default(1),
+
+  // Password reset
+  PASSWORD_RESET_EXPIRES_IN: Joi.string().default('1h'),
+  PASSWORD_RESET_URL: Joi.string()
+    .uri()
+    .default('http://localhost:3000/reset-password'),
+
+  // Email verification
+  EMAIL_VERIFICATION_EXPIRES_IN: Joi.string().default('24h'),
+  EMAIL_VERIFICATION_URL: Joi.string()
+    .uri()
+    .default('http://localhost:3000/verify-email'),
+  EMAIL_CHANGE_URL: Joi.string()
+    .uri()
+    .default('http://localhost:3000/confirm-email-change'),
+
+  // Personal data
+  DATA_EXPORT_EXPIRES_IN: Joi.string().default('7d'),
+  ACCOUNT_ERASURE_GRACE_PERIOD: Joi.string().default('30d'),
+
+  // Organizations
+  ORG_INVITE_EXPIRES_IN: Joi.string().default('7d'),
+  ORG_INVITE_URL: Joi.string()
+    .uri()
+    .default('http://localhost:3000/accept-invite'),
+
+  // Passkeys (WebAuthn)
+  WEBAUTHN_RP_ID: Joi.string().default('localhost'),
+  WEBAUTHN_RP_NAME: Joi.string().default('High-Scale API'),
+  WEBAUTHN_ORIGINS: Joi.string().default('http://localhost:3000'),
+  WEBAUTHN_CHALLENGE_EXPIRES_IN: Joi.string().default('5m'),
+
+  // Passwordless sign-in
+  MAGIC_LINK_EXPIRES_IN: Joi.string().default('15m'),
+  MAGIC_LINK_URL: Joi.string()
+    .uri()
+    .default('http://localhost:3000/magic-link'),
+  MAGIC_LINK_MAX_ATTEMPTS: Joi.number().integer().min(1).default(5),
+
+  // Mail
+  MAIL_TRANSPORT: Joi.string()
+    .valid('console', 'file', 'smtp')
+    .default('console'),
+  MAIL_FROM: Joi.string().default('no-reply@localhost'),
+  MAIL_FILE_DIR: Joi.string().default('./tmp/mail'),
+  SMTP_HOST: Joi.string().when('MAIL_TRANSPORT', {
+    is: 'smtp',
+    then: Joi.required(),
+    otherwise: Joi.optional(),
+  }),
+  SMTP_PORT: Joi.number().default(587),
+  SMTP_SECURE: Joi.boolean().default(false),
+  SMTP_USER: Joi.string().optional(),
+  SMTP_PASSWORD: Joi.string().allow('').optional(),
+
   // Rate Limiting
   RATE_LIMIT_TTL: Joi.number().default(60),
   RATE_LIMIT_MAX: Joi.number().default(100),
   RATE_LIMIT_SKIP_IF_REDIS_DOWN: Joi.boolean().default(true),
+  PLAN_CACHE_TTL: Joi.string().default('5m'),
 
   // Observability
   LOG_LEVEL: Joi.string()
@@ -71,12 +71,23 @@ export class IdempotencyInterceptor implements NestInterceptor {
   }
 
   private getIdentifier(request: any): string {
-    const apiKey = request.headers['x-api-key'] as string;
-    if (apiKey) return `api_key:${apiKey}`;
+    // The same key sent for two organizations is two different requests
+    const orgId = request.tenant?.orgId;
+    const callerId = this.getCallerId(request);
+    return orgId ? `org:${orgId}:${callerId}` : callerId;
+  }
+
+  private getCallerId(request: any): string {
+    // Use the key authenticated by the auth guard, never the raw header
+    const apiKeyId = request.user?.apiKeyId;
+    if (apiKeyId) return `api_key:${apiKeyId}`;
 
     const userId = request.user?.id;
     if (userId) return `user:${userId}`;
 
+    const clientId = request.user?.clientId;
+    if (clientId) return `client:${clientId}`;
+
     return `ip:${request.ip || 'unknown'}`;
   }
 }
@@ -0,0 +1,20 @@
+export const MAIL_TRANSPORT = 'MAIL_TRANSPORT';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface OutgoingMail extends MailMessage {
+  from: string;
+}
+
+/**
+ * Delivers a fully addressed message. Implementations are selected with
+ * MAIL_TRANSPORT so that development and tests never need an SMTP server.
+ */
+export interface MailTransport {
+  send(mail: OutgoingMail): Promise<void>;
+}
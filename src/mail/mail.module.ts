@@ -0,0 +1,37 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MailService } from './mail.service';
+import { MAIL_TRANSPORT, MailTransport } from './mail-transport.interface';
+import { ConsoleMailTransport } from './transports/console.transport';
+import { FileMailTransport } from './transports/file.transport';
+import { SmtpMailTransport } from './transports/smtp.transport';
+
+@Module({
+  providers: [
+    MailService,
+    {
+      provide: MAIL_TRANSPORT,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService): MailTransport => {
+        switch (configService.get<string>('MAIL_TRANSPORT', 'console')) {
+          case 'smtp':
+            return new SmtpMailTransport({
+              host: configService.get<string>('SMTP_HOST', 'localhost'),
+              port: configService.get<number>('SMTP_PORT', 587),
+              secure: configService.get<boolean>('SMTP_SECURE', false),
+              user: configService.get<string>('SMTP_USER'),
+              password: configService.get<string>('SMTP_PASSWORD'),
+            });
+          case 'file':
+            return new FileMailTransport(
+              configService.get<string>('MAIL_FILE_DIR', './tmp/mail'),
+            );
+          default:
+            return new ConsoleMailTransport();
+        }
+      },
+    },
+  ],
+  exports: [MailService],
+})
+export class MailModule {}
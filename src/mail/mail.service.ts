@@ -0,0 +1,31 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MAIL_TRANSPORT, MailMessage } from './mail-transport.interface';
+import type { MailTransport } from './mail-transport.interface';
+
+@Injectable()
+export class MailService {
+  private readonly logger = new Logger(MailService.name);
+  private readonly from: string;
+
+  constructor(
+    @Inject(MAIL_TRANSPORT) private readonly transport: MailTransport,
+    private readonly configService: ConfigService,
+  ) {
+    this.from = this.configService.get<string>(
+      'MAIL_FROM',
+      'no-reply@localhost',
+    );
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    try {
+      await this.transport.send({ ...message, from: this.from });
+    } catch (error) {
+      this.logger.error(
+        `Failed to send "${message.subject}" to ${message.to}: ${error.message}`,
+      );
+      throw error;
+    }
+  }
+}
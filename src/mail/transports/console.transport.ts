@@ -0,0 +1,16 @@
+import { Logger } from '@nestjs/common';
+import { MailTransport, OutgoingMail } from '../mail-transport.interface';
+
+/**
+ * Writes messages to the application log instead of sending them
+ */
+export class ConsoleMailTransport implements MailTransport {
+  private readonly logger = new Logger(ConsoleMailTransport.name);
+
+  send(mail: OutgoingMail): Promise<void> {
+    this.logger.log(
+      `Mail to ${mail.to} from ${mail.from}: ${mail.subject}\n${mail.text}`,
+    );
+    return Promise.resolve();
+  }
+}
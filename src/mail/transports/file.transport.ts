@@ -0,0 +1,29 @@
+import { Logger } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { MailTransport, OutgoingMail } from '../mail-transport.interface';
+
+/**
+ * Stores each message as `<timestamp>-<id>.json` in a directory so that
+ * tests and local tooling can read what would have been sent
+ */
+export class FileMailTransport implements MailTransport {
+  private readonly logger = new Logger(FileMailTransport.name);
+
+  constructor(private readonly directory: string) {}
+
+  async send(mail: OutgoingMail): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const file = path.join(
+      this.directory,
+      `${Date.now()}-${randomUUID()}.json`,
+    );
+    await fs.writeFile(
+      file,
+      JSON.stringify({ ...mail, sentAt: new Date().toISOString() }, null, 2),
+    );
+    this.logger.debug(`Mail to ${mail.to} written to ${file}`);
+  }
+}
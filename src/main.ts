@@ -41,6 +41,10 @@ async function bootstrap() {
     credentials: true,
   });
 
+  // OAuth token and introspection requests are form-encoded
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  await app.register(require('@fastify/formbody'));
+
   // API Versioning
   app.enableVersioning({
     type: VersioningType.URI,
@@ -100,6 +104,11 @@ async function bootstrap() {
       'api-key',
     )
     .addTag('auth', 'Authentication endpoints')
+    .addTag('users', 'Profile and account self-service')
+    .addTag('api-keys', 'API key management')
+    .addTag('organizations', 'Organizations, members and invitations')
+    .addTag('admin', 'Administrative endpoints')
+    .addTag('oauth', 'OAuth2 / OpenID Connect authorization server')
     .addTag('health', 'Health check and monitoring')
     .addTag('api', 'API endpoints')
     .addServer(
@@ -16,6 +16,11 @@ export class MetricsService {
   private readonly cacheMisses: Counter<string>;
   private readonly rateLimitHits: Counter<string>;
 
+  // Security Metrics
+  private readonly securityEvents: Counter<string>;
+  private readonly loginFailures: Counter<string>;
+  private readonly loginLockouts: Counter<string>;
+
   constructor() {
     this.registry = new Registry();
 
@@ -74,6 +79,27 @@ export class MetricsService {
       labelNames: ['identifier', 'limit_type'],
       registers: [this.registry],
     });
+
+    // Security Event Metrics
+    this.securityEvents = new Counter({
+      name: 'security_events_total',
+      help: 'Total number of security events',
+      labelNames: ['event'],
+      registers: [this.registry],
+    });
+
+    this.loginFailures = new Counter({
+      name: 'login_failures_total',
+      help: 'Total number of failed password logins',
+      registers: [this.registry],
+    });
+
+    this.loginLockouts = new Counter({
+      name: 'login_lockouts_total',
+      help: 'Total number of login lockouts applied and lifted',
+      labelNames: ['scope', 'action'],
+      registers: [this.registry],
+    });
   }
 
   recordHttpRequest(
@@ -113,6 +139,22 @@ export class MetricsService {
     this.rateLimitHits.inc({ identifier, limit_type: limitType });
   }
 
+  recordSecurityEvent(event: string) {
+    this.securityEvents.inc({ event });
+  }
+
+  recordLoginFailure() {
+    this.loginFailures.inc();
+  }
+
+  /**
+   * @param scope 'account' or 'ip'
+   * @param action 'lock' or 'unlock'
+   */
+  recordLoginLockout(scope: string, action: string) {
+    this.loginLockouts.inc({ scope, action });
+  }
+
   async getMetrics(): Promise<string> {
     return this.registry.metrics();
   }
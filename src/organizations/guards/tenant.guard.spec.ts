@@ -0,0 +1,97 @@
+import {
+  BadRequestException,
+  ExecutionContext,
+  ForbiddenException,
+} from '@nestjs/common';
+import { TenantGuard } from './tenant.guard';
+import { OrganizationsService } from '../organizations.service';
+
+const ORG_ID = '6f1c3a52-8e4b-4f0d-9a57-2b8f1d3c4e5a';
+
+describe('TenantGuard', () => {
+  let guard: TenantGuard;
+  let organizationsService: { findMembership: jest.Mock };
+
+  const createRequest = (user?: any, orgHeader?: string) => ({
+    user,
+    headers: orgHeader ? { 'x-org-id': orgHeader } : {},
+  });
+
+  const createContext = (request: any): ExecutionContext =>
+    ({
+      switchToHttp: () => ({
+        getRequest: () => request,
+      }),
+    }) as unknown as ExecutionContext;
+
+  beforeEach(() => {
+    organizationsService = {
+      findMembership: jest.fn().mockResolvedValue({ role: 'admin' }),
+    };
+    guard = new TenantGuard(
+      organizationsService as unknown as OrganizationsService,
+    );
+  });
+
+  it('should leave requests without an organization alone', async () => {
+    const request = createRequest({ id: 'user-1' });
+
+    await expect(guard.canActivate(createContext(request))).resolves.toBe(true);
+    expect(request).not.toHaveProperty('tenant');
+    expect(organizationsService.findMembership).not.toHaveBeenCalled();
+  });
+
+  it('should take the organization from the header', async () => {
+    const request = createRequest({ id: 'user-1' }, ORG_ID);
+
+    await guard.canActivate(createContext(request));
+
+    expect(organizationsService.findMembership).toHaveBeenCalledWith(
+      ORG_ID,
+      'user-1',
+    );
+    expect(request).toHaveProperty('tenant', { orgId: ORG_ID, role: 'admin' });
+  });
+
+  it('should fall back to the org_id claim', async () => {
+    const request = createRequest({ id: 'user-1', orgId: ORG_ID });
+
+    await guard.canActivate(createContext(request));
+
+    expect(request).toHaveProperty('tenant', { orgId: ORG_ID, role: 'admin' });
+  });
+
+  it('should refuse a header naming an organization the user is not in', async () => {
+    organizationsService.findMembership.mockResolvedValueOnce(null);
+
+    await expect(
+      guard.canActivate(createContext(createRequest({ id: 'user-1' }, ORG_ID))),
+    ).rejects.toThrow(
+      new ForbiddenException('Not a member of this organization'),
+    );
+  });
+
+  it('should ignore a claim for an organization the user has left', async () => {
+    organizationsService.findMembership.mockResolvedValueOnce(null);
+    const request = createRequest({ id: 'user-1', orgId: ORG_ID });
+
+    await expect(guard.canActivate(createContext(request))).resolves.toBe(true);
+    expect(request).not.toHaveProperty('tenant');
+  });
+
+  it('should reject a malformed header', async () => {
+    await expect(
+      guard.canActivate(
+        createContext(createRequest({ id: 'user-1' }, 'not-a-uuid')),
+      ),
+    ).rejects.toThrow(new BadRequestException('Invalid X-Org-Id header'));
+  });
+
+  it('should refuse the header from OAuth clients', async () => {
+    await expect(
+      guard.canActivate(
+        createContext(createRequest({ clientId: 'client-1' }, ORG_ID)),
+      ),
+    ).rejects.toThrow(ForbiddenException);
+  });
+});
@@ -0,0 +1,61 @@
+import {
+  BadRequestException,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { isUUID } from 'class-validator';
+import { OrganizationsService } from '../organizations.service';
+import { ORG_ID_HEADER } from '../organizations.constants';
+
+/**
+ * Resolves the organization a request acts for onto request.tenant: the
+ * X-Org-Id header if sent, otherwise the org_id claim of the access token.
+ * Either way the caller's membership is checked on every request, so removed
+ * members lose access at once even with a token that names the organization;
+ * such a stale claim is ignored, while a header naming it is refused.
+ *
+ * Requests without an organization, and anonymous or OAuth client requests,
+ * carry no tenant. Must run after JwtAuthGuard.
+ */
+@Injectable()
+export class TenantGuard implements CanActivate {
+  constructor(private readonly organizationsService: OrganizationsService) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest();
+    const header = request.headers[ORG_ID_HEADER] as string | undefined;
+    const userId: string | undefined = request.user?.id;
+
+    if (!userId) {
+      if (header && request.user) {
+        throw new ForbiddenException('Only users can act for an organization');
+      }
+      return true;
+    }
+
+    const orgId: string | undefined = header ?? request.user.orgId;
+    if (!orgId) {
+      return true;
+    }
+    if (header && !isUUID(header)) {
+      throw new BadRequestException('Invalid X-Org-Id header');
+    }
+
+    const membership = await this.organizationsService.findMembership(
+      orgId,
+      userId,
+    );
+    if (!membership) {
+      // A stale claim is dropped; only an explicit header is an error
+      if (header) {
+        throw new ForbiddenException('Not a member of this organization');
+      }
+      return true;
+    }
+
+    request.tenant = { orgId, role: membership.role };
+    return true;
+  }
+}
@@ -0,0 +1,44 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../auth/users/user.entity';
+import { Organization } from './organization.entity';
+import type { OrgRole } from './organizations.constants';
+
+/**
+ * A user's place in an organization. Roles here only apply within the
+ * organization and are independent of the global user roles.
+ */
+@Entity('memberships')
+@Index(['organizationId', 'userId'], { unique: true })
+export class Membership {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  organizationId: string;
+
+  @ManyToOne(() => Organization, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organizationId' })
+  organization: Organization;
+
+  @Index()
+  @Column({ type: 'uuid' })
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Column({ type: 'varchar', length: 20 })
+  role: OrgRole;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,55 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../auth/users/user.entity';
+import { Organization } from './organization.entity';
+import type { OrgRole } from './organizations.constants';
+
+/**
+ * Pending invitation, deleted once accepted. One per address and
+ * organization; inviting again replaces it.
+ */
+@Entity('organization_invites')
+@Index(['organizationId', 'email'], { unique: true })
+export class OrganizationInvite {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  organizationId: string;
+
+  @ManyToOne(() => Organization, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organizationId' })
+  organization: Organization;
+
+  // Stored lowercased
+  @Column()
+  email: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  role: OrgRole;
+
+  // sha256 of the emailed token, the plaintext is never stored
+  @Index({ unique: true })
+  @Column()
+  tokenHash: string;
+
+  @Column({ type: 'uuid', nullable: true })
+  invitedById: string | null;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'invitedById' })
+  invitedBy?: User | null;
+
+  @Column({ type: 'timestamp' })
+  expiresAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
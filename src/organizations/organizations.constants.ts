@@ -0,0 +1,17 @@
+export const ORG_ROLES = {
+  OWNER: 'owner',
+  ADMIN: 'admin',
+  MEMBER: 'member',
+} as const;
+
+export type OrgRole = (typeof ORG_ROLES)[keyof typeof ORG_ROLES];
+
+// Each role can do everything the ones below it can
+export const ORG_ROLE_RANK: Record<OrgRole, number> = {
+  owner: 3,
+  admin: 2,
+  member: 1,
+};
+
+// Header naming the organization a request acts for
+export const ORG_ID_HEADER = 'x-org-id';
@@ -0,0 +1,441 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  ParseUUIDPipe,
+  HttpCode,
+  HttpStatus,
+  ForbiddenException,
+  NotFoundException,
+  Request,
+  Version,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBody,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import {
+  IsEmail,
+  IsIn,
+  IsNotEmpty,
+  IsString,
+  IsUUID,
+  MaxLength,
+  ValidateIf,
+} from 'class-validator';
+import { OrganizationsService } from './organizations.service';
+import { ORG_ROLES } from './organizations.constants';
+import { AuthService } from '../auth/auth.service';
+import { TenantContext } from '../common/tenancy/tenant-context';
+
+const ORG_ROLE_VALUES = Object.values(ORG_ROLES);
+
+export class CreateOrganizationDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+}
+
+export class SwitchOrganizationDto {
+  // null switches back to no organization
+  @ValidateIf((dto) => dto.orgId !== null)
+  @IsUUID()
+  orgId: string | null;
+}
+
+export class ChangeMemberRoleDto {
+  @IsIn(ORG_ROLE_VALUES)
+  role: 'owner' | 'admin' | 'member';
+}
+
+export class CreateInviteDto {
+  @IsEmail()
+  email: string;
+
+  @IsIn(ORG_ROLE_VALUES)
+  role: 'owner' | 'admin' | 'member';
+}
+
+export class AcceptInviteDto {
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+}
+
+const organizationSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', format: 'uuid' },
+    name: { type: 'string', example: 'Acme Inc.' },
+    role: {
+      type: 'string',
+      enum: ORG_ROLE_VALUES,
+      description: 'Your role in the organization',
+    },
+    createdAt: { type: 'string', format: 'date-time' },
+  },
+};
+
+const memberSchema = {
+  type: 'object',
+  properties: {
+    userId: { type: 'string', format: 'uuid' },
+    email: { type: 'string', example: 'user@example.com' },
+    displayName: { type: 'string', nullable: true },
+    role: { type: 'string', enum: ORG_ROLE_VALUES },
+    joinedAt: { type: 'string', format: 'date-time' },
+  },
+};
+
+const inviteSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', format: 'uuid' },
+    email: { type: 'string', example: 'new.hire@example.com' },
+    role: { type: 'string', enum: ORG_ROLE_VALUES },
+    expiresAt: { type: 'string', format: 'date-time' },
+    createdAt: { type: 'string', format: 'date-time' },
+  },
+};
+
+@ApiTags('organizations')
+@ApiBearerAuth('JWT-auth')
+@Controller('orgs')
+export class OrganizationsController {
+  constructor(
+    private readonly organizationsService: OrganizationsService,
+    private readonly authService: AuthService,
+    private readonly tenantContext: TenantContext,
+  ) {}
+
+  @Post()
+  @Version('1')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Create an organization owned by you' })
+  @ApiBody({ type: CreateOrganizationDto })
+  @ApiResponse({
+    status: 201,
+    description: 'Organization created',
+    schema: organizationSchema,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async create(@Request() req, @Body() dto: CreateOrganizationDto) {
+    return this.organizationsService.create(this.getUserId(req), dto.name);
+  }
+
+  @Get()
+  @Version('1')
+  @ApiOperation({ summary: 'Organizations you are a member of' })
+  @ApiResponse({
+    status: 200,
+    description: 'Organizations',
+    schema: { type: 'array', items: organizationSchema },
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async list(@Request() req) {
+    return this.organizationsService.listForUser(this.getUserId(req));
+  }
+
+  @Get('current')
+  @Version('1')
+  @ApiOperation({
+    summary: 'Organization this request acts for',
+    description: 'Taken from the X-Org-Id header, else the org_id token claim',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Active organization',
+    schema: organizationSchema,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Not a member of X-Org-Id' })
+  @ApiResponse({ status: 404, description: 'No organization selected' })
+  async current(@Request() req) {
+    const orgId = this.tenantContext.getOrgId();
+    if (!orgId) {
+      throw new NotFoundException('No organization selected');
+    }
+    return this.organizationsService.get(orgId, this.getUserId(req));
+  }
+
+  @Post('switch')
+  @Version('1')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Switch the organization of the current session',
+    description:
+      'Returns new tokens carrying the org_id claim; the previous refresh token stops working',
+  })
+  @ApiBody({ type: SwitchOrganizationDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Tokens for the organization',
+    schema: {
+      type: 'object',
+      properties: {
+        accessToken: { type: 'string' },
+        refreshToken: { type: 'string' },
+        expiresIn: { type: 'number' },
+      },
+    },
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({
+    status: 403,
+    description: 'Only available to signed-in sessions',
+  })
+  @ApiResponse({ status: 404, description: 'Organization not found' })
+  async switch(@Request() req, @Body() dto: SwitchOrganizationDto) {
+    const userId = this.getUserId(req);
+    if (!req.user.sessionId) {
+      throw new ForbiddenException('Only available to signed-in sessions');
+    }
+    if (dto.orgId) {
+      await this.organizationsService.assertRole(
+        dto.orgId,
+        userId,
+        ORG_ROLES.MEMBER,
+      );
+    }
+    return this.authService.switchOrganization(
+      userId,
+      req.user.sessionId,
+      dto.orgId,
+    );
+  }
+
+  @Post('invites/accept')
+  @Version('1')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Accept an invitation with the emailed token',
+    description: 'Only the verified owner of the invited address can accept',
+  })
+  @ApiBody({ type: AcceptInviteDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Joined the organization',
+    schema: organizationSchema,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid or expired invitation' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({
+    status: 403,
+    description: 'Invitation is for another address, or it is not verified',
+  })
+  async acceptInvite(@Request() req, @Body() dto: AcceptInviteDto) {
+    return this.organizationsService.acceptInvite(dto.token, {
+      id: this.getUserId(req),
+      email: req.user.email,
+      emailVerified: req.user.emailVerified,
+    });
+  }
+
+  @Get(':orgId')
+  @Version('1')
+  @ApiOperation({ summary: 'Get an organization' })
+  @ApiParam({ name: 'orgId', description: 'Organization ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Organization',
+    schema: organizationSchema,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Organization not found' })
+  async get(
+    @Request() req,
+    @Param('orgId', new ParseUUIDPipe()) orgId: string,
+  ) {
+    return this.organizationsService.get(orgId, this.getUserId(req));
+  }
+
+  @Get(':orgId/members')
+  @Version('1')
+  @ApiOperation({ summary: 'List the members of an organization' })
+  @ApiParam({ name: 'orgId', description: 'Organization ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Members',
+    schema: { type: 'array', items: memberSchema },
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Organization not found' })
+  async listMembers(
+    @Request() req,
+    @Param('orgId', new ParseUUIDPipe()) orgId: string,
+  ) {
+    return this.organizationsService.listMembers(orgId, this.getUserId(req));
+  }
+
+  @Patch(':orgId/members/:userId')
+  @Version('1')
+  @ApiOperation({
+    summary: "Change a member's role",
+    description: 'Admins manage members and admins; ownership takes an owner',
+  })
+  @ApiParam({ name: 'orgId', description: 'Organization ID' })
+  @ApiParam({ name: 'userId', description: 'User ID of the member' })
+  @ApiBody({ type: ChangeMemberRoleDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Role changed',
+    schema: {
+      type: 'object',
+      properties: { message: { type: 'string', example: 'Role changed' } },
+    },
+  })
+  @ApiResponse({ status: 400, description: 'Would leave no owner' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Role too low' })
+  @ApiResponse({ status: 404, description: 'Organization or member not found' })
+  async changeMemberRole(
+    @Request() req,
+    @Param('orgId', new ParseUUIDPipe()) orgId: string,
+    @Param('userId', new ParseUUIDPipe()) userId: string,
+    @Body() dto: ChangeMemberRoleDto,
+  ) {
+    await this.organizationsService.changeRole(
+      orgId,
+      userId,
+      dto.role,
+      this.getUserId(req),
+    );
+    return { message: 'Role changed' };
+  }
+
+  @Delete(':orgId/members/:userId')
+  @Version('1')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Remove a member, or leave with your own user ID',
+  })
+  @ApiParam({ name: 'orgId', description: 'Organization ID' })
+  @ApiParam({ name: 'userId', description: 'User ID of the member' })
+  @ApiResponse({
+    status: 200,
+    description: 'Member removed',
+    schema: {
+      type: 'object',
+      properties: { message: { type: 'string', example: 'Member removed' } },
+    },
+  })
+  @ApiResponse({ status: 400, description: 'Would leave no owner' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Role too low' })
+  @ApiResponse({ status: 404, description: 'Organization or member not found' })
+  async removeMember(
+    @Request() req,
+    @Param('orgId', new ParseUUIDPipe()) orgId: string,
+    @Param('userId', new ParseUUIDPipe()) userId: string,
+  ) {
+    await this.organizationsService.removeMember(
+      orgId,
+      userId,
+      this.getUserId(req),
+    );
+    return { message: 'Member removed' };
+  }
+
+  @Post(':orgId/invites')
+  @Version('1')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Invite someone by email',
+    description:
+      'Emails a link to ORG_INVITE_URL; inviting an address again replaces its invitation',
+  })
+  @ApiParam({ name: 'orgId', description: 'Organization ID' })
+  @ApiBody({ type: CreateInviteDto })
+  @ApiResponse({
+    status: 201,
+    description: 'Invitation sent',
+    schema: inviteSchema,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Role too low' })
+  @ApiResponse({ status: 404, description: 'Organization not found' })
+  @ApiResponse({ status: 409, description: 'Already a member' })
+  async invite(
+    @Request() req,
+    @Param('orgId', new ParseUUIDPipe()) orgId: string,
+    @Body() dto: CreateInviteDto,
+  ) {
+    return this.organizationsService.invite(
+      orgId,
+      dto.email,
+      dto.role,
+      this.getUserId(req),
+    );
+  }
+
+  @Get(':orgId/invites')
+  @Version('1')
+  @ApiOperation({ summary: 'List pending invitations' })
+  @ApiParam({ name: 'orgId', description: 'Organization ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Pending invitations',
+    schema: { type: 'array', items: inviteSchema },
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Role too low' })
+  @ApiResponse({ status: 404, description: 'Organization not found' })
+  async listInvites(
+    @Request() req,
+    @Param('orgId', new ParseUUIDPipe()) orgId: string,
+  ) {
+    return this.organizationsService.listInvites(orgId, this.getUserId(req));
+  }
+
+  @Delete(':orgId/invites/:inviteId')
+  @Version('1')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Revoke a pending invitation' })
+  @ApiParam({ name: 'orgId', description: 'Organization ID' })
+  @ApiParam({ name: 'inviteId', description: 'Invitation ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Invitation revoked',
+    schema: {
+      type: 'object',
+      properties: {
+        message: { type: 'string', example: 'Invitation revoked' },
+      },
+    },
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Role too low' })
+  @ApiResponse({
+    status: 404,
+    description: 'Organization or invitation not found',
+  })
+  async revokeInvite(
+    @Request() req,
+    @Param('orgId', new ParseUUIDPipe()) orgId: string,
+    @Param('inviteId', new ParseUUIDPipe()) inviteId: string,
+  ) {
+    await this.organizationsService.revokeInvite(
+      orgId,
+      inviteId,
+      this.getUserId(req),
+    );
+    return { message: 'Invitation revoked' };
+  }
+
+  // client_credentials tokens act for an OAuth client, not a user
+  private getUserId(req: any): string {
+    if (!req.user.id) {
+      throw new ForbiddenException('Only available to users');
+    }
+    return req.user.id;
+  }
+}
@@ -0,0 +1,30 @@
+import { Module } from '@nestjs/common';
+import { APP_GUARD } from '@nestjs/core';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Organization } from './organization.entity';
+import { Membership } from './membership.entity';
+import { OrganizationInvite } from './organization-invite.entity';
+import { OrganizationsService } from './organizations.service';
+import { OrganizationsController } from './organizations.controller';
+import { TenantGuard } from './guards/tenant.guard';
+import { AuthModule } from '../auth/auth.module';
+import { MailModule } from '../mail/mail.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Organization, Membership, OrganizationInvite]),
+    AuthModule,
+    MailModule,
+  ],
+  providers: [
+    OrganizationsService,
+    // Runs after AuthModule's guards, so request.user is known
+    {
+      provide: APP_GUARD,
+      useClass: TenantGuard,
+    },
+  ],
+  controllers: [OrganizationsController],
+  exports: [OrganizationsService],
+})
+export class OrganizationsModule {}
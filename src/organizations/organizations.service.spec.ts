@@ -0,0 +1,353 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { createHash } from 'crypto';
+import { OrganizationsService } from './organizations.service';
+import { Organization } from './organization.entity';
+import { Membership } from './membership.entity';
+import { OrganizationInvite } from './organization-invite.entity';
+import { MailService } from '../mail/mail.service';
+
+const HOUR_MS = 3_600_000;
+
+describe('OrganizationsService', () => {
+  let service: OrganizationsService;
+  let organizationRepository: {
+    manager: { transaction: jest.Mock };
+    findOneOrFail: jest.Mock;
+  };
+  let membershipRepository: {
+    create: jest.Mock;
+    save: jest.Mock;
+    find: jest.Mock;
+    findOne: jest.Mock;
+    update: jest.Mock;
+    delete: jest.Mock;
+    count: jest.Mock;
+    createQueryBuilder: jest.Mock;
+  };
+  let inviteRepository: {
+    create: jest.Mock;
+    save: jest.Mock;
+    find: jest.Mock;
+    findOne: jest.Mock;
+    delete: jest.Mock;
+  };
+  let mailService: { send: jest.Mock };
+  let memberLookup: { getOne: jest.Mock };
+
+  const organization = {
+    id: 'org-1',
+    name: 'Acme',
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+  };
+
+  const membership = (userId: string, role: string) => ({
+    id: `membership-${userId}`,
+    organizationId: 'org-1',
+    userId,
+    role,
+    createdAt: new Date(),
+  });
+
+  // Answers findOne by user ID, the way findMembership queries it
+  const withMembers = (...members: ReturnType<typeof membership>[]) => {
+    membershipRepository.findOne.mockImplementation(({ where }) =>
+      Promise.resolve(
+        members.find((member) => member.userId === where.userId) ?? null,
+      ),
+    );
+  };
+
+  beforeEach(async () => {
+    memberLookup = { getOne: jest.fn().mockResolvedValue(null) };
+    const manager = {
+      create: jest.fn((_entity, data) => ({ ...data })),
+      save: jest.fn((data) =>
+        Promise.resolve({ ...organization, ...data, id: 'org-1' }),
+      ),
+    };
+    organizationRepository = {
+      manager: {
+        transaction: jest.fn((work) => work(manager)),
+      },
+      findOneOrFail: jest.fn().mockResolvedValue(organization),
+    };
+    membershipRepository = {
+      create: jest.fn((data) => ({ ...data })),
+      save: jest.fn((data) =>
+        Promise.resolve({ id: 'membership-new', ...data }),
+      ),
+      find: jest.fn().mockResolvedValue([]),
+      findOne: jest.fn().mockResolvedValue(null),
+      update: jest.fn().mockResolvedValue(undefined),
+      delete: jest.fn().mockResolvedValue({ affected: 1 }),
+      count: jest.fn().mockResolvedValue(1),
+      createQueryBuilder: jest.fn(() => ({
+        innerJoin: jest.fn().mockReturnThis(),
+        where: jest.fn().mockReturnThis(),
+        andWhere: jest.fn().mockReturnThis(),
+        getOne: memberLookup.getOne,
+      })),
+    };
+    inviteRepository = {
+      create: jest.fn((data) => ({ ...data })),
+      save: jest.fn((data) =>
+        Promise.resolve({ id: 'invite-1', createdAt: new Date(), ...data }),
+      ),
+      find: jest.fn().mockResolvedValue([]),
+      findOne: jest.fn().mockResolvedValue(null),
+      delete: jest.fn().mockResolvedValue({ affected: 1 }),
+    };
+    mailService = { send: jest.fn().mockResolvedValue(undefined) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OrganizationsService,
+        {
+          provide: getRepositoryToken(Organization),
+          useValue: organizationRepository,
+        },
+        {
+          provide: getRepositoryToken(Membership),
+          useValue: membershipRepository,
+        },
+        {
+          provide: getRepositoryToken(OrganizationInvite),
+          useValue: inviteRepository,
+        },
+        { provide: MailService, useValue: mailService },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: any) =>
+              key === 'ORG_INVITE_EXPIRES_IN' ? '48h' : defaultValue,
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<OrganizationsService>(OrganizationsService);
+  });
+
+  describe('create', () => {
+    it('should make the creator its owner', async () => {
+      const created = await service.create('user-1', 'Acme');
+
+      expect(created).toMatchObject({
+        id: 'org-1',
+        name: 'Acme',
+        role: 'owner',
+      });
+      expect(organizationRepository.manager.transaction).toHaveBeenCalled();
+    });
+  });
+
+  describe('assertRole', () => {
+    it('should hide organizations the user is not in', async () => {
+      await expect(
+        service.assertRole('org-1', 'stranger', 'member'),
+      ).rejects.toThrow(new NotFoundException('Organization not found'));
+    });
+
+    it('should refuse a role below the minimum', async () => {
+      withMembers(membership('user-1', 'member'));
+
+      await expect(
+        service.assertRole('org-1', 'user-1', 'admin'),
+      ).rejects.toThrow(
+        new ForbiddenException('Requires the admin role in this organization'),
+      );
+    });
+
+    it('should accept a higher role than the minimum', async () => {
+      withMembers(membership('user-1', 'owner'));
+
+      await expect(
+        service.assertRole('org-1', 'user-1', 'admin'),
+      ).resolves.toMatchObject({ role: 'owner' });
+    });
+  });
+
+  describe('changeRole', () => {
+    it('should let an admin promote a member to admin', async () => {
+      withMembers(
+        membership('admin-1', 'admin'),
+        membership('user-1', 'member'),
+      );
+
+      await service.changeRole('org-1', 'user-1', 'admin', 'admin-1');
+
+      expect(membershipRepository.update).toHaveBeenCalledWith(
+        'membership-user-1',
+        { role: 'admin' },
+      );
+    });
+
+    it('should not let an admin hand out ownership', async () => {
+      withMembers(
+        membership('admin-1', 'admin'),
+        membership('user-1', 'member'),
+      );
+
+      await expect(
+        service.changeRole('org-1', 'user-1', 'owner', 'admin-1'),
+      ).rejects.toThrow(ForbiddenException);
+      expect(membershipRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should keep at least one owner', async () => {
+      withMembers(membership('owner-1', 'owner'));
+
+      await expect(
+        service.changeRole('org-1', 'owner-1', 'admin', 'owner-1'),
+      ).rejects.toThrow(
+        new BadRequestException('An organization needs at least one owner'),
+      );
+    });
+  });
+
+  describe('removeMember', () => {
+    it('should let a member leave on their own', async () => {
+      withMembers(membership('user-1', 'member'));
+
+      await service.removeMember('org-1', 'user-1', 'user-1');
+
+      expect(membershipRepository.delete).toHaveBeenCalledWith(
+        'membership-user-1',
+      );
+    });
+
+    it('should not let an admin remove an owner', async () => {
+      withMembers(
+        membership('admin-1', 'admin'),
+        membership('owner-1', 'owner'),
+      );
+
+      await expect(
+        service.removeMember('org-1', 'owner-1', 'admin-1'),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should not let the last owner leave', async () => {
+      withMembers(membership('owner-1', 'owner'));
+
+      await expect(
+        service.removeMember('org-1', 'owner-1', 'owner-1'),
+      ).rejects.toThrow(BadRequestException);
+      expect(membershipRepository.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('invite', () => {
+    it('should email a link and store only the hash of its token', async () => {
+      withMembers(membership('admin-1', 'admin'));
+
+      const invite = await service.invite(
+        'org-1',
+        'New.Hire@Example.com',
+        'member',
+        'admin-1',
+      );
+
+      expect(inviteRepository.delete).toHaveBeenCalledWith({
+        organizationId: 'org-1',
+        email: 'new.hire@example.com',
+      });
+      const stored = inviteRepository.save.mock.calls[0][0];
+      const mail = mailService.send.mock.calls[0][0];
+      const token = /token=([\w-]+)/.exec(mail.text)![1];
+      expect(stored.tokenHash).toBe(
+        createHash('sha256').update(token).digest('hex'),
+      );
+      expect(mail).toMatchObject({
+        to: 'new.hire@example.com',
+        subject: 'You are invited to join Acme',
+      });
+      expect(invite).not.toHaveProperty('tokenHash');
+      expect(invite.expiresAt.getTime()).toBeGreaterThan(
+        Date.now() + 47 * HOUR_MS,
+      );
+    });
+
+    it('should refuse to invite an existing member', async () => {
+      withMembers(membership('admin-1', 'admin'));
+      memberLookup.getOne.mockResolvedValueOnce(membership('user-1', 'member'));
+
+      await expect(
+        service.invite('org-1', 'member@example.com', 'member', 'admin-1'),
+      ).rejects.toThrow(ConflictException);
+      expect(mailService.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('acceptInvite', () => {
+    const pendingInvite = (overrides: object = {}) => ({
+      id: 'invite-1',
+      organizationId: 'org-1',
+      organization,
+      email: 'new.hire@example.com',
+      role: 'admin',
+      expiresAt: new Date(Date.now() + HOUR_MS),
+      ...overrides,
+    });
+    const recipient = {
+      id: 'user-2',
+      email: 'New.Hire@example.com',
+      emailVerified: true,
+    };
+
+    it('should add the recipient with the invited role', async () => {
+      inviteRepository.findOne.mockResolvedValueOnce(pendingInvite());
+
+      const joined = await service.acceptInvite('token', recipient);
+
+      expect(membershipRepository.save).toHaveBeenCalledWith({
+        organizationId: 'org-1',
+        userId: 'user-2',
+        role: 'admin',
+      });
+      expect(inviteRepository.delete).toHaveBeenCalledWith('invite-1');
+      expect(joined).toMatchObject({ id: 'org-1', role: 'admin' });
+    });
+
+    it('should refuse an expired invitation', async () => {
+      inviteRepository.findOne.mockResolvedValueOnce(
+        pendingInvite({ expiresAt: new Date(Date.now() - 1000) }),
+      );
+
+      await expect(service.acceptInvite('token', recipient)).rejects.toThrow(
+        new BadRequestException('Invalid or expired invitation'),
+      );
+    });
+
+    it('should refuse another address', async () => {
+      inviteRepository.findOne.mockResolvedValueOnce(pendingInvite());
+
+      await expect(
+        service.acceptInvite('token', {
+          ...recipient,
+          email: 'someone@example.com',
+        }),
+      ).rejects.toThrow(ForbiddenException);
+      expect(membershipRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should refuse an unverified address', async () => {
+      inviteRepository.findOne.mockResolvedValueOnce(pendingInvite());
+
+      await expect(
+        service.acceptInvite('token', { ...recipient, emailVerified: false }),
+      ).rejects.toThrow(
+        new ForbiddenException('Email address is not verified'),
+      );
+    });
+  });
+});
@@ -0,0 +1,429 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { MoreThan, Repository } from 'typeorm';
+import { createHash, randomBytes } from 'crypto';
+import { Organization } from './organization.entity';
+import { Membership } from './membership.entity';
+import { OrganizationInvite } from './organization-invite.entity';
+import { ORG_ROLES, ORG_ROLE_RANK, OrgRole } from './organizations.constants';
+import { MailService } from '../mail/mail.service';
+import { parseExpiryToSeconds } from '../common/utils/expiry.util';
+
+export interface OrganizationView {
+  id: string;
+  name: string;
+  role: OrgRole; // of the user asking
+  createdAt: Date;
+}
+
+export interface MemberView {
+  userId: string;
+  email: string;
+  displayName: string | null;
+  role: OrgRole;
+  joinedAt: Date;
+}
+
+export type InviteView = Pick<
+  OrganizationInvite,
+  'id' | 'email' | 'role' | 'expiresAt' | 'createdAt'
+>;
+
+/**
+ * The user an invitation is accepted by, as authenticated for the request
+ */
+export interface InviteRecipient {
+  id: string;
+  email: string;
+  emailVerified: boolean;
+}
+
+/**
+ * Organizations (tenants), their members and invitations.
+ *
+ * Every operation names the acting user and checks their role in the
+ * organization: admins manage members and invitations, but only owners can
+ * hand out or take away ownership, and the last owner can neither leave nor
+ * be demoted. Users outside an organization get 404s, as if it did not exist.
+ */
+@Injectable()
+export class OrganizationsService {
+  private readonly logger = new Logger(OrganizationsService.name);
+  private readonly inviteTtl: number;
+
+  constructor(
+    @InjectRepository(Organization)
+    private readonly organizationRepository: Repository<Organization>,
+    @InjectRepository(Membership)
+    private readonly membershipRepository: Repository<Membership>,
+    @InjectRepository(OrganizationInvite)
+    private readonly inviteRepository: Repository<OrganizationInvite>,
+    private readonly mailService: MailService,
+    private readonly configService: ConfigService,
+  ) {
+    this.inviteTtl = parseExpiryToSeconds(
+      this.configService.get<string>('ORG_INVITE_EXPIRES_IN', '7d'),
+    );
+  }
+
+  /**
+   * Create an organization owned by the user
+   */
+  async create(userId: string, name: string): Promise<OrganizationView> {
+    const organization = await this.organizationRepository.manager.transaction(
+      async (manager) => {
+        const created = await manager.save(
+          manager.create(Organization, { name }),
+        );
+        await manager.save(
+          manager.create(Membership, {
+            organizationId: created.id,
+            userId,
+            role: ORG_ROLES.OWNER,
+          }),
+        );
+        return created;
+      },
+    );
+
+    this.logger.log(`Organization ${organization.id} created by ${userId}`);
+    return this.toView(organization, ORG_ROLES.OWNER);
+  }
+
+  async listForUser(userId: string): Promise<OrganizationView[]> {
+    const memberships = await this.membershipRepository.find({
+      where: { userId },
+      relations: { organization: true },
+      order: { createdAt: 'ASC' },
+    });
+    return memberships.map((membership) =>
+      this.toView(membership.organization, membership.role),
+    );
+  }
+
+  async findMembership(
+    organizationId: string,
+    userId: string,
+  ): Promise<Membership | null> {
+    return this.membershipRepository.findOne({
+      where: { organizationId, userId },
+    });
+  }
+
+  /**
+   * The user's membership, provided their role is at least `minimum`
+   */
+  async assertRole(
+    organizationId: string,
+    userId: string,
+    minimum: OrgRole,
+  ): Promise<Membership> {
+    const membership = await this.findMembership(organizationId, userId);
+    if (!membership) {
+      throw new NotFoundException('Organization not found');
+    }
+    if (ORG_ROLE_RANK[membership.role] < ORG_ROLE_RANK[minimum]) {
+      throw new ForbiddenException(
+        `Requires the ${minimum} role in this organization`,
+      );
+    }
+    return membership;
+  }
+
+  async get(organizationId: string, userId: string): Promise<OrganizationView> {
+    const membership = await this.assertRole(
+      organizationId,
+      userId,
+      ORG_ROLES.MEMBER,
+    );
+    const organization = await this.organizationRepository.findOneOrFail({
+      where: { id: organizationId },
+    });
+    return this.toView(organization, membership.role);
+  }
+
+  async listMembers(
+    organizationId: string,
+    requesterId: string,
+  ): Promise<MemberView[]> {
+    await this.assertRole(organizationId, requesterId, ORG_ROLES.MEMBER);
+
+    const memberships = await this.membershipRepository.find({
+      where: { organizationId },
+      relations: { user: true },
+      order: { createdAt: 'ASC' },
+    });
+    return memberships.map((membership) => ({
+      userId: membership.userId,
+      email: membership.user.email,
+      displayName: membership.user.displayName,
+      role: membership.role,
+      joinedAt: membership.createdAt,
+    }));
+  }
+
+  async changeRole(
+    organizationId: string,
+    userId: string,
+    role: OrgRole,
+    requesterId: string,
+  ): Promise<void> {
+    const requester = await this.assertRole(
+      organizationId,
+      requesterId,
+      ORG_ROLES.ADMIN,
+    );
+    const member = await this.findMember(organizationId, userId);
+
+    this.assertOutranks(requester, member.role);
+    this.assertOutranks(requester, role);
+    if (member.role === ORG_ROLES.OWNER && role !== ORG_ROLES.OWNER) {
+      await this.assertNotLastOwner(organizationId);
+    }
+
+    await this.membershipRepository.update(member.id, { role });
+    this.logger.log(
+      `User ${userId} is now ${role} of organization ${organizationId} (by ${requesterId})`,
+    );
+  }
+
+  /**
+   * Remove a member. Anyone may leave on their own; removing someone else
+   * takes an admin at least as senior as them.
+   */
+  async removeMember(
+    organizationId: string,
+    userId: string,
+    requesterId: string,
+  ): Promise<void> {
+    let member: Membership;
+    if (userId === requesterId) {
+      member = await this.assertRole(
+        organizationId,
+        requesterId,
+        ORG_ROLES.MEMBER,
+      );
+    } else {
+      const requester = await this.assertRole(
+        organizationId,
+        requesterId,
+        ORG_ROLES.ADMIN,
+      );
+      member = await this.findMember(organizationId, userId);
+      this.assertOutranks(requester, member.role);
+    }
+
+    if (member.role === ORG_ROLES.OWNER) {
+      await this.assertNotLastOwner(organizationId);
+    }
+
+    await this.membershipRepository.delete(member.id);
+    this.logger.log(
+      `User ${userId} removed from organization ${organizationId} (by ${requesterId})`,
+    );
+  }
+
+  /**
+   * Email an invitation to join with the given role. Inviting the same
+   * address again replaces the previous invitation and its link.
+   */
+  async invite(
+    organizationId: string,
+    email: string,
+    role: OrgRole,
+    requesterId: string,
+  ): Promise<InviteView> {
+    const requester = await this.assertRole(
+      organizationId,
+      requesterId,
+      ORG_ROLES.ADMIN,
+    );
+    this.assertOutranks(requester, role);
+
+    const normalizedEmail = email.trim().toLowerCase();
+    const existingMember = await this.membershipRepository
+      .createQueryBuilder('membership')
+      .innerJoin('membership.user', 'user')
+      .where('membership.organizationId = :organizationId', { organizationId })
+      .andWhere('LOWER(user.email) = :email', { email: normalizedEmail })
+      .getOne();
+    if (existingMember) {
+      throw new ConflictException('Already a member of this organization');
+    }
+
+    const token = randomBytes(32).toString('base64url');
+    await this.inviteRepository.delete({
+      organizationId,
+      email: normalizedEmail,
+    });
+    const invite = await this.inviteRepository.save(
+      this.inviteRepository.create({
+        organizationId,
+        email: normalizedEmail,
+        role,
+        tokenHash: this.hashToken(token),
+        invitedById: requesterId,
+        expiresAt: new Date(Date.now() + this.inviteTtl * 1000),
+      }),
+    );
+
+    const organization = await this.organizationRepository.findOneOrFail({
+      where: { id: organizationId },
+    });
+    await this.sendInviteEmail(invite, organization, token);
+
+    return this.toInviteView(invite);
+  }
+
+  async listInvites(
+    organizationId: string,
+    requesterId: string,
+  ): Promise<InviteView[]> {
+    await this.assertRole(organizationId, requesterId, ORG_ROLES.ADMIN);
+
+    const invites = await this.inviteRepository.find({
+      where: { organizationId, expiresAt: MoreThan(new Date()) },
+      order: { createdAt: 'ASC' },
+    });
+    return invites.map((invite) => this.toInviteView(invite));
+  }
+
+  async revokeInvite(
+    organizationId: string,
+    inviteId: string,
+    requesterId: string,
+  ): Promise<void> {
+    await this.assertRole(organizationId, requesterId, ORG_ROLES.ADMIN);
+
+    const result = await this.inviteRepository.delete({
+      id: inviteId,
+      organizationId,
+    });
+    if (!result.affected) {
+      throw new NotFoundException('Invitation not found');
+    }
+  }
+
+  /**
+   * Join the organization an emailed invitation is for. Only the verified
+   * owner of the invited address can accept it.
+   */
+  async acceptInvite(
+    token: string,
+    recipient: InviteRecipient,
+  ): Promise<OrganizationView> {
+    const invite = await this.inviteRepository.findOne({
+      where: { tokenHash: this.hashToken(token) },
+      relations: { organization: true },
+    });
+    if (!invite || invite.expiresAt.getTime() <= Date.now()) {
+      throw new BadRequestException('Invalid or expired invitation');
+    }
+    if (invite.email !== recipient.email.toLowerCase()) {
+      throw new ForbiddenException('Invitation was sent to another address');
+    }
+    if (!recipient.emailVerified) {
+      throw new ForbiddenException('Email address is not verified');
+    }
+
+    const membership =
+      (await this.findMembership(invite.organizationId, recipient.id)) ??
+      (await this.membershipRepository.save(
+        this.membershipRepository.create({
+          organizationId: invite.organizationId,
+          userId: recipient.id,
+          role: invite.role,
+        }),
+      ));
+    await this.inviteRepository.delete(invite.id);
+
+    this.logger.log(
+      `User ${recipient.id} joined organization ${invite.organizationId} as ${membership.role}`,
+    );
+    return this.toView(invite.organization, membership.role);
+  }
+
+  private async findMember(
+    organizationId: string,
+    userId: string,
+  ): Promise<Membership> {
+    const member = await this.findMembership(organizationId, userId);
+    if (!member) {
+      throw new NotFoundException('Member not found');
+    }
+    return member;
+  }
+
+  // Only owners hand out or act on ownership; admins handle the rest
+  private assertOutranks(requester: Membership, role: OrgRole): void {
+    if (ORG_ROLE_RANK[role] > ORG_ROLE_RANK[requester.role]) {
+      throw new ForbiddenException(
+        `Requires the ${role} role in this organization`,
+      );
+    }
+  }
+
+  private async assertNotLastOwner(organizationId: string): Promise<void> {
+    const owners = await this.membershipRepository.count({
+      where: { organizationId, role: ORG_ROLES.OWNER },
+    });
+    if (owners <= 1) {
+      throw new BadRequestException('An organization needs at least one owner');
+    }
+  }
+
+  private async sendInviteEmail(
+    invite: OrganizationInvite,
+    organization: Organization,
+    token: string,
+  ): Promise<void> {
+    const url = new URL(
+      this.configService.get<string>(
+        'ORG_INVITE_URL',
+        'http://localhost:3000/accept-invite',
+      ),
+    );
+    url.searchParams.set('token', token);
+
+    await this.mailService.send({
+      to: invite.email,
+      subject: `You are invited to join ${organization.name}`,
+      text:
+        `You were invited to join ${organization.name} as ${invite.role}.\n\n` +
+        `Accept the invitation: ${url.toString()}\n\n` +
+        `The link expires on ${invite.expiresAt.toUTCString()}. Sign in with ` +
+        'this email address to accept it.',
+    });
+  }
+
+  private toView(organization: Organization, role: OrgRole): OrganizationView {
+    return {
+      id: organization.id,
+      name: organization.name,
+      role,
+      createdAt: organization.createdAt,
+    };
+  }
+
+  private toInviteView(invite: OrganizationInvite): InviteView {
+    return {
+      id: invite.id,
+      email: invite.email,
+      role: invite.role,
+      expiresAt: invite.expiresAt,
+      createdAt: invite.createdAt,
+    };
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
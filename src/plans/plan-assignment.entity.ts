@@ -0,0 +1,49 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Plan } from './plan.entity';
+import type { PlanLimits } from './plan.entity';
+import type { PlanSubjectType } from './plans.constants';
+
+/**
+ * The plan of a user, API key or organization, with optional per-customer
+ * overrides of some of its route groups. The subject is not a foreign key
+ * since it can live in any of three tables.
+ */
+@Entity('plan_assignments')
+@Index(['subjectType', 'subjectId'], { unique: true })
+export class PlanAssignment {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  subjectType: PlanSubjectType;
+
+  @Column({ type: 'uuid' })
+  subjectId: string;
+
+  @Index()
+  @Column({ type: 'uuid' })
+  planId: string;
+
+  @ManyToOne(() => Plan, { onDelete: 'RESTRICT' })
+  @JoinColumn({ name: 'planId' })
+  plan: Plan;
+
+  // Replace the plan's limits of the groups listed here
+  @Column({ type: 'jsonb', nullable: true })
+  overrides: PlanLimits | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,52 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import type { RateLimitMetadata } from '../rate-limit/guards/token-bucket-rate-limit.guard';
+
+/**
+ * A limit as stored in a plan: the JSON-serializable part of @RateLimit().
+ * The scope is derived from the route group.
+ */
+export type PlanLimit = Omit<RateLimitMetadata, 'scope' | 'keyBy'> & {
+  keyBy?:
+    | 'caller'
+    | 'tenant'
+    | 'route_user'
+    | { body: string }
+    | { resolver: string };
+};
+
+/**
+ * Limits per route group, e.g. `{ "api": [...], "search": [...] }`. An empty
+ * array leaves the group unlimited; a group the plan does not mention keeps
+ * the route's own @RateLimit().
+ */
+export type PlanLimits = Record<string, PlanLimit[]>;
+
+@Entity('plans')
+@Index(['isDefault'], { unique: true, where: '"isDefault" = true' })
+export class Plan {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 50, unique: true })
+  name: string;
+
+  @Column({ type: 'jsonb', default: {} })
+  limits: PlanLimits;
+
+  // Applies to everyone without an assignment; at most one plan is default
+  @Column({ default: false })
+  isDefault: boolean;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
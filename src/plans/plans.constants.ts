@@ -0,0 +1,11 @@
+export const PLAN_SUBJECT_TYPES = {
+  USER: 'user',
+  API_KEY: 'api_key',
+  ORGANIZATION: 'organization',
+} as const;
+
+export type PlanSubjectType =
+  (typeof PLAN_SUBJECT_TYPES)[keyof typeof PLAN_SUBJECT_TYPES];
+
+// Cache tag of every cached plan lookup, invalidated on any plan change
+export const PLANS_CACHE_TAG = 'plans';
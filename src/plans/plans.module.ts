@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Plan } from './plan.entity';
+import { PlanAssignment } from './plan-assignment.entity';
+import { PlansService } from './plans.service';
+import { CacheModule } from '../cache/cache.module';
+import { KeyResolversModule } from '../rate-limit/key-resolvers/key-resolvers.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Plan, PlanAssignment]),
+    CacheModule,
+    KeyResolversModule,
+  ],
+  providers: [PlansService],
+  exports: [PlansService],
+})
+export class PlansModule {}
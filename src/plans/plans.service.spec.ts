@@ -0,0 +1,313 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { PlansService } from './plans.service';
+import { Plan } from './plan.entity';
+import { PlanAssignment } from './plan-assignment.entity';
+import { CacheService } from '../cache/cache.service';
+import { KeyResolverRegistry } from '../rate-limit/key-resolvers/key-resolver.registry';
+
+describe('PlansService', () => {
+  let service: PlansService;
+  let planRepository: {
+    manager: { transaction: jest.Mock };
+    find: jest.Mock;
+    findOne: jest.Mock;
+    delete: jest.Mock;
+  };
+  let assignmentRepository: {
+    findOne: jest.Mock;
+    upsert: jest.Mock;
+    delete: jest.Mock;
+    exists: jest.Mock;
+  };
+  let cacheService: { getOrSet: jest.Mock; invalidateByTags: jest.Mock };
+  let manager: { create: jest.Mock; save: jest.Mock; update: jest.Mock };
+
+  const free = {
+    id: 'plan-free',
+    name: 'free',
+    isDefault: true,
+    limits: { api: [{ capacity: 60, windowSeconds: 60, strategy: 'gcra' }] },
+  };
+  const pro = {
+    id: 'plan-pro',
+    name: 'pro',
+    isDefault: false,
+    limits: {
+      api: [{ capacity: 600, windowSeconds: 60, strategy: 'gcra' }],
+      search: [],
+    },
+  };
+
+  // Answers assignment lookups from a list of assignments
+  const withAssignments = (
+    ...assignments: {
+      subjectType: string;
+      subjectId: string;
+      overrides?: any;
+    }[]
+  ) => {
+    assignmentRepository.findOne.mockImplementation(({ where }) =>
+      Promise.resolve(
+        assignments
+          .filter(
+            (assignment) =>
+              assignment.subjectType === where.subjectType &&
+              assignment.subjectId === where.subjectId,
+          )
+          .map((assignment) => ({
+            overrides: null,
+            ...assignment,
+            plan: pro,
+          }))[0] ?? null,
+      ),
+    );
+  };
+
+  beforeEach(async () => {
+    manager = {
+      create: jest.fn((_entity, data) => ({ ...data })),
+      save: jest.fn((data) => Promise.resolve({ id: 'plan-new', ...data })),
+      update: jest.fn().mockResolvedValue(undefined),
+    };
+    planRepository = {
+      manager: { transaction: jest.fn((work) => work(manager)) },
+      find: jest.fn().mockResolvedValue([free, pro]),
+      findOne: jest.fn().mockResolvedValue(null),
+      delete: jest.fn().mockResolvedValue({ affected: 1 }),
+    };
+    assignmentRepository = {
+      findOne: jest.fn().mockResolvedValue(null),
+      upsert: jest.fn().mockResolvedValue(undefined),
+      delete: jest.fn().mockResolvedValue({ affected: 1 }),
+      exists: jest.fn().mockResolvedValue(false),
+    };
+    // No cache hits: every lookup reaches the repositories
+    cacheService = {
+      getOrSet: jest.fn((_key, factory) => factory()),
+      invalidateByTags: jest.fn().mockResolvedValue(1),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PlansService,
+        { provide: getRepositoryToken(Plan), useValue: planRepository },
+        {
+          provide: getRepositoryToken(PlanAssignment),
+          useValue: assignmentRepository,
+        },
+        { provide: CacheService, useValue: cacheService },
+        {
+          provide: KeyResolverRegistry,
+          useValue: { has: (name: string) => name === 'partner' },
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((_key: string, defaultValue?: any) => defaultValue),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<PlansService>(PlansService);
+  });
+
+  describe('resolveLimits', () => {
+    beforeEach(() => {
+      planRepository.findOne.mockImplementation(({ where }) =>
+        Promise.resolve(where.isDefault ? free : null),
+      );
+    });
+
+    it('should use the default plan without an assignment', async () => {
+      await expect(
+        service.resolveLimits('api', { userId: 'user-1' }),
+      ).resolves.toEqual({ limits: free.limits.api, subjectType: null });
+    });
+
+    it('should prefer the API key over the organization and user', async () => {
+      withAssignments(
+        {
+          subjectType: 'user',
+          subjectId: 'user-1',
+          overrides: { api: [{ capacity: 1 }] },
+        },
+        {
+          subjectType: 'api_key',
+          subjectId: 'key-1',
+          overrides: { api: [{ capacity: 3 }] },
+        },
+        {
+          subjectType: 'organization',
+          subjectId: 'org-1',
+          overrides: { api: [{ capacity: 2 }] },
+        },
+      );
+
+      await expect(
+        service.resolveLimits('api', {
+          apiKeyId: 'key-1',
+          orgId: 'org-1',
+          userId: 'user-1',
+        }),
+      ).resolves.toEqual({ limits: [{ capacity: 3 }], subjectType: 'api_key' });
+      await expect(
+        service.resolveLimits('api', { orgId: 'org-1', userId: 'user-1' }),
+      ).resolves.toEqual({
+        limits: [{ capacity: 2 }],
+        subjectType: 'organization',
+      });
+    });
+
+    it('should let overrides replace only the groups they list', async () => {
+      withAssignments({
+        subjectType: 'organization',
+        subjectId: 'org-1',
+        overrides: { search: [{ capacity: 5 }] },
+      });
+
+      await expect(
+        service.resolveLimits('api', { orgId: 'org-1' }),
+      ).resolves.toMatchObject({ limits: pro.limits.api });
+      await expect(
+        service.resolveLimits('search', { orgId: 'org-1' }),
+      ).resolves.toMatchObject({ limits: [{ capacity: 5 }] });
+    });
+
+    it('should leave unlisted groups to the route', async () => {
+      withAssignments({ subjectType: 'user', subjectId: 'user-1' });
+
+      await expect(
+        service.resolveLimits('export', { userId: 'user-1' }),
+      ).resolves.toBeNull();
+    });
+
+    it('should cache lookups per subject under the plans tag', async () => {
+      await service.resolveLimits('api', { userId: 'user-1' });
+
+      expect(cacheService.getOrSet).toHaveBeenCalledWith(
+        'plans:assignment:user:user-1',
+        expect.any(Function),
+        { ttl: 300, tags: ['plans'] },
+      );
+      expect(cacheService.getOrSet).toHaveBeenCalledWith(
+        'plans:default',
+        expect.any(Function),
+        { ttl: 300, tags: ['plans'] },
+      );
+    });
+
+    it('should fall back to the route limits when the lookup fails', async () => {
+      assignmentRepository.findOne.mockRejectedValueOnce(
+        new Error('connection refused'),
+      );
+
+      await expect(
+        service.resolveLimits('api', { userId: 'user-1' }),
+      ).resolves.toBeNull();
+    });
+  });
+
+  describe('create', () => {
+    it('should replace the default plan in the same transaction', async () => {
+      const plan = await service.create({
+        name: 'team',
+        limits: { api: [{ capacity: 100, strategy: 'sliding_window_log' }] },
+        isDefault: true,
+      });
+
+      expect(manager.update).toHaveBeenCalledWith(
+        Plan,
+        { isDefault: true },
+        { isDefault: false },
+      );
+      expect(plan).toMatchObject({ name: 'team', isDefault: true });
+      expect(cacheService.invalidateByTags).toHaveBeenCalledWith(['plans']);
+    });
+
+    it('should accept registered key resolvers', async () => {
+      await expect(
+        service.create({
+          name: 'partners',
+          limits: { api: [{ capacity: 100, keyBy: { resolver: 'partner' } }] },
+        }),
+      ).resolves.toMatchObject({ name: 'partners' });
+    });
+
+    it('should refuse a taken name', async () => {
+      planRepository.findOne.mockResolvedValueOnce(pro);
+
+      await expect(
+        service.create({ name: 'pro', limits: {} }),
+      ).rejects.toBeInstanceOf(ConflictException);
+    });
+
+    it.each([
+      [{ API: [{ capacity: 1 }] }, 'Invalid route group "API"'],
+      [{ api: { capacity: 1 } }, 'must be an array'],
+      [{ api: [{ capacity: 0 }] }, 'capacity must be a positive number'],
+      [{ api: [{ capacity: 1, windowSeconds: -1 }] }, 'windowSeconds'],
+      [{ api: [{ capacity: 1, strategy: 'fixed' }] }, 'unknown strategy'],
+      [{ api: [{ capacity: 1, keyBy: 'ip' }] }, 'keyBy'],
+      [
+        { api: [{ capacity: 1, keyBy: { resolver: 'missing' } }] },
+        'unknown key resolver "missing"',
+      ],
+    ])('should refuse invalid limits %j', async (limits, message) => {
+      const error = await service
+        .create({ name: 'broken', limits: limits as any })
+        .catch((e: BadRequestException) => e);
+
+      expect(error).toBeInstanceOf(BadRequestException);
+      expect((error as BadRequestException).message).toContain(message);
+      expect(manager.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('delete', () => {
+    it('should refuse a plan that is still assigned', async () => {
+      planRepository.findOne.mockResolvedValueOnce(pro);
+      assignmentRepository.exists.mockResolvedValueOnce(true);
+
+      await expect(service.delete('plan-pro')).rejects.toThrow(
+        'Plan is still assigned',
+      );
+      expect(planRepository.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('assign', () => {
+    it('should upsert the assignment and clear the cache', async () => {
+      planRepository.findOne.mockResolvedValueOnce(pro);
+      withAssignments({ subjectType: 'organization', subjectId: 'org-1' });
+
+      const assignment = await service.assign(
+        'organization',
+        'org-1',
+        'plan-pro',
+      );
+
+      expect(assignmentRepository.upsert).toHaveBeenCalledWith(
+        {
+          subjectType: 'organization',
+          subjectId: 'org-1',
+          planId: 'plan-pro',
+          overrides: null,
+        },
+        ['subjectType', 'subjectId'],
+      );
+      expect(assignment.plan).toBe(pro);
+      expect(cacheService.invalidateByTags).toHaveBeenCalledWith(['plans']);
+    });
+
+    it('should refuse an unknown plan', async () => {
+      await expect(service.assign('user', 'user-1', 'missing')).rejects.toThrow(
+        'Plan not found',
+      );
+      expect(assignmentRepository.upsert).not.toHaveBeenCalled();
+    });
+  });
+});
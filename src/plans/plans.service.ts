@@ -0,0 +1,368 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import { Plan } from './plan.entity';
+import type { PlanLimit, PlanLimits } from './plan.entity';
+import { PlanAssignment } from './plan-assignment.entity';
+import {
+  PLAN_SUBJECT_TYPES,
+  PLANS_CACHE_TAG,
+  PlanSubjectType,
+} from './plans.constants';
+import { CacheService } from '../cache/cache.service';
+import { parseExpiryToSeconds } from '../common/utils/expiry.util';
+import type { RateLimitStrategy } from '../rate-limit/rate-limit.service';
+import { KeyResolverRegistry } from '../rate-limit/key-resolvers/key-resolver.registry';
+
+export interface PlanInput {
+  name?: string;
+  limits?: PlanLimits;
+  isDefault?: boolean;
+}
+
+/**
+ * Who a request is made by, most specific first. Any of them may be missing.
+ */
+export interface PlanSubjects {
+  apiKeyId?: string;
+  orgId?: string;
+  userId?: string;
+}
+
+/**
+ * The limits of a route group and whose assignment they come from
+ */
+export interface ResolvedPlanLimits {
+  limits: PlanLimit[];
+  subjectType: PlanSubjectType | null; // null for the default plan
+}
+
+// Cached per subject; a wrapper so "no plan" is cached too
+interface CachedLimits {
+  limits: PlanLimits | null;
+}
+
+const GROUP_NAME = /^[a-z0-9_-]{1,50}$/;
+const STRATEGIES: RateLimitStrategy[] = [
+  'token_bucket',
+  'leaky_bucket',
+  'sliding_window_log',
+  'sliding_window_counter',
+  'gcra',
+];
+const KEY_BY = ['caller', 'tenant', 'route_user'];
+
+/**
+ * Rate limit plans (tiers) and which user, API key or organization is on
+ * which one.
+ *
+ * Limits are resolved per request: the API key's assignment wins over the
+ * organization's, which wins over the user's, and subjects without any fall
+ * back to the default plan. Lookups are cached for PLAN_CACHE_TTL and every
+ * change drops the whole cache, so edits apply to the next request.
+ */
+@Injectable()
+export class PlansService {
+  private readonly logger = new Logger(PlansService.name);
+  private readonly cacheTtl: number;
+
+  constructor(
+    @InjectRepository(Plan)
+    private readonly planRepository: Repository<Plan>,
+    @InjectRepository(PlanAssignment)
+    private readonly assignmentRepository: Repository<PlanAssignment>,
+    private readonly cacheService: CacheService,
+    private readonly configService: ConfigService,
+    private readonly keyResolvers: KeyResolverRegistry,
+  ) {
+    this.cacheTtl = parseExpiryToSeconds(
+      this.configService.get<string>('PLAN_CACHE_TTL', '5m'),
+    );
+  }
+
+  async list(): Promise<Plan[]> {
+    return this.planRepository.find({ order: { createdAt: 'ASC' } });
+  }
+
+  async create(input: PlanInput & { name: string }): Promise<Plan> {
+    this.validateLimits(input.limits ?? {});
+    if (await this.planRepository.findOne({ where: { name: input.name } })) {
+      throw new ConflictException(`Plan "${input.name}" already exists`);
+    }
+
+    const plan = await this.planRepository.manager.transaction(
+      async (manager) => {
+        if (input.isDefault) {
+          await manager.update(Plan, { isDefault: true }, { isDefault: false });
+        }
+        return manager.save(
+          manager.create(Plan, {
+            name: input.name,
+            limits: input.limits ?? {},
+            isDefault: input.isDefault ?? false,
+          }),
+        );
+      },
+    );
+
+    await this.invalidate();
+    this.logger.log(`Plan ${plan.name} created`);
+    return plan;
+  }
+
+  async update(id: string, input: PlanInput): Promise<Plan> {
+    const plan = await this.findPlan(id);
+    if (input.limits) {
+      this.validateLimits(input.limits);
+    }
+    if (input.name && input.name !== plan.name) {
+      if (await this.planRepository.findOne({ where: { name: input.name } })) {
+        throw new ConflictException(`Plan "${input.name}" already exists`);
+      }
+    }
+
+    const updated = await this.planRepository.manager.transaction(
+      async (manager) => {
+        if (input.isDefault && !plan.isDefault) {
+          await manager.update(Plan, { isDefault: true }, { isDefault: false });
+        }
+        return manager.save(
+          Object.assign(plan, {
+            name: input.name ?? plan.name,
+            limits: input.limits ?? plan.limits,
+            isDefault: input.isDefault ?? plan.isDefault,
+          }),
+        );
+      },
+    );
+
+    await this.invalidate();
+    this.logger.log(`Plan ${updated.name} updated`);
+    return updated;
+  }
+
+  /**
+   * Delete a plan nobody is on any more
+   */
+  async delete(id: string): Promise<void> {
+    const plan = await this.findPlan(id);
+    if (await this.assignmentRepository.exists({ where: { planId: id } })) {
+      throw new ConflictException('Plan is still assigned');
+    }
+
+    await this.planRepository.delete(plan.id);
+    await this.invalidate();
+    this.logger.log(`Plan ${plan.name} deleted`);
+  }
+
+  async getAssignment(
+    subjectType: PlanSubjectType,
+    subjectId: string,
+  ): Promise<PlanAssignment> {
+    const assignment = await this.assignmentRepository.findOne({
+      where: { subjectType, subjectId },
+      relations: { plan: true },
+    });
+    if (!assignment) {
+      throw new NotFoundException('Plan assignment not found');
+    }
+    return assignment;
+  }
+
+  /**
+   * Put a subject on a plan, replacing its current assignment and overrides
+   */
+  async assign(
+    subjectType: PlanSubjectType,
+    subjectId: string,
+    planId: string,
+    overrides: PlanLimits | null = null,
+  ): Promise<PlanAssignment> {
+    await this.findPlan(planId);
+    if (overrides) {
+      this.validateLimits(overrides);
+    }
+
+    await this.assignmentRepository.upsert(
+      { subjectType, subjectId, planId, overrides },
+      ['subjectType', 'subjectId'],
+    );
+
+    await this.invalidate();
+    this.logger.log(`${subjectType} ${subjectId} assigned to plan ${planId}`);
+    return this.getAssignment(subjectType, subjectId);
+  }
+
+  /**
+   * Take a subject off its plan, back to the default one
+   */
+  async unassign(subjectType: PlanSubjectType, subjectId: string) {
+    const result = await this.assignmentRepository.delete({
+      subjectType,
+      subjectId,
+    });
+    if (!result.affected) {
+      throw new NotFoundException('Plan assignment not found');
+    }
+    await this.invalidate();
+  }
+
+  /**
+   * The limits of a route group for the request's subjects, or null when no
+   * plan covers the group and the route's own limits apply. An empty list
+   * means the group is unlimited on the plan.
+   *
+   * Never throws: a failed lookup is logged and treated as no plan, so an
+   * unreachable database cannot turn into failed requests on its own.
+   */
+  async resolveLimits(
+    group: string,
+    subjects: PlanSubjects,
+  ): Promise<ResolvedPlanLimits | null> {
+    try {
+      const candidates: [PlanSubjectType, string | undefined][] = [
+        [PLAN_SUBJECT_TYPES.API_KEY, subjects.apiKeyId],
+        [PLAN_SUBJECT_TYPES.ORGANIZATION, subjects.orgId],
+        [PLAN_SUBJECT_TYPES.USER, subjects.userId],
+      ];
+      for (const [subjectType, subjectId] of candidates) {
+        if (!subjectId) continue;
+        const { limits } = await this.getSubjectLimits(subjectType, subjectId);
+        if (limits) {
+          // An assigned plan decides, even for groups it does not list
+          return limits[group] ? { limits: limits[group], subjectType } : null;
+        }
+      }
+
+      const { limits } = await this.getDefaultLimits();
+      return limits?.[group]
+        ? { limits: limits[group], subjectType: null }
+        : null;
+    } catch (error) {
+      this.logger.error(`Plan lookup failed: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Check limits before they are stored, since the guard trusts them as is
+   */
+  validateLimits(limits: PlanLimits): void {
+    if (!limits || typeof limits !== 'object' || Array.isArray(limits)) {
+      throw new BadRequestException('Limits must map route groups to limits');
+    }
+
+    for (const [group, groupLimits] of Object.entries(limits)) {
+      if (!GROUP_NAME.test(group)) {
+        throw new BadRequestException(`Invalid route group "${group}"`);
+      }
+      if (!Array.isArray(groupLimits)) {
+        throw new BadRequestException(
+          `Limits of route group "${group}" must be an array`,
+        );
+      }
+      for (const limit of groupLimits) {
+        this.validateLimit(group, limit);
+      }
+    }
+  }
+
+  private validateLimit(group: string, limit: PlanLimit): void {
+    const invalid = (reason: string) =>
+      new BadRequestException(`Invalid limit in "${group}": ${reason}`);
+    const isPositive = (value: unknown) =>
+      typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+    if (!limit || typeof limit !== 'object') {
+      throw invalid('must be an object');
+    }
+    if (!isPositive(limit.capacity)) {
+      throw invalid('capacity must be a positive number');
+    }
+    for (const field of [
+      'windowSeconds',
+      'refillRate',
+      'leakRate',
+      'burst',
+    ] as const) {
+      if (limit[field] !== undefined && !isPositive(limit[field])) {
+        throw invalid(`${field} must be a positive number`);
+      }
+    }
+    if (limit.strategy !== undefined && !STRATEGIES.includes(limit.strategy)) {
+      throw invalid(`unknown strategy "${limit.strategy}"`);
+    }
+    const keyBy = limit.keyBy;
+    if (keyBy === undefined || KEY_BY.includes(keyBy as string)) {
+      return;
+    }
+    if (typeof keyBy === 'object' && keyBy !== null) {
+      if ('body' in keyBy && typeof keyBy.body === 'string') {
+        return;
+      }
+      if ('resolver' in keyBy && typeof keyBy.resolver === 'string') {
+        // Refused here rather than failing every request of the group later
+        if (!this.keyResolvers.has(keyBy.resolver)) {
+          throw invalid(`unknown key resolver "${keyBy.resolver}"`);
+        }
+        return;
+      }
+    }
+    throw invalid(
+      'keyBy must be caller, tenant, route_user, { body } or { resolver }',
+    );
+  }
+
+  private async getSubjectLimits(
+    subjectType: PlanSubjectType,
+    subjectId: string,
+  ): Promise<CachedLimits> {
+    return this.cacheService.getOrSet<CachedLimits>(
+      `plans:assignment:${subjectType}:${subjectId}`,
+      async () => {
+        const assignment = await this.assignmentRepository.findOne({
+          where: { subjectType, subjectId },
+          relations: { plan: true },
+        });
+        if (!assignment) return { limits: null };
+        // Overrides replace whole groups of the plan
+        return {
+          limits: { ...assignment.plan.limits, ...assignment.overrides },
+        };
+      },
+      { ttl: this.cacheTtl, tags: [PLANS_CACHE_TAG] },
+    );
+  }
+
+  private async getDefaultLimits(): Promise<CachedLimits> {
+    return this.cacheService.getOrSet<CachedLimits>(
+      'plans:default',
+      async () => {
+        const plan = await this.planRepository.findOne({
+          where: { isDefault: true },
+        });
+        return { limits: plan?.limits ?? null };
+      },
+      { ttl: this.cacheTtl, tags: [PLANS_CACHE_TAG] },
+    );
+  }
+
+  private async findPlan(id: string): Promise<Plan> {
+    const plan = await this.planRepository.findOne({ where: { id } });
+    if (!plan) {
+      throw new NotFoundException('Plan not found');
+    }
+    return plan;
+  }
+
+  private async invalidate(): Promise<void> {
+    await this.cacheService.invalidateByTags([PLANS_CACHE_TAG]);
+  }
+}
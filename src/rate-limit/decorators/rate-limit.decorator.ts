@@ -1,8 +1,21 @@
 import { SetMetadata } from '@nestjs/common';
 import {
   RATE_LIMIT_KEY,
+  RATE_LIMIT_GROUP_KEY,
   RateLimitMetadata,
 } from '../guards/token-bucket-rate-limit.guard';
 
-export const RateLimit = (metadata: RateLimitMetadata) =>
+/**
+ * Limit a handler or controller. Pass an array to stack limits, e.g. a
+ * per-second burst and a daily quota; the request must fit all of them.
+ */
+export const RateLimit = (metadata: RateLimitMetadata | RateLimitMetadata[]) =>
   SetMetadata(RATE_LIMIT_KEY, metadata);
+
+/**
+ * Put a handler or controller in a route group of the rate limit plans. The
+ * caller's plan decides the group's limits at request time; @RateLimit()
+ * still applies when no plan lists the group.
+ */
+export const RateLimitGroup = (group: string) =>
+  SetMetadata(RATE_LIMIT_GROUP_KEY, group);
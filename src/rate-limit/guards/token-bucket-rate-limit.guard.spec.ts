@@ -0,0 +1,316 @@
+import { ExecutionContext, HttpException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { createHash } from 'crypto';
+import {
+  TokenBucketRateLimitGuard,
+  RateLimitMetadata,
+  RATE_LIMIT_KEY,
+  RATE_LIMIT_GROUP_KEY,
+} from './token-bucket-rate-limit.guard';
+import { RateLimitService } from '../rate-limit.service';
+import { KeyResolverRegistry } from '../key-resolvers/key-resolver.registry';
+import { PlansService } from '../../plans/plans.service';
+
+// The key a value is counted under, as the guard derives it
+const keyOf = (kind: string, value: string) =>
+  `${kind}:${createHash('sha256').update(value).digest('hex').slice(0, 32)}`;
+
+describe('TokenBucketRateLimitGuard', () => {
+  let guard: TokenBucketRateLimitGuard;
+  let reflector: { get: jest.Mock };
+  let rateLimitService: { checkTokenBucket: jest.Mock; checkLimits: jest.Mock };
+  let keyResolvers: KeyResolverRegistry;
+  let plansService: { resolveLimits: jest.Mock };
+  let headers: Record<string, string>;
+
+  const stacked: RateLimitMetadata[] = [
+    { capacity: 10, windowSeconds: 1, strategy: 'gcra' },
+    {
+      capacity: 10000,
+      windowSeconds: 86400,
+      strategy: 'sliding_window_counter',
+    },
+  ];
+
+  const createContext = (request: any = {}): ExecutionContext =>
+    ({
+      getHandler: () => undefined,
+      getClass: () => undefined,
+      switchToHttp: () => ({
+        getRequest: () => ({ headers: {}, ip: '127.0.0.1', ...request }),
+        getResponse: () => ({
+          header: (name: string, value: string) => (headers[name] = value),
+        }),
+      }),
+    }) as unknown as ExecutionContext;
+
+  const allowed = (remaining: number, resetTime: number) => ({
+    allowed: true,
+    remaining,
+    resetTime,
+  });
+
+  beforeEach(() => {
+    headers = {};
+    reflector = { get: jest.fn() };
+    rateLimitService = {
+      checkTokenBucket: jest.fn().mockResolvedValue(allowed(4, 1000)),
+      checkLimits: jest.fn(),
+    };
+    keyResolvers = new KeyResolverRegistry({
+      getProviders: () => [],
+    } as any);
+    plansService = { resolveLimits: jest.fn().mockResolvedValue(null) };
+    guard = new TokenBucketRateLimitGuard(
+      rateLimitService as unknown as RateLimitService,
+      reflector as unknown as Reflector,
+      keyResolvers,
+      plansService as unknown as PlansService,
+    );
+  });
+
+  it('should check a single limit under the caller key', async () => {
+    reflector.get.mockReturnValueOnce({ capacity: 5, windowSeconds: 60 });
+
+    await expect(guard.canActivate(createContext())).resolves.toBe(true);
+
+    expect(rateLimitService.checkTokenBucket).toHaveBeenCalledWith(
+      keyOf('caller', 'ip:127.0.0.1'),
+      5,
+      5 / 60,
+      60,
+    );
+    expect(headers['X-RateLimit-Limit']).toBe('5');
+  });
+
+  it('should check a stack together, one key per window', async () => {
+    reflector.get.mockReturnValueOnce(stacked);
+    rateLimitService.checkLimits.mockResolvedValueOnce([
+      allowed(9, 1000),
+      allowed(9000, 86400000),
+    ]);
+
+    await guard.canActivate(createContext({ user: { id: 'user-1' } }));
+
+    expect(rateLimitService.checkLimits).toHaveBeenCalledWith([
+      expect.objectContaining({
+        identifier: `${keyOf('caller', 'user:user-1')}:0:1s`,
+        capacity: 10,
+      }),
+      expect.objectContaining({
+        identifier: `${keyOf('caller', 'user:user-1')}:1:86400s`,
+        capacity: 10000,
+      }),
+    ]);
+  });
+
+  it('should keep identical limits of a stack apart', async () => {
+    const limit: RateLimitMetadata = { capacity: 5, windowSeconds: 60 };
+    reflector.get.mockReturnValueOnce([limit, { ...limit, capacity: 50 }]);
+    rateLimitService.checkLimits.mockResolvedValueOnce([
+      allowed(4, 1000),
+      allowed(49, 1000),
+    ]);
+
+    await guard.canActivate(createContext());
+
+    const [first, second] = rateLimitService.checkLimits.mock.calls[0][0];
+    expect(first.identifier).not.toBe(second.identifier);
+  });
+
+  it('should report the limit with the fewest requests left', async () => {
+    reflector.get.mockReturnValueOnce(stacked);
+    rateLimitService.checkLimits.mockResolvedValueOnce([
+      allowed(9, 1000),
+      allowed(3, 86400000),
+    ]);
+
+    await guard.canActivate(createContext());
+
+    expect(headers).toEqual({
+      'X-RateLimit-Limit': '10000',
+      'X-RateLimit-Remaining': '3',
+      'X-RateLimit-Reset': new Date(86400000).toISOString(),
+    });
+  });
+
+  it('should deny when any limit denies', async () => {
+    reflector.get.mockReturnValueOnce(stacked);
+    rateLimitService.checkLimits.mockResolvedValueOnce([
+      allowed(9, 1000),
+      { allowed: false, remaining: 0, resetTime: 7200000, retryAfter: 7200 },
+    ]);
+
+    const error = await guard
+      .canActivate(createContext())
+      .catch((e: HttpException) => e);
+
+    expect(error).toBeInstanceOf(HttpException);
+    expect((error as HttpException).getStatus()).toBe(429);
+    expect((error as HttpException).getResponse()).toMatchObject({
+      retryAfter: 7200,
+    });
+  });
+
+  describe('plans', () => {
+    const routeLimit: RateLimitMetadata = { capacity: 100, windowSeconds: 60 };
+
+    beforeEach(() => {
+      reflector.get.mockImplementation((key: string) =>
+        key === RATE_LIMIT_GROUP_KEY
+          ? 'api'
+          : key === RATE_LIMIT_KEY
+            ? routeLimit
+            : undefined,
+      );
+    });
+
+    it("should apply the caller's plan instead of the route limit", async () => {
+      plansService.resolveLimits.mockResolvedValueOnce({
+        limits: [{ capacity: 600, windowSeconds: 60 }],
+        subjectType: 'user',
+      });
+
+      await guard.canActivate(
+        createContext({
+          user: { id: 'user-1', apiKeyId: 'key-1' },
+          tenant: { orgId: 'org-1' },
+        }),
+      );
+
+      expect(plansService.resolveLimits).toHaveBeenCalledWith('api', {
+        apiKeyId: 'key-1',
+        orgId: 'org-1',
+        userId: 'user-1',
+      });
+      expect(rateLimitService.checkTokenBucket).toHaveBeenCalledWith(
+        `plan_api:${keyOf('caller', 'api_key:key-1')}`,
+        600,
+        10,
+        60,
+      );
+      expect(headers['X-RateLimit-Limit']).toBe('600');
+    });
+
+    it("should count an organization's plan for the whole organization", async () => {
+      plansService.resolveLimits.mockResolvedValueOnce({
+        limits: [{ capacity: 6000, windowSeconds: 60 }],
+        subjectType: 'organization',
+      });
+
+      await guard.canActivate(
+        createContext({
+          user: { id: 'user-1' },
+          tenant: { orgId: 'org-1' },
+        }),
+      );
+
+      expect(rateLimitService.checkTokenBucket.mock.calls[0][0]).toBe(
+        `plan_api:${keyOf('tenant', 'org-1')}`,
+      );
+    });
+
+    it('should fall back to the route limit without a plan', async () => {
+      await guard.canActivate(createContext());
+
+      expect(rateLimitService.checkTokenBucket).toHaveBeenCalledWith(
+        keyOf('caller', 'ip:127.0.0.1'),
+        100,
+        100 / 60,
+        60,
+      );
+    });
+
+    it('should not limit a group the plan leaves unlimited', async () => {
+      plansService.resolveLimits.mockResolvedValueOnce({
+        limits: [],
+        subjectType: null,
+      });
+
+      await expect(guard.canActivate(createContext())).resolves.toBe(true);
+
+      expect(rateLimitService.checkTokenBucket).not.toHaveBeenCalled();
+      expect(headers).toEqual({});
+    });
+  });
+
+  describe('keyBy', () => {
+    const keyFor = async (keyBy: RateLimitMetadata['keyBy'], request = {}) => {
+      reflector.get.mockReturnValueOnce({ capacity: 5, keyBy });
+      await guard.canActivate(createContext(request));
+      return rateLimitService.checkTokenBucket.mock.calls[0][0];
+    };
+
+    it('should count a caller the same in every organization', async () => {
+      await expect(
+        keyFor(undefined, {
+          user: { id: 'user-1' },
+          tenant: { orgId: 'org-1' },
+        }),
+      ).resolves.toBe(keyOf('caller', 'user:user-1'));
+    });
+
+    it('should share one key across an organization', async () => {
+      await expect(
+        keyFor('tenant', {
+          user: { id: 'user-1' },
+          tenant: { orgId: 'org-1' },
+        }),
+      ).resolves.toBe(keyOf('tenant', 'org-1'));
+    });
+
+    it('should combine the route pattern with the caller', async () => {
+      await expect(
+        keyFor('route_user', {
+          method: 'POST',
+          url: '/v1/users/1',
+          routeOptions: { url: '/v1/users/:id' },
+          user: { id: 'user-1' },
+        }),
+      ).resolves.toBe(keyOf('route_user', 'POST /v1/users/:id user:user-1'));
+    });
+
+    it('should hash a normalized body field', async () => {
+      const key = await keyFor(
+        { body: 'contact.email' },
+        { body: { contact: { email: ' Jane@Example.com' } } },
+      );
+
+      expect(key).toBe(keyOf('body:contact.email', 'jane@example.com'));
+      expect(key).not.toContain('example.com');
+    });
+
+    it('should fall back to the caller without the body field', async () => {
+      await expect(keyFor({ body: 'phone' }, { body: {} })).resolves.toBe(
+        keyOf('caller', 'ip:127.0.0.1'),
+      );
+    });
+
+    it('should use a custom function', async () => {
+      await expect(
+        keyFor((request) => request.headers['x-partner'], {
+          headers: { 'x-partner': 'acme' },
+        }),
+      ).resolves.toBe(keyOf('custom', 'acme'));
+    });
+
+    it('should use a registered resolver', async () => {
+      keyResolvers.register('partner', { resolve: () => 'acme' });
+
+      await expect(keyFor({ resolver: 'partner' })).resolves.toBe(
+        keyOf('partner', 'acme'),
+      );
+    });
+
+    it('should refuse an unknown resolver', async () => {
+      reflector.get.mockReturnValueOnce({
+        capacity: 5,
+        keyBy: { resolver: 'missing' },
+      });
+
+      await expect(guard.canActivate(createContext())).rejects.toThrow(
+        'Unknown rate limit key resolver "missing"',
+      );
+    });
+  });
+});
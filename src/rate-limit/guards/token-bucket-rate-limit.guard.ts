@@ -6,17 +6,34 @@ import {
   CanActivate,
 } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
-import { RateLimitService } from '../rate-limit.service';
+import { createHash } from 'crypto';
+import {
+  RateLimitService,
+  RateLimitCheck,
+  RateLimitResult,
+  RateLimitStrategy,
+} from '../rate-limit.service';
+import { KeyResolverRegistry } from '../key-resolvers/key-resolver.registry';
+import { PlansService } from '../../plans/plans.service';
+import { PLAN_SUBJECT_TYPES } from '../../plans/plans.constants';
+import type {
+  RateLimitKey,
+  RateLimitKeyBy,
+} from '../key-resolvers/key-resolver';
 
 export const RATE_LIMIT_KEY = 'rate_limit';
 export const RATE_LIMIT_STRATEGY_KEY = 'rate_limit_strategy';
+export const RATE_LIMIT_GROUP_KEY = 'rate_limit_group';
 
 export interface RateLimitMetadata {
-  capacity: number;
+  capacity: number; // requests per window for the sliding window strategies
   refillRate?: number; // for token bucket
   leakRate?: number; // for leaky bucket
+  burst?: number; // for GCRA, requests allowed back to back (default capacity)
   windowSeconds?: number;
-  strategy?: 'token_bucket' | 'leaky_bucket';
+  strategy?: RateLimitStrategy;
+  scope?: string; // separate bucket instead of sharing the caller's default one
+  keyBy?: RateLimitKeyBy; // what requests are counted by, default the caller
 }
 
 @Injectable()
@@ -24,6 +41,8 @@ export class TokenBucketRateLimitGuard implements CanActivate {
   constructor(
     private readonly rateLimitService: RateLimitService,
     private readonly reflector: Reflector,
+    private readonly keyResolvers: KeyResolverRegistry,
+    private readonly plansService: PlansService,
   ) {}
 
   async canActivate(context: ExecutionContext): Promise<boolean> {
@@ -31,45 +50,81 @@ export class TokenBucketRateLimitGuard implements CanActivate {
     const handler = context.getHandler();
     const controller = context.getClass();
 
-    // Get rate limit metadata from decorator
+    // Get rate limit metadata from decorator, one limit or a stack of them
     const rateLimitMeta =
-      this.reflector.get<RateLimitMetadata>(RATE_LIMIT_KEY, handler) ||
-      this.reflector.get<RateLimitMetadata>(RATE_LIMIT_KEY, controller);
+      this.reflector.get<RateLimitMetadata | RateLimitMetadata[]>(
+        RATE_LIMIT_KEY,
+        handler,
+      ) ||
+      this.reflector.get<RateLimitMetadata | RateLimitMetadata[]>(
+        RATE_LIMIT_KEY,
+        controller,
+      );
 
-    if (!rateLimitMeta) {
-      // No custom rate limit configured, allow request
-      return true;
+    const group =
+      this.reflector.get<string>(RATE_LIMIT_GROUP_KEY, handler) ||
+      this.reflector.get<string>(RATE_LIMIT_GROUP_KEY, controller);
+
+    let limits: RateLimitMetadata[] = rateLimitMeta
+      ? [rateLimitMeta].flat()
+      : [];
+    if (group) {
+      // The caller's plan replaces the route's own limits for its group
+      const plan = await this.plansService.resolveLimits(group, {
+        apiKeyId: request.user?.apiKeyId,
+        orgId: request.tenant?.orgId,
+        userId: request.user?.id,
+      });
+      if (plan) {
+        // An organization's plan is a quota for the whole organization
+        const keyBy =
+          plan.subjectType === PLAN_SUBJECT_TYPES.ORGANIZATION
+            ? 'tenant'
+            : undefined;
+        limits = plan.limits.map((limit) => ({
+          keyBy,
+          ...limit,
+          scope: `plan_${group}`,
+        }));
+      }
     }
 
-    // Get identifier (IP, user ID, API key, etc.)
-    const identifier = this.getIdentifier(request);
+    if (limits.length === 0) {
+      // No rate limit configured (or an unlimited plan), allow request
+      return true;
+    }
 
-    // Determine strategy
-    const strategy = rateLimitMeta.strategy || 'token_bucket';
-    const capacity = rateLimitMeta.capacity;
-    const windowSeconds = rateLimitMeta.windowSeconds || 60;
+    // The caller: API key, user ID or IP
+    const caller = this.getIdentifier(request);
+    const keys = await Promise.all(
+      limits.map((limit) => this.resolveKey(request, limit.keyBy, caller)),
+    );
 
-    let result;
+    // Limits of a stack are checked together, each under its own key: the
+    // position keeps apart limits that share strategy, window and key
+    const results =
+      limits.length === 1
+        ? [await this.checkLimit(this.toCheck(limits[0], keys[0]))]
+        : await this.rateLimitService.checkLimits(
+            limits.map((limit, i) =>
+              this.toCheck(
+                limit,
+                keys[i],
+                `${i}:${limit.windowSeconds || 60}s`,
+              ),
+            ),
+          );
 
-    if (strategy === 'token_bucket') {
-      const refillRate = rateLimitMeta.refillRate || capacity / windowSeconds;
-      result = await this.rateLimitService.checkTokenBucket(
-        identifier,
-        capacity,
-        refillRate,
-        windowSeconds,
+    const denied = results
+      .map((result, i) => ({ limit: limits[i], result }))
+      .filter(({ result }) => !result.allowed);
+    if (denied.length > 0) {
+      // Report the limit that keeps the caller out longest
+      const { result } = denied.reduce((longest, entry) =>
+        (entry.result.retryAfter ?? 0) > (longest.result.retryAfter ?? 0)
+          ? entry
+          : longest,
       );
-    } else {
-      const leakRate = rateLimitMeta.leakRate || capacity / windowSeconds;
-      result = await this.rateLimitService.checkLeakyBucket(
-        identifier,
-        capacity,
-        leakRate,
-        windowSeconds,
-      );
-    }
-
-    if (!result.allowed) {
       throw new HttpException(
         {
           statusCode: HttpStatus.TOO_MANY_REQUESTS,
@@ -81,9 +136,19 @@ export class TokenBucketRateLimitGuard implements CanActivate {
       );
     }
 
-    // Set rate limit headers
+    // Set rate limit headers for the most restrictive limit: the one with
+    // the fewest requests left, then the one resetting last
+    const { limit, result } = results
+      .map((result, i) => ({ limit: limits[i], result }))
+      .reduce((tightest, entry) =>
+        entry.result.remaining < tightest.result.remaining ||
+        (entry.result.remaining === tightest.result.remaining &&
+          entry.result.resetTime > tightest.result.resetTime)
+          ? entry
+          : tightest,
+      );
     const response = context.switchToHttp().getResponse();
-    response.header('X-RateLimit-Limit', capacity.toString());
+    response.header('X-RateLimit-Limit', limit.capacity.toString());
     response.header('X-RateLimit-Remaining', result.remaining.toString());
     response.header(
       'X-RateLimit-Reset',
@@ -93,10 +158,123 @@ export class TokenBucketRateLimitGuard implements CanActivate {
     return true;
   }
 
+  private toCheck(
+    limit: RateLimitMetadata,
+    key: string,
+    suffix?: string,
+  ): RateLimitCheck {
+    const identifier = limit.scope ? `${limit.scope}:${key}` : key;
+    return {
+      identifier: suffix ? `${identifier}:${suffix}` : identifier,
+      strategy: limit.strategy || 'token_bucket',
+      capacity: limit.capacity,
+      windowSeconds: limit.windowSeconds || 60,
+      refillRate: limit.refillRate,
+      leakRate: limit.leakRate,
+      burst: limit.burst,
+    };
+  }
+
+  private async checkLimit(check: RateLimitCheck): Promise<RateLimitResult> {
+    const { identifier, capacity, windowSeconds } = check;
+
+    switch (check.strategy) {
+      case 'gcra':
+        return this.rateLimitService.checkGcra(
+          identifier,
+          capacity,
+          windowSeconds,
+          check.burst ?? capacity,
+        );
+      case 'sliding_window_log':
+        return this.rateLimitService.checkSlidingWindowLog(
+          identifier,
+          capacity,
+          windowSeconds,
+        );
+      case 'sliding_window_counter':
+        return this.rateLimitService.checkSlidingWindowCounter(
+          identifier,
+          capacity,
+          windowSeconds,
+        );
+      case 'leaky_bucket':
+        return this.rateLimitService.checkLeakyBucket(
+          identifier,
+          capacity,
+          check.leakRate || capacity / windowSeconds,
+          windowSeconds,
+        );
+      default:
+        return this.rateLimitService.checkTokenBucket(
+          identifier,
+          capacity,
+          check.refillRate || capacity / windowSeconds,
+          windowSeconds,
+        );
+    }
+  }
+
+  /**
+   * The key a limit counts the request under: `<kind>:<hash>`, where the
+   * hash covers the resolved value so raw API keys, emails or phone numbers
+   * never show up in Redis key names. Caller-based keys do not depend on the
+   * organization a request acts for: user and API key IDs are unique already,
+   * and switching organizations must not hand out fresh buckets. A value
+   * that cannot be resolved falls back to the caller.
+   */
+  private async resolveKey(
+    request: any,
+    keyBy: RateLimitKeyBy = 'caller',
+    caller: string,
+  ): Promise<string> {
+    let kind = 'caller';
+    let value: RateLimitKey;
+
+    if (typeof keyBy === 'function') {
+      kind = 'custom';
+      value = await keyBy(request);
+    } else if (typeof keyBy === 'object' && 'body' in keyBy) {
+      kind = `body:${keyBy.body}`;
+      value = this.getBodyField(request.body, keyBy.body);
+    } else if (typeof keyBy === 'object') {
+      kind = keyBy.resolver;
+      value = await this.keyResolvers.get(keyBy.resolver).resolve(request);
+    } else if (keyBy === 'tenant') {
+      kind = 'tenant';
+      value = request.tenant?.orgId;
+    } else if (keyBy === 'route_user') {
+      // The route pattern, so /users/1 and /users/2 share a bucket
+      const route: string = request.routeOptions?.url ?? request.url;
+      kind = 'route_user';
+      value = `${request.method} ${route} ${caller}`;
+    }
+
+    if (!value) {
+      kind = 'caller';
+      value = caller;
+    }
+
+    const hash = createHash('sha256').update(value).digest('hex');
+    return `${kind}:${hash.slice(0, 32)}`;
+  }
+
+  // Dotted paths reach into nested objects; only strings and numbers count
+  private getBodyField(body: any, path: string): string | undefined {
+    const value = path
+      .split('.')
+      .reduce((current, field) => current?.[field], body);
+    if (typeof value === 'number') return value.toString();
+    if (typeof value !== 'string') return undefined;
+    // Case and padding must not make a new bucket, e.g. for emails
+    return value.trim().toLowerCase() || undefined;
+  }
+
   protected getIdentifier(request: any): string {
-    // Priority: API Key > User ID > IP Address
-    const apiKey = request.headers['x-api-key'] as string;
-    if (apiKey) return `api_key:${apiKey}`;
+    // Priority: API Key > User ID > IP Address. Use the key authenticated by
+    // the auth guard, never the raw header
+    const apiKeyId = request.user?.apiKeyId;
+    if (apiKeyId) return `api_key:${apiKeyId}`;
 
     const userId = request.user?.id;
     if (userId) return `user:${userId}`;
@@ -0,0 +1,44 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Injectable } from '@nestjs/common';
+import { DiscoveryModule } from '@nestjs/core';
+import { KeyResolverRegistry } from './key-resolver.registry';
+import { KeyResolver, RateLimitKeyResolver } from './key-resolver';
+
+@Injectable()
+@RateLimitKeyResolver('partner')
+class PartnerKeyResolver implements KeyResolver {
+  resolve(request: any) {
+    return request.headers['x-partner'];
+  }
+}
+
+describe('KeyResolverRegistry', () => {
+  let registry: KeyResolverRegistry;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      imports: [DiscoveryModule],
+      providers: [KeyResolverRegistry, PartnerKeyResolver],
+    }).compile();
+    await module.init();
+
+    registry = module.get<KeyResolverRegistry>(KeyResolverRegistry);
+  });
+
+  it('should pick up decorated providers', () => {
+    expect(registry.get('partner')).toBeInstanceOf(PartnerKeyResolver);
+  });
+
+  it('should refuse a second resolver under the same name', () => {
+    expect(() => registry.register('partner', { resolve: () => 'x' })).toThrow(
+      'Rate limit key resolver "partner" is already registered',
+    );
+  });
+
+  it('should refuse to hand out an unknown resolver', () => {
+    expect(registry.has('missing')).toBe(false);
+    expect(() => registry.get('missing')).toThrow(
+      'Unknown rate limit key resolver "missing"',
+    );
+  });
+});
@@ -0,0 +1,57 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { DiscoveryService } from '@nestjs/core';
+import { KeyResolver, RateLimitKeyResolver } from './key-resolver';
+
+/**
+ * Named key resolvers for `keyBy: { resolver }`. Providers decorated with
+ * @RateLimitKeyResolver() anywhere in the app are picked up at startup;
+ * others can be added with register().
+ */
+@Injectable()
+export class KeyResolverRegistry implements OnModuleInit {
+  private readonly logger = new Logger(KeyResolverRegistry.name);
+  private readonly resolvers = new Map<string, KeyResolver>();
+
+  constructor(private readonly discoveryService: DiscoveryService) {}
+
+  onModuleInit() {
+    const wrappers = this.discoveryService.getProviders({
+      metadataKey: RateLimitKeyResolver.KEY,
+    });
+    for (const wrapper of wrappers) {
+      const name = this.discoveryService.getMetadataByDecorator(
+        RateLimitKeyResolver,
+        wrapper,
+      );
+      if (name && wrapper.instance) {
+        this.register(name, wrapper.instance as KeyResolver);
+      }
+    }
+  }
+
+  register(name: string, resolver: KeyResolver): void {
+    if (this.resolvers.has(name)) {
+      throw new Error(
+        `Rate limit key resolver "${name}" is already registered`,
+      );
+    }
+    this.resolvers.set(name, resolver);
+    this.logger.log(`Registered rate limit key resolver "${name}"`);
+  }
+
+  has(name: string): boolean {
+    return this.resolvers.has(name);
+  }
+
+  /**
+   * A route naming an unknown resolver is a programming error, not a reason
+   * to let its requests through unlimited
+   */
+  get(name: string): KeyResolver {
+    const resolver = this.resolvers.get(name);
+    if (!resolver) {
+      throw new Error(`Unknown rate limit key resolver "${name}"`);
+    }
+    return resolver;
+  }
+}
@@ -0,0 +1,44 @@
+import { DiscoveryService } from '@nestjs/core';
+
+export type RateLimitKey = string | null | undefined;
+
+/**
+ * Derives the value a request is rate limited by. Returning nothing falls
+ * back to the caller (API key, user or IP).
+ */
+export type RateLimitKeyFn = (
+  request: any,
+) => RateLimitKey | Promise<RateLimitKey>;
+
+/**
+ * Injectable resolver, registered by name with @RateLimitKeyResolver()
+ */
+export interface KeyResolver {
+  resolve(request: any): RateLimitKey | Promise<RateLimitKey>;
+}
+
+/**
+ * What a limit counts requests by:
+ *  - caller:     API key, else user, else IP (the default)
+ *  - tenant:     the organization, shared by all of its members
+ *  - route_user: the caller on this route only
+ *  - { body }:   a request body field, e.g. the phone number of an OTP send
+ *  - { resolver }: a resolver registered under that name
+ *  - a function of the request
+ */
+export type RateLimitKeyBy =
+  | 'caller'
+  | 'tenant'
+  | 'route_user'
+  | { body: string }
+  | { resolver: string }
+  | RateLimitKeyFn;
+
+/**
+ * Registers a provider as a key resolver for `keyBy: { resolver: name }`:
+ *
+ *   @Injectable()
+ *   @RateLimitKeyResolver('partner')
+ *   export class PartnerKeyResolver implements KeyResolver { ... }
+ */
+export const RateLimitKeyResolver = DiscoveryService.createDecorator<string>();
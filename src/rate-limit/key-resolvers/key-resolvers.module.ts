@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { DiscoveryModule } from '@nestjs/core';
+import { KeyResolverRegistry } from './key-resolver.registry';
+
+// Separate from RateLimitModule so PlansModule can check resolver names
+@Module({
+  imports: [DiscoveryModule],
+  providers: [KeyResolverRegistry],
+  exports: [KeyResolverRegistry],
+})
+export class KeyResolversModule {}
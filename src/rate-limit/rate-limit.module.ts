@@ -2,8 +2,11 @@ import { Module } from '@nestjs/common';
 import { APP_GUARD } from '@nestjs/core';
 import { RateLimitService } from './rate-limit.service';
 import { TokenBucketRateLimitGuard } from './guards/token-bucket-rate-limit.guard';
+import { KeyResolversModule } from './key-resolvers/key-resolvers.module';
+import { PlansModule } from '../plans/plans.module';
 
 @Module({
+  imports: [KeyResolversModule, PlansModule],
   providers: [
     RateLimitService,
     {
@@ -11,6 +14,6 @@ import { TokenBucketRateLimitGuard } from './guards/token-bucket-rate-limit.guar
       useClass: TokenBucketRateLimitGuard,
     },
   ],
-  exports: [RateLimitService],
+  exports: [RateLimitService, KeyResolversModule],
 })
 export class RateLimitModule {}
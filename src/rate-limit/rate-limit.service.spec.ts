@@ -174,4 +174,286 @@ describe('RateLimitService', () => {
       expect(result.allowed).toBe(true); // Fail open by default
     });
   });
+
+  describe('checkSlidingWindowLog', () => {
+    it('should allow request while the window has room', async () => {
+      redisService.isHealthy.mockReturnValue(true);
+      mockRedisClient.eval.mockResolvedValue([1, 9, Date.now() + 60000]);
+
+      const result = await service.checkSlidingWindowLog('user1', 10, 60);
+
+      expect(result.allowed).toBe(true);
+      expect(result.remaining).toBe(9);
+      expect(mockRedisClient.eval).toHaveBeenCalledWith(
+        expect.any(String),
+        1,
+        'rate_limit:sliding_log:user1',
+        '10',
+        '60000',
+        expect.any(String),
+        expect.any(String),
+      );
+    });
+
+    it('should log each request under a unique member', async () => {
+      redisService.isHealthy.mockReturnValue(true);
+      mockRedisClient.eval.mockResolvedValue([1, 9, Date.now() + 60000]);
+
+      await service.checkSlidingWindowLog('user1', 10, 60);
+      await service.checkSlidingWindowLog('user1', 10, 60);
+
+      const [first, second] = mockRedisClient.eval.mock.calls.map(
+        (call: any[]) => call[6],
+      );
+      expect(first).not.toBe(second);
+    });
+
+    it('should deny request when the window is full', async () => {
+      redisService.isHealthy.mockReturnValue(true);
+      mockRedisClient.eval.mockResolvedValue([0, 0, Date.now() + 12000, 12]);
+
+      const result = await service.checkSlidingWindowLog('user1', 10, 60);
+
+      expect(result.allowed).toBe(false);
+      expect(result.remaining).toBe(0);
+      expect(result.retryAfter).toBe(12);
+      expect(metricsService.recordRateLimitHit).toHaveBeenCalledWith(
+        'user1',
+        'sliding_window_log',
+      );
+    });
+
+    it('should allow request when Redis is down and skipIfRedisDown is true', async () => {
+      redisService.isHealthy.mockReturnValue(false);
+
+      const result = await service.checkSlidingWindowLog('user1', 10, 60);
+
+      expect(result.allowed).toBe(true);
+      expect(mockRedisClient.eval).not.toHaveBeenCalled();
+    });
+
+    it('should handle Redis errors gracefully', async () => {
+      redisService.isHealthy.mockReturnValue(true);
+      mockRedisClient.eval.mockRejectedValue(new Error('Redis error'));
+
+      const result = await service.checkSlidingWindowLog('user1', 10, 60);
+
+      expect(result.allowed).toBe(true); // Fail open by default
+    });
+  });
+
+  describe('checkSlidingWindowCounter', () => {
+    it('should allow request while the weighted count is under the limit', async () => {
+      redisService.isHealthy.mockReturnValue(true);
+      mockRedisClient.eval.mockResolvedValue([1, 4, Date.now() + 60000]);
+
+      const result = await service.checkSlidingWindowCounter('user1', 10, 60);
+
+      expect(result.allowed).toBe(true);
+      expect(result.remaining).toBe(4);
+      expect(mockRedisClient.eval).toHaveBeenCalledWith(
+        expect.any(String),
+        1,
+        'rate_limit:sliding_counter:user1',
+        '10',
+        '60000',
+        expect.any(String),
+      );
+    });
+
+    it('should deny request when the weighted count reaches the limit', async () => {
+      redisService.isHealthy.mockReturnValue(true);
+      mockRedisClient.eval.mockResolvedValue([0, 0, Date.now() + 3000, 3]);
+
+      const result = await service.checkSlidingWindowCounter('user1', 10, 60);
+
+      expect(result.allowed).toBe(false);
+      expect(result.retryAfter).toBe(3);
+      expect(metricsService.recordRateLimitHit).toHaveBeenCalledWith(
+        'user1',
+        'sliding_window_counter',
+      );
+    });
+
+    it('should deny request when Redis is down and skipIfRedisDown is false', async () => {
+      configService.get.mockImplementation(
+        (key: string, defaultValue?: any) => {
+          if (key === 'RATE_LIMIT_SKIP_IF_REDIS_DOWN') return false;
+          return defaultValue;
+        },
+      );
+      const newService = new RateLimitService(
+        redisService,
+        metricsService,
+        configService,
+      );
+      redisService.isHealthy.mockReturnValue(false);
+
+      const result = await newService.checkSlidingWindowCounter(
+        'user1',
+        10,
+        60,
+      );
+
+      expect(result.allowed).toBe(false);
+      expect(result.retryAfter).toBe(60);
+    });
+
+    it('should handle Redis errors gracefully', async () => {
+      redisService.isHealthy.mockReturnValue(true);
+      mockRedisClient.eval.mockRejectedValue(new Error('Redis error'));
+
+      const result = await service.checkSlidingWindowCounter('user1', 10, 60);
+
+      expect(result.allowed).toBe(true); // Fail open by default
+    });
+  });
+
+  describe('checkGcra', () => {
+    it('should keep one TAT key per identifier', async () => {
+      redisService.isHealthy.mockReturnValue(true);
+      mockRedisClient.eval.mockResolvedValue([1, 9, Date.now() + 6000]);
+
+      const result = await service.checkGcra('user1', 10, 60, 10);
+
+      expect(result.allowed).toBe(true);
+      expect(result.remaining).toBe(9);
+      expect(result.retryAfterMs).toBeUndefined();
+      expect(mockRedisClient.eval).toHaveBeenCalledWith(
+        expect.any(String),
+        1,
+        'rate_limit:gcra:user1',
+        '6000', // emission interval: 60s / 10 requests
+        '10',
+        expect.any(String),
+      );
+    });
+
+    it('should default the burst to the limit', async () => {
+      redisService.isHealthy.mockReturnValue(true);
+      mockRedisClient.eval.mockResolvedValue([1, 4, Date.now() + 200]);
+
+      await service.checkGcra('user1', 5, 1);
+
+      expect(mockRedisClient.eval).toHaveBeenCalledWith(
+        expect.any(String),
+        1,
+        'rate_limit:gcra:user1',
+        '200',
+        '5',
+        expect.any(String),
+      );
+    });
+
+    it('should return the exact wait in milliseconds when denied', async () => {
+      redisService.isHealthy.mockReturnValue(true);
+      mockRedisClient.eval.mockResolvedValue([0, 0, Date.now() + 60000, 1234]);
+
+      const result = await service.checkGcra('user1', 10, 60);
+
+      expect(result.allowed).toBe(false);
+      expect(result.retryAfterMs).toBe(1234);
+      expect(result.retryAfter).toBe(2);
+      expect(metricsService.recordRateLimitHit).toHaveBeenCalledWith(
+        'user1',
+        'gcra',
+      );
+    });
+
+    it('should allow request when Redis is down and skipIfRedisDown is true', async () => {
+      redisService.isHealthy.mockReturnValue(false);
+
+      const result = await service.checkGcra('user1', 10, 60);
+
+      expect(result.allowed).toBe(true);
+      expect(mockRedisClient.eval).not.toHaveBeenCalled();
+    });
+
+    it('should handle Redis errors gracefully', async () => {
+      redisService.isHealthy.mockReturnValue(true);
+      mockRedisClient.eval.mockRejectedValue(new Error('Redis error'));
+
+      const result = await service.checkGcra('user1', 10, 60);
+
+      expect(result.allowed).toBe(true); // Fail open by default
+    });
+  });
+
+  describe('checkLimits', () => {
+    const checks = [
+      {
+        identifier: 'user1:1s',
+        strategy: 'gcra' as const,
+        capacity: 10,
+        windowSeconds: 1,
+      },
+      {
+        identifier: 'user1:86400s',
+        strategy: 'sliding_window_counter' as const,
+        capacity: 10000,
+        windowSeconds: 86400,
+      },
+    ];
+
+    it('should check every limit in one round-trip', async () => {
+      redisService.isHealthy.mockReturnValue(true);
+      mockRedisClient.eval.mockResolvedValue([
+        [1, 9, Date.now() + 100, 0],
+        [1, 9990, Date.now() + 3600000, 0],
+      ]);
+
+      const results = await service.checkLimits(checks);
+
+      expect(mockRedisClient.eval).toHaveBeenCalledTimes(1);
+      const [, keyCount, ...rest] = mockRedisClient.eval.mock.calls[0];
+      expect(keyCount).toBe(2);
+      expect(rest.slice(0, 2)).toEqual([
+        'rate_limit:gcra:user1:1s',
+        'rate_limit:sliding_counter:user1:86400s',
+      ]);
+      expect(rest.slice(3, 7)).toEqual(['gcra', '10', '1000', '10']);
+      expect(results.map((result) => result.allowed)).toEqual([true, true]);
+      expect(results[1].remaining).toBe(9990);
+    });
+
+    it('should report which limits denied the request', async () => {
+      redisService.isHealthy.mockReturnValue(true);
+      mockRedisClient.eval.mockResolvedValue([
+        [1, 9, Date.now() + 100, 0],
+        [0, 0, Date.now() + 7200000, 7200000],
+      ]);
+
+      const [burst, quota] = await service.checkLimits(checks);
+
+      expect(burst.allowed).toBe(true);
+      expect(quota).toMatchObject({
+        allowed: false,
+        retryAfter: 7200,
+        retryAfterMs: 7200000,
+      });
+      expect(metricsService.recordRateLimitHit).toHaveBeenCalledTimes(1);
+      expect(metricsService.recordRateLimitHit).toHaveBeenCalledWith(
+        'user1:86400s',
+        'sliding_window_counter',
+      );
+    });
+
+    it('should allow request when Redis is down and skipIfRedisDown is true', async () => {
+      redisService.isHealthy.mockReturnValue(false);
+
+      const results = await service.checkLimits(checks);
+
+      expect(results.every((result) => result.allowed)).toBe(true);
+      expect(mockRedisClient.eval).not.toHaveBeenCalled();
+    });
+
+    it('should handle Redis errors gracefully', async () => {
+      redisService.isHealthy.mockReturnValue(true);
+      mockRedisClient.eval.mockRejectedValue(new Error('Redis error'));
+
+      const results = await service.checkLimits(checks);
+
+      expect(results.every((result) => result.allowed)).toBe(true); // Fail open by default
+    });
+  });
 });
@@ -1,5 +1,6 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
 import { RedisService } from '../redis/redis.service';
 import { MetricsService } from '../observability/metrics.service';
 
@@ -8,8 +9,190 @@ export interface RateLimitResult {
   remaining: number;
   resetTime: number;
   retryAfter?: number;
+  retryAfterMs?: number; // exact wait, where the strategy knows it
 }
 
+export type RateLimitStrategy =
+  | 'token_bucket'
+  | 'leaky_bucket'
+  | 'sliding_window_log'
+  | 'sliding_window_counter'
+  | 'gcra';
+
+/**
+ * One limit of a stack checked together by checkLimits()
+ */
+export interface RateLimitCheck {
+  identifier: string;
+  strategy: RateLimitStrategy;
+  capacity: number;
+  windowSeconds: number;
+  refillRate?: number; // token bucket, defaults to capacity per window
+  leakRate?: number; // leaky bucket, defaults to capacity per window
+  burst?: number; // GCRA, defaults to capacity
+}
+
+const KEY_PREFIXES: Record<RateLimitStrategy, string> = {
+  token_bucket: 'rate_limit:token_bucket',
+  leaky_bucket: 'rate_limit:leaky_bucket',
+  sliding_window_log: 'rate_limit:sliding_log',
+  sliding_window_counter: 'rate_limit:sliding_counter',
+  gcra: 'rate_limit:gcra',
+};
+
+/**
+ * Checks a stack of limits in one script. Each strategy function mirrors the
+ * script of its single-limit method, but only decides: it returns its result
+ * ({allowed, remaining, resetTime, retryAfterMs}) and a function applying
+ * its write, and the writes run only once every limit has allowed the
+ * request. A denied request therefore uses up none of the limits.
+ *
+ * ARGV[1] is the current time, then five values per key: strategy, capacity,
+ * window in ms, strategy parameter (refill rate, leak rate or burst) and a
+ * unique member for the sliding window log.
+ */
+const STACKED_LIMITS_SCRIPT = `
+  local function noop() end
+
+  local function token_bucket(key, now, capacity, windowMs, refillRate)
+    local bucket = redis.call('HMGET', key, 'tokens', 'lastRefill')
+    local tokens = tonumber(bucket[1]) or capacity
+    local lastRefill = tonumber(bucket[2]) or now
+    local tokensToAdd = math.floor((now - lastRefill) / 1000 * refillRate)
+    tokens = math.min(capacity, tokens + tokensToAdd)
+
+    if tokens >= 1 then
+      return {1, tokens - 1, now + windowMs, 0}, function()
+        redis.call('HMSET', key, 'tokens', tokens - 1, 'lastRefill', now)
+        redis.call('EXPIRE', key, math.ceil(windowMs / 1000))
+      end
+    end
+    local timeNeeded = math.ceil((1 - tokens) / refillRate)
+    return {0, tokens, now + timeNeeded * 1000, timeNeeded * 1000}, noop
+  end
+
+  local function leaky_bucket(key, now, capacity, windowMs, leakRate)
+    local bucket = redis.call('HMGET', key, 'level', 'lastLeak')
+    local level = tonumber(bucket[1]) or 0
+    local lastLeak = tonumber(bucket[2]) or now
+    local leaked = math.floor((now - lastLeak) / 1000 * leakRate)
+    level = math.max(0, level - leaked)
+
+    if level < capacity then
+      return {1, capacity - level - 1, now + windowMs, 0}, function()
+        redis.call('HMSET', key, 'level', level + 1, 'lastLeak', now)
+        redis.call('EXPIRE', key, math.ceil(windowMs / 1000))
+      end
+    end
+    local timeNeeded = math.ceil((level - capacity + 1) / leakRate)
+    return {0, 0, now + timeNeeded * 1000, timeNeeded * 1000}, noop
+  end
+
+  local function sliding_window_log(key, now, capacity, windowMs, _, member)
+    redis.call('ZREMRANGEBYSCORE', key, '-inf', now - windowMs)
+    local count = redis.call('ZCARD', key)
+
+    if count < capacity then
+      local oldest = redis.call('ZRANGE', key, 0, 0, 'WITHSCORES')
+      local resetTime = (tonumber(oldest[2]) or now) + windowMs
+      return {1, capacity - count - 1, resetTime, 0}, function()
+        redis.call('ZADD', key, now, member)
+        redis.call('PEXPIRE', key, windowMs)
+      end
+    end
+    local freeing = redis.call('ZRANGE', key, count - capacity, count - capacity, 'WITHSCORES')
+    local resetTime = tonumber(freeing[2]) + windowMs
+    return {0, 0, resetTime, resetTime - now}, noop
+  end
+
+  local function sliding_window_counter(key, now, capacity, windowMs)
+    local window = math.floor(now / windowMs)
+    local elapsed = now - window * windowMs
+
+    local state = redis.call('HMGET', key, 'window', 'current', 'previous')
+    local storedWindow = tonumber(state[1])
+    local current = tonumber(state[2]) or 0
+    local previous = tonumber(state[3]) or 0
+    if storedWindow ~= window then
+      if storedWindow == window - 1 then
+        previous = current
+      else
+        previous = 0
+      end
+      current = 0
+    end
+
+    local estimated = previous * (windowMs - elapsed) / windowMs + current
+    if estimated + 1 <= capacity then
+      local remaining = math.floor(capacity - estimated - 1)
+      return {1, remaining, (window + 1) * windowMs, 0}, function()
+        redis.call('HSET', key, 'window', window, 'current', current + 1, 'previous', previous)
+        redis.call('PEXPIRE', key, windowMs * 2)
+      end
+    end
+    local waitMs
+    if current + 1 <= capacity then
+      waitMs = windowMs * (1 - (capacity - 1 - current) / previous) - elapsed
+    else
+      waitMs = windowMs - elapsed + windowMs * math.max(0, 1 - (capacity - 1) / current)
+    end
+    waitMs = math.max(1, math.ceil(waitMs))
+    return {0, 0, now + waitMs, waitMs}, noop
+  end
+
+  local function gcra(key, now, capacity, windowMs, burst)
+    local interval = windowMs / capacity
+    local tat = math.max(tonumber(redis.call('GET', key)) or now, now)
+    local newTat = tat + interval
+    local allowAt = newTat - burst * interval
+
+    if now < allowAt then
+      return {0, 0, math.ceil(tat), math.ceil(allowAt - now)}, noop
+    end
+    return {1, math.floor((now - allowAt) / interval), math.ceil(newTat), 0}, function()
+      redis.call('SET', key, newTat, 'PX', math.ceil(newTat - now))
+    end
+  end
+
+  local strategies = {
+    token_bucket = token_bucket,
+    leaky_bucket = leaky_bucket,
+    sliding_window_log = sliding_window_log,
+    sliding_window_counter = sliding_window_counter,
+    gcra = gcra,
+  }
+
+  local now = tonumber(ARGV[1])
+  local results = {}
+  local writes = {}
+  local denied = false
+
+  for i, key in ipairs(KEYS) do
+    local base = 1 + (i - 1) * 5
+    local check = strategies[ARGV[base + 1]]
+    local result, write = check(
+      key,
+      now,
+      tonumber(ARGV[base + 2]),
+      tonumber(ARGV[base + 3]),
+      tonumber(ARGV[base + 4]),
+      ARGV[base + 5]
+    )
+    if result[1] == 0 then
+      denied = true
+    end
+    results[i] = result
+    writes[i] = write
+  end
+
+  if not denied then
+    for _, write in ipairs(writes) do
+      write()
+    end
+  end
+  return results
+`;
+
 @Injectable()
 export class RateLimitService {
   private readonly logger = new Logger(RateLimitService.name);
@@ -247,4 +430,380 @@ export class RateLimitService {
       };
     }
   }
+
+  /**
+   * Sliding Window Log Implementation
+   * Exact "N requests per rolling window": every allowed request is logged in
+   * a sorted set scored by time, and entries older than the window are
+   * trimmed before counting. Memory grows with the limit, one entry per
+   * request in the window.
+   *
+   * Layout: rate_limit:sliding_log:<identifier> (ZSET, score = timestamp ms)
+   */
+  async checkSlidingWindowLog(
+    identifier: string,
+    limit: number,
+    windowSeconds: number = 60,
+  ): Promise<RateLimitResult> {
+    const key = `rate_limit:sliding_log:${identifier}`;
+    const now = Date.now();
+    const windowMs = windowSeconds * 1000;
+
+    if (!this.redisService.isHealthy()) {
+      return this.unavailableResult(identifier, limit, now, windowSeconds);
+    }
+
+    try {
+      const redis = this.redisService.getClient();
+      const luaScript = `
+        local key = KEYS[1]
+        local limit = tonumber(ARGV[1])
+        local windowMs = tonumber(ARGV[2])
+        local now = tonumber(ARGV[3])
+        local member = ARGV[4]
+
+        -- Forget requests that have left the window
+        redis.call('ZREMRANGEBYSCORE', key, '-inf', now - windowMs)
+        local count = redis.call('ZCARD', key)
+
+        if count < limit then
+          redis.call('ZADD', key, now, member)
+          redis.call('PEXPIRE', key, windowMs)
+          local oldest = redis.call('ZRANGE', key, 0, 0, 'WITHSCORES')
+          return {1, limit - count - 1, tonumber(oldest[2]) + windowMs}
+        else
+          -- A slot frees up once enough of the oldest entries expire
+          local freeing = redis.call('ZRANGE', key, count - limit, count - limit, 'WITHSCORES')
+          local resetTime = tonumber(freeing[2]) + windowMs
+          return {0, 0, resetTime, math.ceil((resetTime - now) / 1000)}
+        end
+      `;
+
+      const result = (await redis.eval(
+        luaScript,
+        1,
+        key,
+        limit.toString(),
+        windowMs.toString(),
+        now.toString(),
+        // Unique even for requests within the same millisecond
+        `${now}:${randomUUID()}`,
+      )) as [number, number, number, number?];
+
+      const [allowed, remaining, resetTime, retryAfter] = result;
+
+      if (!allowed) {
+        this.metricsService.recordRateLimitHit(
+          identifier,
+          'sliding_window_log',
+        );
+      }
+
+      return {
+        allowed: allowed === 1,
+        remaining: Math.floor(remaining),
+        resetTime,
+        retryAfter: retryAfter ? Math.ceil(retryAfter) : undefined,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Sliding window log check failed for ${identifier}: ${error.message}`,
+      );
+      return this.failureResult(limit, now, windowSeconds);
+    }
+  }
+
+  /**
+   * Sliding Window Counter Implementation
+   * Approximates a rolling window with two fixed windows: the previous
+   * window's count is weighted by how much of it still overlaps the rolling
+   * window. Constant memory per identifier, at the cost of assuming the
+   * previous window's requests were evenly spread.
+   *
+   * Layout: rate_limit:sliding_counter:<identifier> (HASH: window, current,
+   * previous), where window is the index of the current fixed window
+   */
+  async checkSlidingWindowCounter(
+    identifier: string,
+    limit: number,
+    windowSeconds: number = 60,
+  ): Promise<RateLimitResult> {
+    const key = `rate_limit:sliding_counter:${identifier}`;
+    const now = Date.now();
+    const windowMs = windowSeconds * 1000;
+
+    if (!this.redisService.isHealthy()) {
+      return this.unavailableResult(identifier, limit, now, windowSeconds);
+    }
+
+    try {
+      const redis = this.redisService.getClient();
+      const luaScript = `
+        local key = KEYS[1]
+        local limit = tonumber(ARGV[1])
+        local windowMs = tonumber(ARGV[2])
+        local now = tonumber(ARGV[3])
+
+        local window = math.floor(now / windowMs)
+        local elapsed = now - window * windowMs
+
+        local state = redis.call('HMGET', key, 'window', 'current', 'previous')
+        local storedWindow = tonumber(state[1])
+        local current = tonumber(state[2]) or 0
+        local previous = tonumber(state[3]) or 0
+
+        -- Shift the counters along when a new fixed window has started
+        if storedWindow ~= window then
+          if storedWindow == window - 1 then
+            previous = current
+          else
+            previous = 0
+          end
+          current = 0
+        end
+
+        local weight = (windowMs - elapsed) / windowMs
+        local estimated = previous * weight + current
+
+        if estimated + 1 <= limit then
+          current = current + 1
+          redis.call('HSET', key, 'window', window, 'current', current, 'previous', previous)
+          redis.call('PEXPIRE', key, windowMs * 2)
+          return {1, math.floor(limit - estimated - 1), (window + 1) * windowMs}
+        else
+          -- Wait until the weighted previous count has decayed enough; if the
+          -- current window alone is over the limit, that happens in the next one
+          local waitMs
+          if current + 1 <= limit then
+            waitMs = windowMs * (1 - (limit - 1 - current) / previous) - elapsed
+          else
+            waitMs = windowMs - elapsed + windowMs * math.max(0, 1 - (limit - 1) / current)
+          end
+          waitMs = math.max(1, math.ceil(waitMs))
+          return {0, 0, now + waitMs, math.ceil(waitMs / 1000)}
+        end
+      `;
+
+      const result = (await redis.eval(
+        luaScript,
+        1,
+        key,
+        limit.toString(),
+        windowMs.toString(),
+        now.toString(),
+      )) as [number, number, number, number?];
+
+      const [allowed, remaining, resetTime, retryAfter] = result;
+
+      if (!allowed) {
+        this.metricsService.recordRateLimitHit(
+          identifier,
+          'sliding_window_counter',
+        );
+      }
+
+      return {
+        allowed: allowed === 1,
+        remaining: Math.floor(remaining),
+        resetTime,
+        retryAfter: retryAfter ? Math.ceil(retryAfter) : undefined,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Sliding window counter check failed for ${identifier}: ${error.message}`,
+      );
+      return this.failureResult(limit, now, windowSeconds);
+    }
+  }
+
+  /**
+   * Generic Cell Rate Algorithm (GCRA) Implementation
+   * Same behaviour as a token bucket holding `burst` tokens that refill at
+   * `limit` per period, but the whole state is one timestamp: the
+   * theoretical arrival time (TAT) at which the bucket would be full again.
+   * A request is allowed unless it arrives more than the burst tolerance
+   * ahead of the TAT, and each allowed one pushes the TAT back by one
+   * emission interval. The TTL is set in the same SET, so a key never
+   * outlives the moment it would read as empty.
+   *
+   * Layout: rate_limit:gcra:<identifier> (STRING, TAT in ms)
+   */
+  async checkGcra(
+    identifier: string,
+    limit: number, // requests per period
+    periodSeconds: number = 60,
+    burst: number = limit, // requests allowed back to back
+  ): Promise<RateLimitResult> {
+    const key = `rate_limit:gcra:${identifier}`;
+    const now = Date.now();
+    const emissionIntervalMs = (periodSeconds * 1000) / limit;
+
+    if (!this.redisService.isHealthy()) {
+      return this.unavailableResult(identifier, burst, now, periodSeconds);
+    }
+
+    try {
+      const redis = this.redisService.getClient();
+      const luaScript = `
+        local key = KEYS[1]
+        local interval = tonumber(ARGV[1])
+        local burst = tonumber(ARGV[2])
+        local now = tonumber(ARGV[3])
+
+        local tat = tonumber(redis.call('GET', key)) or now
+        tat = math.max(tat, now)
+        local newTat = tat + interval
+        local allowAt = newTat - burst * interval
+
+        if now < allowAt then
+          return {0, 0, math.ceil(tat), math.ceil(allowAt - now)}
+        end
+
+        redis.call('SET', key, newTat, 'PX', math.ceil(newTat - now))
+        return {1, math.floor((now - allowAt) / interval), math.ceil(newTat)}
+      `;
+
+      const result = (await redis.eval(
+        luaScript,
+        1,
+        key,
+        emissionIntervalMs.toString(),
+        burst.toString(),
+        now.toString(),
+      )) as [number, number, number, number?];
+
+      const [allowed, remaining, resetTime, retryAfterMs] = result;
+
+      if (!allowed) {
+        this.metricsService.recordRateLimitHit(identifier, 'gcra');
+      }
+
+      return {
+        allowed: allowed === 1,
+        remaining: Math.floor(remaining),
+        resetTime,
+        retryAfter: retryAfterMs ? Math.ceil(retryAfterMs / 1000) : undefined,
+        retryAfterMs,
+      };
+    } catch (error) {
+      this.logger.error(
+        `GCRA check failed for ${identifier}: ${error.message}`,
+      );
+      return this.failureResult(burst, now, periodSeconds);
+    }
+  }
+
+  /**
+   * Check a stack of limits (e.g. a per-second burst and a daily quota) in
+   * one atomic round-trip. The request is allowed only if every limit
+   * allows it, and only then is it counted against them. Results are in the
+   * order of the checks; each limit needs its own identifier.
+   */
+  async checkLimits(checks: RateLimitCheck[]): Promise<RateLimitResult[]> {
+    const now = Date.now();
+
+    if (!this.redisService.isHealthy()) {
+      return checks.map((check) =>
+        this.unavailableResult(
+          check.identifier,
+          check.capacity,
+          now,
+          check.windowSeconds,
+        ),
+      );
+    }
+
+    try {
+      const redis = this.redisService.getClient();
+      const keys = checks.map(
+        (check) => `${KEY_PREFIXES[check.strategy]}:${check.identifier}`,
+      );
+      const args = checks.flatMap((check) => [
+        check.strategy,
+        check.capacity.toString(),
+        (check.windowSeconds * 1000).toString(),
+        this.strategyParameter(check).toString(),
+        `${now}:${randomUUID()}`,
+      ]);
+
+      const results = (await redis.eval(
+        STACKED_LIMITS_SCRIPT,
+        keys.length,
+        ...keys,
+        now.toString(),
+        ...args,
+      )) as [number, number, number, number][];
+
+      return results.map(([allowed, remaining, resetTime, retryAfterMs], i) => {
+        if (!allowed) {
+          this.metricsService.recordRateLimitHit(
+            checks[i].identifier,
+            checks[i].strategy,
+          );
+        }
+        return {
+          allowed: allowed === 1,
+          remaining: Math.max(0, Math.floor(remaining)),
+          resetTime,
+          retryAfter: allowed ? undefined : Math.ceil(retryAfterMs / 1000),
+          retryAfterMs: allowed ? undefined : retryAfterMs,
+        };
+      });
+    } catch (error) {
+      this.logger.error(`Stacked rate limit check failed: ${error.message}`);
+      return checks.map((check) =>
+        this.failureResult(check.capacity, now, check.windowSeconds),
+      );
+    }
+  }
+
+  // The per-strategy value the stacked script expects after the window
+  private strategyParameter(check: RateLimitCheck): number {
+    switch (check.strategy) {
+      case 'token_bucket':
+        return check.refillRate || check.capacity / check.windowSeconds;
+      case 'leaky_bucket':
+        return check.leakRate || check.capacity / check.windowSeconds;
+      case 'gcra':
+        return check.burst ?? check.capacity;
+      default:
+        return 0;
+    }
+  }
+
+  /**
+   * Result while Redis is known to be down, per RATE_LIMIT_SKIP_IF_REDIS_DOWN
+   */
+  private unavailableResult(
+    identifier: string,
+    limit: number,
+    now: number,
+    windowSeconds: number,
+  ): RateLimitResult {
+    this.logger.warn(
+      `Redis down, ${this.skipIfRedisDown ? 'skipping rate limit' : 'denying request'} for ${identifier}`,
+    );
+    return this.failureResult(limit, now, windowSeconds);
+  }
+
+  // Fail open or closed, as configured
+  private failureResult(
+    limit: number,
+    now: number,
+    windowSeconds: number,
+  ): RateLimitResult {
+    if (this.skipIfRedisDown) {
+      return {
+        allowed: true,
+        remaining: limit,
+        resetTime: now + windowSeconds * 1000,
+      };
+    }
+    return {
+      allowed: false,
+      remaining: 0,
+      resetTime: now + windowSeconds * 1000,
+      retryAfter: windowSeconds,
+    };
+  }
 }
@@ -6,6 +6,8 @@ import {
   refreshToken,
   logoutUser,
 } from './helpers/auth.helper';
+import { waitForMail, extractToken } from './helpers/mail.helper';
+import { TotpService } from '../src/auth/two-factor/totp.service';
 
 describe('Auth (e2e)', () => {
   let app: NestFastifyApplication;
@@ -58,6 +60,23 @@ describe('Auth (e2e)', () => {
       });
 
       expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).violations).toEqual([
+        expect.objectContaining({ rule: 'min_length' }),
+      ]);
+    });
+
+    it('should reject a password equal to the email', async () => {
+      const email = `same-${Date.now()}@example.com`;
+      const response = await app.inject({
+        method: 'POST',
+        url: '/v1/auth/register',
+        payload: { email, password: email },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).violations).toEqual([
+        expect.objectContaining({ rule: 'blocklist' }),
+      ]);
     });
 
     it('should reject duplicate email registration', async () => {
@@ -186,6 +205,21 @@ describe('Auth (e2e)', () => {
       await expect(logoutUser(app, accessToken)).resolves.not.toThrow();
     });
 
+    it('should reject the access token after logout', async () => {
+      const email = `logout-revoked-${Date.now()}@example.com`;
+      const tokens = await registerUser(app, email, 'TestPassword123!');
+
+      await logoutUser(app, tokens.accessToken);
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/v1/auth/sessions',
+        headers: { Authorization: `Bearer ${tokens.accessToken}` },
+      });
+
+      expect(response.statusCode).toBe(401);
+    });
+
     it('should reject logout without token', async () => {
       const response = await app.inject({
         method: 'POST',
@@ -208,6 +242,435 @@ describe('Auth (e2e)', () => {
     });
   });
 
+  describe('Sessions', () => {
+    const email = `sessions-${Date.now()}@example.com`;
+    const password = 'TestPassword123!';
+    let laptop: { accessToken: string; refreshToken: string };
+    let phone: { accessToken: string; refreshToken: string };
+
+    beforeAll(async () => {
+      await registerUser(app, email, password);
+      laptop = await loginUser(app, email, password);
+      phone = await loginUser(app, email, password);
+    });
+
+    it('should keep earlier sessions valid after a new login', async () => {
+      phone = await refreshToken(app, phone.refreshToken);
+      laptop = await refreshToken(app, laptop.refreshToken);
+
+      expect(phone.accessToken).toBeDefined();
+      expect(laptop.accessToken).toBeDefined();
+    });
+
+    it('should list sessions and flag the current one', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/v1/auth/sessions',
+        headers: { Authorization: `Bearer ${laptop.accessToken}` },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const sessions = JSON.parse(response.body);
+      expect(sessions.length).toBeGreaterThanOrEqual(2);
+      expect(sessions.filter((s) => s.current)).toHaveLength(1);
+      expect(sessions[0]).not.toHaveProperty('refreshTokenHash');
+    });
+
+    it('should revoke another session by id', async () => {
+      const list = await app.inject({
+        method: 'GET',
+        url: '/v1/auth/sessions',
+        headers: { Authorization: `Bearer ${phone.accessToken}` },
+      });
+      const current = JSON.parse(list.body).find((s) => s.current);
+
+      const response = await app.inject({
+        method: 'DELETE',
+        url: `/v1/auth/sessions/${current.id}`,
+        headers: { Authorization: `Bearer ${laptop.accessToken}` },
+      });
+
+      expect(response.statusCode).toBe(200);
+      await expect(refreshToken(app, phone.refreshToken)).rejects.toThrow();
+    });
+
+    it('should only end the current session on logout', async () => {
+      const tablet = await loginUser(app, email, password);
+
+      await logoutUser(app, tablet.accessToken);
+
+      await expect(refreshToken(app, tablet.refreshToken)).rejects.toThrow();
+      await expect(
+        refreshToken(app, laptop.refreshToken),
+      ).resolves.toHaveProperty('accessToken');
+    });
+  });
+
+  describe('Refresh token rotation', () => {
+    it('should reject a rotated token and revoke its family', async () => {
+      const email = `rotation-${Date.now()}@example.com`;
+      const password = 'TestPassword123!';
+      const initial = await registerUser(app, email, password);
+
+      const rotated = await refreshToken(app, initial.refreshToken);
+
+      // Replaying the spent token is treated as theft
+      await expect(refreshToken(app, initial.refreshToken)).rejects.toThrow();
+
+      // ...and the whole family is gone, including the newest token
+      await expect(refreshToken(app, rotated.refreshToken)).rejects.toThrow();
+    });
+
+    it('should leave other families untouched on reuse', async () => {
+      const email = `rotation-other-${Date.now()}@example.com`;
+      const password = 'TestPassword123!';
+      const compromised = await registerUser(app, email, password);
+      const other = await loginUser(app, email, password);
+
+      await refreshToken(app, compromised.refreshToken);
+      await expect(
+        refreshToken(app, compromised.refreshToken),
+      ).rejects.toThrow();
+
+      await expect(
+        refreshToken(app, other.refreshToken),
+      ).resolves.toHaveProperty('accessToken');
+    });
+  });
+
+  describe('GET /.well-known/jwks.json', () => {
+    it('should be served without a version prefix or token', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/.well-known/jwks.json',
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body)).toHaveProperty('keys');
+    });
+  });
+
+  describe('Email verification', () => {
+    it('should verify the address with the emailed token once', async () => {
+      const email = `verify-${Date.now()}@example.com`;
+      const { accessToken } = await registerUser(
+        app,
+        email,
+        'TestPassword123!',
+      );
+
+      // Unverified accounts cannot create API keys
+      const blocked = await app.inject({
+        method: 'POST',
+        url: '/v1/api-keys',
+        headers: { Authorization: `Bearer ${accessToken}` },
+        payload: { name: 'CI' },
+      });
+      expect(blocked.statusCode).toBe(403);
+
+      const token = extractToken(
+        await waitForMail(email, 'Verify your email address'),
+      );
+      const verify = () =>
+        app.inject({
+          method: 'POST',
+          url: '/v1/auth/verify-email',
+          payload: { token },
+        });
+
+      expect((await verify()).statusCode).toBe(200);
+      expect((await verify()).statusCode).toBe(400);
+
+      const resend = await app.inject({
+        method: 'POST',
+        url: '/v1/auth/verify-email/resend',
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+      expect(resend.statusCode).toBe(400);
+    });
+  });
+
+  describe('Password reset', () => {
+    const email = `reset-${Date.now()}@example.com`;
+    const password = 'TestPassword123!';
+    const newPassword = 'NewPassword456!';
+
+    it('should answer the same for unknown emails', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/v1/auth/password/forgot',
+        payload: { email: `nobody-${Date.now()}@example.com` },
+      });
+
+      expect(response.statusCode).toBe(202);
+    });
+
+    it('should reset the password once and sign out every session', async () => {
+      const tokens = await registerUser(app, email, password);
+
+      const forgot = await app.inject({
+        method: 'POST',
+        url: '/v1/auth/password/forgot',
+        payload: { email },
+      });
+      expect(forgot.statusCode).toBe(202);
+
+      const token = extractToken(
+        await waitForMail(email, 'Reset your password'),
+      );
+      const reset = () =>
+        app.inject({
+          method: 'POST',
+          url: '/v1/auth/password/reset',
+          payload: { token, password: newPassword },
+        });
+
+      // A rejected password does not spend the link
+      const weak = await app.inject({
+        method: 'POST',
+        url: '/v1/auth/password/reset',
+        payload: { token, password: 'short' },
+      });
+      expect(weak.statusCode).toBe(400);
+
+      expect((await reset()).statusCode).toBe(200);
+      expect((await reset()).statusCode).toBe(400);
+
+      await expect(refreshToken(app, tokens.refreshToken)).rejects.toThrow();
+      await expect(loginUser(app, email, password)).rejects.toThrow();
+      await expect(loginUser(app, email, newPassword)).resolves.toHaveProperty(
+        'accessToken',
+      );
+    });
+  });
+
+  describe('Passwordless sign-in', () => {
+    const email = `magic-${Date.now()}@example.com`;
+    const password = 'TestPassword123!';
+
+    const requestMagicLink = async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/v1/auth/magic-link',
+        payload: { email },
+      });
+      expect(response.statusCode).toBe(202);
+      return waitForMail(email, 'Your sign-in link');
+    };
+    const consume = (payload: Record<string, string>) =>
+      app.inject({
+        method: 'POST',
+        url: '/v1/auth/magic-link/consume',
+        payload,
+      });
+
+    beforeAll(async () => {
+      await registerUser(app, email, password);
+    });
+
+    it('should answer the same for unknown emails', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/v1/auth/magic-link',
+        payload: { email: `nobody-${Date.now()}@example.com` },
+      });
+
+      expect(response.statusCode).toBe(202);
+    });
+
+    it('should sign in once with the link and spend the code with it', async () => {
+      const mail = await requestMagicLink();
+      const token = extractToken(mail);
+      const code = mail.text.match(/code (\d{6})/)?.[1] as string;
+
+      const first = await consume({ token });
+      expect(first.statusCode).toBe(200);
+      expect(JSON.parse(first.body)).toHaveProperty('accessToken');
+
+      expect((await consume({ token })).statusCode).toBe(401);
+      expect((await consume({ email, code })).statusCode).toBe(401);
+    });
+
+    it('should sign in with the emailed code', async () => {
+      const mail = await requestMagicLink();
+      const code = mail.text.match(/code (\d{6})/)?.[1] as string;
+
+      const response = await consume({ email, code });
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body)).toHaveProperty('accessToken');
+    });
+
+    it('should reject malformed requests', async () => {
+      expect((await consume({ email })).statusCode).toBe(400);
+      expect((await consume({ email, code: '12ab' })).statusCode).toBe(400);
+    });
+  });
+
+  describe('Two-factor authentication', () => {
+    const email = `2fa-${Date.now()}@example.com`;
+    const password = 'TestPassword123!';
+    let totp: TotpService;
+    let secret: string;
+    let recoveryCodes: string[];
+
+    beforeAll(async () => {
+      totp = app.get(TotpService);
+      const { accessToken } = await registerUser(app, email, password);
+
+      const enroll = await app.inject({
+        method: 'POST',
+        url: '/v1/auth/2fa/enroll',
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+      secret = JSON.parse(enroll.body).secret;
+
+      const confirm = await app.inject({
+        method: 'POST',
+        url: '/v1/auth/2fa/enroll/confirm',
+        headers: { Authorization: `Bearer ${accessToken}` },
+        payload: { code: totp.generate(secret) },
+      });
+      expect(confirm.statusCode).toBe(200);
+      recoveryCodes = JSON.parse(confirm.body).recoveryCodes;
+    });
+
+    const login = async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/v1/auth/login',
+        payload: { email, password },
+      });
+      return JSON.parse(response.body);
+    };
+
+    const verify = (challengeToken: string, code: string) =>
+      app.inject({
+        method: 'POST',
+        url: '/v1/auth/2fa/verify',
+        payload: { challengeToken, code },
+      });
+
+    it('should return a challenge instead of tokens on login', async () => {
+      const body = await login();
+
+      expect(body.twoFactorRequired).toBe(true);
+      expect(body.challengeToken).toBeDefined();
+      expect(body).not.toHaveProperty('accessToken');
+    });
+
+    it('should complete login with a TOTP code', async () => {
+      const { challengeToken } = await login();
+
+      // The current step was spent on enrollment, use the next one
+      const response = await verify(
+        challengeToken,
+        totp.generate(secret, Date.now() + 30_000),
+      );
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body)).toHaveProperty('accessToken');
+      expect((await verify(challengeToken, '123456')).statusCode).toBe(401);
+    });
+
+    it('should accept a recovery code only once', async () => {
+      const first = await login();
+      expect(
+        (await verify(first.challengeToken, recoveryCodes[0])).statusCode,
+      ).toBe(200);
+
+      const second = await login();
+      expect(
+        (await verify(second.challengeToken, recoveryCodes[0])).statusCode,
+      ).toBe(401);
+    });
+  });
+
+  describe('API keys', () => {
+    let accessToken: string;
+    let key: string;
+    let apiKeyId: string;
+
+    beforeAll(async () => {
+      const email = `api-keys-${Date.now()}@example.com`;
+      const tokens = await registerUser(app, email, 'TestPassword123!');
+      accessToken = tokens.accessToken;
+
+      await app.inject({
+        method: 'POST',
+        url: '/v1/auth/verify-email',
+        payload: {
+          token: extractToken(
+            await waitForMail(email, 'Verify your email address'),
+          ),
+        },
+      });
+    });
+
+    it('should create a key and return the secret once', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/v1/api-keys',
+        headers: { Authorization: `Bearer ${accessToken}` },
+        payload: { name: 'CI' },
+      });
+
+      expect(response.statusCode).toBe(201);
+      const body = JSON.parse(response.body);
+      key = body.key;
+      apiKeyId = body.apiKey.id;
+      expect(key).toMatch(/^hsk_/);
+
+      const list = await app.inject({
+        method: 'GET',
+        url: '/v1/api-keys',
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+      expect(list.body).not.toContain(key);
+    });
+
+    it('should authenticate requests with X-API-Key', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/v1/protected',
+        headers: { 'X-API-Key': key },
+      });
+
+      expect(response.statusCode).toBe(200);
+    });
+
+    it('should not let an API key manage keys', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/v1/api-keys',
+        headers: { 'X-API-Key': key },
+      });
+
+      expect(response.statusCode).toBe(403);
+    });
+
+    it('should reject unknown and revoked keys', async () => {
+      const unknown = await app.inject({
+        method: 'GET',
+        url: '/v1/protected',
+        headers: { 'X-API-Key': 'hsk_000000000000_unknown' },
+      });
+      expect(unknown.statusCode).toBe(401);
+
+      await app.inject({
+        method: 'DELETE',
+        url: `/v1/api-keys/${apiKeyId}`,
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+
+      const revoked = await app.inject({
+        method: 'GET',
+        url: '/v1/protected',
+        headers: { 'X-API-Key': key },
+      });
+      expect(revoked.statusCode).toBe(401);
+    });
+  });
+
   describe('Complete Auth Flow', () => {
     it('should complete full authentication flow', async () => {
       const email = `flow-${Date.now()}@example.com`;
@@ -0,0 +1,49 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+export interface SentMail {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  sentAt: string;
+}
+
+/**
+ * Wait for the newest message the file mail transport wrote for a recipient,
+ * optionally with a given subject
+ */
+export async function waitForMail(
+  to: string,
+  subject?: string,
+  timeoutMs = 5000,
+): Promise<SentMail> {
+  const directory = process.env.MAIL_FILE_DIR as string;
+  const deadline = Date.now() + timeoutMs;
+
+  while (Date.now() < deadline) {
+    const files = await fs.readdir(directory).catch(() => [] as string[]);
+    for (const file of files.sort().reverse()) {
+      const mail = JSON.parse(
+        await fs.readFile(path.join(directory, file), 'utf8'),
+      ) as SentMail;
+      if (mail.to === to && (!subject || mail.subject === subject)) {
+        return mail;
+      }
+    }
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+
+  throw new Error(`No mail sent to ${to} within ${timeoutMs}ms`);
+}
+
+/**
+ * Pull the `token` query parameter out of the first link in a message
+ */
+export function extractToken(mail: SentMail): string {
+  const match = mail.text.match(/https?:\/\/\S+/);
+  if (!match) {
+    throw new Error(`No link found in "${mail.subject}"`);
+  }
+  return new URL(match[0]).searchParams.get('token') as string;
+}
@@ -0,0 +1,179 @@
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { createHash, createHmac, randomBytes } from 'crypto';
+
+export interface MockOidcUser {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+}
+
+interface PendingCode {
+  user: MockOidcUser;
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce?: string;
+}
+
+/**
+ * Minimal OpenID Connect provider for e2e tests: discovery, an authorize
+ * endpoint that signs in `nextUser` without a login page, and a token
+ * endpoint that enforces PKCE (S256) and issues ID tokens.
+ */
+export class MockOidcProvider {
+  nextUser: MockOidcUser = {
+    sub: 'mock-user',
+    email: 'mock@example.com',
+    email_verified: true,
+  };
+
+  private server: Server;
+  private readonly codes = new Map<string, PendingCode>();
+
+  constructor(
+    private readonly clientId: string,
+    private readonly clientSecret: string,
+  ) {}
+
+  get issuer(): string {
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  async start(port = 0): Promise<void> {
+    this.server = createServer((req, res) => {
+      this.handle(req)
+        .then(({ status, headers, body }) => {
+          res.writeHead(status, headers);
+          res.end(body === undefined ? undefined : JSON.stringify(body));
+        })
+        .catch(() => {
+          res.writeHead(500);
+          res.end();
+        });
+    });
+    await new Promise<void>((resolve) =>
+      this.server.listen(port, '127.0.0.1', resolve),
+    );
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  /**
+   * Follow the authorization URL like a browser whose user approves the
+   * login; returns the callback URL the provider redirects to.
+   */
+  async authorize(authorizationUrl: string): Promise<URL> {
+    const response = await fetch(authorizationUrl, { redirect: 'manual' });
+    return new URL(response.headers.get('location') as string);
+  }
+
+  private async handle(req: IncomingMessage): Promise<{
+    status: number;
+    headers?: Record<string, string>;
+    body?: unknown;
+  }> {
+    const url = new URL(req.url as string, this.issuer);
+    const json = { 'Content-Type': 'application/json' };
+
+    if (url.pathname === '/.well-known/openid-configuration') {
+      return {
+        status: 200,
+        headers: json,
+        body: {
+          issuer: this.issuer,
+          authorization_endpoint: `${this.issuer}/authorize`,
+          token_endpoint: `${this.issuer}/token`,
+          response_types_supported: ['code'],
+          code_challenge_methods_supported: ['S256'],
+        },
+      };
+    }
+
+    if (url.pathname === '/authorize') {
+      const params = url.searchParams;
+      if (
+        params.get('client_id') !== this.clientId ||
+        params.get('code_challenge_method') !== 'S256'
+      ) {
+        return { status: 400 };
+      }
+
+      const code = randomBytes(16).toString('hex');
+      this.codes.set(code, {
+        user: { ...this.nextUser },
+        clientId: this.clientId,
+        redirectUri: params.get('redirect_uri') as string,
+        codeChallenge: params.get('code_challenge') as string,
+        nonce: params.get('nonce') ?? undefined,
+      });
+
+      const callback = new URL(params.get('redirect_uri') as string);
+      callback.searchParams.set('code', code);
+      callback.searchParams.set('state', params.get('state') as string);
+      return { status: 302, headers: { Location: callback.toString() } };
+    }
+
+    if (url.pathname === '/token' && req.method === 'POST') {
+      const form = new URLSearchParams(await this.readBody(req));
+      const pending = this.codes.get(form.get('code') ?? '');
+      this.codes.delete(form.get('code') ?? '');
+
+      const verifier = form.get('code_verifier') ?? '';
+      if (
+        !pending ||
+        form.get('client_id') !== this.clientId ||
+        form.get('client_secret') !== this.clientSecret ||
+        form.get('redirect_uri') !== pending.redirectUri ||
+        createHash('sha256').update(verifier).digest('base64url') !==
+          pending.codeChallenge
+      ) {
+        return { status: 400, headers: json, body: { error: 'invalid_grant' } };
+      }
+
+      return {
+        status: 200,
+        headers: json,
+        body: {
+          access_token: randomBytes(16).toString('hex'),
+          token_type: 'Bearer',
+          expires_in: 300,
+          id_token: this.signIdToken(pending),
+        },
+      };
+    }
+
+    return { status: 404 };
+  }
+
+  private signIdToken(pending: PendingCode): string {
+    const now = Math.floor(Date.now() / 1000);
+    const encode = (value: object) =>
+      Buffer.from(JSON.stringify(value)).toString('base64url');
+
+    const unsigned = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode({
+      ...pending.user,
+      iss: this.issuer,
+      aud: pending.clientId,
+      nonce: pending.nonce,
+      iat: now,
+      exp: now + 300,
+    })}`;
+    const signature = createHmac('sha256', this.clientSecret)
+      .update(unsigned)
+      .digest('base64url');
+    return `${unsigned}.${signature}`;
+  }
+
+  private readBody(req: IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => resolve(body));
+      req.on('error', reject);
+    });
+  }
+}
@@ -0,0 +1,156 @@
+import {
+  createHash,
+  createSign,
+  generateKeyPairSync,
+  KeyObject,
+  randomBytes,
+} from 'crypto';
+import { isoCBOR } from '@simplewebauthn/server/helpers';
+import type {
+  AuthenticationResponseJSON,
+  PublicKeyCredentialCreationOptionsJSON,
+  PublicKeyCredentialRequestOptionsJSON,
+  RegistrationResponseJSON,
+} from '@simplewebauthn/server';
+
+interface StoredCredential {
+  id: Buffer;
+  privateKey: KeyObject;
+  userHandle: string;
+  counter: number;
+}
+
+// Authenticator data flags
+const USER_PRESENT = 0x01;
+const USER_VERIFIED = 0x04;
+const ATTESTED_CREDENTIAL_DATA = 0x40;
+
+/**
+ * In-memory ES256 authenticator that answers WebAuthn ceremonies the way a
+ * browser would, with "none" attestation. Keeps its discoverable credentials
+ * so e2e tests can register a passkey and sign in with it.
+ */
+export class SoftwareAuthenticator {
+  private readonly credentials: StoredCredential[] = [];
+
+  constructor(
+    private readonly origin: string,
+    public userVerification = true,
+  ) {}
+
+  createCredential(
+    options: PublicKeyCredentialCreationOptionsJSON,
+  ): RegistrationResponseJSON {
+    const { privateKey, publicKey } = generateKeyPairSync('ec', {
+      namedCurve: 'P-256',
+    });
+    const credential: StoredCredential = {
+      id: randomBytes(32),
+      privateKey,
+      userHandle: options.user.id,
+      counter: 0,
+    };
+    this.credentials.push(credential);
+
+    const jwk = publicKey.export({ format: 'jwk' });
+    const coseKey = isoCBOR.encode(
+      new Map<number, number | Uint8Array>([
+        [1, 2], // kty: EC2
+        [3, -7], // alg: ES256
+        [-1, 1], // crv: P-256
+        [-2, Buffer.from(jwk.x as string, 'base64url')],
+        [-3, Buffer.from(jwk.y as string, 'base64url')],
+      ]),
+    );
+
+    const credentialIdLength = Buffer.alloc(2);
+    credentialIdLength.writeUInt16BE(credential.id.length);
+    const authData = Buffer.concat([
+      this.authDataHeader(
+        options.rp.id as string,
+        ATTESTED_CREDENTIAL_DATA,
+        credential.counter,
+      ),
+      Buffer.alloc(16), // aaguid
+      credentialIdLength,
+      credential.id,
+      Buffer.from(coseKey),
+    ]);
+
+    const attestationObject = isoCBOR.encode(
+      new Map<string, string | Uint8Array | Map<string, string>>([
+        ['fmt', 'none'],
+        ['attStmt', new Map<string, string>()],
+        ['authData', authData],
+      ]),
+    );
+
+    return {
+      id: credential.id.toString('base64url'),
+      rawId: credential.id.toString('base64url'),
+      type: 'public-key',
+      response: {
+        clientDataJSON: this.clientData('webauthn.create', options.challenge),
+        attestationObject: Buffer.from(attestationObject).toString('base64url'),
+        transports: ['internal'],
+      },
+      clientExtensionResults: {},
+    };
+  }
+
+  getAssertion(
+    options: PublicKeyCredentialRequestOptionsJSON,
+  ): AuthenticationResponseJSON {
+    const credential = this.credentials[this.credentials.length - 1];
+    if (!credential) {
+      throw new Error('No credential registered on this authenticator');
+    }
+
+    credential.counter += 1;
+    const authData = this.authDataHeader(
+      options.rpId as string,
+      0,
+      credential.counter,
+    );
+    const clientDataJSON = this.clientData('webauthn.get', options.challenge);
+
+    const signature = createSign('sha256')
+      .update(
+        Buffer.concat([
+          authData,
+          createHash('sha256')
+            .update(Buffer.from(clientDataJSON, 'base64url'))
+            .digest(),
+        ]),
+      )
+      .sign(credential.privateKey);
+
+    return {
+      id: credential.id.toString('base64url'),
+      rawId: credential.id.toString('base64url'),
+      type: 'public-key',
+      response: {
+        clientDataJSON,
+        authenticatorData: authData.toString('base64url'),
+        signature: signature.toString('base64url'),
+        userHandle: credential.userHandle,
+      },
+      clientExtensionResults: {},
+    };
+  }
+
+  private authDataHeader(rpId: string, flags: number, counter: number): Buffer {
+    const header = Buffer.alloc(37);
+    createHash('sha256').update(rpId).digest().copy(header, 0);
+    header[32] =
+      flags | USER_PRESENT | (this.userVerification ? USER_VERIFIED : 0);
+    header.writeUInt32BE(counter, 33);
+    return header;
+  }
+
+  private clientData(type: string, challenge: string): string {
+    return Buffer.from(
+      JSON.stringify({ type, challenge, origin: this.origin }),
+    ).toString('base64url');
+  }
+}
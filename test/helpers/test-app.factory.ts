@@ -35,6 +35,9 @@ export async function createTestApp(): Promise<NestFastifyApplication> {
     credentials: true,
   });
 
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  await app.register(require('@fastify/formbody'));
+
   app.enableVersioning({
     type: VersioningType.URI,
     defaultVersion: '1', // Use numeric version for @Version() decorator
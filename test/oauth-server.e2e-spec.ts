@@ -0,0 +1,272 @@
+import { NestFastifyApplication } from '@nestjs/platform-fastify';
+import { createHash, randomBytes } from 'crypto';
+import { createTestApp } from './helpers/test-app.factory';
+import { registerUser } from './helpers/auth.helper';
+import { OAuthClientsService } from '../src/auth/authorization-server/oauth-clients.service';
+
+const REDIRECT_URI = 'https://client.example.com/callback';
+
+describe('OAuth2 authorization server (e2e)', () => {
+  let app: NestFastifyApplication;
+  let userToken: string;
+  let clientId: string;
+  let clientSecret: string;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+
+    ({ accessToken: userToken } = await registerUser(
+      app,
+      `oauth-server-${Date.now()}@example.com`,
+      'TestPassword123!',
+    ));
+
+    const created = await app.get(OAuthClientsService).create(
+      {
+        name: 'E2E client',
+        redirectUris: [REDIRECT_URI],
+        grantTypes: ['authorization_code', 'client_credentials'],
+        scopes: ['openid', 'email', 'users:read'],
+        confidential: true,
+      },
+      'e2e',
+    );
+    clientId = created.client.clientId;
+    clientSecret = created.clientSecret as string;
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  const basicAuth = () =>
+    `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString('base64')}`;
+
+  const pkce = () => {
+    const verifier = randomBytes(32).toString('base64url');
+    return {
+      verifier,
+      challenge: createHash('sha256').update(verifier).digest('base64url'),
+    };
+  };
+
+  const approve = (challenge: string, approveRequest = true) =>
+    app.inject({
+      method: 'POST',
+      url: '/v1/oauth/authorize',
+      headers: { authorization: `Bearer ${userToken}` },
+      payload: {
+        client_id: clientId,
+        redirect_uri: REDIRECT_URI,
+        response_type: 'code',
+        scope: 'openid email',
+        state: 'state-123',
+        code_challenge: challenge,
+        code_challenge_method: 'S256',
+        approve: approveRequest,
+      },
+    });
+
+  const requestToken = (form: Record<string, string>) =>
+    app.inject({
+      method: 'POST',
+      url: '/v1/oauth/token',
+      headers: {
+        authorization: basicAuth(),
+        'content-type': 'application/x-www-form-urlencoded',
+      },
+      payload: new URLSearchParams(form).toString(),
+    });
+
+  const introspect = (token: string) =>
+    app.inject({
+      method: 'POST',
+      url: '/v1/oauth/introspect',
+      headers: {
+        authorization: basicAuth(),
+        'content-type': 'application/x-www-form-urlencoded',
+      },
+      payload: new URLSearchParams({ token }).toString(),
+    });
+
+  it('should publish a discovery document', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: '/.well-known/openid-configuration',
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toMatchObject({
+      token_endpoint: expect.stringContaining('/v1/oauth/token'),
+      introspection_endpoint: expect.stringContaining('/v1/oauth/introspect'),
+      code_challenge_methods_supported: ['S256'],
+    });
+  });
+
+  describe('GET /v1/oauth/authorize', () => {
+    it('should send valid requests to the consent page', async () => {
+      const { challenge } = pkce();
+      const response = await app.inject({
+        method: 'GET',
+        url: `/v1/oauth/authorize?${new URLSearchParams({
+          client_id: clientId,
+          redirect_uri: REDIRECT_URI,
+          response_type: 'code',
+          code_challenge: challenge,
+          code_challenge_method: 'S256',
+        }).toString()}`,
+      });
+
+      expect(response.statusCode).toBe(302);
+      const location = new URL(response.headers.location as string);
+      expect(location.searchParams.get('client_name')).toBe('E2E client');
+    });
+
+    it('should not redirect to an unregistered redirect URI', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: `/v1/oauth/authorize?client_id=${clientId}&redirect_uri=https://evil.example.com&response_type=code`,
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().error).toBe('invalid_request');
+    });
+
+    it('should report a missing PKCE challenge to the client', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: `/v1/oauth/authorize?${new URLSearchParams({
+          client_id: clientId,
+          redirect_uri: REDIRECT_URI,
+          response_type: 'code',
+          state: 'abc',
+        }).toString()}`,
+      });
+
+      const location = new URL(response.headers.location as string);
+      expect(location.origin + location.pathname).toBe(REDIRECT_URI);
+      expect(location.searchParams.get('error')).toBe('invalid_request');
+      expect(location.searchParams.get('state')).toBe('abc');
+    });
+  });
+
+  describe('authorization code flow', () => {
+    it('should issue tokens for an approved request', async () => {
+      const { verifier, challenge } = pkce();
+      const approval = await approve(challenge);
+      expect(approval.statusCode).toBe(200);
+
+      const redirectTo = new URL(approval.json().redirectTo);
+      expect(redirectTo.searchParams.get('state')).toBe('state-123');
+
+      const response = await requestToken({
+        grant_type: 'authorization_code',
+        code: redirectTo.searchParams.get('code') as string,
+        redirect_uri: REDIRECT_URI,
+        code_verifier: verifier,
+      });
+      expect(response.statusCode).toBe(200);
+      expect(response.headers['cache-control']).toBe('no-store');
+
+      const tokens = response.json();
+      expect(tokens).toMatchObject({
+        token_type: 'Bearer',
+        scope: 'openid email',
+      });
+      expect(tokens.id_token).toBeDefined();
+
+      const userinfo = await app.inject({
+        method: 'GET',
+        url: '/v1/oauth/userinfo',
+        headers: { authorization: `Bearer ${tokens.access_token}` },
+      });
+      expect(userinfo.statusCode).toBe(200);
+      expect(userinfo.json()).toHaveProperty('email');
+
+      const introspection = await introspect(tokens.access_token);
+      expect(introspection.json()).toMatchObject({
+        active: true,
+        client_id: clientId,
+        scope: 'openid email',
+      });
+
+      // The ID token is for the client, not for calling the API
+      const withIdToken = await app.inject({
+        method: 'GET',
+        url: '/v1/oauth/userinfo',
+        headers: { authorization: `Bearer ${tokens.id_token}` },
+      });
+      expect(withIdToken.statusCode).toBe(401);
+    });
+
+    it('should reject a code redeemed with the wrong verifier', async () => {
+      const { challenge } = pkce();
+      const approval = await approve(challenge);
+      const code = new URL(approval.json().redirectTo).searchParams.get('code');
+
+      const response = await requestToken({
+        grant_type: 'authorization_code',
+        code: code as string,
+        redirect_uri: REDIRECT_URI,
+        code_verifier: pkce().verifier,
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().error).toBe('invalid_grant');
+    });
+
+    it('should send access_denied when the user declines', async () => {
+      const approval = await approve(pkce().challenge, false);
+
+      const redirectTo = new URL(approval.json().redirectTo);
+      expect(redirectTo.searchParams.get('error')).toBe('access_denied');
+      expect(redirectTo.searchParams.get('code')).toBeNull();
+    });
+  });
+
+  describe('client_credentials', () => {
+    it('should issue a token limited to permission routes', async () => {
+      const response = await requestToken({
+        grant_type: 'client_credentials',
+        scope: 'users:read',
+      });
+      expect(response.statusCode).toBe(200);
+      const { access_token } = response.json();
+
+      expect((await introspect(access_token)).json()).toMatchObject({
+        active: true,
+        sub: clientId,
+      });
+
+      const sessions = await app.inject({
+        method: 'GET',
+        url: '/v1/auth/sessions',
+        headers: { authorization: `Bearer ${access_token}` },
+      });
+      expect(sessions.statusCode).toBe(403);
+    });
+
+    it('should reject a wrong client secret', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/v1/oauth/token',
+        headers: { 'content-type': 'application/x-www-form-urlencoded' },
+        payload: new URLSearchParams({
+          grant_type: 'client_credentials',
+          client_id: clientId,
+          client_secret: 'ocs_wrong',
+        }).toString(),
+      });
+
+      expect(response.statusCode).toBe(401);
+      expect(response.json().error).toBe('invalid_client');
+    });
+  });
+
+  it('should report unknown tokens as inactive', async () => {
+    const response = await introspect('not-a-token');
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toEqual({ active: false });
+  });
+});
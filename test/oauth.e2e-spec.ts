@@ -0,0 +1,182 @@
+import { NestFastifyApplication } from '@nestjs/platform-fastify';
+import { createTestApp } from './helpers/test-app.factory';
+import { registerUser } from './helpers/auth.helper';
+import { waitForMail, extractToken } from './helpers/mail.helper';
+import { MockOidcProvider } from './helpers/mock-oidc-provider';
+
+describe('Social login (e2e)', () => {
+  let app: NestFastifyApplication;
+  let provider: MockOidcProvider;
+
+  beforeAll(async () => {
+    provider = new MockOidcProvider(
+      process.env.OAUTH_OIDC_CLIENT_ID as string,
+      process.env.OAUTH_OIDC_CLIENT_SECRET as string,
+    );
+    await provider.start(
+      Number(new URL(process.env.OAUTH_OIDC_ISSUER as string).port),
+    );
+    app = await createTestApp();
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await provider.stop();
+  });
+
+  /**
+   * Run the whole browser round trip and return the callback response
+   */
+  const signIn = async () => {
+    const start = await app.inject({
+      method: 'GET',
+      url: '/v1/auth/oauth/mock',
+    });
+    expect(start.statusCode).toBe(302);
+
+    const callback = await provider.authorize(start.headers.location as string);
+    return app.inject({
+      method: 'GET',
+      url: `${callback.pathname}${callback.search}`,
+    });
+  };
+
+  const listIdentities = (accessToken: string) =>
+    app.inject({
+      method: 'GET',
+      url: '/v1/auth/oauth/identities',
+      headers: { authorization: `Bearer ${accessToken}` },
+    });
+
+  it('should list the configured provider', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: '/v1/auth/oauth/providers',
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json().providers).toContain('mock');
+  });
+
+  it('should redirect to the provider with a PKCE challenge', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: '/v1/auth/oauth/mock',
+    });
+
+    const location = new URL(response.headers.location as string);
+    expect(location.origin).toBe(provider.issuer);
+    expect(location.searchParams.get('code_challenge_method')).toBe('S256');
+    expect(location.searchParams.get('state')).toBeTruthy();
+  });
+
+  it('should return 404 for an unknown provider', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: '/v1/auth/oauth/unknown',
+    });
+
+    expect(response.statusCode).toBe(404);
+  });
+
+  it('should create an account on first login and reuse it afterwards', async () => {
+    provider.nextUser = {
+      sub: `new-${Date.now()}`,
+      email: `social-${Date.now()}@example.com`,
+      email_verified: true,
+    };
+
+    const first = await signIn();
+    expect(first.statusCode).toBe(200);
+    expect(first.json()).toHaveProperty('accessToken');
+    expect(first.json()).toHaveProperty('refreshToken');
+
+    const second = await signIn();
+    expect(second.statusCode).toBe(200);
+
+    const identities = await listIdentities(second.json().accessToken);
+    expect(identities.json()).toHaveLength(1);
+    expect(identities.json()[0]).toMatchObject({
+      provider: 'mock',
+      email: provider.nextUser.email,
+    });
+  });
+
+  it('should link to an existing account with the same verified email', async () => {
+    const email = `linked-${Date.now()}@example.com`;
+    const { accessToken } = await registerUser(app, email, 'TestPassword123!');
+    const token = extractToken(
+      await waitForMail(email, 'Verify your email address'),
+    );
+    await app.inject({
+      method: 'POST',
+      url: '/v1/auth/verify-email',
+      payload: { token },
+    });
+
+    provider.nextUser = {
+      sub: `linked-${Date.now()}`,
+      email,
+      email_verified: true,
+    };
+    const response = await signIn();
+    expect(response.statusCode).toBe(200);
+
+    const identities = await listIdentities(accessToken);
+    expect(identities.json()).toHaveLength(1);
+  });
+
+  it('should refuse to link when the provider has not verified the email', async () => {
+    const email = `unverified-${Date.now()}@example.com`;
+    await registerUser(app, email, 'TestPassword123!');
+
+    provider.nextUser = {
+      sub: `attacker-${Date.now()}`,
+      email,
+      email_verified: false,
+    };
+    const response = await signIn();
+
+    expect(response.statusCode).toBe(409);
+  });
+
+  it('should reject a callback with an unknown state', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: '/v1/auth/oauth/mock/callback?code=abc&state=forged',
+    });
+
+    expect(response.statusCode).toBe(401);
+  });
+
+  it('should not redeem the same callback twice', async () => {
+    const start = await app.inject({
+      method: 'GET',
+      url: '/v1/auth/oauth/mock',
+    });
+    const callback = await provider.authorize(start.headers.location as string);
+    const url = `${callback.pathname}${callback.search}`;
+
+    expect((await app.inject({ method: 'GET', url })).statusCode).toBe(200);
+    expect((await app.inject({ method: 'GET', url })).statusCode).toBe(401);
+  });
+
+  it('should unlink an identity', async () => {
+    provider.nextUser = {
+      sub: `unlink-${Date.now()}`,
+      email: `unlink-${Date.now()}@example.com`,
+      email_verified: true,
+    };
+    const { accessToken } = (await signIn()).json();
+    const [identity] = (await listIdentities(accessToken)).json();
+
+    const response = await app.inject({
+      method: 'DELETE',
+      url: `/v1/auth/oauth/identities/${identity.id}`,
+      headers: { authorization: `Bearer ${accessToken}` },
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect((await listIdentities(accessToken)).json()).toHaveLength(0);
+  });
+});
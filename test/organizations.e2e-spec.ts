@@ -0,0 +1,200 @@
+import { NestFastifyApplication } from '@nestjs/platform-fastify';
+import { createTestApp } from './helpers/test-app.factory';
+import { registerUser, refreshToken } from './helpers/auth.helper';
+import { waitForMail, extractToken } from './helpers/mail.helper';
+
+describe('Organizations (e2e)', () => {
+  let app: NestFastifyApplication;
+  const password = 'TestPassword123!';
+
+  beforeAll(async () => {
+    app = await createTestApp();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  const request = (
+    method: 'GET' | 'POST' | 'PATCH' | 'DELETE',
+    url: string,
+    token?: string,
+    payload?: object,
+    headers: Record<string, string> = {},
+  ) =>
+    app.inject({
+      method,
+      url,
+      payload,
+      headers: token
+        ? { ...headers, authorization: `Bearer ${token}` }
+        : headers,
+    });
+
+  // Registers a user whose address is verified, as accepting invites requires
+  const registerVerified = async (email: string) => {
+    const tokens = await registerUser(app, email, password);
+    await request('POST', '/v1/auth/verify-email', undefined, {
+      token: extractToken(
+        await waitForMail(email, 'Verify your email address'),
+      ),
+    });
+    return tokens;
+  };
+
+  const createOrg = async (token: string, name = 'Acme') =>
+    JSON.parse((await request('POST', '/v1/orgs', token, { name })).body);
+
+  it('should make the creator owner and list the organization', async () => {
+    const { accessToken } = await registerUser(
+      app,
+      `org-owner-${Date.now()}@example.com`,
+      password,
+    );
+
+    const created = await request('POST', '/v1/orgs', accessToken, {
+      name: 'Acme',
+    });
+    expect(created.statusCode).toBe(201);
+    expect(JSON.parse(created.body)).toMatchObject({
+      name: 'Acme',
+      role: 'owner',
+    });
+
+    const list = await request('GET', '/v1/orgs', accessToken);
+    expect(JSON.parse(list.body)).toHaveLength(1);
+  });
+
+  it('should invite a user who joins with the emailed token', async () => {
+    const owner = await registerUser(
+      app,
+      `invite-owner-${Date.now()}@example.com`,
+      password,
+    );
+    const inviteeEmail = `invitee-${Date.now()}@example.com`;
+    const invitee = await registerVerified(inviteeEmail);
+    const org = await createOrg(owner.accessToken);
+
+    const invite = await request(
+      'POST',
+      `/v1/orgs/${org.id}/invites`,
+      owner.accessToken,
+      { email: inviteeEmail, role: 'admin' },
+    );
+    expect(invite.statusCode).toBe(201);
+
+    const accepted = await request(
+      'POST',
+      '/v1/orgs/invites/accept',
+      invitee.accessToken,
+      {
+        token: extractToken(
+          await waitForMail(inviteeEmail, 'You are invited to join Acme'),
+        ),
+      },
+    );
+    expect(accepted.statusCode).toBe(200);
+    expect(JSON.parse(accepted.body)).toMatchObject({
+      id: org.id,
+      role: 'admin',
+    });
+
+    const members = await request(
+      'GET',
+      `/v1/orgs/${org.id}/members`,
+      invitee.accessToken,
+    );
+    expect(JSON.parse(members.body)).toHaveLength(2);
+  });
+
+  it('should hide organizations from non-members', async () => {
+    const owner = await registerUser(
+      app,
+      `hidden-owner-${Date.now()}@example.com`,
+      password,
+    );
+    const stranger = await registerUser(
+      app,
+      `stranger-${Date.now()}@example.com`,
+      password,
+    );
+    const org = await createOrg(owner.accessToken);
+
+    const response = await request(
+      'GET',
+      `/v1/orgs/${org.id}`,
+      stranger.accessToken,
+    );
+    expect(response.statusCode).toBe(404);
+  });
+
+  describe('tenant selection', () => {
+    it('should act for the organization in X-Org-Id', async () => {
+      const { accessToken } = await registerUser(
+        app,
+        `header-${Date.now()}@example.com`,
+        password,
+      );
+      const org = await createOrg(accessToken);
+
+      const none = await request('GET', '/v1/orgs/current', accessToken);
+      expect(none.statusCode).toBe(404);
+
+      const current = await request(
+        'GET',
+        '/v1/orgs/current',
+        accessToken,
+        undefined,
+        { 'x-org-id': org.id },
+      );
+      expect(current.statusCode).toBe(200);
+      expect(JSON.parse(current.body)).toMatchObject({ id: org.id });
+    });
+
+    it("should refuse another organization's X-Org-Id", async () => {
+      const owner = await registerUser(
+        app,
+        `foreign-owner-${Date.now()}@example.com`,
+        password,
+      );
+      const other = await registerUser(
+        app,
+        `foreign-other-${Date.now()}@example.com`,
+        password,
+      );
+      const org = await createOrg(owner.accessToken);
+
+      const response = await request(
+        'GET',
+        '/v1/users/me',
+        other.accessToken,
+        undefined,
+        { 'x-org-id': org.id },
+      );
+      expect(response.statusCode).toBe(403);
+    });
+
+    it('should keep the organization a session switched to across refreshes', async () => {
+      const { accessToken } = await registerUser(
+        app,
+        `switch-${Date.now()}@example.com`,
+        password,
+      );
+      const org = await createOrg(accessToken);
+
+      const switched = await request('POST', '/v1/orgs/switch', accessToken, {
+        orgId: org.id,
+      });
+      expect(switched.statusCode).toBe(200);
+      const tokens = JSON.parse(switched.body);
+
+      const refreshed = await refreshToken(app, tokens.refreshToken);
+      const current = await request(
+        'GET',
+        '/v1/orgs/current',
+        refreshed.accessToken,
+      );
+      expect(JSON.parse(current.body)).toMatchObject({ id: org.id });
+    });
+  });
+});
@@ -1,5 +1,7 @@
 // Global test setup
 // This runs before all E2E tests
+import { tmpdir } from 'os';
+import { join } from 'path';
 
 // Set test environment variables
 process.env.NODE_ENV = 'test';
@@ -22,6 +24,18 @@ process.env.RATE_LIMIT_ENABLED = 'true';
 process.env.RATE_LIMIT_WINDOW_MS = '60000';
 process.env.RATE_LIMIT_MAX_REQUESTS = '100';
 process.env.LOG_LEVEL = 'error'; // Reduce log noise in tests
+// Outgoing mail is written to disk so tests can read links from it
+process.env.MAIL_TRANSPORT = 'file';
+process.env.MAIL_FILE_DIR = join(tmpdir(), `api-e2e-mail-${process.pid}`);
+// Social login against the mock provider started by oauth.e2e-spec.ts
+process.env.OAUTH_OIDC_ISSUER = 'http://127.0.0.1:4010';
+process.env.OAUTH_OIDC_NAME = 'mock';
+process.env.OAUTH_OIDC_CLIENT_ID = 'e2e-client';
+process.env.OAUTH_OIDC_CLIENT_SECRET = 'e2e-secret';
+
+// Passkeys are exercised by a software authenticator posing as this origin
+process.env.WEBAUTHN_RP_ID = 'localhost';
+process.env.WEBAUTHN_ORIGINS = 'http://localhost:3000';
 
 // Increase timeout for E2E tests
 jest.setTimeout(30000);
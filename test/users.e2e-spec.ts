@@ -0,0 +1,267 @@
+import { NestFastifyApplication } from '@nestjs/platform-fastify';
+import { createTestApp } from './helpers/test-app.factory';
+import { registerUser, loginUser } from './helpers/auth.helper';
+import { waitForMail, extractToken } from './helpers/mail.helper';
+
+describe('Account self-service (e2e)', () => {
+  let app: NestFastifyApplication;
+  const password = 'TestPassword123!';
+
+  beforeAll(async () => {
+    app = await createTestApp();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  const request = (
+    method: 'GET' | 'POST' | 'PATCH' | 'DELETE',
+    url: string,
+    token?: string,
+    payload?: object,
+  ) =>
+    app.inject({
+      method,
+      url,
+      payload,
+      headers: token ? { authorization: `Bearer ${token}` } : {},
+    });
+
+  describe('/v1/users/me', () => {
+    it('should show and update the profile', async () => {
+      const email = `profile-${Date.now()}@example.com`;
+      const { accessToken } = await registerUser(app, email, password);
+
+      const profile = await request('GET', '/v1/users/me', accessToken);
+      expect(profile.statusCode).toBe(200);
+      expect(JSON.parse(profile.body)).toMatchObject({
+        email,
+        emailVerified: false,
+        displayName: null,
+      });
+
+      const updated = await request('PATCH', '/v1/users/me', accessToken, {
+        displayName: 'Jane Doe',
+        locale: 'en-GB',
+        timezone: 'Europe/London',
+      });
+      expect(updated.statusCode).toBe(200);
+      expect(JSON.parse(updated.body)).toMatchObject({
+        displayName: 'Jane Doe',
+        locale: 'en-GB',
+        timezone: 'Europe/London',
+      });
+
+      // Omitted fields stay, null clears
+      const cleared = await request('PATCH', '/v1/users/me', accessToken, {
+        displayName: null,
+      });
+      expect(JSON.parse(cleared.body)).toMatchObject({
+        displayName: null,
+        locale: 'en-GB',
+      });
+    });
+
+    it('should reject an unknown time zone', async () => {
+      const { accessToken } = await registerUser(
+        app,
+        `tz-${Date.now()}@example.com`,
+        password,
+      );
+
+      const response = await request('PATCH', '/v1/users/me', accessToken, {
+        timezone: 'Mars/Olympus_Mons',
+      });
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should require authentication', async () => {
+      const response = await request('GET', '/v1/users/me');
+      expect(response.statusCode).toBe(401);
+    });
+  });
+
+  describe('/v1/users/me/password', () => {
+    it('should change the password and end every session', async () => {
+      const email = `change-password-${Date.now()}@example.com`;
+      const { accessToken } = await registerUser(app, email, password);
+
+      const response = await request(
+        'POST',
+        '/v1/users/me/password',
+        accessToken,
+        { currentPassword: password, newPassword: 'AnotherPassword456!' },
+      );
+      expect(response.statusCode).toBe(200);
+
+      const stale = await request('GET', '/v1/users/me', accessToken);
+      expect(stale.statusCode).toBe(401);
+
+      await expect(loginUser(app, email, password)).rejects.toThrow();
+      await expect(
+        loginUser(app, email, 'AnotherPassword456!'),
+      ).resolves.toHaveProperty('accessToken');
+    });
+
+    it('should refuse a wrong current password', async () => {
+      const { accessToken } = await registerUser(
+        app,
+        `wrong-current-${Date.now()}@example.com`,
+        password,
+      );
+
+      const response = await request(
+        'POST',
+        '/v1/users/me/password',
+        accessToken,
+        { currentPassword: 'not-it', newPassword: 'AnotherPassword456!' },
+      );
+      expect(response.statusCode).toBe(400);
+    });
+  });
+
+  describe('/v1/users/me/email', () => {
+    it('should change the email once the new address confirms', async () => {
+      const email = `old-${Date.now()}@example.com`;
+      const newEmail = `new-${Date.now()}@example.com`;
+      const { accessToken } = await registerUser(app, email, password);
+
+      const response = await request(
+        'POST',
+        '/v1/users/me/email',
+        accessToken,
+        {
+          newEmail,
+          currentPassword: password,
+        },
+      );
+      expect(response.statusCode).toBe(202);
+
+      // Nothing changes before confirmation
+      const pending = await request('GET', '/v1/users/me', accessToken);
+      expect(JSON.parse(pending.body)).toMatchObject({
+        email,
+        pendingEmail: newEmail,
+      });
+
+      const confirm = await request(
+        'POST',
+        '/v1/users/email-change/confirm',
+        undefined,
+        {
+          token: extractToken(
+            await waitForMail(newEmail, 'Confirm your new email address'),
+          ),
+        },
+      );
+      expect(confirm.statusCode).toBe(200);
+
+      const profile = await request('GET', '/v1/users/me', accessToken);
+      expect(JSON.parse(profile.body)).toMatchObject({
+        email: newEmail,
+        emailVerified: true,
+        pendingEmail: null,
+      });
+      await expect(loginUser(app, newEmail, password)).resolves.toHaveProperty(
+        'accessToken',
+      );
+    });
+
+    it('should refuse an address that is already taken', async () => {
+      const taken = `taken-${Date.now()}@example.com`;
+      await registerUser(app, taken, password);
+      const { accessToken } = await registerUser(
+        app,
+        `other-${Date.now()}@example.com`,
+        password,
+      );
+
+      const response = await request(
+        'POST',
+        '/v1/users/me/email',
+        accessToken,
+        {
+          newEmail: taken,
+          currentPassword: password,
+        },
+      );
+      expect(response.statusCode).toBe(409);
+    });
+  });
+
+  describe('/v1/users/me/export', () => {
+    it('should build a downloadable archive of the account', async () => {
+      const email = `export-${Date.now()}@example.com`;
+      const { accessToken } = await registerUser(app, email, password);
+
+      const started = await request('POST', '/v1/users/me/export', accessToken);
+      expect(started.statusCode).toBe(202);
+      const { id } = JSON.parse(started.body);
+
+      let job = JSON.parse(started.body);
+      for (let i = 0; i < 20 && job.status === 'pending'; i++) {
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        job = JSON.parse(
+          (await request('GET', `/v1/users/me/export/${id}`, accessToken)).body,
+        );
+      }
+      expect(job).toMatchObject({
+        status: 'ready',
+        downloadUrl: `/v1/users/me/export/${id}/download`,
+      });
+
+      const download = await request('GET', job.downloadUrl, accessToken);
+      expect(download.statusCode).toBe(200);
+      expect(download.headers['content-disposition']).toContain('attachment');
+      const archive = JSON.parse(download.body);
+      expect(archive.account.email).toBe(email);
+      expect(archive.account).not.toHaveProperty('password');
+      expect(archive.sessions).toHaveLength(1);
+    });
+
+    it("should not show another user's export", async () => {
+      const owner = await registerUser(
+        app,
+        `export-owner-${Date.now()}@example.com`,
+        password,
+      );
+      const other = await registerUser(
+        app,
+        `export-other-${Date.now()}@example.com`,
+        password,
+      );
+
+      const started = await request(
+        'POST',
+        '/v1/users/me/export',
+        owner.accessToken,
+      );
+      const { id } = JSON.parse(started.body);
+
+      const response = await request(
+        'GET',
+        `/v1/users/me/export/${id}`,
+        other.accessToken,
+      );
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('DELETE /v1/users/me', () => {
+    it('should lock the account out until it is erased', async () => {
+      const email = `delete-${Date.now()}@example.com`;
+      const { accessToken } = await registerUser(app, email, password);
+
+      const response = await request('DELETE', '/v1/users/me', accessToken, {
+        currentPassword: password,
+      });
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body)).toHaveProperty('eraseAfter');
+
+      const stale = await request('GET', '/v1/users/me', accessToken);
+      expect(stale.statusCode).toBe(401);
+      await expect(loginUser(app, email, password)).rejects.toThrow();
+    });
+  });
+});
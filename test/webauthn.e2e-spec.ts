@@ -0,0 +1,149 @@
+import { NestFastifyApplication } from '@nestjs/platform-fastify';
+import { createTestApp } from './helpers/test-app.factory';
+import { registerUser } from './helpers/auth.helper';
+import { waitForMail, extractToken } from './helpers/mail.helper';
+import { SoftwareAuthenticator } from './helpers/software-authenticator';
+
+describe('Passkeys (e2e)', () => {
+  let app: NestFastifyApplication;
+  let authenticator: SoftwareAuthenticator;
+  let accessToken: string;
+  const email = `passkey-${Date.now()}@example.com`;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+    authenticator = new SoftwareAuthenticator(
+      process.env.WEBAUTHN_ORIGINS as string,
+    );
+
+    accessToken = (await registerUser(app, email, 'TestPassword123!'))
+      .accessToken;
+    await app.inject({
+      method: 'POST',
+      url: '/v1/auth/verify-email',
+      payload: {
+        token: extractToken(
+          await waitForMail(email, 'Verify your email address'),
+        ),
+      },
+    });
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  const post = (url: string, payload?: object, token?: string) =>
+    app.inject({
+      method: 'POST',
+      url,
+      payload,
+      headers: token ? { authorization: `Bearer ${token}` } : {},
+    });
+
+  const registerPasskey = async () => {
+    const options = await post(
+      '/v1/auth/webauthn/registration/options',
+      undefined,
+      accessToken,
+    );
+    expect(options.statusCode).toBe(200);
+
+    return post(
+      '/v1/auth/webauthn/registration',
+      {
+        response: authenticator.createCredential(JSON.parse(options.body)),
+        name: 'Software key',
+      },
+      accessToken,
+    );
+  };
+
+  const signIn = async () => {
+    const options = await post('/v1/auth/webauthn/authentication/options');
+    expect(options.statusCode).toBe(200);
+
+    const assertion = authenticator.getAssertion(JSON.parse(options.body));
+    return {
+      assertion,
+      response: await post('/v1/auth/webauthn/authentication', {
+        response: assertion,
+      }),
+    };
+  };
+
+  it('should register a passkey and list it', async () => {
+    const response = await registerPasskey();
+    expect(response.statusCode).toBe(201);
+    expect(JSON.parse(response.body)).toMatchObject({ name: 'Software key' });
+
+    const list = await app.inject({
+      method: 'GET',
+      url: '/v1/auth/webauthn/credentials',
+      headers: { authorization: `Bearer ${accessToken}` },
+    });
+    expect(JSON.parse(list.body)).toHaveLength(1);
+  });
+
+  it('should sign in with the passkey', async () => {
+    const { response } = await signIn();
+
+    expect(response.statusCode).toBe(200);
+    const tokens = JSON.parse(response.body);
+    expect(tokens).toHaveProperty('accessToken');
+
+    const sessions = await app.inject({
+      method: 'GET',
+      url: '/v1/auth/sessions',
+      headers: { authorization: `Bearer ${tokens.accessToken}` },
+    });
+    expect(sessions.statusCode).toBe(200);
+  });
+
+  it('should not accept the same assertion twice', async () => {
+    const { assertion, response } = await signIn();
+    expect(response.statusCode).toBe(200);
+
+    const replay = await post('/v1/auth/webauthn/authentication', {
+      response: assertion,
+    });
+    expect(replay.statusCode).toBe(401);
+  });
+
+  it('should reject a registration without a pending ceremony', async () => {
+    const response = await post(
+      '/v1/auth/webauthn/registration',
+      {
+        response: new SoftwareAuthenticator(
+          process.env.WEBAUTHN_ORIGINS as string,
+        ).createCredential({
+          challenge: 'never-issued',
+          rp: { id: 'localhost', name: 'High-Scale API' },
+          user: { id: 'dXNlcg', name: email, displayName: '' },
+          pubKeyCredParams: [],
+        }),
+      },
+      accessToken,
+    );
+    expect(response.statusCode).toBe(400);
+  });
+
+  it('should stop signing in once the passkey is removed', async () => {
+    const list = await app.inject({
+      method: 'GET',
+      url: '/v1/auth/webauthn/credentials',
+      headers: { authorization: `Bearer ${accessToken}` },
+    });
+    const [credential] = JSON.parse(list.body);
+
+    const removed = await app.inject({
+      method: 'DELETE',
+      url: `/v1/auth/webauthn/credentials/${credential.id}`,
+      headers: { authorization: `Bearer ${accessToken}` },
+    });
+    expect(removed.statusCode).toBe(200);
+
+    const { response } = await signIn();
+    expect(response.statusCode).toBe(401);
+  });
+});